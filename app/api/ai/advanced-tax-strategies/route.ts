@@ -171,7 +171,7 @@ export async function POST(request: NextRequest) {
       hasBusinessIncome: hasBusinessIncome(taxReturn),
       hasInvestmentIncome: hasInvestmentIncome(taxReturn),
       hasRetirementAccounts: hasRetirementAccounts(taxReturn),
-      currentYear: 2025
+      currentYear: taxReturn?.taxYear || 2025
     }
 
     console.log('🧠 Advanced Tax Strategy Analysis for profile:', profile)
@@ -35,7 +35,7 @@ export async function POST(request: NextRequest) {
       hasBusinessIncome: hasBusinessIncome(taxReturn),
       hasInvestmentIncome: hasInvestmentIncome(taxReturn),
       hasRetirementAccounts: hasRetirementAccounts(taxReturn),
-      currentYear: 2025
+      currentYear: taxReturn?.taxYear || 2025
     }
 
     // Get expert strategies for context
@@ -27,7 +27,7 @@ export async function POST(request: NextRequest) {
       currentDeductions: currentItemizedDeductions,
       dependentCount: dependents?.length || 0,
       hasChildren: dependents?.some((d: any) => d.qualifiesForCTC) || false,
-      currentYear: 2024,
+      currentYear: taxReturn?.taxYear || 2024,
       deductionEntries: taxReturn?.deductionEntries || []
     }
 
@@ -8,6 +8,10 @@ import { prisma } from "@/lib/db"
 import { DocumentType, ProcessingStatus, EntryType } from "@prisma/client"
 import { getAzureDocumentIntelligenceService, type ExtractedFieldData } from "@/lib/azure-document-intelligence-service"
 import { DuplicateDetectionService, type DuplicateDetectionResult } from "@/lib/duplicate-detection"
+import { electiveDeferralsFromBox12 } from "@/lib/savers-credit"
+import { hsaEmployerContributionsFromBox12 } from "@/lib/schedule-1-adjustments"
+import { isSpouseW2 } from "@/lib/name-validation"
+import { addMoney, fromCents, money, MoneyInput, sumMoney, toCents } from "@/lib/money"
 
 export const dynamic = "force-dynamic"
 
@@ -238,6 +242,16 @@ switch (document.documentType) {
           extractedEntries.push(...necEntries);
           break;
           
+        case 'FORM_1098_T':
+          const tuitionEntries = await process1098TDocument(extractedTaxData.extractedData);
+          extractedEntries.push(...tuitionEntries);
+          break;
+          
+        case 'FORM_1095_A':
+          const marketplaceEntries = await process1095ADocument(extractedTaxData.extractedData);
+          extractedEntries.push(...marketplaceEntries);
+          break;
+          
         default:
           console.log("🔍 [PROCESS] Processing generic document...")
           const genericEntries = await processGenericDocument(extractedTaxData.extractedData);
@@ -538,6 +552,66 @@ async function process1099NecDocument(extractedData: ExtractedFieldData): Promis
     return entries;
   }
 
+async function process1098TDocument(extractedData: ExtractedFieldData): Promise<any[]> {
+    const entries = [];
+    const tuitionData = extractedData as Record<string, any>;
+    
+    const fieldMappings = {
+      'filerName': 'Filer (Institution) Name',
+      'filerEIN': 'Filer EIN',
+      'studentName': 'Student Name',
+      'studentTIN': 'Student TIN',
+      'paymentsReceived': 'Box 1 - Payments Received for Qualified Tuition',
+      'adjustmentsPriorYear': 'Box 4 - Adjustments Made for a Prior Year',
+      'scholarshipsOrGrants': 'Box 5 - Scholarships or Grants',
+      'adjustmentsToScholarships': 'Box 6 - Adjustments to Scholarships for a Prior Year',
+      'includesNextYearAmounts': 'Box 7 - Includes Amounts for Next Year',
+      'halfTimeStudent': 'Box 8 - At Least Half-Time Student',
+      'graduateStudent': 'Box 9 - Graduate Student',
+      'insuranceReimbursements': 'Box 10 - Insurance Contract Reimbursement'
+    };
+    
+    for (const [fieldKey, displayName] of Object.entries(fieldMappings)) {
+      if (tuitionData[fieldKey] !== undefined && tuitionData[fieldKey] !== null && tuitionData[fieldKey] !== '') {
+        entries.push({
+          fieldName: displayName,
+          fieldValue: String(tuitionData[fieldKey]),
+          confidence: 0.95
+        });
+      }
+    }
+    
+    return entries;
+  }
+
+async function process1095ADocument(extractedData: ExtractedFieldData): Promise<any[]> {
+    const entries = [];
+    const marketplaceData = extractedData as Record<string, any>;
+    
+    const fieldMappings = {
+      'marketplaceIdentifier': 'Line 1 - Marketplace Identifier',
+      'policyNumber': 'Line 2 - Marketplace-Assigned Policy Number',
+      'issuerName': 'Line 3 - Policy Issuer',
+      'recipientName': 'Line 4 - Recipient Name',
+      'recipientTIN': 'Line 5 - Recipient SSN',
+      'annualPremium': 'Line 33A - Annual Enrollment Premiums',
+      'annualSlcspPremium': 'Line 33B - Annual Second Lowest Cost Silver Plan Premium',
+      'annualAdvancePayment': 'Line 33C - Annual Advance Payment of Premium Tax Credit'
+    };
+    
+    for (const [fieldKey, displayName] of Object.entries(fieldMappings)) {
+      if (marketplaceData[fieldKey] !== undefined && marketplaceData[fieldKey] !== null && marketplaceData[fieldKey] !== '') {
+        entries.push({
+          fieldName: displayName,
+          fieldValue: String(marketplaceData[fieldKey]),
+          confidence: 0.95
+        });
+      }
+    }
+    
+    return entries;
+  }
+
 async function processGenericDocument(extractedData: ExtractedFieldData): Promise<any[]> {
     const entries = [];
     
@@ -586,6 +660,14 @@ async function createIncomeEntriesFromExtractedData(
       await create1099NecIncomeEntries(extractedData, documentId, taxReturnId);
       break;
       
+    case 'FORM_1098_T':
+      await create1098TEducationExpense(extractedData, documentId, taxReturnId);
+      break;
+      
+    case 'FORM_1095_A':
+      await create1095AMarketplacePolicy(extractedData, documentId, taxReturnId);
+      break;
+      
     default:
       console.log(`ℹ️ [INCOME] No automatic income entry creation for ${documentType}`);
       break;
@@ -594,8 +676,16 @@ async function createIncomeEntriesFromExtractedData(
 
 // Create income entries for W2 documents
 async function createW2IncomeEntries(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
-  const wages = parseFloat(String(extractedData.wages || 0));
-  const federalTaxWithheld = parseFloat(String(extractedData.federalTaxWithheld || 0));
+  const wages = money(extractedData.wages);
+  const federalTaxWithheld = money(extractedData.federalTaxWithheld);
+  const w2Data = extractedData as Record<string, any>;
+  const socialSecurityWages = addMoney(w2Data.socialSecurityWages, w2Data.socialSecurityTips);
+  const medicareWages = money(w2Data.medicareWages);
+  const medicareTaxWithheld = money(w2Data.medicareTaxWithheld);
+  const box12 = [w2Data.box12a, w2Data.box12b, w2Data.box12c, w2Data.box12d];
+  
+  const taxReturn = await prisma.taxReturn.findUnique({ where: { id: taxReturnId } });
+  const spouseW2 = isSpouseW2(w2Data, taxReturn);
   
   if (wages > 0) {
     await prisma.incomeEntry.create({
@@ -607,7 +697,16 @@ async function createW2IncomeEntries(extractedData: ExtractedFieldData, document
         amount: wages,
         employerName: String(extractedData.employerName || ''),
         employerEIN: String(extractedData.employerEIN || ''),
-        federalTaxWithheld: federalTaxWithheld
+        federalTaxWithheld: federalTaxWithheld,
+        socialSecurityWages: socialSecurityWages || null,
+        socialSecurityTaxWithheld: money(w2Data.socialSecurityTaxWithheld) || null,
+        medicareWages: medicareWages || null,
+        medicareTaxWithheld: medicareTaxWithheld || null,
+        retirementPlan: w2Data.retirementPlan === true || w2Data.retirementPlan === 'true',
+        dependentCareBenefits: money(w2Data.dependentCareBenefits) || null,
+        electiveDeferrals: electiveDeferralsFromBox12(box12) || null,
+        hsaEmployerContributions: hsaEmployerContributionsFromBox12(box12) || null,
+        spouseW2
       }
     });
     console.log(`✅ [INCOME] Created W2 wages entry: $${wages.toLocaleString()}`);
@@ -616,10 +715,12 @@ async function createW2IncomeEntries(extractedData: ExtractedFieldData, document
 
 // Create income entries for 1099-INT documents
 async function create1099IntIncomeEntries(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
-  const interestIncome = parseFloat(String(extractedData.interestIncome || 0));
-  const interestOnUSavingsBonds = parseFloat(String(extractedData.interestOnUSavingsBonds || 0));
-  const taxExemptInterest = parseFloat(String(extractedData.taxExemptInterest || 0));
-  const federalTaxWithheld = parseFloat(String(extractedData.federalTaxWithheld || 0));
+  const interestIncome = money(extractedData.interestIncome);
+  const interestOnUSavingsBonds = money(extractedData.interestOnUSavingsBonds);
+  const taxExemptInterest = money(extractedData.taxExemptInterest);
+  const privateActivityBondInterest = money((extractedData as Record<string, any>).specifiedPrivateActivityBondInterest);
+  const foreignTaxPaid = money((extractedData as Record<string, any>).foreignTaxPaid);
+  const federalTaxWithheld = money(extractedData.federalTaxWithheld);
   
   // Create entry for taxable interest income (Box 1)
   if (interestIncome > 0) {
@@ -632,7 +733,9 @@ async function create1099IntIncomeEntries(extractedData: ExtractedFieldData, doc
         amount: interestIncome,
         payerName: String(extractedData.payerName || ''),
         payerTIN: String(extractedData.payerTIN || ''),
-        federalTaxWithheld: federalTaxWithheld
+        federalTaxWithheld: federalTaxWithheld,
+        privateActivityBondInterest: privateActivityBondInterest || null, // Box 9 - AMT preference item
+        foreignTaxPaid: foreignTaxPaid || null // Box 6 - foreign tax credit
       }
     });
     console.log(`✅ [INCOME] Created 1099-INT interest income entry: $${interestIncome.toLocaleString()}`);
@@ -664,9 +767,12 @@ async function create1099IntIncomeEntries(extractedData: ExtractedFieldData, doc
 
 // Create income entries for 1099-DIV documents
 async function create1099DivIncomeEntries(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
-  const ordinaryDividends = parseFloat(String(extractedData.ordinaryDividends || 0));
-  const qualifiedDividends = parseFloat(String(extractedData.qualifiedDividends || 0));
-  const federalTaxWithheld = parseFloat(String(extractedData.federalTaxWithheld || 0));
+  const ordinaryDividends = money(extractedData.ordinaryDividends);
+  const qualifiedDividends = money(extractedData.qualifiedDividends);
+  const divData = extractedData as Record<string, any>;
+  const totalCapitalGain = money(divData.totalCapitalGain);
+  const foreignTaxPaid = money(divData.foreignTaxPaid);
+  const federalTaxWithheld = money(extractedData.federalTaxWithheld);
   
   if (ordinaryDividends > 0) {
     await prisma.incomeEntry.create({
@@ -676,21 +782,39 @@ async function create1099DivIncomeEntries(extractedData: ExtractedFieldData, doc
         incomeType: 'DIVIDENDS',
         description: `Dividends from ${extractedData.payerName || 'Investment Company'}`,
         amount: ordinaryDividends,
+        qualifiedDividends: Math.min(qualifiedDividends, ordinaryDividends),
         payerName: String(extractedData.payerName || ''),
         payerTIN: String(extractedData.payerTIN || ''),
-        federalTaxWithheld: federalTaxWithheld
+        federalTaxWithheld: federalTaxWithheld,
+        foreignTaxPaid: foreignTaxPaid || null // Box 7 - foreign tax credit
       }
     });
     console.log(`✅ [INCOME] Created 1099-DIV dividends entry: $${ordinaryDividends.toLocaleString()}`);
   }
+  
+  // Box 2a capital gain distributions are reported directly on Form 1040, line 7
+  if (totalCapitalGain > 0) {
+    await prisma.incomeEntry.create({
+      data: {
+        taxReturnId,
+        documentId,
+        incomeType: 'CAPITAL_GAINS',
+        description: `Capital Gain Distributions from ${divData.payerName || 'Investment Company'}`,
+        amount: totalCapitalGain,
+        payerName: String(divData.payerName || ''),
+        payerTIN: String(divData.payerTIN || '')
+      }
+    });
+    console.log(`✅ [INCOME] Created 1099-DIV capital gain distributions entry: $${totalCapitalGain.toLocaleString()}`);
+  }
 }
 
 // Create income entries for 1099-MISC documents
 async function create1099MiscIncomeEntries(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
-  const otherIncome = parseFloat(String(extractedData.otherIncome || 0));
-  const rents = parseFloat(String(extractedData.rents || 0));
-  const royalties = parseFloat(String(extractedData.royalties || 0));
-  const federalTaxWithheld = parseFloat(String(extractedData.federalTaxWithheld || 0));
+  const otherIncome = money(extractedData.otherIncome);
+  const rents = money(extractedData.rents);
+  const royalties = money(extractedData.royalties);
+  const federalTaxWithheld = money(extractedData.federalTaxWithheld);
   
   // Create entries for different types of 1099-MISC income
   if (otherIncome > 0) {
@@ -742,10 +866,84 @@ async function create1099MiscIncomeEntries(extractedData: ExtractedFieldData, do
   }
 }
 
+// Create an education expense for 1098-T documents - not income, but it feeds the Form 8863 credits
+async function create1098TEducationExpense(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
+  const tuitionData = extractedData as Record<string, any>;
+  const qualifiedExpenses = money(tuitionData.paymentsReceived);
+  const scholarships = money(tuitionData.scholarshipsOrGrants);
+  
+  if (qualifiedExpenses <= 0) {
+    return;
+  }
+  
+  // Link the student to a dependent on this return when the names match
+  const studentName = String(tuitionData.studentName || '').trim();
+  const dependents = await prisma.dependent.findMany({ where: { taxReturnId } });
+  const dependent = dependents.find(dep =>
+    `${dep.firstName} ${dep.lastName}`.toLowerCase() === studentName.toLowerCase()
+  );
+  
+  await prisma.educationExpense.create({
+    data: {
+      taxReturnId,
+      documentId,
+      dependentId: dependent?.id || null,
+      studentName: studentName || 'Student',
+      institutionName: tuitionData.filerName ? String(tuitionData.filerName) : null,
+      institutionEIN: tuitionData.filerEIN ? String(tuitionData.filerEIN) : null,
+      qualifiedExpenses,
+      scholarships,
+      halfTimeStudent: tuitionData.halfTimeStudent !== false,
+      graduateStudent: tuitionData.graduateStudent === true,
+      creditType: tuitionData.graduateStudent === true ? 'LIFETIME_LEARNING' : 'AMERICAN_OPPORTUNITY'
+    }
+  });
+}
+
+// Create a marketplace policy for 1095-A documents - not income, but it's reconciled on Form 8962
+async function create1095AMarketplacePolicy(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
+  const marketplaceData = extractedData as Record<string, any>;
+  const monthly = (amounts: unknown) => Array.from({ length: 12 }, (_, index) => Array.isArray(amounts) ? money(amounts[index]) : 0);
+  
+  let monthlyPremiums = monthly(marketplaceData.monthlyPremiums);
+  let monthlySlcspPremiums = monthly(marketplaceData.monthlySlcspPremiums);
+  let monthlyAdvancePayments = monthly(marketplaceData.monthlyAdvancePayments);
+  
+  // Only the line 33 totals were read - spread them over the year, which Form 8962 line 11 treats the same way
+  if (monthlyPremiums.every(month => month === 0) && money(marketplaceData.annualPremium) > 0) {
+    // Whole cents each month, with the leftover cents in December so the months add back to the annual total
+    const spread = (total: MoneyInput) => {
+      const cents = toCents(total);
+      const perMonth = Math.trunc(cents / 12);
+      return Array.from({ length: 12 }, (_, index) => fromCents(index === 11 ? cents - perMonth * 11 : perMonth));
+    };
+    monthlyPremiums = spread(marketplaceData.annualPremium);
+    monthlySlcspPremiums = spread(marketplaceData.annualSlcspPremium);
+    monthlyAdvancePayments = spread(marketplaceData.annualAdvancePayment);
+  }
+  
+  if (monthlyPremiums.every(month => month === 0)) {
+    return;
+  }
+  
+  await prisma.marketplacePolicy.create({
+    data: {
+      taxReturnId,
+      documentId,
+      marketplaceIdentifier: marketplaceData.marketplaceIdentifier ? String(marketplaceData.marketplaceIdentifier) : null,
+      policyNumber: marketplaceData.policyNumber ? String(marketplaceData.policyNumber) : null,
+      issuerName: marketplaceData.issuerName ? String(marketplaceData.issuerName) : null,
+      monthlyPremiums,
+      monthlySlcspPremiums,
+      monthlyAdvancePayments
+    }
+  });
+}
+
 // Create income entries for 1099-NEC documents
 async function create1099NecIncomeEntries(extractedData: ExtractedFieldData, documentId: string, taxReturnId: string): Promise<void> {
-  const nonemployeeCompensation = parseFloat(String(extractedData.nonemployeeCompensation || 0));
-  const federalTaxWithheld = parseFloat(String(extractedData.federalTaxWithheld || 0));
+  const nonemployeeCompensation = money(extractedData.nonemployeeCompensation);
+  const federalTaxWithheld = money(extractedData.federalTaxWithheld);
   
   if (nonemployeeCompensation > 0) {
     await prisma.incomeEntry.create({
@@ -775,14 +973,10 @@ async function updateIncomeAggregation(taxReturnId: string): Promise<void> {
     });
     
     // Calculate total income
-    const totalIncome = incomeEntries.reduce((sum, entry) => {
-      return sum + parseFloat(entry.amount.toString());
-    }, 0);
+    const totalIncome = sumMoney(...incomeEntries.map(entry => entry.amount));
     
     // Calculate total withholdings
-    const totalWithholdings = incomeEntries.reduce((sum, entry) => {
-      return sum + parseFloat((entry.federalTaxWithheld || 0).toString());
-    }, 0);
+    const totalWithholdings = sumMoney(...incomeEntries.map(entry => entry.federalTaxWithheld));
     
     // Update the tax return with aggregated values
     await prisma.taxReturn.update({
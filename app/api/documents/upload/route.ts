@@ -164,6 +164,9 @@ function determineDocumentType(fileName: string): any {
   if (lowerName.includes('1099-g') || lowerName.includes('1099g')) {
     return 'FORM_1099_G'
   }
+  if (lowerName.includes('1095-a') || lowerName.includes('1095a')) {
+    return 'FORM_1095_A'
+  }
   if (lowerName.includes('1099')) {
     // For generic 1099 files, default to MISC type
     return 'FORM_1099_MISC'
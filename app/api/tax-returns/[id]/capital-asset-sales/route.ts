@@ -0,0 +1,64 @@
+
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { holdingPeriodFor } from "@/lib/schedule-d"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    const capitalAssetSale = await prisma.capitalAssetSale.create({
+      data: {
+        taxReturnId: params.id,
+        description: data.description,
+        dateAcquired: data.dateAcquired ? new Date(data.dateAcquired) : null,
+        dateSold: new Date(data.dateSold),
+        proceeds: data.proceeds,
+        costBasis: data.costBasis,
+        holdingPeriod: holdingPeriodFor(data),
+        basisReported: data.basisReported ?? true,
+        adjustmentCode: data.adjustmentCode || null,
+        adjustmentAmount: data.adjustmentAmount || 0,
+      }
+    })
+
+    return NextResponse.json(capitalAssetSale)
+  } catch (error) {
+    console.error("Error creating capital asset sale:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { FORM_1040_DOCUMENT_TYPES } from "@/lib/form-1040-engine"
 
 export const dynamic = "force-dynamic"
 
@@ -55,7 +56,15 @@ export async function POST(
       include: {
         incomeEntries: true,
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        educationExpenses: true,
+        dependentCareExpenses: true,
+        estimatedTaxPayments: true,
+        capitalAssetSales: true,
+        marketplacePolicies: true,
+        documents: {
+          where: { documentType: { in: [...FORM_1040_DOCUMENT_TYPES] }, processingStatus: "COMPLETED" }
+        }
       }
     })
 
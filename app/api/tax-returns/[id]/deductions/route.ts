@@ -43,6 +43,7 @@ export async function POST(
         deductionType: data.deductionType,
         amount: data.amount,
         description: data.description,
+        giftType: data.deductionType === 'CHARITABLE_CONTRIBUTIONS' ? (data.giftType || 'CASH') : null,
       }
     })
 
@@ -0,0 +1,71 @@
+
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    // A linked qualifying person must be one of this return's dependents
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 404 })
+      }
+    }
+
+    const dependentCareExpense = await prisma.dependentCareExpense.create({
+      data: {
+        taxReturnId: params.id,
+        dependentId: data.dependentId || null,
+        qualifyingPersonName: data.qualifyingPersonName,
+        underThirteen: data.underThirteen ?? true,
+        disabled: data.disabled ?? false,
+        providerName: data.providerName,
+        providerEIN: data.providerEIN,
+        amount: data.amount,
+      }
+    })
+
+    return NextResponse.json(dependentCareExpense)
+  } catch (error) {
+    console.error("Error creating dependent care expense:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
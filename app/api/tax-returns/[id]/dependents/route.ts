@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { qualifyDependent } from "@/lib/dependent-qualification"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    const tests = {
+      relationship: data.relationship,
+      birthDate: new Date(data.birthDate),
+      ssn: data.ssn || null,
+      monthsLivedWithTaxpayer: Math.max(0, Math.min(12, parseInt(data.monthsLivedWithTaxpayer ?? 12) || 0)),
+      fullTimeStudent: !!data.fullTimeStudent,
+      permanentlyDisabled: !!data.permanentlyDisabled,
+      providedOwnSupport: !!data.providedOwnSupport,
+      taxpayerProvidedSupport: data.taxpayerProvidedSupport !== false,
+      grossIncome: parseFloat(data.grossIncome) || 0,
+      filedJointReturn: !!data.filedJointReturn,
+      citizenOrResident: data.citizenOrResident !== false,
+      otherClaimant: data.otherClaimant === "PARENT" || data.otherClaimant === "OTHER" ? data.otherClaimant : null,
+      otherClaimantMonths: data.otherClaimant ? parseInt(data.otherClaimantMonths) || 0 : null,
+      otherClaimantAGI: data.otherClaimant ? parseFloat(data.otherClaimantAGI) || 0 : null,
+    }
+
+    // Credit eligibility is derived from the tests rather than entered. The tie-breaker uses the AGI saved so far;
+    // calculating the return reruns the tests against the calculated AGI
+    const qualification = qualifyDependent(tests, {
+      taxYear: taxReturn.taxYear,
+      adjustedGrossIncome: taxReturn.adjustedGrossIncome.toNumber(),
+    })
+
+    const dependent = await prisma.dependent.create({
+      data: {
+        taxReturnId: params.id,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        ...tests,
+        isDependent: qualification.isDependent,
+        qualifiesForCTC: qualification.qualifiesForCTC,
+        qualifiesForEITC: qualification.qualifiesForEITC,
+      }
+    })
+
+    return NextResponse.json(dependent)
+  } catch (error) {
+    console.error("Error creating dependent:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
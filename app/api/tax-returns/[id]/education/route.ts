@@ -0,0 +1,75 @@
+
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    // The student must be one of this return's dependents, or the taxpayer/spouse (no dependent)
+    if (data.dependentId) {
+      const dependent = await prisma.dependent.findFirst({
+        where: { id: data.dependentId, taxReturnId: params.id }
+      })
+      if (!dependent) {
+        return NextResponse.json({ error: "Dependent not found" }, { status: 404 })
+      }
+    }
+
+    const educationExpense = await prisma.educationExpense.create({
+      data: {
+        taxReturnId: params.id,
+        dependentId: data.dependentId || null,
+        studentName: data.studentName,
+        institutionName: data.institutionName,
+        institutionEIN: data.institutionEIN,
+        qualifiedExpenses: data.qualifiedExpenses,
+        scholarships: data.scholarships || 0,
+        halfTimeStudent: data.halfTimeStudent ?? true,
+        graduateStudent: data.graduateStudent ?? false,
+        priorAotcYears: data.priorAotcYears || 0,
+        felonyDrugConviction: data.felonyDrugConviction ?? false,
+        creditType: data.creditType || 'AMERICAN_OPPORTUNITY',
+      }
+    })
+
+    return NextResponse.json(educationExpense)
+  } catch (error) {
+    console.error("Error creating education expense:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
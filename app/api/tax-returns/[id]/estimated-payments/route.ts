@@ -0,0 +1,58 @@
+
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    const estimatedTaxPayment = await prisma.estimatedTaxPayment.create({
+      data: {
+        taxReturnId: params.id,
+        taxYear: data.taxYear ? parseInt(data.taxYear) : taxReturn.taxYear,
+        paymentDate: new Date(data.paymentDate),
+        amount: data.amount,
+        description: data.description,
+      }
+    })
+
+    return NextResponse.json(estimatedTaxPayment)
+  } catch (error) {
+    console.error("Error creating estimated tax payment:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
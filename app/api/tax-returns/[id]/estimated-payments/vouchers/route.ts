@@ -0,0 +1,103 @@
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { PDFGenerationService } from "@/lib/pdf-generation-service";
+import { EstimatedTaxProjectionInput, planEstimatedTax } from "@/lib/estimated-tax-planner";
+import { money, MoneyInput } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+
+// POST: Generate next year's 1040-ES vouchers from the planner's projection
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      },
+      include: {
+        estimatedTaxPayments: true
+      }
+    });
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 });
+    }
+
+    // The projection (current return or a what-if) comes from the planner; the payments come from the database
+    const body = await request.json();
+    const projection: Omit<EstimatedTaxProjectionInput, 'filingStatus' | 'taxYear'> & {
+      withholding?: MoneyInput,
+      priorYearTax?: MoneyInput,
+      priorYearAGI?: MoneyInput
+    } = body;
+    const planYear = taxReturn.taxYear + 1;
+
+    const plan = planEstimatedTax({
+      adjustedGrossIncome: money(projection.adjustedGrossIncome),
+      itemizedDeductions: money(projection.itemizedDeductions),
+      qualifiedBusinessIncomeDeduction: money(projection.qualifiedBusinessIncomeDeduction),
+      otherTaxes: money(projection.otherTaxes),
+      credits: money(projection.credits),
+      withholding: money(projection.withholding),
+      priorYearTax: projection.priorYearTax !== null && projection.priorYearTax !== undefined ? money(projection.priorYearTax) : null,
+      priorYearAGI: projection.priorYearAGI !== null && projection.priorYearAGI !== undefined ? money(projection.priorYearAGI) : null,
+      filingStatus: taxReturn.filingStatus,
+      taxYear: planYear,
+      payments: taxReturn.estimatedTaxPayments
+        .filter(payment => payment.taxYear === planYear)
+        .map(payment => ({ date: payment.paymentDate, amount: money(payment.amount) })),
+    });
+
+    const pdfBuffer = await PDFGenerationService.generateEstimatedTaxVouchersPDF({
+      plan,
+      firstName: taxReturn.firstName || '',
+      lastName: taxReturn.lastName || '',
+      ssn: taxReturn.ssn || '',
+      spouseFirstName: taxReturn.spouseFirstName || undefined,
+      spouseLastName: taxReturn.spouseLastName || undefined,
+      spouseSsn: taxReturn.spouseSsn || undefined,
+      address: taxReturn.address || '',
+      city: taxReturn.city || '',
+      state: taxReturn.state || '',
+      zipCode: taxReturn.zipCode || '',
+    });
+    const fileName = `Form_1040-ES_${planYear}_${taxReturn.firstName || ''}_${taxReturn.lastName || ''}.pdf`;
+
+    const headers = new Headers();
+    headers.set('Content-Type', 'application/pdf');
+    headers.set('Content-Disposition', `attachment; filename="${fileName}"`);
+    headers.set('Content-Length', pdfBuffer.length.toString());
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers
+    });
+
+  } catch (error) {
+    console.error("💥 [1040-ES PDF] Error generating vouchers:", error);
+    return NextResponse.json(
+      { error: "Failed to generate vouchers" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { PDFGenerationService } from "@/lib/pdf-generation-service";
 import { Form1040Data } from "@/lib/form-1040-types";
+import { formatMoney, roundingMode } from "@/lib/money";
 
 export const dynamic = "force-dynamic";
 
@@ -159,12 +160,7 @@ export async function GET(
 
 function generateForm1040HTMLPreview(formData: Form1040Data): string {
   const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount || 0);
+    return formatMoney(amount || 0, roundingMode(formData.roundToWholeDollars));
   };
 
   const isRefund = (formData.line33 || 0) > 0;
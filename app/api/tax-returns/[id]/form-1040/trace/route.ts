@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { computeForm1040, FORM_1040_DOCUMENT_TYPES, FORM_1040_LINE_LABELS, Form1040TracedLine } from "@/lib/form-1040-engine";
+
+export const dynamic = "force-dynamic";
+
+// GET: How each Form 1040 line was calculated - all lines, or one with ?line=line16
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const line = new URL(request.url).searchParams.get("line");
+    if (line && !(line in FORM_1040_LINE_LABELS)) {
+      return NextResponse.json({ error: `Unknown Form 1040 line: ${line}` }, { status: 400 });
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: {
+        id: params.id,
+        userId: user.id
+      },
+      include: {
+        incomeEntries: true,
+        deductionEntries: true,
+        dependents: true,
+        educationExpenses: true,
+        dependentCareExpenses: {
+          include: { dependent: true }
+        },
+        estimatedTaxPayments: true,
+        capitalAssetSales: true,
+        marketplacePolicies: true,
+        documents: {
+          where: {
+            documentType: { in: [...FORM_1040_DOCUMENT_TYPES] },
+            processingStatus: 'COMPLETED'
+          }
+        }
+      }
+    });
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 });
+    }
+
+    const { trace } = computeForm1040(taxReturn);
+
+    if (line) {
+      return NextResponse.json({ trace: trace[line as Form1040TracedLine] || null });
+    }
+
+    return NextResponse.json({ trace });
+
+  } catch (error) {
+    console.error("💥 [1040 TRACE] Error tracing form 1040 calculation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -62,7 +62,22 @@ export async function POST(
         employerEIN: data.employerEIN,
         payerName: data.payerName,
         payerTIN: data.payerTIN,
+        privateActivityBondInterest: ['INTEREST', 'DIVIDENDS'].includes(data.incomeType) && data.privateActivityBondInterest ? data.privateActivityBondInterest : null,
+        qualifiedDividends: data.incomeType === 'DIVIDENDS' ? (data.qualifiedDividends || 0) : null,
+        foreignTaxPaid: ['INTEREST', 'DIVIDENDS'].includes(data.incomeType) && data.foreignTaxPaid ? data.foreignTaxPaid : null,
         federalTaxWithheld: data.federalTaxWithheld || 0,
+        socialSecurityWages: data.incomeType === 'W2_WAGES' && data.socialSecurityWages ? data.socialSecurityWages : null,
+        socialSecurityTaxWithheld: data.incomeType === 'W2_WAGES' && data.socialSecurityTaxWithheld ? data.socialSecurityTaxWithheld : null,
+        medicareWages: data.incomeType === 'W2_WAGES' && data.medicareWages ? data.medicareWages : null,
+        medicareTaxWithheld: data.incomeType === 'W2_WAGES' && data.medicareTaxWithheld ? data.medicareTaxWithheld : null,
+        retirementPlan: data.incomeType === 'W2_WAGES' ? !!data.retirementPlan : null,
+        dependentCareBenefits: data.incomeType === 'W2_WAGES' && data.dependentCareBenefits ? data.dependentCareBenefits : null,
+        electiveDeferrals: data.incomeType === 'W2_WAGES' && data.electiveDeferrals ? data.electiveDeferrals : null,
+        hsaEmployerContributions: data.incomeType === 'W2_WAGES' && data.hsaEmployerContributions ? data.hsaEmployerContributions : null,
+        spouseW2: data.incomeType === 'W2_WAGES' && !!data.spouseW2,
+        businessW2Wages: data.incomeType === 'BUSINESS_INCOME' && data.businessW2Wages ? data.businessW2Wages : null,
+        businessPropertyBasis: data.incomeType === 'BUSINESS_INCOME' && data.businessPropertyBasis ? data.businessPropertyBasis : null,
+        specifiedServiceBusiness: data.incomeType === 'BUSINESS_INCOME' ? !!data.specifiedServiceBusiness : null,
         documentId: data.documentId || null, // Link to source document if provided
       }
     })
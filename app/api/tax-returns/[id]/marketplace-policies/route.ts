@@ -0,0 +1,63 @@
+
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession()
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const taxReturn = await prisma.taxReturn.findFirst({
+      where: { 
+        id: params.id,
+        userId: user.id 
+      }
+    })
+
+    if (!taxReturn) {
+      return NextResponse.json({ error: "Tax return not found" }, { status: 404 })
+    }
+
+    const data = await request.json()
+
+    // Twelve months of each 1095-A column; blank months are no coverage
+    const monthly = (amounts: any) => Array.from({ length: 12 }, (_, index) => Number(amounts?.[index]) || 0)
+
+    const marketplacePolicy = await prisma.marketplacePolicy.create({
+      data: {
+        taxReturnId: params.id,
+        marketplaceIdentifier: data.marketplaceIdentifier || null,
+        policyNumber: data.policyNumber || null,
+        issuerName: data.issuerName || null,
+        monthlyPremiums: monthly(data.monthlyPremiums),
+        monthlySlcspPremiums: monthly(data.monthlySlcspPremiums),
+        monthlyAdvancePayments: monthly(data.monthlyAdvancePayments),
+      }
+    })
+
+    return NextResponse.json(marketplacePolicy)
+  } catch (error) {
+    console.error("Error creating marketplace policy:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
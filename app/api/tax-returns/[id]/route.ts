@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { FORM_1040_DOCUMENT_TYPES } from "@/lib/form-1040-engine"
 
 export const dynamic = "force-dynamic"
 
@@ -32,7 +33,15 @@ export async function GET(
       include: {
         incomeEntries: true,
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        educationExpenses: true,
+        dependentCareExpenses: true,
+        estimatedTaxPayments: true,
+        capitalAssetSales: true,
+        marketplacePolicies: true,
+        documents: {
+          where: { documentType: { in: [...FORM_1040_DOCUMENT_TYPES] }, processingStatus: "COMPLETED" }
+        }
       }
     })
 
@@ -103,7 +112,15 @@ export async function PUT(
       include: {
         incomeEntries: true,
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        educationExpenses: true,
+        dependentCareExpenses: true,
+        estimatedTaxPayments: true,
+        capitalAssetSales: true,
+        marketplacePolicies: true,
+        documents: {
+          where: { documentType: { in: [...FORM_1040_DOCUMENT_TYPES] }, processingStatus: "COMPLETED" }
+        }
       }
     })
 
@@ -82,7 +82,12 @@ export async function GET(request: Request) {
       include: {
         incomeEntries: true,
         deductionEntries: true,
-        dependents: true
+        dependents: true,
+        educationExpenses: true,
+        dependentCareExpenses: true,
+        estimatedTaxPayments: true,
+        capitalAssetSales: true,
+        marketplacePolicies: true
       }
     })
 
@@ -2,6 +2,7 @@
 import { getServerSession } from "next-auth"
 import { redirect } from "next/navigation"
 import { prisma } from "@/lib/db"
+import { FORM_1040_DOCUMENT_TYPES } from "@/lib/form-1040-engine"
 import { TaxFilingInterface } from "@/components/tax-filing-interface"
 
 export default async function TaxFilingPage({ params }: { params: { id: string } }) {
@@ -27,7 +28,15 @@ export default async function TaxFilingPage({ params }: { params: { id: string }
     include: {
       incomeEntries: true,
       deductionEntries: true,
-      dependents: true
+      dependents: true,
+      educationExpenses: true,
+      dependentCareExpenses: true,
+      estimatedTaxPayments: true,
+      capitalAssetSales: true,
+      marketplacePolicies: true,
+      documents: {
+        where: { documentType: { in: [...FORM_1040_DOCUMENT_TYPES] }, processingStatus: "COMPLETED" }
+      }
     }
   })
 
@@ -0,0 +1,329 @@
+
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Baby, Check, Plus, Trash2, X } from "lucide-react"
+import { DEPENDENT_RELATIONSHIPS, qualifyDependent } from "@/lib/dependent-qualification"
+import { money } from "@/lib/money"
+
+interface DependentListProps {
+  taxReturn: any
+  onMarkUnsaved: () => void
+}
+
+const NO_OTHER_CLAIMANT = "NONE"
+
+const emptyDependent = () => ({
+  firstName: "",
+  lastName: "",
+  ssn: "",
+  relationship: "",
+  birthDate: "",
+  monthsLivedWithTaxpayer: "12",
+  fullTimeStudent: false,
+  permanentlyDisabled: false,
+  providedOwnSupport: false,
+  taxpayerProvidedSupport: true,
+  grossIncome: "",
+  filedJointReturn: false,
+  citizenOrResident: true,
+  otherClaimant: NO_OTHER_CLAIMANT,
+  otherClaimantMonths: "",
+  otherClaimantAGI: "",
+})
+
+// Saved rows and the add form both go through the same tests
+const qualificationInput = (dependent: any) => ({
+  relationship: dependent.relationship,
+  birthDate: dependent.birthDate,
+  ssn: dependent.ssn,
+  monthsLivedWithTaxpayer: parseInt(dependent.monthsLivedWithTaxpayer ?? 12) || 0,
+  fullTimeStudent: !!dependent.fullTimeStudent,
+  permanentlyDisabled: !!dependent.permanentlyDisabled,
+  providedOwnSupport: !!dependent.providedOwnSupport,
+  taxpayerProvidedSupport: dependent.taxpayerProvidedSupport !== false,
+  grossIncome: money(dependent.grossIncome),
+  filedJointReturn: !!dependent.filedJointReturn,
+  citizenOrResident: dependent.citizenOrResident !== false,
+  otherClaimant: dependent.otherClaimant === NO_OTHER_CLAIMANT ? null : dependent.otherClaimant,
+  otherClaimantMonths: parseInt(dependent.otherClaimantMonths) || 0,
+  otherClaimantAGI: money(dependent.otherClaimantAGI),
+})
+
+function QualificationSummary({ result }: { result: ReturnType<typeof qualifyDependent> }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {result.qualifyingChild && <Badge variant="secondary">Qualifying child</Badge>}
+        {result.qualifyingRelative && <Badge variant="secondary">Qualifying relative</Badge>}
+        {!result.isDependent && <Badge variant="outline">Not a dependent</Badge>}
+        {result.qualifiesForCTC && <Badge>CTC</Badge>}
+        {result.qualifiesForODC && <Badge>Other dependent credit</Badge>}
+        {result.qualifiesForEITC && <Badge>EITC</Badge>}
+      </div>
+      <p className="text-sm text-gray-600">{result.explanation}</p>
+      <ul className="text-xs space-y-0.5">
+        {result.tests.map(test => (
+          <li key={test.test} className="flex items-start space-x-1">
+            {test.passed
+              ? <Check className="h-3 w-3 mt-0.5 text-green-600 flex-shrink-0" />
+              : <X className="h-3 w-3 mt-0.5 text-red-600 flex-shrink-0" />}
+            <span className="text-gray-500"><span className="font-medium">{test.test}:</span> {test.explanation}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function DependentList({ taxReturn, onMarkUnsaved }: DependentListProps) {
+  const [dependents, setDependents] = useState<any[]>(taxReturn.dependents || [])
+  const [newDependent, setNewDependent] = useState(emptyDependent)
+
+  const context = {
+    taxYear: taxReturn.taxYear,
+    adjustedGrossIncome: money(taxReturn.adjustedGrossIncome),
+  }
+  const canPreview = !!newDependent.relationship && !!newDependent.birthDate
+  const preview = canPreview ? qualifyDependent(qualificationInput(newDependent), context) : null
+
+  const handleAddDependent = async () => {
+    if (!newDependent.firstName || !newDependent.lastName || !canPreview) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/dependents`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...newDependent,
+          otherClaimant: newDependent.otherClaimant === NO_OTHER_CLAIMANT ? null : newDependent.otherClaimant,
+        }),
+      })
+
+      if (response.ok) {
+        const savedDependent = await response.json()
+        setDependents([...dependents, savedDependent])
+        onMarkUnsaved()
+        setNewDependent(emptyDependent())
+      }
+    } catch (error) {
+      console.error("Error adding dependent:", error)
+    }
+  }
+
+  const handleDeleteDependent = async (dependentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/dependents/${dependentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setDependents(dependents.filter((dependent: any) => dependent.id !== dependentId))
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting dependent:", error)
+    }
+  }
+
+  const checkbox = (field: "fullTimeStudent" | "permanentlyDisabled" | "providedOwnSupport" | "taxpayerProvidedSupport" | "filedJointReturn" | "citizenOrResident", label: string) => (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id={`dependent-${field}`}
+        checked={newDependent[field]}
+        onCheckedChange={(checked) => setNewDependent({ ...newDependent, [field]: !!checked })}
+      />
+      <Label htmlFor={`dependent-${field}`}>{label}</Label>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Baby className="h-5 w-5" />
+          <span>Dependents</span>
+        </CardTitle>
+        <CardDescription>
+          Credit eligibility is worked out from the qualifying child and qualifying relative tests
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dependents.map((dependent: any) => (
+          <div key={dependent.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="flex-1 space-y-2">
+              <div>
+                <span className="font-medium">{dependent.firstName} {dependent.lastName}</span>
+                <span className="text-sm text-gray-500 ml-2">
+                  {DEPENDENT_RELATIONSHIPS.find(item => item.value === dependent.relationship)?.label || dependent.relationship}
+                </span>
+              </div>
+              <QualificationSummary result={qualifyDependent(qualificationInput(dependent), context)} />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteDependent(dependent.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dependentFirstName">First Name</Label>
+              <Input
+                id="dependentFirstName"
+                value={newDependent.firstName}
+                onChange={(e) => setNewDependent({ ...newDependent, firstName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentLastName">Last Name</Label>
+              <Input
+                id="dependentLastName"
+                value={newDependent.lastName}
+                onChange={(e) => setNewDependent({ ...newDependent, lastName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentSsn">Social Security Number</Label>
+              <Input
+                id="dependentSsn"
+                value={newDependent.ssn}
+                onChange={(e) => setNewDependent({ ...newDependent, ssn: e.target.value })}
+                placeholder="000-00-0000"
+                maxLength={11}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentRelationship">Relationship to You</Label>
+              <Select value={newDependent.relationship} onValueChange={(value) => setNewDependent({ ...newDependent, relationship: value })}>
+                <SelectTrigger id="dependentRelationship">
+                  <SelectValue placeholder="Select relationship" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEPENDENT_RELATIONSHIPS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentBirthDate">Date of Birth</Label>
+              <Input
+                id="dependentBirthDate"
+                type="date"
+                value={newDependent.birthDate}
+                onChange={(e) => setNewDependent({ ...newDependent, birthDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentMonths">Months Lived With You in {taxReturn.taxYear}</Label>
+              <Input
+                id="dependentMonths"
+                type="number"
+                min="0"
+                max="12"
+                value={newDependent.monthsLivedWithTaxpayer}
+                onChange={(e) => setNewDependent({ ...newDependent, monthsLivedWithTaxpayer: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependentGrossIncome">Their Gross Income</Label>
+              <Input
+                id="dependentGrossIncome"
+                type="number"
+                step="0.01"
+                value={newDependent.grossIncome}
+                onChange={(e) => setNewDependent({ ...newDependent, grossIncome: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {checkbox("fullTimeStudent", "Full-time student for at least 5 months")}
+            {checkbox("permanentlyDisabled", "Permanently and totally disabled")}
+            {checkbox("providedOwnSupport", "Paid over half of their own support")}
+            {checkbox("taxpayerProvidedSupport", "You paid over half of their support")}
+            {checkbox("filedJointReturn", "Filed a joint return (other than for a refund)")}
+            {checkbox("citizenOrResident", "U.S. citizen, national or resident")}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dependentOtherClaimant">Someone Else Can Also Claim Them</Label>
+              <Select value={newDependent.otherClaimant} onValueChange={(value) => setNewDependent({ ...newDependent, otherClaimant: value })}>
+                <SelectTrigger id="dependentOtherClaimant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OTHER_CLAIMANT}>No one else</SelectItem>
+                  <SelectItem value="PARENT">Their other parent</SelectItem>
+                  <SelectItem value="OTHER">Someone who isn't their parent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {newDependent.otherClaimant !== NO_OTHER_CLAIMANT && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="dependentOtherMonths">Months Lived With Them</Label>
+                  <Input
+                    id="dependentOtherMonths"
+                    type="number"
+                    min="0"
+                    max="12"
+                    value={newDependent.otherClaimantMonths}
+                    onChange={(e) => setNewDependent({ ...newDependent, otherClaimantMonths: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dependentOtherAGI">Their AGI</Label>
+                  <Input
+                    id="dependentOtherAGI"
+                    type="number"
+                    step="0.01"
+                    value={newDependent.otherClaimantAGI}
+                    onChange={(e) => setNewDependent({ ...newDependent, otherClaimantAGI: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {preview && (
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <QualificationSummary result={preview} />
+            </div>
+          )}
+
+          <Button
+            type="button"
+            onClick={handleAddDependent}
+            disabled={!newDependent.firstName || !newDependent.lastName || !canPreview}
+            className="w-full"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Dependent
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -467,6 +467,7 @@ export function DocumentProcessor({
       'FORM_1099_R': '1099-R Form',
       'FORM_1099_G': '1099-G Form',
       'FORM_1099_GENERIC': '1099 Form (Auto-Detected)',
+      'FORM_1095_A': '1095-A Marketplace Statement',
       'OTHER_TAX_DOCUMENT': 'Other Tax Document'
     }
     return labels[documentType] || documentType
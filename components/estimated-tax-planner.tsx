@@ -0,0 +1,281 @@
+
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CalendarClock, Download, Plus, RotateCcw, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { planEstimatedTax } from "@/lib/estimated-tax-planner"
+import { money } from "@/lib/money"
+
+interface EstimatedTaxPlannerProps {
+  taxReturn: any
+  calculation: any
+  currentYearTax: number // This year's total tax less refundable credits - next year's prior-year safe harbor
+}
+
+interface ProjectionFields {
+  adjustedGrossIncome: string
+  itemizedDeductions: string
+  qualifiedBusinessIncomeDeduction: string
+  otherTaxes: string
+  credits: string
+  withholding: string
+}
+
+// Starts the what-if from this year's return
+function projectionFromCalculation(calculation: any): ProjectionFields {
+  return {
+    adjustedGrossIncome: String(calculation.adjustedGrossIncome || 0),
+    itemizedDeductions: String(calculation.itemizedDeduction || 0),
+    qualifiedBusinessIncomeDeduction: String(calculation.qualifiedBusinessIncomeDeduction || 0),
+    otherTaxes: String(calculation.otherTaxes || 0),
+    credits: String(calculation.totalCredits || 0),
+    withholding: String(calculation.totalWithholdings || 0),
+  }
+}
+
+export function EstimatedTaxPlanner({ taxReturn, calculation, currentYearTax }: EstimatedTaxPlannerProps) {
+  const planYear = taxReturn.taxYear + 1
+  const [projection, setProjection] = useState<ProjectionFields>(() => projectionFromCalculation(calculation))
+  const [payments, setPayments] = useState<any[]>(
+    (taxReturn.estimatedTaxPayments || []).filter((payment: any) => payment.taxYear === planYear)
+  )
+  const [newPayment, setNewPayment] = useState({ paymentDate: "", amount: "" })
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const projectionInput = {
+    adjustedGrossIncome: money(projection.adjustedGrossIncome),
+    itemizedDeductions: money(projection.itemizedDeductions),
+    qualifiedBusinessIncomeDeduction: money(projection.qualifiedBusinessIncomeDeduction),
+    otherTaxes: money(projection.otherTaxes),
+    credits: money(projection.credits),
+    withholding: money(projection.withholding),
+    priorYearTax: currentYearTax,
+    priorYearAGI: calculation.adjustedGrossIncome,
+  }
+  const plan = planEstimatedTax({
+    ...projectionInput,
+    filingStatus: taxReturn.filingStatus,
+    taxYear: planYear,
+    payments: payments.map((payment: any) => ({ date: payment.paymentDate, amount: money(payment.amount) })),
+  })
+
+  const handleAddPayment = async () => {
+    if (!newPayment.paymentDate || !newPayment.amount) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          taxYear: planYear,
+          paymentDate: newPayment.paymentDate,
+          amount: money(newPayment.amount),
+          description: "Form 1040-ES",
+        }),
+      })
+
+      if (response.ok) {
+        const savedPayment = await response.json()
+        setPayments([...payments, savedPayment])
+        setNewPayment({ paymentDate: "", amount: "" })
+      }
+    } catch (error) {
+      console.error("Error adding estimated payment:", error)
+    }
+  }
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments/${paymentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setPayments(payments.filter(payment => payment.id !== paymentId))
+      }
+    } catch (error) {
+      console.error("Error deleting estimated payment:", error)
+    }
+  }
+
+  const handleDownloadVouchers = async () => {
+    try {
+      setIsGenerating(true)
+
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments/vouchers`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(projectionInput),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to generate vouchers")
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.style.display = "none"
+      a.href = url
+      a.download = `Form_1040-ES_${planYear}_${taxReturn.firstName || ""}_${taxReturn.lastName || ""}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+
+      toast.success("1040-ES vouchers downloaded")
+    } catch (error) {
+      console.error("Error generating 1040-ES vouchers:", error)
+      toast.error("Failed to generate 1040-ES vouchers")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const projectionField = (field: keyof ProjectionFields, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`projection-${field}`}>{label}</Label>
+      <Input
+        id={`projection-${field}`}
+        type="number"
+        step="0.01"
+        value={projection[field]}
+        onChange={(e) => setProjection({ ...projection, [field]: e.target.value })}
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5" />
+          <span>{planYear} Estimated Tax Planner (Form 1040-ES)</span>
+        </CardTitle>
+        <CardDescription>
+          Starts from this return - change any amount to see a what-if for next year
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {projectionField("adjustedGrossIncome", "Expected AGI")}
+          {projectionField("itemizedDeductions", "Expected Itemized Deductions")}
+          {projectionField("qualifiedBusinessIncomeDeduction", "Expected QBI Deduction")}
+          {projectionField("otherTaxes", "Self-Employment & Other Taxes")}
+          {projectionField("credits", "Expected Credits")}
+          {projectionField("withholding", "Expected Withholding")}
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setProjection(projectionFromCalculation(calculation))}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset to {taxReturn.taxYear} return
+        </Button>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Expected {planYear} tax</span>
+            <span>${plan.expectedTax.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">90% of expected tax</span>
+            <span>${plan.currentYearSafeHarbor.toLocaleString()}</span>
+          </div>
+          {plan.priorYearSafeHarbor !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">{Math.round(plan.priorYearPercentage * 100)}% of {taxReturn.taxYear} tax</span>
+              <span>${plan.priorYearSafeHarbor.toLocaleString()}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-medium">
+            <span>Estimated tax to pay after withholding</span>
+            <span>${plan.annualPaymentDue.toLocaleString()}</span>
+          </div>
+        </div>
+
+        <Alert>
+          <CalendarClock className="h-4 w-4" />
+          <AlertDescription>{plan.explanation}</AlertDescription>
+        </Alert>
+
+        {plan.paymentsRequired && (
+          <div className="space-y-2">
+            {plan.installments.map(installment => (
+              <div key={installment.voucher} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">Voucher {installment.voucher}</p>
+                  <p className="text-sm text-gray-500">
+                    Due {new Date(`${installment.dueDate}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-medium">${installment.remaining.toLocaleString()}</p>
+                  {installment.paid > 0 && (
+                    <Badge variant={installment.remaining > 0 ? "secondary" : "default"}>
+                      ${installment.paid.toLocaleString()} paid
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-medium">{planYear} Payments Made</h4>
+          {payments.map((payment: any) => (
+            <div key={payment.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <p className="font-medium">${money(payment.amount).toLocaleString()}</p>
+                <p className="text-sm text-gray-500">Paid {new Date(payment.paymentDate).toLocaleDateString(undefined, { timeZone: "UTC" })}</p>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => handleDeletePayment(payment.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="plannedPaymentDate">Payment Date</Label>
+              <Input
+                id="plannedPaymentDate"
+                type="date"
+                value={newPayment.paymentDate}
+                onChange={(e) => setNewPayment({ ...newPayment, paymentDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plannedPaymentAmount">Amount</Label>
+              <Input
+                id="plannedPaymentAmount"
+                type="number"
+                step="0.01"
+                value={newPayment.amount}
+                onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={handleAddPayment}>
+              <Plus className="mr-2 h-4 w-4" />
+              Record Payment
+            </Button>
+          </div>
+        </div>
+
+        <Button type="button" onClick={handleDownloadVouchers} disabled={isGenerating || plan.remaining <= 0}>
+          <Download className="mr-2 h-4 w-4" />
+          {isGenerating ? "Generating..." : "Download 1040-ES Vouchers"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
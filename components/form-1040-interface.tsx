@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,9 +14,20 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Form1040Data, FilingStatus } from "@/lib/form-1040-types";
-import { FileText, DollarSign, User, Calculator, Download, Save, RefreshCw, AlertCircle, CheckCircle } from "lucide-react";
+import { getStandardDeduction } from "@/lib/tax-calculations";
+import { recalculateForm1040 } from "@/lib/form-1040-engine";
+import { LineTracePopover } from "@/components/line-trace-popover";
+import { formatMoney, roundingMode } from "@/lib/money";
+import { FileText, DollarSign, User, Calculator, Download, Save, AlertCircle, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
 
+// Lines the rest of the form is figured from. The Form 1040 engine's numbers stand until one of them is edited
+const CALCULATION_FIELDS: (keyof Form1040Data)[] = [
+  'line1', 'line2a', 'line2b', 'line3a', 'line3b', 'line4b', 'line5b', 'line6a', 'line7', 'line8',
+  'line10', 'line12', 'line13', 'line17', 'line19', 'line20', 'line23', 'line25a', 'line25b', 'line25c',
+  'line25d', 'line29', 'line31', 'filingStatus', 'taxYear'
+];
+
 interface Form1040InterfaceProps {
   initialData?: Partial<Form1040Data>;
   w2MappingData?: any[];
@@ -88,6 +99,8 @@ export function Form1040Interface({
     line25b: 0,
     line25c: 0,
     line25d: 0,
+    line29: 0,
+    line31: 0,
     
     // Refund/Owed lines
     line32: 0,
@@ -105,126 +118,15 @@ export function Form1040Interface({
     ...initialData
   });
 
-  const [isCalculating, setIsCalculating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
-  // Auto-calculate dependent fields when key fields change
-  useEffect(() => {
-    calculateDependentFields();
-  }, [
-    formData.line1, formData.line2b, formData.line3b, formData.line4b,
-    formData.line5b, formData.line6b, formData.line7, formData.line8,
-    formData.line10, formData.line12, formData.line13, formData.line25a,
-    formData.line25b, formData.line25c, formData.line25d, formData.filingStatus
-  ]);
-
-  const calculateDependentFields = () => {
-    setIsCalculating(true);
-    
-    // Calculate total income (line 9)
-    const totalIncome = (formData.line1 || 0) + (formData.line2b || 0) + 
-                       (formData.line3b || 0) + (formData.line4b || 0) + 
-                       (formData.line5b || 0) + (formData.line6b || 0) + 
-                       (formData.line7 || 0) + (formData.line8 || 0);
-    
-    // Calculate AGI (line 11)
-    const agi = totalIncome - (formData.line10 || 0);
-    
-    // Set standard deduction if not set (line 12)
-    let standardDeduction = formData.line12;
-    if (!standardDeduction || standardDeduction === 0) {
-      standardDeduction = getStandardDeduction(formData.filingStatus);
-    }
-    
-    // Calculate line 14
-    const line14 = standardDeduction + (formData.line13 || 0);
-    
-    // Calculate taxable income (line 15)
-    const taxableIncome = Math.max(0, agi - line14);
-    
-    // Calculate tax liability (simplified)
-    const taxLiability = calculateTaxLiability(taxableIncome, formData.filingStatus);
-    
-    // Calculate total tax (line 24)
-    const totalTax = taxLiability + (formData.line17 || 0) + (formData.line23 || 0);
-    
-    // Calculate total payments (line 32)
-    const totalPayments = (formData.line25a || 0) + (formData.line25b || 0) + 
-                         (formData.line25c || 0) + (formData.line25d || 0);
-    
-    // Calculate refund or amount owed
-    const overpaid = Math.max(0, totalPayments - totalTax);
-    const amountOwed = Math.max(0, totalTax - totalPayments);
-    
-    setFormData(prev => ({
-      ...prev,
-      line9: totalIncome,
-      line11: agi,
-      line12: standardDeduction,
-      line14: line14,
-      line15: taxableIncome,
-      line16: taxLiability,
-      line18: taxLiability + (prev.line17 || 0),
-      line22: Math.max(0, (taxLiability + (prev.line17 || 0)) - ((prev.line19 || 0) + (prev.line20 || 0))),
-      line24: totalTax,
-      line32: totalPayments,
-      line33: overpaid,
-      line34: overpaid, // Default to full refund
-      line37: amountOwed
-    }));
-    
-    setIsCalculating(false);
-    setHasChanges(true);
-  };
-
-  const getStandardDeduction = (filingStatus: FilingStatus): number => {
-    const deductions = {
-      [FilingStatus.SINGLE]: 13850,
-      [FilingStatus.MARRIED_FILING_JOINTLY]: 27700,
-      [FilingStatus.MARRIED_FILING_SEPARATELY]: 13850,
-      [FilingStatus.HEAD_OF_HOUSEHOLD]: 20800,
-      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 27700
-    };
-    return deductions[filingStatus] || deductions[FilingStatus.SINGLE];
-  };
-
-  const calculateTaxLiability = (taxableIncome: number, filingStatus: FilingStatus): number => {
-    // Simplified tax calculation using 2023 brackets
-    const brackets = filingStatus === FilingStatus.MARRIED_FILING_JOINTLY ? [
-      { min: 0, max: 22000, rate: 0.10 },
-      { min: 22000, max: 89450, rate: 0.12 },
-      { min: 89450, max: 190750, rate: 0.22 },
-      { min: 190750, max: 364200, rate: 0.24 },
-      { min: 364200, max: 462500, rate: 0.32 },
-      { min: 462500, max: 693750, rate: 0.35 },
-      { min: 693750, max: Infinity, rate: 0.37 }
-    ] : [
-      { min: 0, max: 11000, rate: 0.10 },
-      { min: 11000, max: 44725, rate: 0.12 },
-      { min: 44725, max: 95375, rate: 0.22 },
-      { min: 95375, max: 182050, rate: 0.24 },
-      { min: 182050, max: 231250, rate: 0.32 },
-      { min: 231250, max: 578125, rate: 0.35 },
-      { min: 578125, max: Infinity, rate: 0.37 }
-    ];
-
-    let tax = 0;
-    let remainingIncome = taxableIncome;
-
-    for (const bracket of brackets) {
-      if (remainingIncome <= 0) break;
-      const taxableAtThisBracket = Math.min(remainingIncome, bracket.max - bracket.min);
-      tax += taxableAtThisBracket * bracket.rate;
-      remainingIncome -= taxableAtThisBracket;
-    }
-
-    return Math.round(tax * 100) / 100;
-  };
-
   const handleFieldChange = (field: keyof Form1040Data, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    setFormData(prev => {
+      const updated = { ...prev, [field]: value };
+      return CALCULATION_FIELDS.includes(field) ? recalculateForm1040(updated) : updated;
+    });
     setHasChanges(true);
   };
 
@@ -255,13 +157,12 @@ export function Form1040Interface({
     }
   };
 
+  // The same rounding the engine and the PDF use - whole dollars or cents
+  const rounding = roundingMode(formData.roundToWholeDollars);
+  const amountStep = rounding === "WHOLE_DOLLARS" ? "1" : "0.01";
+
   const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+    return formatMoney(amount, rounding);
   };
 
   return (
@@ -327,14 +228,6 @@ export function Form1040Interface({
         </Alert>
       )}
 
-      {/* Calculation indicator */}
-      {isCalculating && (
-        <Alert>
-          <RefreshCw className="h-4 w-4 animate-spin" />
-          <AlertDescription>Recalculating tax amounts...</AlertDescription>
-        </Alert>
-      )}
-
       <Tabs defaultValue="personal" className="space-y-6">
         <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="personal">Personal Info</TabsTrigger>
@@ -470,11 +363,14 @@ export function Form1040Interface({
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line1">Line 1: Wages from Form W-2</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line1">Line 1: Wages from Form W-2</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line1" value={formData.line1} />
+                  </div>
                   <Input
                     id="line1"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line1}
                     onChange={(e) => handleFieldChange('line1', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -486,11 +382,14 @@ export function Form1040Interface({
                   )}
                 </div>
                 <div>
-                  <Label htmlFor="line2b">Line 2b: Taxable Interest</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line2b">Line 2b: Taxable Interest</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line2b" value={formData.line2b} />
+                  </div>
                   <Input
                     id="line2b"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line2b}
                     onChange={(e) => handleFieldChange('line2b', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -500,22 +399,28 @@ export function Form1040Interface({
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line3b">Line 3b: Ordinary Dividends</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line3b">Line 3b: Ordinary Dividends</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line3b" value={formData.line3b} />
+                  </div>
                   <Input
                     id="line3b"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line3b}
                     onChange={(e) => handleFieldChange('line3b', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="line7">Line 7: Capital Gain or (Loss)</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line7">Line 7: Capital Gain or (Loss)</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line7" value={formData.line7} />
+                  </div>
                   <Input
                     id="line7"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line7}
                     onChange={(e) => handleFieldChange('line7', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -527,7 +432,10 @@ export function Form1040Interface({
               
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex justify-between items-center">
-                  <Label className="text-lg font-semibold">Line 9: Total Income</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-lg font-semibold">Line 9: Total Income</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line9" value={formData.line9} />
+                  </div>
                   <span className="text-2xl font-bold text-green-600">
                     {formatCurrency(formData.line9)}
                   </span>
@@ -555,18 +463,24 @@ export function Form1040Interface({
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line10">Line 10: Adjustments to Income</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line10">Line 10: Adjustments to Income</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line10" value={formData.line10} />
+                  </div>
                   <Input
                     id="line10"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line10}
                     onChange={(e) => handleFieldChange('line10', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
                   />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
-                  <Label className="font-semibold">Line 11: Adjusted Gross Income</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="font-semibold">Line 11: Adjusted Gross Income</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line11" value={formData.line11} />
+                  </div>
                   <div className="text-xl font-bold text-blue-600">
                     {formatCurrency(formData.line11)}
                   </div>
@@ -576,25 +490,38 @@ export function Form1040Interface({
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line12">Line 12: Standard Deduction</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line12">Line 12: Standard Deduction</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line12" value={formData.line12} />
+                  </div>
                   <Input
                     id="line12"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line12}
                     onChange={(e) => handleFieldChange('line12', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
                   />
                   <Badge variant="secondary" className="mt-1">
-                    Standard: {formatCurrency(getStandardDeduction(formData.filingStatus))}
+                    Standard: {formatCurrency(getStandardDeduction(formData.filingStatus, formData.taxYear, {
+                      taxpayer65OrOlder: formData.taxpayer65OrOlder,
+                      taxpayerBlind: formData.taxpayerBlind,
+                      spouse65OrOlder: formData.spouse65OrOlder,
+                      spouseBlind: formData.spouseBlind,
+                      canBeClaimedAsDependent: formData.canBeClaimedAsDependent,
+                      earnedIncome: (formData.line1 || 0) + (formData.schedule1?.businessIncome || 0) - (formData.schedule1?.deductibleSelfEmploymentTax || 0)
+                    }))}
                   </Badge>
                 </div>
                 <div>
-                  <Label htmlFor="line13">Line 13: QBI Deduction</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line13">Line 13: QBI Deduction</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line13" value={formData.line13} />
+                  </div>
                   <Input
                     id="line13"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line13}
                     onChange={(e) => handleFieldChange('line13', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -606,7 +533,10 @@ export function Form1040Interface({
               
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex justify-between items-center">
-                  <Label className="text-lg font-semibold">Line 15: Taxable Income</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-lg font-semibold">Line 15: Taxable Income</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line15" value={formData.line15} />
+                  </div>
                   <span className="text-2xl font-bold text-orange-600">
                     {formatCurrency(formData.line15)}
                   </span>
@@ -634,34 +564,43 @@ export function Form1040Interface({
             <CardContent className="space-y-4">
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex justify-between items-center">
-                  <Label className="text-lg font-semibold">Line 16: Tax</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-lg font-semibold">Line 16: Tax</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line16" value={formData.line16} />
+                  </div>
                   <span className="text-2xl font-bold text-red-600">
                     {formatCurrency(formData.line16)}
                   </span>
                 </div>
                 <p className="text-sm text-gray-600 mt-1">
-                  Calculated based on taxable income and filing status
+                  From the Tax Table under $100,000 of taxable income, the Tax Computation Worksheet above it
                 </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line17">Line 17: Additional Tax</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line17">Line 17: Additional Tax</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line17" value={formData.line17} />
+                  </div>
                   <Input
                     id="line17"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line17}
                     onChange={(e) => handleFieldChange('line17', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="line19">Line 19: Child Tax Credit</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line19">Line 19: Child Tax Credit</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line19" value={formData.line19} />
+                  </div>
                   <Input
                     id="line19"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line19}
                     onChange={(e) => handleFieldChange('line19', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -673,7 +612,10 @@ export function Form1040Interface({
               
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex justify-between items-center">
-                  <Label className="text-lg font-semibold">Line 24: Total Tax</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-lg font-semibold">Line 24: Total Tax</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line24" value={formData.line24} />
+                  </div>
                   <span className="text-2xl font-bold text-red-600">
                     {formatCurrency(formData.line24)}
                   </span>
@@ -701,11 +643,14 @@ export function Form1040Interface({
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line25a">Line 25a: Federal Tax Withheld</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line25a">Line 25a: Federal Tax Withheld</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line25a" value={formData.line25a} />
+                  </div>
                   <Input
                     id="line25a"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line25a}
                     onChange={(e) => handleFieldChange('line25a', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -717,11 +662,14 @@ export function Form1040Interface({
                   )}
                 </div>
                 <div>
-                  <Label htmlFor="line25b">Line 25b: Estimated Tax Payments</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line25b">Line 25b: Estimated Tax Payments</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line25b" value={formData.line25b} />
+                  </div>
                   <Input
                     id="line25b"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line25b}
                     onChange={(e) => handleFieldChange('line25b', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -731,22 +679,28 @@ export function Form1040Interface({
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="line25c">Line 25c: Earned Income Credit</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line25c">Line 25c: Earned Income Credit</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line25c" value={formData.line25c} />
+                  </div>
                   <Input
                     id="line25c"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line25c}
                     onChange={(e) => handleFieldChange('line25c', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="line25d">Line 25d: Additional Child Tax Credit</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line25d">Line 25d: Additional Child Tax Credit</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line25d" value={formData.line25d} />
+                  </div>
                   <Input
                     id="line25d"
                     type="number"
-                    step="0.01"
+                    step={amountStep}
                     value={formData.line25d}
                     onChange={(e) => handleFieldChange('line25d', parseFloat(e.target.value) || 0)}
                     disabled={readonly}
@@ -754,11 +708,45 @@ export function Form1040Interface({
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line29">Line 29: American Opportunity Credit</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line29" value={formData.line29} />
+                  </div>
+                  <Input
+                    id="line29"
+                    type="number"
+                    step={amountStep}
+                    value={formData.line29}
+                    onChange={(e) => handleFieldChange('line29', parseFloat(e.target.value) || 0)}
+                    disabled={readonly}
+                  />
+                </div>
+                <div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="line31">Line 31: Net Premium Tax Credit (Schedule 3)</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line31" value={formData.line31} />
+                  </div>
+                  <Input
+                    id="line31"
+                    type="number"
+                    step={amountStep}
+                    value={formData.line31}
+                    onChange={(e) => handleFieldChange('line31', parseFloat(e.target.value) || 0)}
+                    disabled={readonly}
+                  />
+                </div>
+              </div>
+
               <Separator />
               
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex justify-between items-center">
-                  <Label className="text-lg font-semibold">Line 32: Total Payments</Label>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-lg font-semibold">Line 32: Total Payments</Label>
+                    <LineTracePopover taxReturnId={taxReturnId} line="line32" value={formData.line32} />
+                  </div>
                   <span className="text-2xl font-bold text-green-600">
                     {formatCurrency(formData.line32)}
                   </span>
@@ -814,6 +802,9 @@ export function Form1040Interface({
                     <p className="text-green-700">
                       You overpaid your taxes and are entitled to a refund
                     </p>
+                    <div className="mt-2">
+                      <LineTracePopover taxReturnId={taxReturnId} line="line33" value={formData.line33} />
+                    </div>
                   </div>
                 ) : formData.line37 > 0 ? (
                   <div className="bg-red-50 p-6 rounded-lg border border-red-200">
@@ -824,6 +815,9 @@ export function Form1040Interface({
                     <p className="text-red-700">
                       Additional tax is owed. Payment due by April 15, 2024
                     </p>
+                    <div className="mt-2">
+                      <LineTracePopover taxReturnId={taxReturnId} line="line37" value={formData.line37} />
+                    </div>
                   </div>
                 ) : (
                   <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
@@ -848,7 +842,7 @@ export function Form1040Interface({
                     <Input
                       id="line34"
                       type="number"
-                      step="0.01"
+                      step={amountStep}
                       value={formData.line34}
                       onChange={(e) => handleFieldChange('line34', parseFloat(e.target.value) || 0)}
                       max={formData.line33}
@@ -161,7 +161,8 @@ export function InteractiveWhatIfScenarios({
       minIncomeForCalculation,
       safeFilingStatus,
       safeCurrentItemizedDeductions,
-      safeDependents
+      safeDependents,
+      taxReturn?.taxYear
     )
 
     // Add custom scenarios
@@ -170,7 +171,8 @@ export function InteractiveWhatIfScenarios({
         minIncomeForCalculation,
         safeFilingStatus,
         safeCurrentItemizedDeductions + scenario.additionalAmount,
-        safeDependents
+        safeDependents,
+        taxReturn?.taxYear
       )
       
       const baseTaxLiability = baseScenarios[0]?.taxLiability || 0
@@ -191,7 +193,7 @@ export function InteractiveWhatIfScenarios({
 
     console.log('📊 Calculated scenarios:', [...baseScenarios, ...customCalculations])
     setCalculations([...baseScenarios, ...customCalculations])
-  }, [safeAdjustedGrossIncome, safeFilingStatus, safeCurrentItemizedDeductions, safeDependents, customScenarios])
+  }, [safeAdjustedGrossIncome, safeFilingStatus, safeCurrentItemizedDeductions, safeDependents, customScenarios, taxReturn?.taxYear])
 
   const handleAddCustomScenario = () => {
     if (!newScenario.name || !newScenario.additionalAmount) return
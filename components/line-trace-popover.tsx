@@ -0,0 +1,127 @@
+
+"use client";
+
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Form1040LineTrace, Form1040TracedLine } from "@/lib/form-1040-engine";
+import { formatMoney } from "@/lib/money";
+import { HelpCircle, FileText, User, DollarSign } from "lucide-react";
+
+interface LineTracePopoverProps {
+  taxReturnId: string;
+  line: Form1040TracedLine;
+  value?: number; // What the form shows now - may have been edited since the return was calculated
+}
+
+const SOURCE_ICONS = {
+  incomeEntry: DollarSign,
+  document: FileText,
+  dependent: User
+};
+
+// "Why this number?" - the engine's trace for one Form 1040 line, fetched when opened
+export function LineTracePopover({ taxReturnId, line, value }: LineTracePopoverProps) {
+  const [trace, setTrace] = useState<Form1040LineTrace | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrace = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturnId}/form-1040/trace?line=${line}`);
+      if (!response.ok) {
+        throw new Error("Failed to load calculation trace");
+      }
+      const data = await response.json();
+      setTrace(data.trace);
+    } catch (err) {
+      console.error("Error loading calculation trace:", err);
+      setError("The calculation for this line couldn't be loaded.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Refetched on every open so the trace follows saved changes
+  const handleOpenChange = (open: boolean) => {
+    if (open) loadTrace();
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+          aria-label={`Why this number? (${line})`}
+        >
+          <HelpCircle className="h-3 w-3" />
+          Why this number?
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 text-sm" align="start">
+        {isLoading && <p className="text-gray-600">Loading calculation...</p>}
+        {error && <p className="text-red-600">{error}</p>}
+        {!isLoading && !error && !trace && <p className="text-gray-600">No calculation recorded for this line.</p>}
+        {!isLoading && !error && trace && (
+          <div className="space-y-3">
+            <div>
+              <div className="flex justify-between items-center">
+                <span className="font-semibold">Line {trace.line.slice(4)}: {trace.label}</span>
+                <span className="font-bold">{formatMoney(trace.amount)}</span>
+              </div>
+              <p className="text-gray-600 mt-1">{trace.formula}</p>
+              {trace.table && (
+                <Badge variant="secondary" className="mt-1">{trace.table}</Badge>
+              )}
+            </div>
+
+            {value !== undefined && Math.abs(value - trace.amount) >= 0.01 && (
+              <p className="text-amber-700 bg-amber-50 p-2 rounded">
+                The form shows {formatMoney(value)} - this line or one it depends on was edited after the return was calculated.
+              </p>
+            )}
+
+            {trace.inputs.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1">
+                  {trace.inputs.map((input, index) => (
+                    <div key={index} className="flex justify-between">
+                      <span className="text-gray-700">{input.label}</span>
+                      <span>{input.count ? input.amount : formatMoney(input.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {trace.note && <p className="text-gray-600 italic">{trace.note}</p>}
+
+            {trace.sources.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1">
+                  <span className="font-semibold">From</span>
+                  {trace.sources.map((source) => {
+                    const Icon = SOURCE_ICONS[source.kind];
+                    return (
+                      <div key={`${source.kind}-${source.id}`} className="flex items-center gap-2">
+                        <Icon className="h-3 w-3 text-gray-500" />
+                        <span>{source.description}</span>
+                        <span className="text-xs text-gray-400 font-mono truncate">{source.id}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,232 @@
+
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { HeartPulse, Plus, Trash2 } from "lucide-react"
+import { money, MoneyInput, sumMoney } from "@/lib/money"
+
+interface MarketplaceCoverageProps {
+  taxReturn: any
+  dependentsModifiedAGI: string
+  onDependentsModifiedAGIChange: (value: string) => void
+  onMarkUnsaved: () => void
+}
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July",
+                     "August", "September", "October", "November", "December"]
+
+type MonthlyColumn = "monthlyPremiums" | "monthlySlcspPremiums" | "monthlyAdvancePayments"
+
+const emptyPolicy = () => ({
+  marketplaceIdentifier: "",
+  policyNumber: "",
+  issuerName: "",
+  monthlyPremiums: Array(12).fill("") as string[],
+  monthlySlcspPremiums: Array(12).fill("") as string[],
+  monthlyAdvancePayments: Array(12).fill("") as string[],
+})
+
+const columnTotal = (amounts: MoneyInput[]) => sumMoney(...amounts)
+
+export function MarketplaceCoverage({ taxReturn, dependentsModifiedAGI, onDependentsModifiedAGIChange, onMarkUnsaved }: MarketplaceCoverageProps) {
+  const [policies, setPolicies] = useState<any[]>(taxReturn.marketplacePolicies || [])
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy)
+
+  const setMonth = (column: MonthlyColumn, index: number, value: string) => {
+    const amounts = [...newPolicy[column]]
+    amounts[index] = value
+    setNewPolicy({ ...newPolicy, [column]: amounts })
+  }
+
+  // Copies January's row to every month for coverage that didn't change during the year
+  const fillFromJanuary = () => {
+    setNewPolicy({
+      ...newPolicy,
+      monthlyPremiums: Array(12).fill(newPolicy.monthlyPremiums[0]),
+      monthlySlcspPremiums: Array(12).fill(newPolicy.monthlySlcspPremiums[0]),
+      monthlyAdvancePayments: Array(12).fill(newPolicy.monthlyAdvancePayments[0]),
+    })
+  }
+
+  const hasPremiums = newPolicy.monthlyPremiums.some(amount => money(amount) > 0)
+
+  const handleAddPolicy = async () => {
+    if (!hasPremiums) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/marketplace-policies`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...newPolicy,
+          monthlyPremiums: newPolicy.monthlyPremiums.map(amount => money(amount)),
+          monthlySlcspPremiums: newPolicy.monthlySlcspPremiums.map(amount => money(amount)),
+          monthlyAdvancePayments: newPolicy.monthlyAdvancePayments.map(amount => money(amount)),
+        }),
+      })
+
+      if (response.ok) {
+        const savedPolicy = await response.json()
+        setPolicies([...policies, savedPolicy])
+        onMarkUnsaved()
+        setNewPolicy(emptyPolicy())
+      }
+    } catch (error) {
+      console.error("Error adding marketplace policy:", error)
+    }
+  }
+
+  const handleDeletePolicy = async (policyId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/marketplace-policies/${policyId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setPolicies(policies.filter((policy: any) => policy.id !== policyId))
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting marketplace policy:", error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <HeartPulse className="h-5 w-5" />
+          <span>Health Insurance Marketplace (Form 1095-A)</span>
+        </CardTitle>
+        <CardDescription>
+          Coverage bought through the Marketplace is reconciled on Form 8962 against the advance premium tax credit paid to your insurer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policies.length > 0 && (
+          <div className="space-y-3">
+            {policies.map((policy: any) => (
+              <div key={policy.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">
+                      {(policy.monthlyPremiums || []).filter((amount: MoneyInput) => money(amount) > 0).length} months
+                    </Badge>
+                    <span className="font-medium">{policy.issuerName || "Marketplace policy"}</span>
+                    {policy.policyNumber && <span className="text-sm text-gray-500">#{policy.policyNumber}</span>}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    ${columnTotal(policy.monthlyPremiums || []).toLocaleString()} premiums,
+                    ${columnTotal(policy.monthlySlcspPremiums || []).toLocaleString()} benchmark (SLCSP),
+                    ${columnTotal(policy.monthlyAdvancePayments || []).toLocaleString()} advance payments
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeletePolicy(policy.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="marketplaceIdentifier">Marketplace Identifier (Line 1)</Label>
+              <Input
+                id="marketplaceIdentifier"
+                value={newPolicy.marketplaceIdentifier}
+                onChange={(e) => setNewPolicy({ ...newPolicy, marketplaceIdentifier: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policyNumber">Policy Number (Line 2)</Label>
+              <Input
+                id="policyNumber"
+                value={newPolicy.policyNumber}
+                onChange={(e) => setNewPolicy({ ...newPolicy, policyNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issuerName">Policy Issuer (Line 3)</Label>
+              <Input
+                id="issuerName"
+                value={newPolicy.issuerName}
+                onChange={(e) => setNewPolicy({ ...newPolicy, issuerName: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-2 text-sm font-medium text-gray-600">
+              <span>Month</span>
+              <span>A. Enrollment premium</span>
+              <span>B. SLCSP premium</span>
+              <span>C. Advance payment</span>
+            </div>
+            {MONTH_NAMES.map((month, index) => (
+              <div key={month} className="grid grid-cols-4 gap-2 items-center">
+                <span className="text-sm">{month}</span>
+                {(["monthlyPremiums", "monthlySlcspPremiums", "monthlyAdvancePayments"] as MonthlyColumn[]).map(column => (
+                  <Input
+                    key={column}
+                    type="number"
+                    step="0.01"
+                    value={newPolicy[column][index]}
+                    onChange={(e) => setMonth(column, index, e.target.value)}
+                    placeholder="0.00"
+                  />
+                ))}
+              </div>
+            ))}
+            <Button type="button" variant="ghost" size="sm" onClick={fillFromJanuary}>
+              Same amounts every month
+            </Button>
+          </div>
+
+          <Button
+            type="button"
+            onClick={handleAddPolicy}
+            disabled={!hasPremiums}
+            className="w-full"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Form 1095-A
+          </Button>
+        </div>
+
+        {policies.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="dependentsModifiedAGI">Dependents' Modified AGI (Form 8962 line 2b)</Label>
+            <Input
+              id="dependentsModifiedAGI"
+              type="number"
+              step="0.01"
+              value={dependentsModifiedAGI}
+              onChange={(e) => {
+                onDependentsModifiedAGIChange(e.target.value)
+                onMarkUnsaved()
+              }}
+              placeholder="0.00"
+            />
+            <p className="text-xs text-gray-500">
+              Only for dependents who are required to file their own return
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
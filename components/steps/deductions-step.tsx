@@ -11,10 +11,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Receipt, Plus, Trash2, ArrowRight, ArrowLeft, Info, Calculator, TrendingUp, DollarSign } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Receipt, Plus, Trash2, ArrowRight, ArrowLeft, Info, Calculator, TrendingUp, DollarSign, GraduationCap, Baby } from "lucide-react"
 import { getStandardDeduction } from "@/lib/tax-calculations"
+import { money, sumMoney } from "@/lib/money"
+import { isAge65OrOlder } from "@/lib/standard-deduction"
+import { addMoney } from "@/lib/money"
+import { SCHEDULE_1_DEDUCTION_TYPES } from "@/lib/schedule-1-adjustments"
+import { calculateScheduleA, CHARITABLE_GIFT_TYPES } from "@/lib/schedule-a"
+import { isUnderThirteen } from "@/lib/dependent-care-credit"
 import { calculateDeductionComparison, generateTaxOptimizationSuggestions } from "@/lib/enhanced-tax-calculations"
 import { InteractiveWhatIfScenarios } from "@/components/interactive-what-if-scenarios"
+import { MarketplaceCoverage } from "@/components/marketplace-coverage"
 
 interface DeductionsStepProps {
   taxReturn: any
@@ -39,9 +47,39 @@ const deductionTypes = [
   { value: "BUSINESS_EXPENSES", label: "Business Expenses" },
   { value: "STUDENT_LOAN_INTEREST", label: "Student Loan Interest" },
   { value: "IRA_CONTRIBUTIONS", label: "IRA Contributions" },
+  { value: "HSA_CONTRIBUTIONS", label: "HSA Contributions" },
+  { value: "EDUCATOR_EXPENSES", label: "Educator Expenses" },
+  { value: "EARLY_WITHDRAWAL_PENALTY", label: "Early Withdrawal Penalty" },
   { value: "OTHER_DEDUCTIONS", label: "Other Deductions" },
 ]
 
+const educationCreditTypes = [
+  { value: "AMERICAN_OPPORTUNITY", label: "American Opportunity Credit" },
+  { value: "LIFETIME_LEARNING", label: "Lifetime Learning Credit" },
+]
+
+const emptyEducationExpense = {
+  dependentId: "",
+  studentName: "",
+  institutionName: "",
+  qualifiedExpenses: "",
+  scholarships: "",
+  halfTimeStudent: true,
+  graduateStudent: false,
+  priorAotcYears: "0",
+  creditType: "AMERICAN_OPPORTUNITY",
+}
+
+const emptyDependentCareExpense = {
+  dependentId: "",
+  qualifyingPersonName: "",
+  underThirteen: true,
+  disabled: false,
+  providerName: "",
+  providerEIN: "",
+  amount: "",
+}
+
 export function DeductionsStep({ 
   taxReturn, 
   onUpdate, 
@@ -64,12 +102,41 @@ export function DeductionsStep({
     deductionType: "",
     amount: "",
     description: "",
+    giftType: "CASH",
   })
+  const [educationExpenses, setEducationExpenses] = useState(taxReturn.educationExpenses || [])
+  const [newEducationExpense, setNewEducationExpense] = useState(emptyEducationExpense)
+  const [dependentCareExpenses, setDependentCareExpenses] = useState(taxReturn.dependentCareExpenses || [])
+  const [newDependentCareExpense, setNewDependentCareExpense] = useState(emptyDependentCareExpense)
+  const [dependentsModifiedAGI, setDependentsModifiedAGI] = useState(String(taxReturn.dependentsModifiedAGI ?? ""))
+  const [hsaFamilyCoverage, setHsaFamilyCoverage] = useState<boolean>(!!taxReturn.hsaFamilyCoverage)
 
-  const standardDeduction = getStandardDeduction(taxReturn.filingStatus)
-  const totalItemizedDeductions = deductionEntries.reduce((sum: number, entry: any) => 
-    sum + parseFloat(entry.amount || 0), 0
-  )
+  // Wages and business income stand in for earned income in the dependent limit
+  const earnedIncome = (taxReturn.incomeEntries || [])
+    .filter((entry: any) => entry.incomeType === 'W2_WAGES' || entry.incomeType === 'BUSINESS_INCOME')
+    .reduce((sum: number, entry: any) => addMoney(sum, entry.amount), 0)
+  const standardDeduction = getStandardDeduction(taxReturn.filingStatus, taxReturn.taxYear, {
+    taxpayer65OrOlder: isAge65OrOlder(taxReturn.taxpayerBirthDate, taxReturn.taxYear),
+    taxpayerBlind: !!taxReturn.taxpayerBlind,
+    spouse65OrOlder: isAge65OrOlder(taxReturn.spouseBirthDate, taxReturn.taxYear),
+    spouseBlind: !!taxReturn.spouseBlind,
+    canBeClaimedAsDependent: !!taxReturn.canBeClaimedAsDependent,
+    earnedIncome
+  })
+  // Adjustments to income reduce AGI on Schedule 1 and business expenses reduce Schedule C profit,
+  // so neither competes with the standard deduction
+  const hasBusinessIncome = (taxReturn.incomeEntries || []).some((entry: any) => entry.incomeType === 'BUSINESS_INCOME')
+  const scheduleA = calculateScheduleA({
+    entries: deductionEntries
+      .filter((entry: any) => 
+        !SCHEDULE_1_DEDUCTION_TYPES.includes(entry.deductionType) && !(hasBusinessIncome && entry.deductionType === 'BUSINESS_EXPENSES')
+      )
+      .map((entry: any) => ({ deductionType: entry.deductionType, amount: money(entry.amount), giftType: entry.giftType })),
+    adjustedGrossIncome: money(taxReturn.adjustedGrossIncome || taxReturn.totalIncome),
+    filingStatus: taxReturn.filingStatus,
+    taxYear: taxReturn.taxYear,
+  })
+  const totalItemizedDeductions = scheduleA.totalItemizedDeductions
 
   // Auto-save functionality with debouncing
   useEffect(() => {
@@ -78,23 +145,27 @@ export function DeductionsStep({
         onAutoSave({ 
           standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
           itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
+          dependentsModifiedAGI: money(dependentsModifiedAGI),
+          hsaFamilyCoverage,
         })
       }
     }, 3000) // Auto-save after 3 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [deductionEntries, deductionMethod, totalItemizedDeductions, standardDeduction, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [deductionEntries, deductionMethod, totalItemizedDeductions, standardDeduction, dependentsModifiedAGI, hsaFamilyCoverage, hasUnsavedChanges, autoSaving, onAutoSave])
 
   useEffect(() => {
     // Calculate enhanced comparison
-    const adjustedGrossIncome = parseFloat(taxReturn.adjustedGrossIncome || taxReturn.totalIncome || 0)
+    const adjustedGrossIncome = money(taxReturn.adjustedGrossIncome || taxReturn.totalIncome)
     const dependents = taxReturn.dependents || []
     
     const newComparison = calculateDeductionComparison(
       adjustedGrossIncome,
       taxReturn.filingStatus,
       totalItemizedDeductions,
-      dependents
+      dependents,
+      taxReturn.taxYear,
+      standardDeduction
     )
     
     setComparison(newComparison)
@@ -107,18 +178,30 @@ export function DeductionsStep({
       newComparison,
       adjustedGrossIncome,
       taxReturn.filingStatus,
-      dependents
+      dependents,
+      taxReturn.taxYear,
+      {
+        iraContributions: sumMoney(...deductionEntries
+          .filter((entry: any) => entry.deductionType === 'IRA_CONTRIBUTIONS')
+          .map((entry: any) => entry.amount)),
+        electiveDeferrals: sumMoney(...(taxReturn.incomeEntries || [])
+          .map((entry: any) => entry.electiveDeferrals)),
+        distributions: sumMoney(...(taxReturn.incomeEntries || [])
+          .filter((entry: any) => entry.incomeType === 'RETIREMENT_DISTRIBUTIONS')
+          .map((entry: any) => entry.amount)),
+      }
     )
     setSuggestions(newSuggestions)
-  }, [totalItemizedDeductions, taxReturn.filingStatus, taxReturn.adjustedGrossIncome, taxReturn.totalIncome, taxReturn.dependents])
+  }, [totalItemizedDeductions, deductionEntries, taxReturn.filingStatus, taxReturn.adjustedGrossIncome, taxReturn.totalIncome, taxReturn.dependents, taxReturn.incomeEntries, taxReturn.taxYear, standardDeduction])
 
   const handleAddDeduction = async () => {
     if (!newEntry.deductionType || !newEntry.amount) return
 
     const entry = {
       deductionType: newEntry.deductionType,
-      amount: parseFloat(newEntry.amount),
+      amount: money(newEntry.amount),
       description: newEntry.description,
+      giftType: newEntry.deductionType === "CHARITABLE_CONTRIBUTIONS" ? newEntry.giftType : undefined,
     }
 
     try {
@@ -138,6 +221,7 @@ export function DeductionsStep({
           deductionType: "",
           amount: "",
           description: "",
+          giftType: "CASH",
         })
       }
     } catch (error) {
@@ -160,6 +244,93 @@ export function DeductionsStep({
     }
   }
 
+  const handleAddEducationExpense = async () => {
+    if (!newEducationExpense.studentName || !newEducationExpense.qualifiedExpenses) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/education`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...newEducationExpense,
+          dependentId: newEducationExpense.dependentId || null,
+          qualifiedExpenses: money(newEducationExpense.qualifiedExpenses),
+          scholarships: money(newEducationExpense.scholarships),
+          priorAotcYears: parseInt(newEducationExpense.priorAotcYears) || 0,
+        }),
+      })
+
+      if (response.ok) {
+        const savedExpense = await response.json()
+        setEducationExpenses([...educationExpenses, savedExpense])
+        onMarkUnsaved()
+        setNewEducationExpense(emptyEducationExpense)
+      }
+    } catch (error) {
+      console.error("Error adding education expense:", error)
+    }
+  }
+
+  const handleDeleteEducationExpense = async (expenseId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/education/${expenseId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setEducationExpenses(educationExpenses.filter((expense: any) => expense.id !== expenseId))
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting education expense:", error)
+    }
+  }
+
+  const handleAddDependentCareExpense = async () => {
+    const expense = newDependentCareExpense
+    if (!expense.qualifyingPersonName || !expense.providerName || !expense.amount) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/dependent-care`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...expense,
+          dependentId: expense.dependentId || null,
+          amount: money(expense.amount),
+        }),
+      })
+
+      if (response.ok) {
+        const savedExpense = await response.json()
+        setDependentCareExpenses([...dependentCareExpenses, savedExpense])
+        onMarkUnsaved()
+        setNewDependentCareExpense(emptyDependentCareExpense)
+      }
+    } catch (error) {
+      console.error("Error adding dependent care expense:", error)
+    }
+  }
+
+  const handleDeleteDependentCareExpense = async (expenseId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/dependent-care/${expenseId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setDependentCareExpenses(dependentCareExpenses.filter((expense: any) => expense.id !== expenseId))
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting dependent care expense:", error)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -168,6 +339,8 @@ export function DeductionsStep({
     await onUpdate({ 
       standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
       itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
+      dependentsModifiedAGI: money(dependentsModifiedAGI),
+      hsaFamilyCoverage,
     })
     onNext()
   }
@@ -177,6 +350,8 @@ export function DeductionsStep({
     await onCompleteStep({ 
       standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
       itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
+      dependentsModifiedAGI: money(dependentsModifiedAGI),
+      hsaFamilyCoverage,
     })
     onNext()
   }
@@ -185,6 +360,8 @@ export function DeductionsStep({
     await onAutoSave({ 
       standardDeduction: deductionMethod === "standard" ? standardDeduction : 0,
       itemizedDeduction: deductionMethod === "itemized" ? totalItemizedDeductions : 0,
+      dependentsModifiedAGI: money(dependentsModifiedAGI),
+      hsaFamilyCoverage,
     })
   }
 
@@ -305,7 +482,7 @@ export function DeductionsStep({
         {/* Interactive What-If Scenarios */}
         <InteractiveWhatIfScenarios
           taxReturn={taxReturn}
-          adjustedGrossIncome={parseFloat(taxReturn.adjustedGrossIncome || taxReturn.totalIncome || 0)}
+          adjustedGrossIncome={money(taxReturn.adjustedGrossIncome || taxReturn.totalIncome)}
           currentItemizedDeductions={totalItemizedDeductions}
           filingStatus={taxReturn.filingStatus}
           dependents={taxReturn.dependents || []}
@@ -357,11 +534,16 @@ export function DeductionsStep({
                         <Badge variant="secondary">
                           {deductionTypes.find(t => t.value === entry.deductionType)?.label}
                         </Badge>
-                        <span className="font-medium">${parseFloat(entry.amount).toLocaleString()}</span>
+                        <span className="font-medium">${money(entry.amount).toLocaleString()}</span>
                       </div>
                       {entry.description && (
                         <p className="text-sm text-gray-600 mt-1">{entry.description}</p>
                       )}
+                      {entry.deductionType === "CHARITABLE_CONTRIBUTIONS" && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {CHARITABLE_GIFT_TYPES.find(t => t.value === (entry.giftType || "CASH"))?.label}
+                        </p>
+                      )}
                     </div>
                     <Button
                       type="button"
@@ -376,6 +558,26 @@ export function DeductionsStep({
               </div>
             )}
 
+            {/* Schedule A limits applied to each deduction type */}
+            {scheduleA.lines.some(line => line.allowed !== line.claimed) && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Limits Applied</h4>
+                {scheduleA.lines.filter(line => line.allowed !== line.claimed).map(line => (
+                  <div key={line.deductionType} className="flex items-start justify-between text-sm p-2 border rounded-lg">
+                    <div>
+                      <Badge variant="outline">
+                        {deductionTypes.find(t => t.value === line.deductionType)?.label || line.label}
+                      </Badge>
+                      <p className="text-gray-600 mt-1">{line.limit}</p>
+                    </div>
+                    <span className="font-medium whitespace-nowrap">
+                      ${line.allowed.toLocaleString()} of ${line.claimed.toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Add New Deduction */}
             <div className="border-t pt-4">
               <h4 className="font-medium mb-3">Add Deduction</h4>
@@ -407,6 +609,36 @@ export function DeductionsStep({
                   />
                 </div>
               </div>
+              {newEntry.deductionType === "CHARITABLE_CONTRIBUTIONS" && (
+                <div className="mt-3">
+                  <Label htmlFor="giftType">Gift Type</Label>
+                  <Select value={newEntry.giftType} onValueChange={(value) => setNewEntry({...newEntry, giftType: value})}>
+                    <SelectTrigger id="giftType">
+                      <SelectValue placeholder="Select gift type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHARITABLE_GIFT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label} ({Math.round(type.agiLimit * 100)}% of AGI)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {(newEntry.deductionType === "HSA_CONTRIBUTIONS" || deductionEntries.some((entry: any) => entry.deductionType === "HSA_CONTRIBUTIONS")) && (
+                <div className="flex items-center space-x-2 mt-3">
+                  <Checkbox
+                    id="hsaFamilyCoverage"
+                    checked={hsaFamilyCoverage}
+                    onCheckedChange={(checked) => {
+                      setHsaFamilyCoverage(checked === true)
+                      onMarkUnsaved()
+                    }}
+                  />
+                  <Label htmlFor="hsaFamilyCoverage">Family HDHP coverage (Form 8889 line 1)</Label>
+                </div>
+              )}
               <div className="mt-3">
                 <Label htmlFor="deductionDescription">Description (Optional)</Label>
                 <Input
@@ -429,6 +661,320 @@ export function DeductionsStep({
           </CardContent>
         </Card>
 
+        {/* Child and Dependent Care Expenses (Form 2441) */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Baby className="h-5 w-5" />
+              <span>Child and Dependent Care Expenses (Form 2441)</span>
+            </CardTitle>
+            <CardDescription>
+              Daycare and other care paid so you (and your spouse) could work, for a child under 13 or a dependent who can't care for themselves
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {dependentCareExpenses.length > 0 && (
+              <div className="space-y-3">
+                {dependentCareExpenses.map((expense: any) => (
+                  <div key={expense.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{expense.qualifyingPersonName}</span>
+                        <span className="font-medium">${money(expense.amount).toLocaleString()}</span>
+                        {expense.disabled && <Badge variant="outline">Disabled</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {expense.providerName}{expense.providerEIN ? ` (${expense.providerEIN})` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteDependentCareExpense(expense.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t pt-4">
+              <h4 className="font-medium mb-3">Add Care Expense</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="careQualifyingPerson">Qualifying Person</Label>
+                  <Select
+                    value={newDependentCareExpense.dependentId || "OTHER"}
+                    onValueChange={(value) => {
+                      const dependent = (taxReturn.dependents || []).find((dep: any) => dep.id === value)
+                      setNewDependentCareExpense({
+                        ...newDependentCareExpense,
+                        dependentId: dependent ? dependent.id : "",
+                        qualifyingPersonName: dependent ? `${dependent.firstName} ${dependent.lastName}` : "",
+                        underThirteen: dependent ? isUnderThirteen({ birthDate: dependent.birthDate }, taxReturn.taxYear) : true,
+                      })
+                    }}
+                  >
+                    <SelectTrigger id="careQualifyingPerson">
+                      <SelectValue placeholder="Select person" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(taxReturn.dependents || []).map((dependent: any) => (
+                        <SelectItem key={dependent.id} value={dependent.id}>
+                          {dependent.firstName} {dependent.lastName}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="OTHER">Someone else (spouse or other person)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="careQualifyingPersonName">Name</Label>
+                  <Input
+                    id="careQualifyingPersonName"
+                    value={newDependentCareExpense.qualifyingPersonName}
+                    onChange={(e) => setNewDependentCareExpense({...newDependentCareExpense, qualifyingPersonName: e.target.value})}
+                    disabled={!!newDependentCareExpense.dependentId}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="careProviderName">Care Provider</Label>
+                  <Input
+                    id="careProviderName"
+                    value={newDependentCareExpense.providerName}
+                    onChange={(e) => setNewDependentCareExpense({...newDependentCareExpense, providerName: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="careProviderEIN">Provider EIN or SSN</Label>
+                  <Input
+                    id="careProviderEIN"
+                    value={newDependentCareExpense.providerEIN}
+                    onChange={(e) => setNewDependentCareExpense({...newDependentCareExpense, providerEIN: e.target.value})}
+                    placeholder="00-0000000"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="careAmount">Amount Paid</Label>
+                  <Input
+                    id="careAmount"
+                    type="number"
+                    step="0.01"
+                    value={newDependentCareExpense.amount}
+                    onChange={(e) => setNewDependentCareExpense({...newDependentCareExpense, amount: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-6 mt-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="careUnderThirteen"
+                    checked={newDependentCareExpense.underThirteen}
+                    onCheckedChange={(checked) => setNewDependentCareExpense({...newDependentCareExpense, underThirteen: checked === true})}
+                    disabled={!!newDependentCareExpense.dependentId}
+                  />
+                  <Label htmlFor="careUnderThirteen">Under age 13</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="careDisabled"
+                    checked={newDependentCareExpense.disabled}
+                    onCheckedChange={(checked) => setNewDependentCareExpense({...newDependentCareExpense, disabled: checked === true})}
+                  />
+                  <Label htmlFor="careDisabled">Unable to care for themselves</Label>
+                </div>
+              </div>
+              <Button
+                type="button"
+                onClick={handleAddDependentCareExpense}
+                disabled={!newDependentCareExpense.qualifyingPersonName || !newDependentCareExpense.providerName || !newDependentCareExpense.amount}
+                className="w-full mt-3"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Care Expense
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Education Expenses (Form 1098-T) */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <GraduationCap className="h-5 w-5" />
+              <span>Education Expenses (Form 1098-T)</span>
+            </CardTitle>
+            <CardDescription>
+              Tuition paid for you, your spouse or a dependent may qualify for the American Opportunity or Lifetime Learning Credit
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {educationExpenses.length > 0 && (
+              <div className="space-y-3">
+                {educationExpenses.map((expense: any) => (
+                  <div key={expense.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="secondary">
+                          {educationCreditTypes.find(t => t.value === expense.creditType)?.label}
+                        </Badge>
+                        <span className="font-medium">{expense.studentName}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {expense.institutionName ? `${expense.institutionName}: ` : ""}
+                        ${money(expense.qualifiedExpenses).toLocaleString()} qualified expenses
+                        {money(expense.scholarships) > 0 && `, $${money(expense.scholarships).toLocaleString()} scholarships`}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteEducationExpense(expense.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t pt-4">
+              <h4 className="font-medium mb-3">Add Student</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="educationStudent">Student</Label>
+                  <Select
+                    value={newEducationExpense.dependentId || "SELF"}
+                    onValueChange={(value) => {
+                      const dependent = (taxReturn.dependents || []).find((dep: any) => dep.id === value)
+                      setNewEducationExpense({
+                        ...newEducationExpense,
+                        dependentId: dependent ? dependent.id : "",
+                        studentName: dependent ? `${dependent.firstName} ${dependent.lastName}` : "",
+                      })
+                    }}
+                  >
+                    <SelectTrigger id="educationStudent">
+                      <SelectValue placeholder="Select student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="SELF">You or your spouse</SelectItem>
+                      {(taxReturn.dependents || []).map((dependent: any) => (
+                        <SelectItem key={dependent.id} value={dependent.id}>
+                          {dependent.firstName} {dependent.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="educationStudentName">Student Name</Label>
+                  <Input
+                    id="educationStudentName"
+                    value={newEducationExpense.studentName}
+                    onChange={(e) => setNewEducationExpense({...newEducationExpense, studentName: e.target.value})}
+                    disabled={!!newEducationExpense.dependentId}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="educationInstitution">Institution</Label>
+                  <Input
+                    id="educationInstitution"
+                    value={newEducationExpense.institutionName}
+                    onChange={(e) => setNewEducationExpense({...newEducationExpense, institutionName: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="educationCreditType">Credit</Label>
+                  <Select value={newEducationExpense.creditType} onValueChange={(value) => setNewEducationExpense({...newEducationExpense, creditType: value})}>
+                    <SelectTrigger id="educationCreditType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {educationCreditTypes.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="educationExpenses">Tuition and Required Fees (Box 1)</Label>
+                  <Input
+                    id="educationExpenses"
+                    type="number"
+                    step="0.01"
+                    value={newEducationExpense.qualifiedExpenses}
+                    onChange={(e) => setNewEducationExpense({...newEducationExpense, qualifiedExpenses: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="educationScholarships">Scholarships or Grants (Box 5)</Label>
+                  <Input
+                    id="educationScholarships"
+                    type="number"
+                    step="0.01"
+                    value={newEducationExpense.scholarships}
+                    onChange={(e) => setNewEducationExpense({...newEducationExpense, scholarships: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="educationPriorYears">Prior Years AOTC Claimed</Label>
+                  <Input
+                    id="educationPriorYears"
+                    type="number"
+                    min="0"
+                    max="4"
+                    value={newEducationExpense.priorAotcYears}
+                    onChange={(e) => setNewEducationExpense({...newEducationExpense, priorAotcYears: e.target.value})}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-6 mt-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="halfTimeStudent"
+                    checked={newEducationExpense.halfTimeStudent}
+                    onCheckedChange={(checked) => setNewEducationExpense({...newEducationExpense, halfTimeStudent: checked === true})}
+                  />
+                  <Label htmlFor="halfTimeStudent">At least half-time (Box 8)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="graduateStudent"
+                    checked={newEducationExpense.graduateStudent}
+                    onCheckedChange={(checked) => setNewEducationExpense({...newEducationExpense, graduateStudent: checked === true})}
+                  />
+                  <Label htmlFor="graduateStudent">Graduate student (Box 9)</Label>
+                </div>
+              </div>
+              <Button
+                type="button"
+                onClick={handleAddEducationExpense}
+                disabled={!newEducationExpense.studentName || !newEducationExpense.qualifiedExpenses}
+                className="w-full mt-3"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Education Expense
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <MarketplaceCoverage
+          taxReturn={taxReturn}
+          dependentsModifiedAGI={dependentsModifiedAGI}
+          onDependentsModifiedAGIChange={setDependentsModifiedAGI}
+          onMarkUnsaved={onMarkUnsaved}
+        />
+
         {/* Final Deduction Summary */}
         <Card>
           <CardHeader>
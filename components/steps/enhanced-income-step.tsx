@@ -8,8 +8,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
 import { DocumentProcessor } from "@/components/document-processor"
 import { NameValidationDialog } from "@/components/name-validation-dialog"
+import { electiveDeferralsFromBox12 } from "@/lib/savers-credit"
+import { hsaEmployerContributionsFromBox12 } from "@/lib/schedule-1-adjustments"
+import { money, sumMoney } from "@/lib/money"
+import { calculateScheduleD } from "@/lib/schedule-d"
+import { directCreditLimit } from "@/lib/foreign-tax-credit"
 import { 
   DollarSign, 
   Plus, 
@@ -20,9 +26,11 @@ import {
   FileText, 
   CheckCircle,
   Upload,
-  Sparkles
+  Sparkles,
+  TrendingUp,
+  Globe
 } from "lucide-react"
-import { validateNames, extractNamesFromDocument, type NameValidationResult } from "@/lib/name-validation"
+import { validateNames, extractNamesFromDocument, isSpouseW2, type NameValidationResult } from "@/lib/name-validation"
 
 interface EnhancedIncomeStepProps {
   taxReturn: any
@@ -43,12 +51,26 @@ const incomeTypes = [
   { value: "W2_WAGES", label: "W-2 Wages" },
   { value: "INTEREST", label: "Interest Income" },
   { value: "DIVIDENDS", label: "Dividends" },
+  { value: "CAPITAL_GAINS", label: "Capital Gains" },
+  { value: "BUSINESS_INCOME", label: "Business / Self-Employment Income" },
   { value: "UNEMPLOYMENT", label: "Unemployment Compensation" },
   { value: "RETIREMENT_DISTRIBUTIONS", label: "Retirement Distributions" },
   { value: "SOCIAL_SECURITY", label: "Social Security Benefits" },
   { value: "OTHER_INCOME", label: "Other Income" },
 ]
 
+const emptyCapitalAssetSale = {
+  description: "",
+  dateAcquired: "",
+  dateSold: "",
+  proceeds: "",
+  costBasis: "",
+  holdingPeriod: "",
+  basisReported: true,
+  adjustmentCode: "",
+  adjustmentAmount: "",
+}
+
 interface AutoPopulatedEntry {
   incomeType: string
   amount: string
@@ -58,6 +80,18 @@ interface AutoPopulatedEntry {
   payerName: string
   payerTIN: string
   federalTaxWithheld: string
+  qualifiedDividends?: string
+  socialSecurityWages?: string
+  socialSecurityTaxWithheld?: string
+  medicareWages?: string
+  medicareTaxWithheld?: string
+  retirementPlan?: boolean
+  dependentCareBenefits?: string
+  electiveDeferrals?: string
+  hsaEmployerContributions?: string
+  spouseW2?: boolean
+  privateActivityBondInterest?: string
+  foreignTaxPaid?: string
   isAutoPopulated: boolean
   documentId?: string
   documentType?: string
@@ -89,6 +123,21 @@ export function EnhancedIncomeStep({
     payerName: "",
     payerTIN: "",
     federalTaxWithheld: "",
+    qualifiedDividends: "",
+    socialSecurityWages: "",
+    socialSecurityTaxWithheld: "",
+    medicareWages: "",
+    medicareTaxWithheld: "",
+    retirementPlan: false,
+    dependentCareBenefits: "",
+    electiveDeferrals: "",
+    hsaEmployerContributions: "",
+    spouseW2: false,
+    privateActivityBondInterest: "",
+    foreignTaxPaid: "",
+    businessW2Wages: "",
+    businessPropertyBasis: "",
+    specifiedServiceBusiness: false,
   })
   
   // Name validation state
@@ -104,9 +153,52 @@ export function EnhancedIncomeStep({
     extractedData: null
   })
 
-  const totalIncome = incomeEntries.reduce((sum: number, entry: any) => 
-    sum + parseFloat(entry.amount || 0), 0
+  const [capitalAssetSales, setCapitalAssetSales] = useState<any[]>(taxReturn.capitalAssetSales || [])
+  const [newSale, setNewSale] = useState(emptyCapitalAssetSale)
+  const [shortTermLossCarryover, setShortTermLossCarryover] = useState(String(taxReturn.shortTermLossCarryover ?? ""))
+  const [longTermLossCarryover, setLongTermLossCarryover] = useState(String(taxReturn.longTermLossCarryover ?? ""))
+
+  // Capital gain entries become Schedule D line 13, and Schedule D line 7 replaces them in income
+  const capitalGainEntries = sumMoney(...incomeEntries
+    .filter((entry: any) => entry.incomeType === 'CAPITAL_GAINS')
+    .map((entry: any) => entry.amount)
   )
+  const scheduleD = calculateScheduleD({
+    sales: capitalAssetSales.map((sale: any) => ({
+      description: sale.description,
+      dateAcquired: sale.dateAcquired,
+      dateSold: sale.dateSold,
+      proceeds: money(sale.proceeds),
+      costBasis: money(sale.costBasis),
+      adjustmentCode: sale.adjustmentCode,
+      adjustmentAmount: money(sale.adjustmentAmount),
+      holdingPeriod: sale.holdingPeriod,
+      basisReported: sale.basisReported,
+    })),
+    capitalGainDistributions: capitalGainEntries,
+    shortTermLossCarryover: money(shortTermLossCarryover),
+    longTermLossCarryover: money(longTermLossCarryover),
+    filingStatus: taxReturn.filingStatus,
+  })
+  const capitalLossCarryoverFields = {
+    shortTermLossCarryover: money(shortTermLossCarryover),
+    longTermLossCarryover: money(longTermLossCarryover),
+  }
+
+  // Foreign tax credit - 1099-INT box 6 / 1099-DIV box 7 on the entries, Form 1116 inputs on the return
+  const [foreignSourceIncome, setForeignSourceIncome] = useState(String(taxReturn.foreignSourceIncome ?? ""))
+  const [foreignTaxCreditCarryover, setForeignTaxCreditCarryover] = useState(String(taxReturn.foreignTaxCreditCarryover ?? ""))
+  const [foreignTaxDirectCredit, setForeignTaxDirectCredit] = useState<boolean>(taxReturn.foreignTaxDirectCredit ?? true)
+  const foreignTaxEntries = incomeEntries.filter((entry: any) => money(entry.foreignTaxPaid) > 0)
+  const totalForeignTaxPaid = sumMoney(...foreignTaxEntries.map((entry: any) => entry.foreignTaxPaid))
+  const foreignTaxLimit = directCreditLimit(taxReturn.filingStatus)
+  const foreignTaxCreditFields = {
+    foreignSourceIncome: foreignSourceIncome === "" ? null : money(foreignSourceIncome),
+    foreignTaxCreditCarryover: money(foreignTaxCreditCarryover),
+    foreignTaxDirectCredit,
+  }
+
+  const totalIncome = sumMoney(...incomeEntries.map((entry: any) => entry.amount), -capitalGainEntries, scheduleD.capitalGainOrLoss)
 
   // Auto-save functionality with debouncing
   useEffect(() => {
@@ -114,13 +206,16 @@ export function EnhancedIncomeStep({
       if (hasUnsavedChanges && !autoSaving && incomeEntries.length > 0) {
         onAutoSave({ 
           totalIncome: totalIncome,
-          adjustedGrossIncome: totalIncome 
+          adjustedGrossIncome: totalIncome,
+          ...capitalLossCarryoverFields,
+          ...foreignTaxCreditFields
         })
       }
     }, 3000) // Auto-save after 3 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [incomeEntries, totalIncome, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [incomeEntries, totalIncome, shortTermLossCarryover, longTermLossCarryover, foreignSourceIncome, foreignTaxCreditCarryover,
+      foreignTaxDirectCredit, hasUnsavedChanges, autoSaving, onAutoSave])
 
  const handleDocumentProcessed = async (extractedData: any) => {
   console.log('🔍 [CALLBACK] handleDocumentProcessed called with:', extractedData)
@@ -221,6 +316,15 @@ export function EnhancedIncomeStep({
         payerName: '',
         payerTIN: '',
         federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        socialSecurityWages: cleanAmount(data.socialSecurityWages || '0'),
+        socialSecurityTaxWithheld: cleanAmount(data.socialSecurityTaxWithheld || '0'),
+        medicareWages: cleanAmount(data.medicareWages || '0'),
+        medicareTaxWithheld: cleanAmount(data.medicareTaxWithheld || '0'),
+        retirementPlan: !!data.retirementPlan,
+        dependentCareBenefits: cleanAmount(data.dependentCareBenefits || '0'),
+        electiveDeferrals: String(electiveDeferralsFromBox12([data.box12a, data.box12b, data.box12c, data.box12d])),
+        hsaEmployerContributions: String(hsaEmployerContributionsFromBox12([data.box12a, data.box12b, data.box12c, data.box12d])),
+        spouseW2: isSpouseW2(data, taxReturn),
         isAutoPopulated: true,
         documentId: extractedData?.documentId,
         documentType: 'W2',
@@ -240,6 +344,8 @@ export function EnhancedIncomeStep({
         payerName: data.payerName || '',
         payerTIN: data.payerTIN || '',
         federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        privateActivityBondInterest: cleanAmount(data.specifiedPrivateActivityBondInterest || '0'),
+        foreignTaxPaid: cleanAmount(data.foreignTaxPaid || '0'),
         isAutoPopulated: true,
         documentId: extractedData?.documentId,
         documentType: 'FORM_1099_INT',
@@ -259,11 +365,31 @@ export function EnhancedIncomeStep({
         payerName: data.payerName || '',
         payerTIN: data.payerTIN || '',
         federalTaxWithheld: cleanAmount(data.federalTaxWithheld || '0'),
+        qualifiedDividends: cleanAmount(data.qualifiedDividends || '0'),
+        foreignTaxPaid: cleanAmount(data.foreignTaxPaid || '0'),
         isAutoPopulated: true,
         documentId: extractedData?.documentId,
         documentType: 'FORM_1099_DIV',
         confidence: extractedData?.confidence || 0.85
       })
+
+      // Box 2a capital gain distributions go to Form 1040, line 7
+      if (data.totalCapitalGain && money(cleanAmount(data.totalCapitalGain)) > 0) {
+        entries.push({
+          incomeType: 'CAPITAL_GAINS',
+          amount: cleanAmount(data.totalCapitalGain),
+          description: `Capital Gain Distributions from ${data.payerName || 'Investment Account'}`,
+          employerName: '',
+          employerEIN: '',
+          payerName: data.payerName || '',
+          payerTIN: data.payerTIN || '',
+          federalTaxWithheld: '0',
+          isAutoPopulated: true,
+          documentId: extractedData?.documentId,
+          documentType: 'FORM_1099_DIV',
+          confidence: extractedData?.confidence || 0.85
+        })
+      }
     }
 
     // Enhanced 1099-MISC data handling - Create separate entries for different income types
@@ -275,7 +401,7 @@ export function EnhancedIncomeStep({
       const federalTaxWithheld = cleanAmount(data.federalTaxWithheld || '0')
       
       // Rents (Box 1)
-      if (data.rents && parseFloat(cleanAmount(data.rents)) > 0) {
+      if (data.rents && money(cleanAmount(data.rents)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.rents),
@@ -293,7 +419,7 @@ export function EnhancedIncomeStep({
       }
 
       // Royalties (Box 2)
-      if (data.royalties && parseFloat(cleanAmount(data.royalties)) > 0) {
+      if (data.royalties && money(cleanAmount(data.royalties)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.royalties),
@@ -311,7 +437,7 @@ export function EnhancedIncomeStep({
       }
 
       // Other Income (Box 3)
-      if (data.otherIncome && parseFloat(cleanAmount(data.otherIncome)) > 0) {
+      if (data.otherIncome && money(cleanAmount(data.otherIncome)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.otherIncome),
@@ -329,7 +455,7 @@ export function EnhancedIncomeStep({
       }
 
       // Fishing Boat Proceeds (Box 5)
-      if (data.fishingBoatProceeds && parseFloat(cleanAmount(data.fishingBoatProceeds)) > 0) {
+      if (data.fishingBoatProceeds && money(cleanAmount(data.fishingBoatProceeds)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.fishingBoatProceeds),
@@ -347,7 +473,7 @@ export function EnhancedIncomeStep({
       }
 
       // Medical and Health Care Payments (Box 6)
-      if (data.medicalHealthPayments && parseFloat(cleanAmount(data.medicalHealthPayments)) > 0) {
+      if (data.medicalHealthPayments && money(cleanAmount(data.medicalHealthPayments)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.medicalHealthPayments),
@@ -365,7 +491,7 @@ export function EnhancedIncomeStep({
       }
 
       // Nonemployee Compensation (Box 7)
-      if (data.nonemployeeCompensation && parseFloat(cleanAmount(data.nonemployeeCompensation)) > 0) {
+      if (data.nonemployeeCompensation && money(cleanAmount(data.nonemployeeCompensation)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.nonemployeeCompensation),
@@ -383,7 +509,7 @@ export function EnhancedIncomeStep({
       }
 
       // Substitute Payments in Lieu of Dividends or Interest (Box 8)
-      if (data.substitutePayments && parseFloat(cleanAmount(data.substitutePayments)) > 0) {
+      if (data.substitutePayments && money(cleanAmount(data.substitutePayments)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.substitutePayments),
@@ -401,7 +527,7 @@ export function EnhancedIncomeStep({
       }
 
       // Crop Insurance Proceeds (Box 9)
-      if (data.cropInsuranceProceeds && parseFloat(cleanAmount(data.cropInsuranceProceeds)) > 0) {
+      if (data.cropInsuranceProceeds && money(cleanAmount(data.cropInsuranceProceeds)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.cropInsuranceProceeds),
@@ -419,7 +545,7 @@ export function EnhancedIncomeStep({
       }
 
       // Gross Proceeds Paid to an Attorney (Box 10)
-      if (data.grossProceedsAttorney && parseFloat(cleanAmount(data.grossProceedsAttorney)) > 0) {
+      if (data.grossProceedsAttorney && money(cleanAmount(data.grossProceedsAttorney)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.grossProceedsAttorney),
@@ -437,7 +563,7 @@ export function EnhancedIncomeStep({
       }
 
       // Section 409A Deferrals (Box 12)
-      if (data.section409ADeferrals && parseFloat(cleanAmount(data.section409ADeferrals)) > 0) {
+      if (data.section409ADeferrals && money(cleanAmount(data.section409ADeferrals)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.section409ADeferrals),
@@ -455,7 +581,7 @@ export function EnhancedIncomeStep({
       }
 
       // Excess Golden Parachute Payments (Box 13)
-      if (data.excessGoldenParachutePayments && parseFloat(cleanAmount(data.excessGoldenParachutePayments)) > 0) {
+      if (data.excessGoldenParachutePayments && money(cleanAmount(data.excessGoldenParachutePayments)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.excessGoldenParachutePayments),
@@ -473,7 +599,7 @@ export function EnhancedIncomeStep({
       }
 
       // Nonqualified Deferred Compensation (Box 14)
-      if (data.nonqualifiedDeferredCompensation && parseFloat(cleanAmount(data.nonqualifiedDeferredCompensation)) > 0) {
+      if (data.nonqualifiedDeferredCompensation && money(cleanAmount(data.nonqualifiedDeferredCompensation)) > 0) {
         entries.push({
           incomeType: 'OTHER_INCOME',
           amount: cleanAmount(data.nonqualifiedDeferredCompensation),
@@ -495,7 +621,7 @@ export function EnhancedIncomeStep({
     if (extractedData?.documentType === 'FORM_1099_NEC' || data?.nonemployeeCompensation) {
       console.log('🔍 [CONVERT] Processing 1099-NEC data...');
       entries.push({
-        incomeType: 'OTHER_INCOME',
+        incomeType: 'BUSINESS_INCOME',
         amount: cleanAmount(data.nonemployeeCompensation || '0'),
         description: `1099-NEC Nonemployee Compensation from ${data.payerName || 'Payer'}`,
         employerName: '',
@@ -511,7 +637,7 @@ export function EnhancedIncomeStep({
     }
 
     console.log(`🔍 [CONVERT] Total entries created: ${entries.length}`);
-    return entries.filter(entry => parseFloat(entry.amount) > 0)
+    return entries.filter(entry => money(entry.amount) > 0)
   }
 
   const cleanAmount = (amount: string | number): string => {
@@ -527,13 +653,25 @@ export function EnhancedIncomeStep({
     try {
       const entryData = {
         incomeType: entry.incomeType,
-        amount: parseFloat(entry.amount),
+        amount: money(entry.amount),
         description: entry.description,
         employerName: entry.employerName,
         employerEIN: entry.employerEIN,
         payerName: entry.payerName,
         payerTIN: entry.payerTIN,
-        federalTaxWithheld: parseFloat(entry.federalTaxWithheld || '0'),
+        federalTaxWithheld: money(entry.federalTaxWithheld),
+        qualifiedDividends: money(entry.qualifiedDividends),
+        socialSecurityWages: money(entry.socialSecurityWages),
+        socialSecurityTaxWithheld: money(entry.socialSecurityTaxWithheld),
+        medicareWages: money(entry.medicareWages),
+        medicareTaxWithheld: money(entry.medicareTaxWithheld),
+        retirementPlan: !!entry.retirementPlan,
+        dependentCareBenefits: money(entry.dependentCareBenefits),
+        electiveDeferrals: money(entry.electiveDeferrals),
+        hsaEmployerContributions: money(entry.hsaEmployerContributions),
+        spouseW2: !!entry.spouseW2,
+        privateActivityBondInterest: money(entry.privateActivityBondInterest),
+        foreignTaxPaid: money(entry.foreignTaxPaid),
         documentId: entry.documentId, // Include documentId for linking
       }
 
@@ -554,9 +692,7 @@ export function EnhancedIncomeStep({
         setIncomeEntries((prev: any[]) => {
           const updatedEntries = [...prev, savedEntry]
           // Calculate new total income and trigger immediate update
-          const newTotalIncome = updatedEntries.reduce((sum: number, entry: any) => 
-            sum + parseFloat(entry.amount || 0), 0
-          )
+          const newTotalIncome = sumMoney(...updatedEntries.map((entry: any) => entry.amount))
           
           // Trigger immediate auto-save with updated total income
           setTimeout(() => {
@@ -594,12 +730,27 @@ export function EnhancedIncomeStep({
 
     const entry = {
       incomeType: newEntry.incomeType,
-      amount: parseFloat(newEntry.amount),
+      amount: money(newEntry.amount),
       description: newEntry.description,
       employerName: newEntry.employerName,
       employerEIN: newEntry.employerEIN,
       payerName: newEntry.payerName,
       payerTIN: newEntry.payerTIN,
+      qualifiedDividends: money(newEntry.qualifiedDividends),
+      socialSecurityWages: money(newEntry.socialSecurityWages),
+      socialSecurityTaxWithheld: money(newEntry.socialSecurityTaxWithheld),
+      medicareWages: money(newEntry.medicareWages),
+      medicareTaxWithheld: money(newEntry.medicareTaxWithheld),
+      retirementPlan: newEntry.retirementPlan,
+      dependentCareBenefits: money(newEntry.dependentCareBenefits),
+      electiveDeferrals: money(newEntry.electiveDeferrals),
+      hsaEmployerContributions: money(newEntry.hsaEmployerContributions),
+      spouseW2: newEntry.spouseW2,
+      privateActivityBondInterest: money(newEntry.privateActivityBondInterest),
+      foreignTaxPaid: money(newEntry.foreignTaxPaid),
+      businessW2Wages: money(newEntry.businessW2Wages),
+      businessPropertyBasis: money(newEntry.businessPropertyBasis),
+      specifiedServiceBusiness: newEntry.specifiedServiceBusiness,
     }
 
     try {
@@ -624,6 +775,21 @@ export function EnhancedIncomeStep({
           payerName: "",
           payerTIN: "",
           federalTaxWithheld: "",
+          qualifiedDividends: "",
+          socialSecurityWages: "",
+          socialSecurityTaxWithheld: "",
+          medicareWages: "",
+          medicareTaxWithheld: "",
+          retirementPlan: false,
+          dependentCareBenefits: "",
+          electiveDeferrals: "",
+          hsaEmployerContributions: "",
+          spouseW2: false,
+          privateActivityBondInterest: "",
+          foreignTaxPaid: "",
+          businessW2Wages: "",
+          businessPropertyBasis: "",
+          specifiedServiceBusiness: false,
         })
       }
     } catch (error) {
@@ -646,11 +812,59 @@ export function EnhancedIncomeStep({
     }
   }
 
+  const handleAddSale = async () => {
+    if (!newSale.description || !newSale.dateSold || !newSale.proceeds || !newSale.costBasis) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/capital-asset-sales`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...newSale,
+          dateAcquired: newSale.dateAcquired || null,
+          proceeds: money(newSale.proceeds),
+          costBasis: money(newSale.costBasis),
+          holdingPeriod: newSale.holdingPeriod || null,
+          adjustmentCode: newSale.adjustmentCode || null,
+          adjustmentAmount: newSale.adjustmentCode ? money(newSale.adjustmentAmount) : 0,
+        }),
+      })
+
+      if (response.ok) {
+        const savedSale = await response.json()
+        setCapitalAssetSales([...capitalAssetSales, savedSale])
+        onMarkUnsaved()
+        setNewSale(emptyCapitalAssetSale)
+      }
+    } catch (error) {
+      console.error("Error adding capital asset sale:", error)
+    }
+  }
+
+  const handleDeleteSale = async (saleId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/capital-asset-sales/${saleId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setCapitalAssetSales(capitalAssetSales.filter((sale: any) => sale.id !== saleId))
+        onMarkUnsaved()
+      }
+    } catch (error) {
+      console.error("Error deleting capital asset sale:", error)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     await onUpdate({ 
       totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome // For Stage 1, AGI = Total Income
+      adjustedGrossIncome: totalIncome, // For Stage 1, AGI = Total Income
+      ...capitalLossCarryoverFields,
+      ...foreignTaxCreditFields
     })
     onNext()
   }
@@ -659,7 +873,9 @@ export function EnhancedIncomeStep({
     e.preventDefault()
     await onCompleteStep({ 
       totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome
+      adjustedGrossIncome: totalIncome,
+      ...capitalLossCarryoverFields,
+      ...foreignTaxCreditFields
     })
     onNext()
   }
@@ -667,7 +883,9 @@ export function EnhancedIncomeStep({
   const handleSaveOnly = async () => {
     await onAutoSave({ 
       totalIncome: totalIncome,
-      adjustedGrossIncome: totalIncome
+      adjustedGrossIncome: totalIncome,
+      ...capitalLossCarryoverFields,
+      ...foreignTaxCreditFields
     })
   }
 
@@ -749,7 +967,7 @@ export function EnhancedIncomeStep({
                         )}
                       </div>
                       <div className="font-medium text-lg mb-1">
-                        ${parseFloat(entry.amount).toLocaleString()}
+                        ${money(entry.amount).toLocaleString()}
                       </div>
                       {entry.description && (
                         <p className="text-sm text-gray-600 mb-2">{entry.description}</p>
@@ -759,8 +977,8 @@ export function EnhancedIncomeStep({
                         {entry.employerEIN && <p>Employer EIN: {entry.employerEIN}</p>}
                         {entry.payerName && <p>Payer: {entry.payerName}</p>}
                         {entry.payerTIN && <p>Payer TIN: {entry.payerTIN}</p>}
-                        {parseFloat(entry.federalTaxWithheld) > 0 && (
-                          <p>Federal Tax Withheld: ${parseFloat(entry.federalTaxWithheld).toLocaleString()}</p>
+                        {money(entry.federalTaxWithheld) > 0 && (
+                          <p>Federal Tax Withheld: ${money(entry.federalTaxWithheld).toLocaleString()}</p>
                         )}
                       </div>
                     </div>
@@ -812,7 +1030,7 @@ export function EnhancedIncomeStep({
                           Auto-populated
                         </Badge>
                       )}
-                      <span className="font-medium">${parseFloat(entry.amount).toLocaleString()}</span>
+                      <span className="font-medium">${money(entry.amount).toLocaleString()}</span>
                     </div>
                     {entry.description && (
                       <p className="text-sm text-gray-600 mt-1">{entry.description}</p>
@@ -913,10 +1131,105 @@ export function EnhancedIncomeStep({
                     placeholder="00-0000000"
                   />
                 </div>
+                <div>
+                  <Label htmlFor="socialSecurityWages">Social Security Wages (Box 3)</Label>
+                  <Input
+                    id="socialSecurityWages"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.socialSecurityWages}
+                    onChange={(e) => setNewEntry({...newEntry, socialSecurityWages: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="socialSecurityTaxWithheld">Social Security Tax Withheld (Box 4)</Label>
+                  <Input
+                    id="socialSecurityTaxWithheld"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.socialSecurityTaxWithheld}
+                    onChange={(e) => setNewEntry({...newEntry, socialSecurityTaxWithheld: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="medicareWages">Medicare Wages (Box 5)</Label>
+                  <Input
+                    id="medicareWages"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.medicareWages}
+                    onChange={(e) => setNewEntry({...newEntry, medicareWages: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="medicareTaxWithheld">Medicare Tax Withheld (Box 6)</Label>
+                  <Input
+                    id="medicareTaxWithheld"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.medicareTaxWithheld}
+                    onChange={(e) => setNewEntry({...newEntry, medicareTaxWithheld: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="dependentCareBenefits">Dependent Care Benefits (Box 10)</Label>
+                  <Input
+                    id="dependentCareBenefits"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.dependentCareBenefits}
+                    onChange={(e) => setNewEntry({...newEntry, dependentCareBenefits: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="electiveDeferrals">Elective Deferrals (Box 12 codes D, E, G)</Label>
+                  <Input
+                    id="electiveDeferrals"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.electiveDeferrals}
+                    onChange={(e) => setNewEntry({...newEntry, electiveDeferrals: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="hsaEmployerContributions">Employer HSA Contributions (Box 12 code W)</Label>
+                  <Input
+                    id="hsaEmployerContributions"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.hsaEmployerContributions}
+                    onChange={(e) => setNewEntry({...newEntry, hsaEmployerContributions: e.target.value})}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pt-6">
+                  <Checkbox
+                    id="retirementPlan"
+                    checked={newEntry.retirementPlan}
+                    onCheckedChange={(checked) => setNewEntry({...newEntry, retirementPlan: checked === true})}
+                  />
+                  <Label htmlFor="retirementPlan">Retirement plan (Box 13)</Label>
+                </div>
+                {taxReturn.filingStatus === "MARRIED_FILING_JOINTLY" && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="spouseW2"
+                      checked={newEntry.spouseW2}
+                      onCheckedChange={(checked) => setNewEntry({...newEntry, spouseW2: checked === true})}
+                    />
+                    <Label htmlFor="spouseW2">This is my spouse's W-2</Label>
+                  </div>
+                )}
               </div>
             )}
 
-            {(newEntry.incomeType === "INTEREST" || newEntry.incomeType === "DIVIDENDS") && (
+            {(newEntry.incomeType === "INTEREST" || newEntry.incomeType === "DIVIDENDS" || newEntry.incomeType === "CAPITAL_GAINS" || newEntry.incomeType === "BUSINESS_INCOME") && (
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="payerName">Payer Name</Label>
@@ -939,6 +1252,113 @@ export function EnhancedIncomeStep({
               </div>
             )}
 
+            {newEntry.incomeType === "BUSINESS_INCOME" && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="businessW2Wages">W-2 Wages Paid by the Business</Label>
+                    <Input
+                      id="businessW2Wages"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.businessW2Wages}
+                      onChange={(e) => setNewEntry({...newEntry, businessW2Wages: e.target.value})}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="businessPropertyBasis">Qualified Property (UBIA)</Label>
+                    <Input
+                      id="businessPropertyBasis"
+                      type="number"
+                      step="0.01"
+                      value={newEntry.businessPropertyBasis}
+                      onChange={(e) => setNewEntry({...newEntry, businessPropertyBasis: e.target.value})}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="specifiedServiceBusiness"
+                    checked={newEntry.specifiedServiceBusiness}
+                    onCheckedChange={(checked) => setNewEntry({...newEntry, specifiedServiceBusiness: checked === true})}
+                  />
+                  <Label htmlFor="specifiedServiceBusiness">Specified service business (health, law, consulting, financial services, etc.)</Label>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Only used for the qualified business income deduction when taxable income is above the Form 8995 threshold
+                </p>
+              </div>
+            )}
+
+            {newEntry.incomeType === "DIVIDENDS" && (
+              <div>
+                <Label htmlFor="qualifiedDividends">Qualified Dividends (1099-DIV Box 1b)</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="qualifiedDividends"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.qualifiedDividends}
+                    onChange={(e) => setNewEntry({...newEntry, qualifiedDividends: e.target.value})}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Portion of the dividends above taxed at the lower capital gain rates
+                </p>
+              </div>
+            )}
+
+            {(newEntry.incomeType === "INTEREST" || newEntry.incomeType === "DIVIDENDS") && (
+              <div>
+                <Label htmlFor="privateActivityBondInterest">
+                  Private Activity Bond Interest ({newEntry.incomeType === "INTEREST" ? "1099-INT Box 9" : "1099-DIV Box 13"})
+                </Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="privateActivityBondInterest"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.privateActivityBondInterest}
+                    onChange={(e) => setNewEntry({...newEntry, privateActivityBondInterest: e.target.value})}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Tax-exempt for regular tax but added back for the Alternative Minimum Tax
+                </p>
+              </div>
+            )}
+
+            {(newEntry.incomeType === "INTEREST" || newEntry.incomeType === "DIVIDENDS") && (
+              <div>
+                <Label htmlFor="foreignTaxPaid">
+                  Foreign Tax Paid ({newEntry.incomeType === "INTEREST" ? "1099-INT Box 6" : "1099-DIV Box 7"})
+                </Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="foreignTaxPaid"
+                    type="number"
+                    step="0.01"
+                    value={newEntry.foreignTaxPaid}
+                    onChange={(e) => setNewEntry({...newEntry, foreignTaxPaid: e.target.value})}
+                    className="pl-10"
+                    placeholder="0.00"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Claimed as the foreign tax credit on Schedule 3 line 1
+                </p>
+              </div>
+            )}
+
             <Button
               type="button"
               onClick={handleAddEntry}
@@ -951,6 +1371,294 @@ export function EnhancedIncomeStep({
           </CardContent>
         </Card>
 
+        {/* Form 8949 / Schedule D */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <TrendingUp className="h-5 w-5" />
+              <span>Stock and Other Capital Asset Sales (Form 8949)</span>
+            </CardTitle>
+            <CardDescription>
+              Enter each sale from your 1099-B. Capital gain distributions from 1099-DIV stay under Capital Gains income.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scheduleD.form8949.length > 0 && (
+              <div className="space-y-2">
+                {capitalAssetSales.map((sale: any, index: number) => {
+                  const line = scheduleD.form8949[index]
+                  return (
+                    <div key={sale.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2">
+                          <Badge variant="secondary">Box {line.box}</Badge>
+                          <Badge variant="outline">{line.holdingPeriod === 'LONG_TERM' ? 'Long-term' : 'Short-term'}</Badge>
+                          <span className="font-medium">{sale.description}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          Proceeds ${line.proceeds.toLocaleString()} - basis ${line.costBasis.toLocaleString()}
+                          {line.adjustmentCode && ` ${line.adjustment >= 0 ? '+' : '-'} $${Math.abs(line.adjustment).toLocaleString()} (code ${line.adjustmentCode})`}
+                          {" = "}
+                          <span className={line.gainOrLoss < 0 ? "text-red-600" : "text-green-600"}>
+                            {line.gainOrLoss < 0 ? '-' : ''}${Math.abs(line.gainOrLoss).toLocaleString()}
+                          </span>
+                        </p>
+                      </div>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteSale(sale.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-3">
+                <Label htmlFor="saleDescription">Description of Property</Label>
+                <Input
+                  id="saleDescription"
+                  value={newSale.description}
+                  onChange={(e) => setNewSale({ ...newSale, description: e.target.value })}
+                  placeholder="100 sh. XYZ Co."
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saleDateAcquired">Date Acquired</Label>
+                <Input
+                  id="saleDateAcquired"
+                  type="date"
+                  value={newSale.dateAcquired}
+                  onChange={(e) => setNewSale({ ...newSale, dateAcquired: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saleDateSold">Date Sold</Label>
+                <Input
+                  id="saleDateSold"
+                  type="date"
+                  value={newSale.dateSold}
+                  onChange={(e) => setNewSale({ ...newSale, dateSold: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Holding Period</Label>
+                <Select
+                  value={newSale.holdingPeriod || "AUTO"}
+                  onValueChange={(value) => setNewSale({ ...newSale, holdingPeriod: value === "AUTO" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="AUTO">From the dates</SelectItem>
+                    <SelectItem value="SHORT_TERM">Short-term (1 year or less)</SelectItem>
+                    <SelectItem value="LONG_TERM">Long-term (more than 1 year)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saleProceeds">Proceeds</Label>
+                <Input
+                  id="saleProceeds"
+                  type="number"
+                  step="0.01"
+                  value={newSale.proceeds}
+                  onChange={(e) => setNewSale({ ...newSale, proceeds: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saleCostBasis">Cost or Other Basis</Label>
+                <Input
+                  id="saleCostBasis"
+                  type="number"
+                  step="0.01"
+                  value={newSale.costBasis}
+                  onChange={(e) => setNewSale({ ...newSale, costBasis: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="flex items-center space-x-2 pt-6">
+                <Checkbox
+                  id="saleBasisReported"
+                  checked={newSale.basisReported}
+                  onCheckedChange={(checked) => setNewSale({ ...newSale, basisReported: !!checked })}
+                />
+                <Label htmlFor="saleBasisReported">Basis reported to the IRS</Label>
+              </div>
+              <div className="space-y-2">
+                <Label>Adjustment Code</Label>
+                <Select
+                  value={newSale.adjustmentCode || "NONE"}
+                  onValueChange={(value) => setNewSale({ ...newSale, adjustmentCode: value === "NONE" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">None</SelectItem>
+                    <SelectItem value="W">W - Wash sale loss disallowed</SelectItem>
+                    <SelectItem value="D">D - Accrued market discount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {newSale.adjustmentCode && (
+                <div className="space-y-2">
+                  <Label htmlFor="saleAdjustmentAmount">Adjustment Amount</Label>
+                  <Input
+                    id="saleAdjustmentAmount"
+                    type="number"
+                    step="0.01"
+                    value={newSale.adjustmentAmount}
+                    onChange={(e) => setNewSale({ ...newSale, adjustmentAmount: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAddSale}
+              disabled={!newSale.description || !newSale.dateSold || !newSale.proceeds || !newSale.costBasis}
+              className="w-full"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Sale
+            </Button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shortTermLossCarryover">Short-Term Loss Carryover from {taxReturn.taxYear - 1}</Label>
+                <Input
+                  id="shortTermLossCarryover"
+                  type="number"
+                  step="0.01"
+                  value={shortTermLossCarryover}
+                  onChange={(e) => {
+                    setShortTermLossCarryover(e.target.value)
+                    onMarkUnsaved()
+                  }}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="longTermLossCarryover">Long-Term Loss Carryover from {taxReturn.taxYear - 1}</Label>
+                <Input
+                  id="longTermLossCarryover"
+                  type="number"
+                  step="0.01"
+                  value={longTermLossCarryover}
+                  onChange={(e) => {
+                    setLongTermLossCarryover(e.target.value)
+                    onMarkUnsaved()
+                  }}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            {(scheduleD.form8949.length > 0 || scheduleD.netGainOrLoss !== 0) && (
+              <div className="space-y-1 text-sm border-t pt-4">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Net short-term gain or (loss) - Schedule D line 7</span>
+                  <span>${scheduleD.shortTermGainOrLoss.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Net long-term gain or (loss) - Schedule D line 15</span>
+                  <span>${scheduleD.longTermGainOrLoss.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Capital gain or (loss) - Form 1040 line 7</span>
+                  <span>${scheduleD.capitalGainOrLoss.toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-gray-500">{scheduleD.explanation}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Foreign Tax Credit - direct credit or Form 1116 */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Globe className="h-5 w-5" />
+              <span>Foreign Tax Credit</span>
+            </CardTitle>
+            <CardDescription>
+              Foreign tax withheld on interest and dividends is credited against your U.S. tax
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1 text-sm">
+              {foreignTaxEntries.map((entry: any) => (
+                <div key={entry.id} className="flex justify-between">
+                  <span className="text-gray-600">{entry.payerName || entry.description}</span>
+                  <span>${money(entry.foreignTaxPaid).toLocaleString()}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium">
+                <span>Foreign tax paid</span>
+                <span>${totalForeignTaxPaid.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="foreignTaxDirectCredit"
+                checked={foreignTaxDirectCredit}
+                onCheckedChange={(checked) => {
+                  setForeignTaxDirectCredit(!!checked)
+                  onMarkUnsaved()
+                }}
+              />
+              <Label htmlFor="foreignTaxDirectCredit">
+                Claim the credit without Form 1116 when foreign tax is ${foreignTaxLimit} or less
+              </Label>
+            </div>
+            {foreignTaxDirectCredit && totalForeignTaxPaid > foreignTaxLimit && (
+              <p className="text-xs text-gray-500">
+                Foreign tax is over ${foreignTaxLimit}, so the credit is limited on Form 1116 instead
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="foreignSourceIncome">Foreign Source Income (Form 1116 line 1a)</Label>
+                <Input
+                  id="foreignSourceIncome"
+                  type="number"
+                  step="0.01"
+                  value={foreignSourceIncome}
+                  onChange={(e) => {
+                    setForeignSourceIncome(e.target.value)
+                    onMarkUnsaved()
+                  }}
+                  placeholder="Income from payers that withheld foreign tax"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="foreignTaxCreditCarryover">Unused Foreign Tax Carried to {taxReturn.taxYear}</Label>
+                <Input
+                  id="foreignTaxCreditCarryover"
+                  type="number"
+                  step="0.01"
+                  value={foreignTaxCreditCarryover}
+                  onChange={(e) => {
+                    setForeignTaxCreditCarryover(e.target.value)
+                    onMarkUnsaved()
+                  }}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Form 1116 limits the credit to the U.S. tax on foreign source income; the unused amount carries forward
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Summary Card */}
         <Card className="bg-green-50 border-green-200">
           <CardHeader>
@@ -9,8 +9,10 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { Checkbox } from "@/components/ui/checkbox"
 import { User, Users, ArrowRight, FileText, AlertCircle } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { DependentList } from "@/components/dependent-list"
 
 interface PersonalInfoStepProps {
   taxReturn: any
@@ -61,6 +63,11 @@ export function PersonalInfoStep({
     city: taxReturn.city || "",
     state: taxReturn.state || "",
     zipCode: taxReturn.zipCode || "",
+    taxpayerBirthDate: taxReturn.taxpayerBirthDate ? String(taxReturn.taxpayerBirthDate).slice(0, 10) : "",
+    taxpayerBlind: !!taxReturn.taxpayerBlind,
+    spouseBirthDate: taxReturn.spouseBirthDate ? String(taxReturn.spouseBirthDate).slice(0, 10) : "",
+    spouseBlind: !!taxReturn.spouseBlind,
+    canBeClaimedAsDependent: !!taxReturn.canBeClaimedAsDependent,
   })
 
   const [w2PersonalInfo, setW2PersonalInfo] = useState<any>(null)
@@ -174,39 +181,49 @@ export function PersonalInfoStep({
     loadW2PersonalInfo();
   }, [taxReturn.id]);
 
+  // Birth dates are edited as YYYY-MM-DD and saved as date-times
+  const toSaveData = useCallback((data: typeof formData) => ({
+    ...data,
+    taxpayerBirthDate: data.taxpayerBirthDate ? new Date(data.taxpayerBirthDate).toISOString() : null,
+    spouseBirthDate: data.spouseBirthDate ? new Date(data.spouseBirthDate).toISOString() : null,
+  }), [])
+
   // Auto-save functionality with debouncing
   useEffect(() => {
     const timer = setTimeout(() => {
       if (hasUnsavedChanges && !autoSaving) {
-        onAutoSave(formData)
+        onAutoSave(toSaveData(formData))
       }
     }, 2000) // Auto-save after 2 seconds of inactivity
 
     return () => clearTimeout(timer)
-  }, [formData, hasUnsavedChanges, autoSaving, onAutoSave])
+  }, [formData, hasUnsavedChanges, autoSaving, onAutoSave, toSaveData])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onUpdate(formData)
+    await onUpdate(toSaveData(formData))
     onNext()
   }
 
   const handleSaveAndContinue = async (e: React.FormEvent) => {
     e.preventDefault()
-    await onCompleteStep(formData)
+    await onCompleteStep(toSaveData(formData))
     onNext()
   }
 
-  const handleChange = (field: string, value: string) => {
+  const handleChange = (field: string, value: string | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     onMarkUnsaved()
   }
 
   const handleSaveOnly = async () => {
-    await onAutoSave(formData)
+    await onAutoSave(toSaveData(formData))
   }
 
   const isMarried = formData.filingStatus === "MARRIED_FILING_JOINTLY" || formData.filingStatus === "MARRIED_FILING_SEPARATELY"
+  // The spouse's age and blindness only add to the standard deduction on a joint return
+  const isJoint = formData.filingStatus === "MARRIED_FILING_JOINTLY"
+  const age65Cutoff = `January 2, ${(taxReturn.taxYear || new Date().getFullYear() - 1) - 64}`
 
   const isStepOneComplete = formData.firstName && formData.lastName && formData.filingStatus
 
@@ -410,6 +427,41 @@ export function PersonalInfoStep({
                 </SelectContent>
               </Select>
             </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="taxpayerBirthDate">Date of Birth</Label>
+                <Input
+                  id="taxpayerBirthDate"
+                  type="date"
+                  value={formData.taxpayerBirthDate}
+                  onChange={(e) => handleChange("taxpayerBirthDate", e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Born before {age65Cutoff} adds to your standard deduction
+                </p>
+              </div>
+              <div className="space-y-3 pt-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="taxpayerBlind"
+                    checked={formData.taxpayerBlind}
+                    onCheckedChange={(checked) => handleChange("taxpayerBlind", checked === true)}
+                  />
+                  <Label htmlFor="taxpayerBlind">I am blind</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="canBeClaimedAsDependent"
+                    checked={formData.canBeClaimedAsDependent}
+                    onCheckedChange={(checked) => handleChange("canBeClaimedAsDependent", checked === true)}
+                  />
+                  <Label htmlFor="canBeClaimedAsDependent">Someone can claim me as a dependent</Label>
+                </div>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
@@ -457,6 +509,28 @@ export function PersonalInfoStep({
                   required
                 />
               </div>
+
+              {isJoint && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="spouseBirthDate">Spouse Date of Birth</Label>
+                    <Input
+                      id="spouseBirthDate"
+                      type="date"
+                      value={formData.spouseBirthDate}
+                      onChange={(e) => handleChange("spouseBirthDate", e.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 pt-6">
+                    <Checkbox
+                      id="spouseBlind"
+                      checked={formData.spouseBlind}
+                      onCheckedChange={(checked) => handleChange("spouseBlind", checked === true)}
+                    />
+                    <Label htmlFor="spouseBlind">Spouse is blind</Label>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -542,6 +616,8 @@ export function PersonalInfoStep({
           </CardContent>
         </Card>
 
+        <DependentList taxReturn={taxReturn} onMarkUnsaved={onMarkUnsaved} />
+
         <div className="flex justify-between items-center">
           <div className="flex items-center space-x-2">
             <Button type="button" variant="outline" onClick={onPrev} disabled={taxReturn.currentStep === 1}>
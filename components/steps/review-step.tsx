@@ -67,6 +67,15 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
                 {isRefund ? "Expected Refund" : "Amount Owed"}
               </Badge>
             </div>
+            {Number(taxReturn.estimatedTaxPenalty) > 0 && (
+              <Alert className="mt-4">
+                <Calculator className="h-4 w-4" />
+                <AlertDescription>
+                  {isRefund ? "Your refund is reduced by" : "The amount owed includes"} a projected ${Number(taxReturn.estimatedTaxPenalty).toLocaleString()} penalty
+                  for underpaying estimated tax (Form 2210). The IRS may adjust it based on when it receives your payment.
+                </AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
@@ -209,6 +218,14 @@ export function ReviewStep({ taxReturn, onUpdate, onNext, onPrev, loading, savin
                   </span>
                 </div>
               )}
+              {Number(taxReturn.estimatedTaxPenalty) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Estimated Tax Penalty (Form 2210):</span>
+                  <span className="font-medium text-red-600">
+                    +${Number(taxReturn.estimatedTaxPenalty).toLocaleString()}
+                  </span>
+                </div>
+              )}
               <Separator />
               <div className="flex justify-between font-bold text-lg">
                 <span>{isRefund ? "Refund Amount:" : "Amount Owed:"}</span>
@@ -6,8 +6,13 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Calculator, ArrowRight, ArrowLeft, TrendingUp, TrendingDown, Minus } from "lucide-react"
-import { calculateTaxReturn } from "@/lib/tax-calculations"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Calculator, ArrowRight, ArrowLeft, TrendingUp, TrendingDown, Minus, Plus, Trash2 } from "lucide-react"
+import { computeForm1040 } from "@/lib/form-1040-engine"
+import { money } from "@/lib/money"
+import { EstimatedTaxPlanner } from "@/components/estimated-tax-planner"
 
 interface TaxCalculationStepProps {
   taxReturn: any
@@ -20,29 +25,79 @@ interface TaxCalculationStepProps {
 
 export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loading, saving }: TaxCalculationStepProps) {
   const [calculation, setCalculation] = useState<any>(null)
+  const [underpaymentPenalty, setUnderpaymentPenalty] = useState<any>(null)
+  const [estimatedPayments, setEstimatedPayments] = useState<any[]>(
+    (taxReturn.estimatedTaxPayments || []).filter((payment: any) => payment.taxYear === taxReturn.taxYear)
+  )
+  const [newPayment, setNewPayment] = useState({ paymentDate: "", amount: "" })
+  const [priorYearTax, setPriorYearTax] = useState(taxReturn.priorYearTax != null ? String(taxReturn.priorYearTax) : "")
+  const [priorYearAGI, setPriorYearAGI] = useState(taxReturn.priorYearAdjustedGrossIncome != null ? String(taxReturn.priorYearAdjustedGrossIncome) : "")
+  const [useAnnualized, setUseAnnualized] = useState((taxReturn.annualizedIncome || []).length === 4)
+  const [annualizedIncome, setAnnualizedIncome] = useState<string[]>(
+    (taxReturn.annualizedIncome || []).length === 4 ? taxReturn.annualizedIncome.map((amount: any) => String(amount)) : ["", "", "", ""]
+  )
+  const [roundToWholeDollars, setRoundToWholeDollars] = useState<boolean>(!!taxReturn.roundToWholeDollars)
 
   useEffect(() => {
-    // Calculate tax return based on current data
-    const totalIncome = Number(taxReturn.totalIncome) || 0
-    const itemizedDeductions = taxReturn.deductionEntries?.reduce((sum: number, entry: any) => 
-      sum + parseFloat(entry.amount || 0), 0
-    ) || 0
-    
-    // Calculate total withholdings from income entries (primarily W-2s)
-    const totalWithholdings = taxReturn.incomeEntries?.reduce((sum: number, entry: any) => 
-      sum + parseFloat(entry.federalTaxWithheld || 0), 0
-    ) || 0
-    
-    const result = calculateTaxReturn({
-      totalIncome,
-      filingStatus: taxReturn.filingStatus,
-      dependents: taxReturn.dependents || [],
-      itemizedDeductions,
-      totalWithholdings,
+    // The same engine the Form 1040 and its PDF are built from; payments and the Form 2210
+    // inputs on this step are layered over the saved return until it's submitted
+    const result = computeForm1040({
+      ...taxReturn,
+      estimatedTaxPayments: estimatedPayments,
+      priorYearTax: priorYearTax !== "" ? money(priorYearTax) : null,
+      priorYearAdjustedGrossIncome: priorYearAGI !== "" ? money(priorYearAGI) : null,
+      annualizedIncome: useAnnualized && annualizedIncome.every(amount => amount !== "") ? annualizedIncome.map(amount => money(amount)) : [],
+      roundToWholeDollars,
     })
     
-    setCalculation(result)
-  }, [taxReturn])
+    setCalculation(result.summary)
+    setUnderpaymentPenalty(result.underpaymentPenalty)
+  }, [taxReturn, estimatedPayments, priorYearTax, priorYearAGI, useAnnualized, annualizedIncome, roundToWholeDollars])
+
+  const handleAddPayment = async () => {
+    if (!newPayment.paymentDate || !newPayment.amount) return
+
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          taxYear: taxReturn.taxYear,
+          paymentDate: newPayment.paymentDate,
+          amount: money(newPayment.amount),
+        }),
+      })
+
+      if (response.ok) {
+        const savedPayment = await response.json()
+        setEstimatedPayments([...estimatedPayments, savedPayment])
+        setNewPayment({ paymentDate: "", amount: "" })
+      }
+    } catch (error) {
+      console.error("Error adding estimated payment:", error)
+    }
+  }
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      const response = await fetch(`/api/tax-returns/${taxReturn.id}/estimated-payments/${paymentId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setEstimatedPayments(estimatedPayments.filter(payment => payment.id !== paymentId))
+      }
+    } catch (error) {
+      console.error("Error deleting estimated payment:", error)
+    }
+  }
+
+  // Form 2210 line 4 - total tax less refundable credits
+  const currentYearTax = underpaymentPenalty ? underpaymentPenalty.currentYearTax : 0
+  // The penalty is added to the amount owed (line 37) or taken out of the refund
+  const balanceDue = calculation ? calculation.finalTax + (underpaymentPenalty?.penalty || 0) : 0
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -58,8 +113,13 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
       taxLiability: calculation.taxLiability,
       totalCredits: calculation.totalCredits,
       totalWithholdings: calculation.totalWithholdings,
-      refundAmount: calculation.refundAmount,
-      amountOwed: calculation.amountOwed,
+      refundAmount: Math.max(0, -balanceDue),
+      amountOwed: Math.max(0, balanceDue),
+      estimatedTaxPenalty: underpaymentPenalty?.penalty || 0,
+      priorYearTax: priorYearTax !== "" ? money(priorYearTax) : null,
+      priorYearAdjustedGrossIncome: priorYearAGI !== "" ? money(priorYearAGI) : null,
+      annualizedIncome: useAnnualized ? annualizedIncome.map(amount => money(amount)) : [],
+      roundToWholeDollars,
     })
     onNext()
   }
@@ -75,8 +135,8 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
     )
   }
 
-  const isRefund = calculation.refundAmount > 0
-  const amount = isRefund ? calculation.refundAmount : calculation.amountOwed
+  const isRefund = balanceDue < 0
+  const amount = Math.abs(balanceDue)
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -135,6 +195,16 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
             <CardDescription>
               Here's how we calculated your tax liability
             </CardDescription>
+            <div className="flex items-center space-x-2 pt-2">
+              <Checkbox
+                id="roundToWholeDollars"
+                checked={roundToWholeDollars}
+                onCheckedChange={(checked) => setRoundToWholeDollars(!!checked)}
+              />
+              <Label htmlFor="roundToWholeDollars">
+                Round amounts to whole dollars on my return (under 50 cents drops, 50 cents or more rounds up)
+              </Label>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -143,6 +213,61 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                 <span className="font-medium">${calculation.grossIncome.toLocaleString()}</span>
               </div>
               
+              {calculation.socialSecurityBenefits.benefits > 0 && (
+                <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                  <div className="flex justify-between">
+                    <span>Taxable social security benefits (of ${calculation.socialSecurityBenefits.benefits.toLocaleString()})</span>
+                    <span>${calculation.socialSecurityBenefits.taxableBenefits.toLocaleString()}</span>
+                  </div>
+                  <p>{calculation.socialSecurityBenefits.explanation}</p>
+                </div>
+              )}
+
+              {(calculation.scheduleD.form8949.length > 0 || calculation.scheduleD.netGainOrLoss !== 0) && (
+                <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                  <div className="flex justify-between">
+                    <span>Capital gain or (loss) (Schedule D)</span>
+                    <span>${calculation.scheduleD.capitalGainOrLoss.toLocaleString()}</span>
+                  </div>
+                  {calculation.scheduleD.carryover.shortTerm + calculation.scheduleD.carryover.longTerm > 0 && (
+                    <div className="flex justify-between">
+                      <span>Capital loss carryover to {taxReturn.taxYear + 1} (short-term / long-term)</span>
+                      <span>
+                        ${calculation.scheduleD.carryover.shortTerm.toLocaleString()} / ${calculation.scheduleD.carryover.longTerm.toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                  <p>{calculation.scheduleD.explanation}</p>
+                </div>
+              )}
+
+              {calculation.adjustmentsToIncome > 0 && (
+                <>
+                  <div className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Adjustments to Income (Schedule 1)</span>
+                    <span className="font-medium">-${calculation.adjustmentsToIncome.toLocaleString()}</span>
+                  </div>
+                  <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                    {[
+                      { label: "Educator expenses", amount: calculation.schedule1Adjustments.educatorExpenses },
+                      { label: "Health savings account deduction", amount: calculation.schedule1Adjustments.hsaDeduction },
+                      { label: "Deductible part of self-employment tax", amount: calculation.schedule1Adjustments.deductibleSelfEmploymentTax },
+                      { label: "Penalty on early withdrawal of savings", amount: calculation.schedule1Adjustments.earlyWithdrawalPenalty },
+                      { label: "IRA deduction", amount: calculation.schedule1Adjustments.iraDeduction },
+                      { label: "Student loan interest deduction", amount: calculation.schedule1Adjustments.studentLoanInterestDeduction },
+                    ].filter((line: any) => line.amount > 0).map((line: any) => (
+                      <div key={line.label} className="flex justify-between">
+                        <span>{line.label}</span>
+                        <span>-${line.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    {calculation.schedule1Adjustments.notes.map((note: string, index: number) => (
+                      <p key={index}>{note}</p>
+                    ))}
+                  </div>
+                </>
+              )}
+              
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-gray-600">Adjusted Gross Income</span>
                 <span className="font-medium">${calculation.adjustedGrossIncome.toLocaleString()}</span>
@@ -150,13 +275,54 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
               
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-gray-600">
-                  {calculation.itemizedDeduction > 0 ? "Itemized" : "Standard"} Deduction
+                  {calculation.itemizedDeduction > calculation.standardDeduction ? "Itemized" : "Standard"} Deduction
                 </span>
                 <span className="font-medium">
                   -${Math.max(calculation.standardDeduction, calculation.itemizedDeduction).toLocaleString()}
                 </span>
               </div>
               
+              {calculation.scheduleA && calculation.itemizedDeduction > calculation.standardDeduction && (
+                <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                  {calculation.scheduleA.lines.map((line: any) => (
+                    <div key={line.deductionType}>
+                      <div className="flex justify-between">
+                        <span>{line.label} (Schedule A line {line.line})</span>
+                        <span>${line.allowed.toLocaleString()} of ${line.claimed.toLocaleString()}</span>
+                      </div>
+                      <p className="text-xs">{line.limit}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
+              {calculation.qualifiedBusinessIncome && (calculation.qualifiedBusinessIncomeDeduction > 0 || calculation.qualifiedBusinessIncome.lossCarryforward > 0) && (
+                <>
+                  <div className="flex justify-between items-center py-2 border-b">
+                    <span className="text-gray-600">Qualified Business Income Deduction (Form {calculation.qualifiedBusinessIncome.form})</span>
+                    <span className="font-medium">-${calculation.qualifiedBusinessIncomeDeduction.toLocaleString()}</span>
+                  </div>
+                  <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                    {calculation.qualifiedBusinessIncome.businesses.map((business: any, index: number) => (
+                      <div key={index} className="flex justify-between">
+                        <span>
+                          {business.name}: 20% of ${Math.round(business.qualifiedBusinessIncome).toLocaleString()}
+                          {business.wageLimit !== null && ` (W-2 wage/UBIA limit $${business.wageLimit.toLocaleString()})`}
+                        </span>
+                        <span>${business.deductibleAmount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    {calculation.qualifiedBusinessIncome.incomeLimitation < calculation.qualifiedBusinessIncome.qbiComponent && (
+                      <div className="flex justify-between">
+                        <span>Limited to 20% of taxable income less net capital gain</span>
+                        <span>${calculation.qualifiedBusinessIncome.incomeLimitation.toLocaleString()}</span>
+                      </div>
+                    )}
+                    <p>{calculation.qualifiedBusinessIncome.explanation}</p>
+                  </div>
+                </>
+              )}
+              
               <div className="flex justify-between items-center py-2 border-b font-medium">
                 <span>Taxable Income</span>
                 <span>${calculation.taxableIncome.toLocaleString()}</span>
@@ -167,24 +333,254 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                 <span className="font-medium">${calculation.taxLiability.toLocaleString()}</span>
               </div>
               
+              {calculation.capitalGainWorksheet && (
+                <div className="pl-4 space-y-1 text-sm text-gray-500 border-b pb-2">
+                  <div className="flex justify-between">
+                    <span>Ordinary income at regular rates</span>
+                    <span>${calculation.capitalGainWorksheet.ordinaryIncome.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Qualified dividends &amp; capital gains at 0% / 15% / 20%</span>
+                    <span>
+                      ${calculation.capitalGainWorksheet.taxedAtZero.toLocaleString()} / ${calculation.capitalGainWorksheet.taxedAtFifteen.toLocaleString()} / ${calculation.capitalGainWorksheet.taxedAtTwenty.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Savings vs. regular rates</span>
+                    <span className="text-green-600">
+                      ${(calculation.capitalGainWorksheet.regularTax - calculation.capitalGainWorksheet.tax).toLocaleString()}
+                    </span>
+                  </div>
+                </div>
+              )}
+              
+              {calculation.alternativeMinimumTax.alternativeMinimumTax > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Alternative Minimum Tax (Form 6251)</span>
+                    <span className="font-medium">${calculation.alternativeMinimumTax.alternativeMinimumTax.toLocaleString()}</span>
+                  </div>
+                  <div className="pl-4 mt-1 space-y-1 text-xs text-gray-500">
+                    {calculation.alternativeMinimumTax.adjustments.map((adjustment: any) => (
+                      <div key={adjustment.key} className="flex justify-between">
+                        <span>Line {adjustment.line}: {adjustment.label}</span>
+                        <span>+${adjustment.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between">
+                      <span>Alternative minimum taxable income</span>
+                      <span>${calculation.alternativeMinimumTax.alternativeMinimumTaxableIncome.toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Exemption</span>
+                      <span>-${calculation.alternativeMinimumTax.exemption.toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Tentative minimum tax vs. regular tax</span>
+                      <span>
+                        ${calculation.alternativeMinimumTax.tentativeMinimumTax.toLocaleString()} vs. ${calculation.alternativeMinimumTax.regularTax.toLocaleString()}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )}
+              
+              {calculation.selfEmploymentTax > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Self-Employment Tax (Schedule SE)</span>
+                    <span className="font-medium">${calculation.selfEmploymentTax.toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Social security ${calculation.scheduleSE.socialSecurityTax.toLocaleString()} + Medicare ${calculation.scheduleSE.medicareTax.toLocaleString()} on net earnings of ${calculation.scheduleSE.netEarnings.toLocaleString()}
+                  </p>
+                </div>
+              )}
+              
+              {calculation.additionalMedicareTax.additionalMedicareTax > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Additional Medicare Tax (Form 8959)</span>
+                    <span className="font-medium">${calculation.additionalMedicareTax.additionalMedicareTax.toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    0.9% of wages and self-employment income over ${calculation.additionalMedicareTax.threshold.toLocaleString()}
+                    {calculation.additionalMedicareTax.additionalMedicareTaxWithheld > 0 &&
+                      ` - $${calculation.additionalMedicareTax.additionalMedicareTaxWithheld.toLocaleString()} already withheld by your employer`}
+                  </p>
+                </div>
+              )}
+              
+              {calculation.netInvestmentIncomeTax.netInvestmentIncomeTax > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Net Investment Income Tax (Form 8960)</span>
+                    <span className="font-medium">${calculation.netInvestmentIncomeTax.netInvestmentIncomeTax.toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    3.8% of ${calculation.netInvestmentIncomeTax.taxableAmount.toLocaleString()} - the smaller of investment income or income over ${calculation.netInvestmentIncomeTax.threshold.toLocaleString()}
+                  </p>
+                </div>
+              )}
+              
+              {calculation.foreignTaxCredit.method !== "NONE" && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">
+                      Foreign Tax Credit{calculation.foreignTaxCredit.method === "FORM_1116" && " (Form 1116)"}
+                    </span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.foreignTaxCredit.credit.toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{calculation.foreignTaxCredit.explanation}</p>
+                </div>
+              )}
+              
+              {(calculation.dependentCareCredit.persons.length > 0 || calculation.dependentCareCredit.benefits.benefits > 0) && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Child and Dependent Care Credit (Form 2441)</span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.dependentCareCredit.credit.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    {calculation.dependentCareCredit.benefits.benefits > 0 && (
+                      <p>
+                        Employer benefits (W-2 box 10): ${calculation.dependentCareCredit.benefits.excludedBenefits.toLocaleString()} excluded
+                        {calculation.dependentCareCredit.benefits.taxableBenefits > 0 && `, $${calculation.dependentCareCredit.benefits.taxableBenefits.toLocaleString()} added to wages`}
+                      </p>
+                    )}
+                    {calculation.dependentCareCredit.persons
+                      .filter((person: any) => person.note)
+                      .map((person: any, index: number) => (
+                        <p key={index} className="text-red-600">{person.note}</p>
+                      ))}
+                    <p>{calculation.dependentCareCredit.explanation}</p>
+                  </div>
+                </div>
+              )}
+              
+              {calculation.educationCredits.students.length > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Education Credits (Form 8863)</span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.educationCredits.nonrefundableCredit.toLocaleString()}
+                    </span>
+                  </div>
+                  {calculation.educationCredits.refundableCredit > 0 && (
+                    <div className="flex justify-between items-center text-sm mt-1">
+                      <span className="text-gray-600">American Opportunity Credit (refundable 40%)</span>
+                      <span className="font-medium text-green-600">
+                        -${calculation.educationCredits.refundableCredit.toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    {calculation.educationCredits.students.map((student: any, index: number) => (
+                      <p key={index}>
+                        {student.studentName}: {student.creditType === "AMERICAN_OPPORTUNITY" ? "American Opportunity" : "Lifetime Learning"} on ${student.adjustedQualifiedExpenses.toLocaleString()} of expenses
+                        {student.note && ` - ${student.note}`}
+                      </p>
+                    ))}
+                    <p>{calculation.educationCredits.explanation}</p>
+                  </div>
+                </div>
+              )}
+              
+              {calculation.saversCredit.contributions > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Saver's Credit (Form 8880)</span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.saversCredit.credit.toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{calculation.saversCredit.explanation}</p>
+                </div>
+              )}
+              
               {calculation.childTaxCredit > 0 && (
-                <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-gray-600">Child Tax Credit</span>
-                  <span className="font-medium text-green-600">
-                    -${calculation.childTaxCredit.toLocaleString()}
-                  </span>
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">
+                      {calculation.schedule8812.otherDependents > 0 ? "Child Tax Credit & Credit for Other Dependents" : "Child Tax Credit"}
+                    </span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.childTaxCredit.toLocaleString()}
+                    </span>
+                  </div>
+                  {(calculation.schedule8812.phaseOutReduction > 0 || calculation.schedule8812.nonrefundableCredit < calculation.schedule8812.creditAfterPhaseOut) && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {calculation.schedule8812.phaseOutReduction > 0 && `Reduced by $${calculation.schedule8812.phaseOutReduction.toLocaleString()} for income over $${calculation.schedule8812.phaseOutThreshold.toLocaleString()}. `}
+                      {calculation.schedule8812.nonrefundableCredit < calculation.schedule8812.creditAfterPhaseOut && "Limited to your tax liability."}
+                    </p>
+                  )}
                 </div>
               )}
               
-              {calculation.earnedIncomeCredit > 0 && (
+              {calculation.additionalChildTaxCredit > 0 && (
                 <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-gray-600">Earned Income Credit</span>
+                  <span className="text-gray-600">Additional Child Tax Credit (refundable)</span>
                   <span className="font-medium text-green-600">
-                    -${calculation.earnedIncomeCredit.toLocaleString()}
+                    -${calculation.additionalChildTaxCredit.toLocaleString()}
                   </span>
                 </div>
               )}
               
+              {(calculation.earnedIncomeCredit > 0 || calculation.earnedIncomeCreditDetails.qualifyingChildren > 0) && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Earned Income Credit</span>
+                    <span className="font-medium text-green-600">
+                      -${calculation.earnedIncomeCredit.toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{calculation.earnedIncomeCreditDetails.explanation}</p>
+                  <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    {calculation.earnedIncomeCreditDetails.tests.map((test: any) => (
+                      <li key={test.name} className={test.passed ? "" : "text-red-600"}>
+                        {test.passed ? "✓" : "✗"} {test.name}: {test.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {calculation.premiumTaxCredit && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">
+                      {calculation.premiumTaxCredit.excessAdvanceRepayment > 0
+                        ? "Excess Advance Premium Tax Credit Repayment (Form 8962)"
+                        : "Net Premium Tax Credit (Form 8962)"}
+                    </span>
+                    {calculation.premiumTaxCredit.excessAdvanceRepayment > 0 ? (
+                      <span className="font-medium text-red-600">
+                        +${calculation.premiumTaxCredit.excessAdvanceRepayment.toLocaleString()}
+                      </span>
+                    ) : (
+                      <span className="font-medium text-green-600">
+                        -${calculation.premiumTaxCredit.netPremiumTaxCredit.toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  <div className="pl-4 mt-1 space-y-1 text-xs text-gray-500">
+                    <div className="flex justify-between">
+                      <span>Premium tax credit allowed</span>
+                      <span>${calculation.premiumTaxCredit.totalCredit.toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Advance payments on Form 1095-A</span>
+                      <span>${calculation.premiumTaxCredit.advancePayments.toLocaleString()}</span>
+                    </div>
+                    <p>{calculation.premiumTaxCredit.explanation}</p>
+                  </div>
+                </div>
+              )}
+
               <div className="flex justify-between items-center py-2 border-b font-medium">
                 <span>Total Credits</span>
                 <span className="text-green-600">
@@ -201,6 +597,27 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
                 </div>
               )}
               
+              {calculation.estimatedTaxPayments > 0 && (
+                <div className="flex justify-between items-center py-2 border-b font-medium">
+                  <span>Estimated Tax Payments</span>
+                  <span className="text-blue-600">
+                    -${calculation.estimatedTaxPayments.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              
+              {underpaymentPenalty && underpaymentPenalty.penalty > 0 && (
+                <div className="py-2 border-b">
+                  <div className="flex justify-between items-center font-medium">
+                    <span>Estimated Tax Penalty (Form 2210)</span>
+                    <span className="text-red-600">
+                      +${underpaymentPenalty.penalty.toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{underpaymentPenalty.explanation}</p>
+                </div>
+              )}
+              
               <div className="flex justify-between items-center py-3 bg-gray-50 rounded-lg px-4 font-bold text-lg">
                 <span>{isRefund ? "Expected Refund" : amount > 0 ? "Amount Owed" : "Balance Due"}</span>
                 <span className={isRefund ? 'text-green-600' : amount > 0 ? 'text-red-600' : 'text-gray-600'}>
@@ -211,6 +628,134 @@ export function TaxCalculationStep({ taxReturn, onUpdate, onNext, onPrev, loadin
           </CardContent>
         </Card>
 
+        {/* Form 2210 */}
+        {underpaymentPenalty && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Estimated Tax Payments &amp; Underpayment Penalty (Form 2210)</CardTitle>
+              <CardDescription>
+                Record the estimated payments you made for {taxReturn.taxYear} and last year's tax to check the safe harbors
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {estimatedPayments.length > 0 && (
+                <div className="space-y-2">
+                  {estimatedPayments.map((payment: any) => (
+                    <div key={payment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">${money(payment.amount).toLocaleString()}</p>
+                        <p className="text-sm text-gray-500">Paid {new Date(payment.paymentDate).toLocaleDateString(undefined, { timeZone: "UTC" })}</p>
+                      </div>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleDeletePayment(payment.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="estimatedPaymentDate">Payment Date</Label>
+                  <Input
+                    id="estimatedPaymentDate"
+                    type="date"
+                    value={newPayment.paymentDate}
+                    onChange={(e) => setNewPayment({ ...newPayment, paymentDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="estimatedPaymentAmount">Amount</Label>
+                  <Input
+                    id="estimatedPaymentAmount"
+                    type="number"
+                    step="0.01"
+                    value={newPayment.amount}
+                    onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+                <Button type="button" variant="outline" onClick={handleAddPayment}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Payment
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="priorYearTax">{taxReturn.taxYear - 1} Total Tax</Label>
+                  <Input
+                    id="priorYearTax"
+                    type="number"
+                    step="0.01"
+                    value={priorYearTax}
+                    onChange={(e) => setPriorYearTax(e.target.value)}
+                    placeholder="Form 1040 line 24"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priorYearAGI">{taxReturn.taxYear - 1} Adjusted Gross Income</Label>
+                  <Input
+                    id="priorYearAGI"
+                    type="number"
+                    step="0.01"
+                    value={priorYearAGI}
+                    onChange={(e) => setPriorYearAGI(e.target.value)}
+                    placeholder="Form 1040 line 11"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="useAnnualized"
+                  checked={useAnnualized}
+                  onCheckedChange={(checked) => setUseAnnualized(!!checked)}
+                />
+                <Label htmlFor="useAnnualized">My income was uneven during the year (annualized income installment method)</Label>
+              </div>
+
+              {useAnnualized && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {["Jan 1 - Mar 31", "Jan 1 - May 31", "Jan 1 - Aug 31", "Jan 1 - Dec 31"].map((period, index) => (
+                    <div key={period} className="space-y-2">
+                      <Label htmlFor={`annualizedIncome${index}`}>AGI {period}</Label>
+                      <Input
+                        id={`annualizedIncome${index}`}
+                        type="number"
+                        step="0.01"
+                        value={annualizedIncome[index]}
+                        onChange={(e) => setAnnualizedIncome(annualizedIncome.map((amount, i) => i === index ? e.target.value : amount))}
+                        placeholder="0.00"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Required annual payment</span>
+                  <span>${underpaymentPenalty.requiredAnnualPayment.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Withholding and estimated payments</span>
+                  <span>${(underpaymentPenalty.withholding + underpaymentPenalty.estimatedPayments).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Projected penalty</span>
+                  <span className={underpaymentPenalty.penalty > 0 ? "text-red-600" : "text-green-600"}>
+                    ${underpaymentPenalty.penalty.toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">{underpaymentPenalty.explanation}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <EstimatedTaxPlanner taxReturn={taxReturn} calculation={calculation} currentYearTax={currentYearTax} />
+
         {/* Tax Rates */}
         <Card>
           <CardHeader>
@@ -62,6 +62,11 @@ interface TaxFilingInterfaceProps {
     incomeEntries: any[]
     deductionEntries: any[]
     dependents: any[]
+    educationExpenses?: any[]
+    dependentCareExpenses?: any[]
+    estimatedTaxPayments?: any[]
+    capitalAssetSales?: any[]
+    marketplacePolicies?: any[]
     createdAt: Date
     updatedAt: Date
   }
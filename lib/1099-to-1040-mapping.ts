@@ -1,5 +1,6 @@
 
 import { Form1040Data } from './form-1040-types';
+import { addMoney, money, sumMoney } from './money';
 
 export class Form1099ToForm1040Mapper {
   /**
@@ -95,21 +96,21 @@ export class Form1099ToForm1040Mapper {
     // Box 1: Interest Income → Line 2b (Taxable interest)
     const interestIncome = this.parseAmount(actual1099Data.interestIncome);
     if (interestIncome > 0) {
-      form1040Data.line2b = (form1040Data.line2b || 0) + interestIncome;
+      form1040Data.line2b = addMoney(form1040Data.line2b, interestIncome);
       console.log('✅ [1099 MAPPER] Mapped interest income to Line 2b:', form1040Data.line2b);
     }
     
     // Box 3: Interest on U.S. Savings Bonds → Line 2b (included in taxable interest)
     const interestOnUSavingsBonds = this.parseAmount(actual1099Data.interestOnUSavingsBonds);
     if (interestOnUSavingsBonds > 0) {
-      form1040Data.line2b = (form1040Data.line2b || 0) + interestOnUSavingsBonds;
+      form1040Data.line2b = addMoney(form1040Data.line2b, interestOnUSavingsBonds);
       console.log('✅ [1099 MAPPER] Mapped U.S. Savings Bonds interest to Line 2b:', form1040Data.line2b);
     }
     
     // Box 8: Tax-exempt interest → Line 2a (Tax-exempt interest)
     const taxExemptInterest = this.parseAmount(actual1099Data.taxExemptInterest);
     if (taxExemptInterest > 0) {
-      form1040Data.line2a = (form1040Data.line2a || 0) + taxExemptInterest;
+      form1040Data.line2a = addMoney(form1040Data.line2a, taxExemptInterest);
       console.log('✅ [1099 MAPPER] Mapped tax-exempt interest to Line 2a:', form1040Data.line2a);
     }
     
@@ -118,14 +119,22 @@ export class Form1099ToForm1040Mapper {
     if (specifiedPrivateActivityBondInterest > 0) {
       // This affects AMT calculation - store for later processing
       if (!form1040Data.amtAdjustments) form1040Data.amtAdjustments = {};
-      form1040Data.amtAdjustments.privateActivityBondInterest = specifiedPrivateActivityBondInterest;
+      form1040Data.amtAdjustments.privateActivityBondInterest = addMoney(form1040Data.amtAdjustments.privateActivityBondInterest, specifiedPrivateActivityBondInterest);
       console.log('✅ [1099 MAPPER] Mapped private activity bond interest for AMT:', specifiedPrivateActivityBondInterest);
     }
     
+    // 1099-DIV Box 13: Specified private activity bond interest dividends → Form 6251 (AMT)
+    const privateActivityBondDividends = this.parseAmount(actual1099Data.specifiedPrivateActivityBondInterestDividends);
+    if (privateActivityBondDividends > 0) {
+      if (!form1040Data.amtAdjustments) form1040Data.amtAdjustments = {};
+      form1040Data.amtAdjustments.privateActivityBondInterest = addMoney(form1040Data.amtAdjustments.privateActivityBondInterest, privateActivityBondDividends);
+      console.log('✅ [1099 MAPPER] Mapped private activity bond interest dividends for AMT:', privateActivityBondDividends);
+    }
+    
     // Box 10: Market discount → Adjust taxable interest
     const marketDiscount = this.parseAmount(actual1099Data.marketDiscount);
     if (marketDiscount > 0) {
-      form1040Data.line2b = (form1040Data.line2b || 0) + marketDiscount;
+      form1040Data.line2b = addMoney(form1040Data.line2b, marketDiscount);
       console.log('✅ [1099 MAPPER] Added market discount to Line 2b:', form1040Data.line2b);
     }
     
@@ -140,7 +149,7 @@ export class Form1099ToForm1040Mapper {
     const stateTaxWithheld = this.parseAmount(actual1099Data.stateTaxWithheld);
     if (stateTaxWithheld > 0) {
       if (!form1040Data.scheduleA) form1040Data.scheduleA = {};
-      form1040Data.scheduleA.stateTaxWithheld = (form1040Data.scheduleA.stateTaxWithheld || 0) + stateTaxWithheld;
+      form1040Data.scheduleA.stateTaxWithheld = addMoney(form1040Data.scheduleA.stateTaxWithheld, stateTaxWithheld);
       console.log('✅ [1099 MAPPER] Mapped state tax withheld to Schedule A:', stateTaxWithheld);
     }
     
@@ -148,15 +157,15 @@ export class Form1099ToForm1040Mapper {
     const stateInterest = this.parseAmount(actual1099Data.stateInterest);
     if (stateInterest > 0) {
       if (!form1040Data.stateData) form1040Data.stateData = {};
-      form1040Data.stateData.interestIncome = (form1040Data.stateData.interestIncome || 0) + stateInterest;
+      form1040Data.stateData.interestIncome = addMoney(form1040Data.stateData.interestIncome, stateInterest);
       console.log('✅ [1099 MAPPER] Mapped state interest for state return:', stateInterest);
     }
     
-    // Box 2: Early withdrawal penalty → Schedule 1 Line 2b
+    // Box 2: Early withdrawal penalty → Schedule 1 Line 18
     const earlyWithdrawalPenalty = this.parseAmount(actual1099Data.earlyWithdrawalPenalty);
     if (earlyWithdrawalPenalty > 0) {
       if (!form1040Data.schedule1) form1040Data.schedule1 = {};
-      form1040Data.schedule1.earlyWithdrawalPenalty = (form1040Data.schedule1.earlyWithdrawalPenalty || 0) + earlyWithdrawalPenalty;
+      form1040Data.schedule1.earlyWithdrawalPenalty = addMoney(form1040Data.schedule1.earlyWithdrawalPenalty, earlyWithdrawalPenalty);
       console.log('✅ [1099 MAPPER] Mapped early withdrawal penalty to Schedule 1:', earlyWithdrawalPenalty);
     }
     
@@ -164,36 +173,39 @@ export class Form1099ToForm1040Mapper {
     const investmentExpenses = this.parseAmount(actual1099Data.investmentExpenses);
     if (investmentExpenses > 0) {
       if (!form1040Data.scheduleA) form1040Data.scheduleA = {};
-      form1040Data.scheduleA.investmentExpenses = (form1040Data.scheduleA.investmentExpenses || 0) + investmentExpenses;
+      form1040Data.scheduleA.investmentExpenses = addMoney(form1040Data.scheduleA.investmentExpenses, investmentExpenses);
       console.log('✅ [1099 MAPPER] Mapped investment expenses to Schedule A:', investmentExpenses);
     }
     
-    // Box 6: Foreign tax paid → Form 1116 or Schedule 3
+    // Box 6 (1099-INT) / Box 7 (1099-DIV): Foreign tax paid → Form 1116 or Schedule 3 line 1
     const foreignTaxPaid = this.parseAmount(actual1099Data.foreignTaxPaid);
     if (foreignTaxPaid > 0) {
       if (!form1040Data.foreignTaxCredit) form1040Data.foreignTaxCredit = {};
-      form1040Data.foreignTaxCredit.foreignTaxPaid = (form1040Data.foreignTaxCredit.foreignTaxPaid || 0) + foreignTaxPaid;
+      form1040Data.foreignTaxCredit.foreignTaxPaid = addMoney(form1040Data.foreignTaxCredit.foreignTaxPaid, foreignTaxPaid);
       form1040Data.foreignTaxCredit.foreignCountry = actual1099Data.foreignCountry || 'Unknown';
+      // The payer's gross interest and dividends stand in for Form 1116 line 1a passive income
+      form1040Data.foreignTaxCredit.foreignIncome = sumMoney(form1040Data.foreignTaxCredit.foreignIncome,
+        this.parseAmount(actual1099Data.interestIncome), this.parseAmount(actual1099Data.ordinaryDividends));
       console.log('✅ [1099 MAPPER] Mapped foreign tax paid for foreign tax credit:', foreignTaxPaid);
     }
 
     // 1099-DIV: Dividend Income
     const ordinaryDividends = this.parseAmount(actual1099Data.ordinaryDividends);
     if (ordinaryDividends > 0) {
-      form1040Data.line3b = (form1040Data.line3b || 0) + ordinaryDividends;
+      form1040Data.line3b = addMoney(form1040Data.line3b, ordinaryDividends);
       console.log('✅ [1099 MAPPER] Mapped ordinary dividends to Line 3b:', form1040Data.line3b);
     }
 
     const qualifiedDividends = this.parseAmount(actual1099Data.qualifiedDividends);
     if (qualifiedDividends > 0) {
-      form1040Data.line3a = (form1040Data.line3a || 0) + qualifiedDividends;
+      form1040Data.line3a = addMoney(form1040Data.line3a, qualifiedDividends);
       console.log('✅ [1099 MAPPER] Mapped qualified dividends to Line 3a:', form1040Data.line3a);
     }
 
     // 1099-DIV: Capital Gain Distributions → Line 7 (Capital gains or losses)
     const totalCapitalGain = this.parseAmount(actual1099Data.totalCapitalGain);
     if (totalCapitalGain > 0) {
-      form1040Data.line7 = (form1040Data.line7 || 0) + totalCapitalGain;
+      form1040Data.line7 = addMoney(form1040Data.line7, totalCapitalGain);
       console.log('✅ [1099 MAPPER] Mapped capital gain distributions to Line 7:', form1040Data.line7);
     }
 
@@ -201,21 +213,21 @@ export class Form1099ToForm1040Mapper {
     const rents = this.parseAmount(actual1099Data.rents);
     if (rents > 0) {
       // Rents go to Schedule E, but for now we'll add to Line 8 (Additional income)
-      form1040Data.line8 = (form1040Data.line8 || 0) + rents;
+      form1040Data.line8 = addMoney(form1040Data.line8, rents);
       console.log('✅ [1099 MAPPER] Mapped rents to Line 8 (Schedule E income):', form1040Data.line8);
     }
 
     const royalties = this.parseAmount(actual1099Data.royalties);
     if (royalties > 0) {
       // Royalties go to Schedule E, but for now we'll add to Line 8 (Additional income)
-      form1040Data.line8 = (form1040Data.line8 || 0) + royalties;
+      form1040Data.line8 = addMoney(form1040Data.line8, royalties);
       console.log('✅ [1099 MAPPER] Mapped royalties to Line 8 (Schedule E income):', form1040Data.line8);
     }
 
     const otherIncome = this.parseAmount(actual1099Data.otherIncome);
     if (otherIncome > 0) {
       // Other income goes to Line 8i (Other income)
-      form1040Data.line8 = (form1040Data.line8 || 0) + otherIncome;
+      form1040Data.line8 = addMoney(form1040Data.line8, otherIncome);
       console.log('✅ [1099 MAPPER] Mapped other income to Line 8:', form1040Data.line8);
     }
 
@@ -223,7 +235,9 @@ export class Form1099ToForm1040Mapper {
     const nonemployeeCompensation = this.parseAmount(actual1099Data.nonemployeeCompensation);
     if (nonemployeeCompensation > 0) {
       // This should go to Schedule C, but for now we'll add to Line 8 (Additional income)
-      form1040Data.line8 = (form1040Data.line8 || 0) + nonemployeeCompensation;
+      form1040Data.line8 = addMoney(form1040Data.line8, nonemployeeCompensation);
+      if (!form1040Data.schedule1) form1040Data.schedule1 = {};
+      form1040Data.schedule1.businessIncome = addMoney(form1040Data.schedule1.businessIncome, nonemployeeCompensation);
       console.log('✅ [1099 MAPPER] Mapped nonemployee compensation to Line 8 (Schedule C income):', form1040Data.line8);
     }
 
@@ -236,15 +250,12 @@ export class Form1099ToForm1040Mapper {
     console.log('🔍 [1099 MAPPER] Parsed federal tax withheld amount:', federalTaxWithheld);
     
     if (federalTaxWithheld > 0) {
-      form1040Data.line25a = (form1040Data.line25a || 0) + federalTaxWithheld;
+      form1040Data.line25a = addMoney(form1040Data.line25a, federalTaxWithheld);
       console.log('✅ [1099 MAPPER] Successfully mapped federal tax withheld to Line 25a:', form1040Data.line25a);
     } else {
       console.log('⚠️ [1099 MAPPER] No valid federal tax withheld found to map to Line 25a');
     }
 
-    // Recalculate totals
-    this.recalculateForm1040Totals(form1040Data);
-
     console.log('✅ [1099 MAPPER] Mapping completed successfully');
     if (process.env.NODE_ENV === 'development') {
       console.log('🔍 [1099 MAPPER] Final form1040Data:', JSON.stringify(form1040Data, null, 2));
@@ -518,15 +529,14 @@ export class Form1099ToForm1040Mapper {
     
     if (typeof value === 'number') {
       console.log('🔍 [1099 PARSE AMOUNT] Value is already a number:', value);
-      return isNaN(value) ? 0 : value;
+      return money(value);
     }
     
     if (typeof value === 'string') {
-      // Remove currency symbols, commas, and whitespace
+      // Remove currency symbols, commas, and whitespace, then read it to the cent
       const cleaned = value.replace(/[$,\s]/g, '');
       console.log('🔍 [1099 PARSE AMOUNT] Cleaned string:', cleaned);
-      const parsed = parseFloat(cleaned);
-      const result = isNaN(parsed) ? 0 : parsed;
+      const result = money(cleaned);
       console.log('🔍 [1099 PARSE AMOUNT] Parsed result:', result);
       return result;
     }
@@ -661,107 +671,6 @@ export class Form1099ToForm1040Mapper {
     return result;
   }
 
-  private static recalculateForm1040Totals(form1040Data: Partial<Form1040Data>): void {
-    // Calculate total income (Line 9)
-    form1040Data.line9 = this.calculateTotalIncome(form1040Data);
-
-    // Calculate AGI (Line 11) - simplified (no adjustments for now)
-    form1040Data.line11 = form1040Data.line9;
-
-    // Apply standard deduction (Line 12) if not itemizing
-    if (!form1040Data.line12 && form1040Data.filingStatus) {
-      form1040Data.line12 = this.getStandardDeduction(form1040Data.filingStatus);
-    }
-
-    // Calculate taxable income (Line 15)
-    form1040Data.line15 = Math.max(0, (form1040Data.line11 || 0) - (form1040Data.line12 || 0) - (form1040Data.line13 || 0));
-
-    // Calculate tax liability (Line 16) - simplified
-    form1040Data.line16 = this.calculateTaxLiability(form1040Data.line15 || 0, form1040Data.filingStatus);
-
-    // Calculate total tax (Line 24) - simplified
-    form1040Data.line24 = (form1040Data.line16 || 0) + (form1040Data.line17 || 0) + (form1040Data.line23 || 0);
-
-    // Calculate total payments (Line 32)
-    form1040Data.line32 = (form1040Data.line25a || 0) + (form1040Data.line25b || 0) + (form1040Data.line25c || 0) + (form1040Data.line25d || 0);
-
-    // Calculate refund or amount owed
-    const totalTax = form1040Data.line24 || 0;
-    const totalPayments = form1040Data.line32 || 0;
-
-    if (totalPayments > totalTax) {
-      // Refund
-      form1040Data.line33 = totalPayments - totalTax;
-      form1040Data.line34 = form1040Data.line33; // Default to full refund
-      form1040Data.line37 = 0;
-    } else {
-      // Amount owed
-      form1040Data.line33 = 0;
-      form1040Data.line34 = 0;
-      form1040Data.line37 = totalTax - totalPayments;
-    }
-  }
-
-  private static calculateTotalIncome(form1040Data: Partial<Form1040Data>): number {
-    return (
-      (form1040Data.line1 || 0) +
-      (form1040Data.line2b || 0) +
-      (form1040Data.line3b || 0) +
-      (form1040Data.line4b || 0) +
-      (form1040Data.line5b || 0) +
-      (form1040Data.line6b || 0) +
-      (form1040Data.line7 || 0) +
-      (form1040Data.line8 || 0)
-    );
-  }
-
-  private static getStandardDeduction(filingStatus: any): number {
-    const STANDARD_DEDUCTION_2023: Record<string, number> = {
-      'SINGLE': 13850,
-      'MARRIED_FILING_JOINTLY': 27700,
-      'MARRIED_FILING_SEPARATELY': 13850,
-      'HEAD_OF_HOUSEHOLD': 20800,
-      'QUALIFYING_SURVIVING_SPOUSE': 27700
-    };
-    
-    return STANDARD_DEDUCTION_2023[filingStatus] || STANDARD_DEDUCTION_2023['SINGLE'];
-  }
-
-  private static calculateTaxLiability(taxableIncome: number, filingStatus: any): number {
-    // Simplified tax calculation using 2023 tax brackets
-    const brackets: Array<{ min: number; max: number; rate: number }> = 
-      filingStatus === 'MARRIED_FILING_JOINTLY' ? [
-        { min: 0, max: 22000, rate: 0.10 },
-        { min: 22000, max: 89450, rate: 0.12 },
-        { min: 89450, max: 190750, rate: 0.22 },
-        { min: 190750, max: 364200, rate: 0.24 },
-        { min: 364200, max: 462500, rate: 0.32 },
-        { min: 462500, max: 693750, rate: 0.35 },
-        { min: 693750, max: Infinity, rate: 0.37 }
-      ] : [
-        { min: 0, max: 11000, rate: 0.10 },
-        { min: 11000, max: 44725, rate: 0.12 },
-        { min: 44725, max: 95375, rate: 0.22 },
-        { min: 95375, max: 182050, rate: 0.24 },
-        { min: 182050, max: 231250, rate: 0.32 },
-        { min: 231250, max: 578125, rate: 0.35 },
-        { min: 578125, max: Infinity, rate: 0.37 }
-      ];
-
-    let tax = 0;
-    let remainingIncome = taxableIncome;
-
-    for (const bracket of brackets) {
-      if (remainingIncome <= 0) break;
-      
-      const taxableAtThisBracket = Math.min(remainingIncome, bracket.max - bracket.min);
-      tax += taxableAtThisBracket * bracket.rate;
-      remainingIncome -= taxableAtThisBracket;
-    }
-
-    return Math.round(tax * 100) / 100; // Round to 2 decimal places
-  }
-
   /**
    * Validates that 1099 data can be properly mapped to 1040
    */
@@ -0,0 +1,67 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Form 8959 - Additional Medicare Tax
+ * 0.9% on Medicare wages and self-employment income above the filing status
+ * threshold. Wages use up the threshold first, so SE income is only taxed on
+ * what's left over. Part V reconciles the additional Medicare tax employers
+ * withheld (box 6 beyond the regular 1.45%).
+ */
+
+export interface AdditionalMedicareTaxInput {
+  medicareWages: number // W-2 box 5
+  medicareTaxWithheld?: number // W-2 box 6
+  selfEmploymentIncome?: number // Schedule SE line 6
+  filingStatus: string
+  taxYear?: number
+}
+
+export interface AdditionalMedicareTaxResult {
+  threshold: number // Line 5 / line 9
+  medicareWages: number // Line 4
+  taxOnWages: number // Line 7
+  selfEmploymentIncome: number // Line 8
+  selfEmploymentThreshold: number // Line 11 - threshold left after wages
+  taxOnSelfEmployment: number // Line 13
+  additionalMedicareTax: number // Line 18 -> Schedule 2 line 11
+  medicareTaxWithheld: number // Line 19
+  regularMedicareWithholding: number // Line 21
+  additionalMedicareTaxWithheld: number // Line 24 -> federal withholding
+}
+
+const ADDITIONAL_MEDICARE_RATE = 0.009
+const REGULAR_MEDICARE_RATE = 0.0145
+
+export function calculateAdditionalMedicareTax(input: AdditionalMedicareTaxInput): AdditionalMedicareTaxResult {
+  const threshold = getTaxRules(input.taxYear).additionalMedicareTaxThreshold[normalizeFilingStatus(input.filingStatus)]
+
+  // Part I - Medicare wages
+  const line4 = Math.max(0, input.medicareWages || 0)
+  const line6 = Math.max(0, line4 - threshold)
+  const line7 = money(line6 * ADDITIONAL_MEDICARE_RATE)
+
+  // Part II - Self-employment income
+  const line8 = Math.max(0, input.selfEmploymentIncome || 0)
+  const line11 = Math.max(0, threshold - line4)
+  const line12 = Math.max(0, line8 - line11)
+  const line13 = money(line12 * ADDITIONAL_MEDICARE_RATE)
+
+  // Part V - Withholding reconciliation
+  const line19 = Math.max(0, input.medicareTaxWithheld || 0)
+  const line21 = money(line4 * REGULAR_MEDICARE_RATE)
+  const line22 = Math.max(0, money(line19 - line21))
+
+  return {
+    threshold,
+    medicareWages: line4,
+    taxOnWages: line7,
+    selfEmploymentIncome: line8,
+    selfEmploymentThreshold: line11,
+    taxOnSelfEmployment: line13,
+    additionalMedicareTax: line7 + line13,
+    medicareTaxWithheld: line19,
+    regularMedicareWithholding: line21,
+    additionalMedicareTaxWithheld: line22,
+  }
+}
@@ -4,6 +4,9 @@
  * Implementation of sophisticated US Tax Code optimization strategies
  */
 
+import { getStandardDeduction, getTaxBrackets } from './tax-calculations'
+import { getTaxRules } from './tax-rules'
+
 export interface TaxProfile {
   adjustedGrossIncome: number
   filingStatus: string
@@ -46,14 +49,15 @@ export class AdvancedTaxStrategist {
     const strategies: AdvancedStrategy[] = []
     const { adjustedGrossIncome, age, filingStatus } = profile
     
-    // 2025 contribution limits
+    // Contribution limits for the planning year
+    const contributionLimits = getTaxRules(profile.currentYear).contributionLimits
     const limits = {
-      k401: 23500,
-      k401Catchup: 31000, // 50+
-      iraContrib: 7000,
-      iraCatchup: 8000, // 50+
+      k401: contributionLimits.electiveDeferral,
+      k401Catchup: contributionLimits.electiveDeferral + contributionLimits.electiveDeferralCatchUp, // 50+
+      iraContrib: contributionLimits.ira,
+      iraCatchup: contributionLimits.ira + contributionLimits.iraCatchUp, // 50+
       sep: Math.min(70000, adjustedGrossIncome * 0.25),
-      simple: 16500,
+      simple: contributionLimits.simpleIra,
       simpleCatchup: 20000 // 50+
     }
 
@@ -177,7 +181,7 @@ export class AdvancedTaxStrategist {
     const strategies: AdvancedStrategy[] = []
     
     // Bunching strategy
-    const standardDeduction = this.getStandardDeduction(profile.filingStatus)
+    const standardDeduction = getStandardDeduction(profile.filingStatus, profile.currentYear)
     if (profile.currentItemizedDeductions < standardDeduction * 1.5) {
       strategies.push({
         category: 'CHARITABLE',
@@ -371,8 +375,7 @@ export class AdvancedTaxStrategist {
     const strategies: AdvancedStrategy[] = []
     
     // Bracket threshold analysis
-    const brackets2025 = this.getTaxBrackets(profile.filingStatus)
-    const currentBracket = this.getCurrentTaxBracket(profile.adjustedGrossIncome, profile.filingStatus)
+    const currentBracket = this.getCurrentTaxBracket(profile.adjustedGrossIncome, profile.filingStatus, profile.currentYear)
     
     if (currentBracket) {
       const distanceToNext = currentBracket.max - profile.adjustedGrossIncome
@@ -516,34 +519,8 @@ export class AdvancedTaxStrategist {
   }
 
   // Utility methods
-  private static getStandardDeduction(filingStatus: string): number {
-    const deductions2025 = {
-      'SINGLE': 15000,
-      'MARRIED_FILING_JOINTLY': 30000,
-      'MARRIED_FILING_SEPARATELY': 15000,
-      'HEAD_OF_HOUSEHOLD': 22500
-    }
-    return deductions2025[filingStatus as keyof typeof deductions2025] || 15000
-  }
-
-  private static getTaxBrackets(filingStatus: string) {
-    // 2025 tax brackets (projected)
-    const brackets = {
-      'SINGLE': [
-        { min: 0, max: 11925, rate: 0.10 },
-        { min: 11926, max: 48475, rate: 0.12 },
-        { min: 48476, max: 103350, rate: 0.22 },
-        { min: 103351, max: 197300, rate: 0.24 },
-        { min: 197301, max: 250525, rate: 0.32 },
-        { min: 250526, max: 626350, rate: 0.35 },
-        { min: 626351, max: Infinity, rate: 0.37 }
-      ]
-    }
-    return brackets[filingStatus as keyof typeof brackets] || brackets.SINGLE
-  }
-
-  private static getCurrentTaxBracket(income: number, filingStatus: string) {
-    const brackets = this.getTaxBrackets(filingStatus)
-    return brackets.find(bracket => income >= bracket.min && income <= bracket.max)
+  private static getCurrentTaxBracket(income: number, filingStatus: string, taxYear: number) {
+    const brackets = getTaxBrackets(filingStatus, taxYear)
+    return brackets.find(bracket => income >= bracket.min && income < bracket.max)
   }
 }
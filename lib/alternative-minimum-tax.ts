@@ -0,0 +1,161 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Form 6251 - Alternative Minimum Tax
+ * Rebuilds taxable income under AMT rules (AMTI), subtracts the exemption,
+ * taxes the rest at 26%/28% - keeping qualified dividends and capital gains at
+ * their preferential rates (Part III) - and reports the excess of tentative
+ * minimum tax over regular tax on Schedule 2 line 1.
+ */
+
+export interface AMTAdjustment {
+  key: string
+  label: string
+  line: string // Form 6251 line
+  amount: number
+}
+
+export interface AlternativeMinimumTaxInput {
+  taxableIncome: number // Form 1040 line 15 (line 11 minus line 14 when that is negative)
+  filingStatus: string
+  taxYear?: number
+  // Line 2a: SALT from Schedule A when itemizing, otherwise the standard deduction
+  itemizing: boolean
+  standardDeduction: number
+  // Form1040Data.amtAdjustments - private activity bond interest, SALT, and any other preference items
+  amtAdjustments?: Record<string, number | undefined>
+  qualifiedDividends?: number
+  netCapitalGain?: number
+  regularTax: number // Form 1040 line 16 (less Schedule 3 line 1 foreign tax credit)
+}
+
+export interface AlternativeMinimumTaxResult {
+  adjustments: AMTAdjustment[]
+  totalAdjustments: number
+  alternativeMinimumTaxableIncome: number // Line 4
+  exemption: number // Line 5
+  exemptionReduction: number
+  amtBase: number // Line 6
+  usedPreferentialRates: boolean // Part III
+  tentativeMinimumTax: number // Line 7 / line 9
+  amtForeignTaxCredit: number // Line 8
+  regularTax: number // Line 10
+  alternativeMinimumTax: number // Line 11 -> Schedule 2 line 1
+}
+
+const AMT_LOW_RATE = 0.26
+const AMT_HIGH_RATE = 0.28
+const EXEMPTION_PHASE_OUT_RATE = 0.25
+
+// Known amtAdjustments keys and where they land on Form 6251
+const ADJUSTMENT_LINES: Record<string, { label: string; line: string }> = {
+  stateLocalTaxDeduction: { label: 'State and local taxes (Schedule A)', line: '2a' },
+  taxRefund: { label: 'Taxable state refund', line: '2b' },
+  investmentInterest: { label: 'Investment interest expense', line: '2c' },
+  depletion: { label: 'Depletion', line: '2d' },
+  netOperatingLoss: { label: 'Net operating loss deduction', line: '2f' },
+  privateActivityBondInterest: { label: 'Private activity bond interest', line: '2g' },
+  qualifiedSmallBusinessStock: { label: 'Qualified small business stock exclusion', line: '2h' },
+  incentiveStockOptions: { label: 'Incentive stock options', line: '2i' },
+  estatesAndTrusts: { label: 'Estates and trusts (Schedule K-1)', line: '2j' },
+  depreciation: { label: 'Depreciation of post-1986 property', line: '2l' },
+  passiveActivities: { label: 'Passive activities', line: '2m' },
+  otherAdjustments: { label: 'Other adjustments', line: '3' },
+}
+
+// Not an adjustment to income - applied against tentative minimum tax on line 8
+const FOREIGN_TAX_CREDIT_KEY = 'foreignTaxCredit'
+
+/**
+ * 26% of the AMT base up to the 28% threshold, 28% above it - written as the
+ * form does: 28% of the whole amount less 2% of the threshold.
+ */
+function taxAtAmtRates(amount: number, rate28Threshold: number): number {
+  if (amount <= 0) return 0
+  if (amount <= rate28Threshold) return amount * AMT_LOW_RATE
+  return amount * AMT_HIGH_RATE - rate28Threshold * (AMT_HIGH_RATE - AMT_LOW_RATE)
+}
+
+export function calculateAlternativeMinimumTax(input: AlternativeMinimumTaxInput): AlternativeMinimumTaxResult {
+  const rules = getTaxRules(input.taxYear)
+  const status = normalizeFilingStatus(input.filingStatus)
+  const amtRules = rules.alternativeMinimumTax
+  const rate28Threshold = amtRules.rate28Threshold[status]
+  const amtAdjustments = input.amtAdjustments || {}
+
+  // Part I - Alternative minimum taxable income
+  const adjustments: AMTAdjustment[] = []
+  if (!input.itemizing && input.standardDeduction > 0) {
+    adjustments.push({ key: 'standardDeduction', label: 'Standard deduction', line: '2a', amount: input.standardDeduction })
+  }
+  for (const [key, value] of Object.entries(amtAdjustments)) {
+    if (!value || key === FOREIGN_TAX_CREDIT_KEY) continue
+    if (key === 'stateLocalTaxDeduction' && !input.itemizing) continue
+    const known = ADJUSTMENT_LINES[key] || { label: key, line: '3' }
+    adjustments.push({ key, label: known.label, line: known.line, amount: value })
+  }
+
+  const totalAdjustments = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+  const line4 = (input.taxableIncome || 0) + totalAdjustments
+
+  // Part II - Exemption and tentative minimum tax
+  const exemptionReduction = Math.max(0, line4 - amtRules.exemptionPhaseOutThreshold[status]) * EXEMPTION_PHASE_OUT_RATE
+  const line5 = Math.max(0, amtRules.exemption[status] - exemptionReduction)
+  const line6 = Math.max(0, line4 - line5)
+
+  const qualifiedDividends = Math.max(0, input.qualifiedDividends || 0)
+  const netCapitalGain = Math.max(0, input.netCapitalGain || 0)
+  const usedPreferentialRates = line6 > 0 && qualifiedDividends + netCapitalGain > 0
+
+  let line7: number
+  if (usedPreferentialRates) {
+    // Part III - Tax computation using maximum capital gains rates
+    const { zeroRateMax, fifteenRateMax } = rules.capitalGainRates
+    const taxableIncome = Math.max(0, input.taxableIncome || 0)
+    const preferentialIncome = Math.min(taxableIncome, qualifiedDividends + netCapitalGain)
+    const ordinaryTaxableIncome = Math.max(0, taxableIncome - preferentialIncome) // QDCG worksheet line 5
+
+    const line12 = line6
+    const line13 = preferentialIncome
+    const line16 = Math.min(line12, line13)
+    const line17 = line12 - line16
+    const line18 = taxAtAmtRates(line17, rate28Threshold)
+    const line21 = Math.max(0, zeroRateMax[status] - ordinaryTaxableIncome)
+    const line22 = Math.min(line12, line13)
+    const line23 = Math.min(line21, line22)
+    const line24 = line22 - line23
+    const line28 = line21 + ordinaryTaxableIncome
+    const line29 = Math.max(0, fifteenRateMax[status] - line28)
+    const line30 = Math.min(line24, line29)
+    const line31 = line30 * 0.15
+    const line32 = line23 + line30
+    const line33 = line22 - line32
+    const line34 = line33 * 0.20
+    const line40 = line18 + line31 + line34
+    const line41 = taxAtAmtRates(line12, rate28Threshold)
+    line7 = Math.min(line40, line41)
+  } else {
+    line7 = taxAtAmtRates(line6, rate28Threshold)
+  }
+  line7 = money(line7)
+
+  const line8 = Math.min(line7, Math.max(0, amtAdjustments[FOREIGN_TAX_CREDIT_KEY] || 0))
+  const line9 = line7 - line8
+  const line10 = Math.max(0, input.regularTax || 0)
+  const line11 = Math.max(0, money(line9 - line10))
+
+  return {
+    adjustments,
+    totalAdjustments,
+    alternativeMinimumTaxableIncome: line4,
+    exemption: line5,
+    exemptionReduction,
+    amtBase: line6,
+    usedPreferentialRates,
+    tentativeMinimumTax: line9,
+    amtForeignTaxCredit: line8,
+    regularTax: line10,
+    alternativeMinimumTax: line11,
+  }
+}
@@ -125,8 +125,47 @@ export interface Form1099MiscData extends BaseTaxDocument {
   secondTINNotice?: boolean;
 }
 
+export interface Form1098TData extends BaseTaxDocument {
+  documentType: "1098-T";
+  filerName?: string; // The educational institution
+  filerAddress?: string;
+  filerEIN?: string;
+  studentName?: string;
+  studentAddress?: string;
+  studentTIN?: string;
+  accountNumber?: string;
+  paymentsReceived?: number; // Box 1 - qualified tuition and related expenses paid
+  adjustmentsPriorYear?: number; // Box 4
+  scholarshipsOrGrants?: number; // Box 5
+  adjustmentsToScholarships?: number; // Box 6
+  includesNextYearAmounts?: boolean; // Box 7 - box 1 includes amounts for an academic period beginning in January-March of next year
+  halfTimeStudent?: boolean; // Box 8
+  graduateStudent?: boolean; // Box 9
+  insuranceReimbursements?: number; // Box 10
+}
+
+export interface Form1095AData extends BaseTaxDocument {
+  documentType: "1095-A";
+  marketplaceIdentifier?: string; // Line 1
+  policyNumber?: string; // Line 2
+  issuerName?: string; // Line 3
+  recipientName?: string; // Line 4
+  recipientTIN?: string; // Line 5
+  // Lines 21-32, January through December
+  monthlyPremiums?: number[]; // Column A - monthly enrollment premiums
+  monthlySlcspPremiums?: number[]; // Column B - second lowest cost silver plan premium
+  monthlyAdvancePayments?: number[]; // Column C - advance payment of premium tax credit
+  // Line 33 - annual totals
+  annualPremium?: number;
+  annualSlcspPremium?: number;
+  annualAdvancePayment?: number;
+}
+
 export type TaxDocumentData = W2Data | Form1099IntData | Form1099DivData | Form1099MiscData;
 
+// 1098-T and 1095-A report expenses and coverage rather than income, so they sit outside TaxDocumentData
+export type SupportedDocumentData = TaxDocumentData | Form1098TData | Form1095AData;
+
 export class AzureDocumentIntelligenceService {
   private client: DocumentAnalysisClient;
 
@@ -141,7 +180,7 @@ export class AzureDocumentIntelligenceService {
     this.client = new DocumentAnalysisClient(endpoint, new AzureKeyCredential(apiKey));
   }
 
-  async extractDataFromDocument(buffer: Buffer, filename: string): Promise<TaxDocumentData | null> {
+  async extractDataFromDocument(buffer: Buffer, filename: string): Promise<SupportedDocumentData | null> {
     try {
       console.log(`Starting document analysis for: ${filename}`);
       
@@ -164,7 +203,7 @@ export class AzureDocumentIntelligenceService {
       console.log(`Detected document type: ${documentType}`);
 
       // Extract structured data based on document type
-      let extractedData: TaxDocumentData | null = null;
+      let extractedData: SupportedDocumentData | null = null;
 
       switch (documentType) {
         case "W2":
@@ -179,6 +218,12 @@ export class AzureDocumentIntelligenceService {
         case "1099-MISC":
           extractedData = await this.extract1099Misc(result, textContent);
           break;
+        case "1098-T":
+          extractedData = await this.extract1098T(result, textContent);
+          break;
+        case "1095-A":
+          extractedData = await this.extract1095A(result, textContent);
+          break;
         default:
           console.log(`Unsupported document type: ${documentType}`);
           return null;
@@ -221,6 +266,12 @@ export class AzureDocumentIntelligenceService {
     if (name.includes("1099-misc") || name.includes("1099misc")) {
       return "1099-MISC";
     }
+    if (name.includes("1098-t") || name.includes("1098t")) {
+      return "1098-T";
+    }
+    if (name.includes("1095-a") || name.includes("1095a")) {
+      return "1095-A";
+    }
 
     // Check content patterns
     if (text.includes("form w-2") || text.includes("wage and tax statement")) {
@@ -235,6 +286,12 @@ export class AzureDocumentIntelligenceService {
     if (text.includes("form 1099-misc") || text.includes("miscellaneous income")) {
       return "1099-MISC";
     }
+    if (text.includes("form 1098-t") || text.includes("tuition statement")) {
+      return "1098-T";
+    }
+    if (text.includes("form 1095-a") || text.includes("health insurance marketplace statement")) {
+      return "1095-A";
+    }
 
     return "UNKNOWN";
   }
@@ -326,6 +383,18 @@ export class AzureDocumentIntelligenceService {
       }
     }
 
+    // Box 12 comes back as a list of code/amount pairs; keep them as "D 5000.00" strings
+    const additionalInfo = fields.AdditionalInfo?.valueArray || [];
+    const box12Keys = ['box12a', 'box12b', 'box12c', 'box12d'] as const;
+    additionalInfo.slice(0, box12Keys.length).forEach((item: any, index: number) => {
+      const entry = item.valueObject || {};
+      const code = entry.LetterCode?.valueString || entry.LetterCode?.content;
+      const amount = this.parseNumericValue(String(entry.Amount?.valueNumber ?? entry.Amount?.content ?? ''));
+      if (code && amount) {
+        data[box12Keys[index]] = `${code} ${amount.toFixed(2)}`;
+      }
+    });
+
     return data;
   }
 
@@ -1063,6 +1132,260 @@ export class AzureDocumentIntelligenceService {
     return data;
   }
 
+  async extract1098T(result: any, textContent: string): Promise<Form1098TData> {
+    const baseData: Form1098TData = {
+      documentType: "1098-T",
+      confidence: 0.8,
+      extractedAt: new Date().toISOString(),
+    };
+
+    // Try Azure Document Intelligence structured extraction first
+    const azureData = this.extract1098TFromAzureFields(result);
+    
+    // Then try OCR-based extraction for missing fields
+    const ocrData = this.extract1098TFromOCR(textContent);
+    
+    // Merge the results, preferring Azure data when available
+    const mergedData = { ...baseData, ...ocrData, ...azureData };
+    
+    return mergedData;
+  }
+
+  private extract1098TFromAzureFields(result: any): Partial<Form1098TData> {
+    const data: Partial<Form1098TData> = {};
+    
+    if (!result.documents || result.documents.length === 0) {
+      return data;
+    }
+
+    const document = result.documents[0];
+    const fields = document.fields || {};
+
+    // Map Azure Document Intelligence fields to our 1098-T structure
+    const fieldMappings = {
+      filerName: ['FilerName', 'Filer', 'InstitutionName'],
+      filerEIN: ['FilerTIN', 'FilerEIN', 'InstitutionEIN'],
+      studentName: ['StudentName', 'Student', 'RecipientName'],
+      studentTIN: ['StudentTIN', 'StudentSSN', 'RecipientTIN'],
+      paymentsReceived: ['PaymentsReceived', 'QualifiedTuition', 'Box1'],
+      adjustmentsPriorYear: ['AdjustmentsPriorYear', 'Box4'],
+      scholarshipsOrGrants: ['ScholarshipsOrGrants', 'Scholarships', 'Box5'],
+      adjustmentsToScholarships: ['AdjustmentsToScholarships', 'Box6'],
+      includesNextYearAmounts: ['IncludesNextYearAmounts', 'Box7'],
+      halfTimeStudent: ['HalfTimeStudent', 'AtLeastHalfTime', 'Box8'],
+      graduateStudent: ['GraduateStudent', 'Box9'],
+      insuranceReimbursements: ['InsuranceReimbursements', 'Box10']
+    };
+    const numericFields = ['paymentsReceived', 'adjustmentsPriorYear', 'scholarshipsOrGrants',
+                           'adjustmentsToScholarships', 'insuranceReimbursements'];
+    const booleanFields = ['includesNextYearAmounts', 'halfTimeStudent', 'graduateStudent'];
+
+    // Extract fields using multiple possible field names
+    for (const [targetField, possibleNames] of Object.entries(fieldMappings)) {
+      for (const fieldName of possibleNames) {
+        if (fields[fieldName]) {
+          const field = fields[fieldName];
+          let value = field.content || field.value || field.valueString;
+          
+          if (numericFields.includes(targetField)) {
+            value = this.parseNumericValue(value);
+          } else if (booleanFields.includes(targetField)) {
+            value = this.parseBooleanValue(value);
+          }
+          
+          if (value !== null && value !== undefined) {
+            (data as any)[targetField] = value;
+            break;
+          }
+        }
+      }
+    }
+
+    return data;
+  }
+
+  private extract1098TFromOCR(textContent: string): Partial<Form1098TData> {
+    const data: Partial<Form1098TData> = {};
+
+    const patterns = {
+      // Box 1 - Payments received for qualified tuition and related expenses
+      paymentsReceived: [
+        /(?:box\s*1|payments\s*received\s*for\s*qualified\s*tuition)[^$\d]*\$?([0-9,]+\.?\d*)/i,
+        /qualified\s*tuition\s*and\s*related\s*expenses[^$\d]*\$?([0-9,]+\.?\d*)/i
+      ],
+      
+      // Box 5 - Scholarships or grants
+      scholarshipsOrGrants: [
+        /(?:box\s*5|scholarships\s*or\s*grants)[^$\d]*\$?([0-9,]+\.?\d*)/i
+      ],
+      
+      // Filer (institution) information
+      filerName: [
+        /filer'?s\s*name[^\n]*\n([A-Za-z0-9\s,\.&'-]+?)(?:\n|$)/i
+      ],
+      filerEIN: [
+        /filer'?s\s*(?:employer\s*identification\s*no\.?|ein|tin)[:\s]*(\d{2}-?\d{7})/i
+      ],
+      
+      // Student information
+      studentName: [
+        /student'?s\s*name[:\s]*\n?([A-Za-z\s,\.'-]+?)(?:\n|$)/i
+      ]
+    };
+
+    // Extract each field using multiple patterns
+    for (const [field, regexList] of Object.entries(patterns)) {
+      for (const regex of regexList) {
+        const match = textContent.match(regex);
+        if (match && match[1]) {
+          let value: any = match[1].trim();
+          
+          if (['paymentsReceived', 'scholarshipsOrGrants'].includes(field)) {
+            value = this.parseNumericValue(value);
+            if (value !== null) {
+              (data as any)[field] = value;
+              break;
+            }
+          } else {
+            value = value.replace(/[^\w\s\-\.&',]/g, '').trim();
+            if (value) {
+              (data as any)[field] = value;
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    // Boxes 8 and 9 are checkboxes - look for a mark next to their labels
+    if (/at\s*least\s*half[-\s]*time\s*student[^\n]*(?:☒|\[x\]|\bx\b)/i.test(textContent)) {
+      data.halfTimeStudent = true;
+    }
+    if (/graduate\s*student[^\n]*(?:☒|\[x\]|\bx\b)/i.test(textContent)) {
+      data.graduateStudent = true;
+    }
+
+    return data;
+  }
+
+  async extract1095A(result: any, textContent: string): Promise<Form1095AData> {
+    const baseData: Form1095AData = {
+      documentType: "1095-A",
+      confidence: 0.8,
+      extractedAt: new Date().toISOString(),
+    };
+
+    // Try Azure Document Intelligence structured extraction first
+    const azureData = this.extract1095AFromAzureFields(result);
+    
+    // Then try OCR-based extraction for missing fields
+    const ocrData = this.extract1095AFromOCR(textContent);
+    
+    // Merge the results, preferring Azure data when available
+    const mergedData = { ...baseData, ...ocrData, ...azureData };
+    
+    return mergedData;
+  }
+
+  private extract1095AFromAzureFields(result: any): Partial<Form1095AData> {
+    const data: Partial<Form1095AData> = {};
+    
+    if (!result.documents || result.documents.length === 0) {
+      return data;
+    }
+
+    const document = result.documents[0];
+    const fields = document.fields || {};
+
+    // Map Azure Document Intelligence fields to our 1095-A structure
+    const fieldMappings = {
+      marketplaceIdentifier: ['MarketplaceIdentifier', 'Marketplace', 'Line1'],
+      policyNumber: ['PolicyNumber', 'MarketplaceAssignedPolicyNumber', 'Line2'],
+      issuerName: ['IssuerName', 'PolicyIssuer', 'Line3'],
+      recipientName: ['RecipientName', 'Recipient', 'Line4'],
+      recipientTIN: ['RecipientTIN', 'RecipientSSN', 'Line5'],
+      annualPremium: ['AnnualEnrollmentPremium', 'AnnualPremium', 'Line33A'],
+      annualSlcspPremium: ['AnnualSLCSPPremium', 'AnnualSlcspPremium', 'Line33B'],
+      annualAdvancePayment: ['AnnualAdvancePayment', 'AnnualAPTC', 'Line33C']
+    };
+    const numericFields = ['annualPremium', 'annualSlcspPremium', 'annualAdvancePayment'];
+
+    // Extract fields using multiple possible field names
+    for (const [targetField, possibleNames] of Object.entries(fieldMappings)) {
+      for (const fieldName of possibleNames) {
+        if (fields[fieldName]) {
+          const field = fields[fieldName];
+          let value = field.content || field.value || field.valueString;
+          
+          if (numericFields.includes(targetField)) {
+            value = this.parseNumericValue(value);
+          }
+          
+          if (value !== null && value !== undefined) {
+            (data as any)[targetField] = value;
+            break;
+          }
+        }
+      }
+    }
+
+    return data;
+  }
+
+  private extract1095AFromOCR(textContent: string): Partial<Form1095AData> {
+    const data: Partial<Form1095AData> = {};
+
+    const patterns = {
+      marketplaceIdentifier: [
+        /marketplace\s*identifier[:\s]*\n?([A-Z]{2}|[A-Za-z0-9\-]+)(?:\n|\s|$)/i
+      ],
+      policyNumber: [
+        /marketplace[-\s]*assigned\s*policy\s*number[:\s]*\n?([A-Za-z0-9\-]+)/i
+      ],
+      issuerName: [
+        /policy\s*issuer'?s\s*name[:\s]*\n?([A-Za-z0-9\s,\.&'-]+?)(?:\n|$)/i
+      ],
+      recipientName: [
+        /recipient'?s\s*name[:\s]*\n?([A-Za-z\s,\.'-]+?)(?:\n|$)/i
+      ]
+    };
+
+    // Extract each field using multiple patterns
+    for (const [field, regexList] of Object.entries(patterns)) {
+      for (const regex of regexList) {
+        const match = textContent.match(regex);
+        if (match && match[1]) {
+          const value = match[1].replace(/[^\w\s\-\.&',]/g, '').trim();
+          if (value) {
+            (data as any)[field] = value;
+            break;
+          }
+        }
+      }
+    }
+
+    // Part III - one row per month with columns A, B and C; a missing row is a month without coverage
+    const amount = '\\$?\\s*([0-9,]+\\.?\\d*)';
+    const monthNames = ['january', 'february', 'march', 'april', 'may', 'june', 'july',
+                        'august', 'september', 'october', 'november', 'december'];
+    const rows = monthNames.map(month => textContent.match(new RegExp(`${month}[^\\d\\n$]*${amount}\\s+${amount}\\s+${amount}`, 'i')));
+    if (rows.some(row => row)) {
+      data.monthlyPremiums = rows.map(row => row ? this.parseNumericValue(row[1]) || 0 : 0);
+      data.monthlySlcspPremiums = rows.map(row => row ? this.parseNumericValue(row[2]) || 0 : 0);
+      data.monthlyAdvancePayments = rows.map(row => row ? this.parseNumericValue(row[3]) || 0 : 0);
+    }
+
+    // Line 33 - annual totals
+    const totals = textContent.match(new RegExp(`annual\\s*totals?[^\\d\\n$]*${amount}\\s+${amount}\\s+${amount}`, 'i'));
+    if (totals) {
+      data.annualPremium = this.parseNumericValue(totals[1]) || 0;
+      data.annualSlcspPremium = this.parseNumericValue(totals[2]) || 0;
+      data.annualAdvancePayment = this.parseNumericValue(totals[3]) || 0;
+    }
+
+    return data;
+  }
+
   private parseNumericValue(value: string): number | null {
     if (!value) return null;
     
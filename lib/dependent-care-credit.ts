@@ -0,0 +1,211 @@
+import { normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Form 2441 - Child and Dependent Care Expenses
+ * Part III works out how much of the dependent care benefits an employer
+ * provided (W-2 box 10) can be excluded from wages - the rest is taxable on
+ * Form 1040 line 1e - and how much of the expense limit the exclusion uses up.
+ * Part II takes the remaining expenses, capped at $3,000 for one qualifying
+ * person or $6,000 for two or more and at the lower earner's income, and
+ * applies a 20-35% credit rate that falls as AGI rises. None of these amounts
+ * are indexed for inflation.
+ */
+
+export interface DependentCarePerson {
+  name: string
+  dependentId?: string | null
+  amount: number // Care expenses paid during the year
+  providerName?: string
+  underThirteen?: boolean // Used when there's no birth date
+  birthDate?: Date | string | null
+  disabled?: boolean // Physically or mentally unable to care for themselves
+}
+
+export interface DependentCareBenefitsInput {
+  employerBenefits: number // W-2 box 10
+  qualifiedExpenses: number // Expenses incurred for qualifying persons
+  earnedIncome: number
+  // Only used when married filing jointly; without it the spouse is assumed to earn at least as much
+  spouseEarnedIncome?: number
+  filingStatus: string
+}
+
+export interface DependentCareBenefitsResult {
+  benefits: number // Line 15
+  qualifiedExpenses: number // Line 16
+  earnedIncomeLimit: number // Line 20
+  exclusionLimit: number // Line 21
+  excludedBenefits: number // Line 25
+  taxableBenefits: number // Line 26 -> Form 1040 line 1e
+}
+
+export interface DependentCareCreditInput {
+  persons: DependentCarePerson[]
+  employerBenefits?: number
+  earnedIncome: number
+  spouseEarnedIncome?: number
+  adjustedGrossIncome: number // Form 1040 line 11
+  filingStatus: string
+  taxYear?: number
+  // Credit Limit Worksheet: Form 1040 line 18 less Schedule 3 line 1
+  taxLiabilityLimit: number
+}
+
+export interface DependentCarePersonResult {
+  name: string
+  dependentId: string | null
+  amount: number
+  qualifies: boolean
+  note: string | null
+}
+
+export interface DependentCareCreditResult {
+  persons: DependentCarePersonResult[]
+  qualifyingPersons: number
+  benefits: DependentCareBenefitsResult
+  expenseLimit: number // Line 27 ($3,000 / $6,000) less excluded benefits (line 31)
+  qualifiedExpenses: number // Line 3
+  earnedIncomeLimit: number // Smaller of lines 4 and 5
+  creditableExpenses: number // Line 6
+  creditPercentage: number // Line 8
+  tentativeCredit: number // Line 9c
+  creditLimit: number // Line 10
+  credit: number // Line 11 -> Schedule 3 line 2
+  explanation: string
+}
+
+const ONE_PERSON_EXPENSE_LIMIT = 3000
+const TWO_OR_MORE_EXPENSE_LIMIT = 6000
+const EXCLUSION_LIMIT = 5000
+const EXCLUSION_LIMIT_SEPARATE = 2500
+const MAX_CREDIT_RATE = 0.35
+const MIN_CREDIT_RATE = 0.2
+const RATE_STEP_START = 15000
+const RATE_STEP_AGI = 2000
+const RATE_STEP = 0.01
+const QUALIFYING_AGE = 13
+
+/**
+ * A child qualifies through the year they turn 12; a birth date wins over the
+ * entered flag.
+ */
+export function isUnderThirteen(person: Pick<DependentCarePerson, 'underThirteen' | 'birthDate'>, taxYear?: number): boolean {
+  if (!person.birthDate) return person.underThirteen !== false
+  const birthDate = new Date(person.birthDate)
+  const year = taxYear || new Date().getFullYear()
+  return year - birthDate.getUTCFullYear() < QUALIFYING_AGE
+}
+
+/**
+ * Line 8: 35%, less 1% for each $2,000 (or part of $2,000) of AGI over
+ * $15,000, but never below 20%.
+ */
+export function dependentCareCreditPercentage(adjustedGrossIncome: number): number {
+  const steps = Math.ceil(Math.max(0, (adjustedGrossIncome || 0) - RATE_STEP_START) / RATE_STEP_AGI)
+  return Math.max(MIN_CREDIT_RATE, Math.round((MAX_CREDIT_RATE - steps * RATE_STEP) * 100) / 100)
+}
+
+/**
+ * Part III - dependent care benefits. Doesn't depend on AGI, so it can run
+ * before income is totaled.
+ */
+export function calculateDependentCareBenefits(input: DependentCareBenefitsInput): DependentCareBenefitsResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const line15 = Math.max(0, input.employerBenefits || 0)
+  const line16 = Math.max(0, input.qualifiedExpenses || 0)
+  const line17 = Math.min(line15, line16)
+  const line18 = Math.max(0, input.earnedIncome || 0)
+  const line19 = status === FilingStatus.MARRIED_FILING_JOINTLY && input.spouseEarnedIncome !== undefined
+    ? Math.max(0, input.spouseEarnedIncome)
+    : line18
+  const line20 = Math.min(line17, line18, line19)
+  const line21 = status === FilingStatus.MARRIED_FILING_SEPARATELY ? EXCLUSION_LIMIT_SEPARATE : EXCLUSION_LIMIT
+  const line25 = Math.min(line20, line21)
+  const line26 = Math.max(0, line15 - line25)
+
+  return {
+    benefits: line15,
+    qualifiedExpenses: line16,
+    earnedIncomeLimit: line20,
+    exclusionLimit: line21,
+    excludedBenefits: line25,
+    taxableBenefits: line26,
+  }
+}
+
+export function calculateDependentCareCredit(input: DependentCareCreditInput): DependentCareCreditResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+
+  const persons: DependentCarePersonResult[] = (input.persons || []).map(person => {
+    const qualifies = !!person.disabled || isUnderThirteen(person, input.taxYear)
+    return {
+      name: person.name,
+      dependentId: person.dependentId || null,
+      amount: Math.max(0, person.amount || 0),
+      qualifies,
+      note: qualifies ? null : `${person.name} was 13 or older and not disabled, so their care expenses don't qualify.`,
+    }
+  })
+  const qualifying = persons.filter(person => person.qualifies)
+  const qualifyingPersons = new Set(qualifying.map(person => person.dependentId || person.name)).size
+  const expenses = qualifying.reduce((sum, person) => sum + person.amount, 0)
+
+  const benefits = calculateDependentCareBenefits({
+    employerBenefits: input.employerBenefits || 0,
+    qualifiedExpenses: expenses,
+    earnedIncome: input.earnedIncome,
+    spouseEarnedIncome: input.spouseEarnedIncome,
+    filingStatus: input.filingStatus,
+  })
+
+  // Lines 27-31 - the exclusion uses up part of the expense limit
+  const line27 = qualifyingPersons >= 2 ? TWO_OR_MORE_EXPENSE_LIMIT : qualifyingPersons === 1 ? ONE_PERSON_EXPENSE_LIMIT : 0
+  const line29 = Math.max(0, line27 - benefits.excludedBenefits)
+  const line30 = Math.max(0, expenses - benefits.excludedBenefits)
+  const line3 = Math.min(line29, line30)
+
+  // Lines 4-6 - limited to the lower earner's income
+  const line4 = Math.max(0, input.earnedIncome || 0)
+  const line5 = status === FilingStatus.MARRIED_FILING_JOINTLY && input.spouseEarnedIncome !== undefined
+    ? Math.max(0, input.spouseEarnedIncome)
+    : line4
+  const line6 = Math.min(line3, line4, line5)
+
+  const separate = status === FilingStatus.MARRIED_FILING_SEPARATELY
+  const line8 = dependentCareCreditPercentage(input.adjustedGrossIncome)
+  const line9c = separate ? 0 : money(line6 * line8)
+  const line10 = Math.max(0, input.taxLiabilityLimit || 0)
+  const line11 = Math.min(line9c, line10)
+
+  let explanation: string
+  if (persons.length === 0) {
+    explanation = 'No dependent care expenses entered.'
+  } else if (qualifyingPersons === 0) {
+    explanation = 'No qualifying person - care must be for a child under 13 or someone unable to care for themselves.'
+  } else if (separate) {
+    explanation = 'The dependent care credit generally cannot be claimed when married filing separately.'
+  } else if (line3 === 0) {
+    explanation = `Excluded employer benefits of $${benefits.excludedBenefits.toLocaleString()} use up the $${line27.toLocaleString()} expense limit, so there's no credit.`
+  } else {
+    explanation = `${Math.round(line8 * 100)}% of $${line6.toLocaleString()} in expenses (limit $${line27.toLocaleString()} for ${qualifyingPersons} qualifying ${qualifyingPersons === 1 ? 'person' : 'persons'}` +
+                  (benefits.excludedBenefits > 0 ? `, less $${benefits.excludedBenefits.toLocaleString()} of excluded employer benefits)` : ')') +
+                  (line11 < line9c ? `, limited to $${line11.toLocaleString()} of tax.` : '.')
+  }
+
+  return {
+    persons,
+    qualifyingPersons,
+    benefits,
+    expenseLimit: line29,
+    qualifiedExpenses: line3,
+    earnedIncomeLimit: Math.min(line4, line5),
+    creditableExpenses: line6,
+    creditPercentage: line8,
+    tentativeCredit: line9c,
+    creditLimit: line10,
+    credit: line11,
+    explanation,
+  }
+}
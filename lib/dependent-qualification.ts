@@ -0,0 +1,352 @@
+import { getTaxRules } from './tax-rules'
+import { money, MoneyInput } from './money'
+
+/**
+ * Dependent qualification - Pub 501 qualifying child and qualifying relative
+ * tests, and which credits each dependent brings:
+ *
+ * - Child tax credit (Schedule 8812 line 4): a qualifying child under 17 at
+ *   the end of the year with a social security number, who is a U.S.
+ *   citizen, national or resident.
+ * - Credit for other dependents (line 6): every other dependent.
+ * - Earned income credit (Schedule EIC): a qualifying child with a social
+ *   security number. The support test doesn't apply, so a child who pays
+ *   their own way can still be an EIC child without being a dependent.
+ *
+ * When someone else can also claim the child, the tie-breaker rules decide:
+ * a parent wins over a non-parent; between parents, the one the child lived
+ * with longer, then the higher AGI; between non-parents, the higher AGI.
+ *
+ * The taxpayer is assumed to be older than the child, and the "dependent of
+ * another taxpayer" test isn't checked.
+ */
+
+export type DependentRelationship =
+  | 'SON' | 'DAUGHTER' | 'STEPCHILD' | 'FOSTER_CHILD'
+  | 'BROTHER' | 'SISTER' | 'HALF_BROTHER' | 'HALF_SISTER' | 'STEPBROTHER' | 'STEPSISTER'
+  | 'GRANDCHILD' | 'NIECE' | 'NEPHEW'
+  | 'PARENT' | 'GRANDPARENT' | 'STEPPARENT' | 'AUNT' | 'UNCLE' | 'IN_LAW'
+  | 'OTHER'
+
+export type OtherClaimant = 'PARENT' | 'OTHER'
+
+export const DEPENDENT_RELATIONSHIPS: { value: DependentRelationship; label: string }[] = [
+  { value: 'SON', label: 'Son' },
+  { value: 'DAUGHTER', label: 'Daughter' },
+  { value: 'STEPCHILD', label: 'Stepchild' },
+  { value: 'FOSTER_CHILD', label: 'Foster child' },
+  { value: 'BROTHER', label: 'Brother' },
+  { value: 'SISTER', label: 'Sister' },
+  { value: 'HALF_BROTHER', label: 'Half brother' },
+  { value: 'HALF_SISTER', label: 'Half sister' },
+  { value: 'STEPBROTHER', label: 'Stepbrother' },
+  { value: 'STEPSISTER', label: 'Stepsister' },
+  { value: 'GRANDCHILD', label: 'Grandchild' },
+  { value: 'NIECE', label: 'Niece' },
+  { value: 'NEPHEW', label: 'Nephew' },
+  { value: 'PARENT', label: 'Parent' },
+  { value: 'GRANDPARENT', label: 'Grandparent' },
+  { value: 'STEPPARENT', label: 'Stepparent' },
+  { value: 'AUNT', label: 'Aunt' },
+  { value: 'UNCLE', label: 'Uncle' },
+  { value: 'IN_LAW', label: 'In-law' },
+  { value: 'OTHER', label: 'Other (lived with you all year)' },
+]
+
+export interface DependentQualificationInput {
+  relationship: string
+  birthDate: Date | string
+  ssn?: string | null
+  monthsLivedWithTaxpayer?: number // Months in the taxpayer's home during the year
+  fullTimeStudent?: boolean
+  permanentlyDisabled?: boolean
+  providedOwnSupport?: boolean // The child paid over half of their own support
+  taxpayerProvidedSupport?: boolean // The taxpayer paid over half of the relative's support
+  grossIncome?: number
+  filedJointReturn?: boolean
+  citizenOrResident?: boolean
+  otherClaimant?: OtherClaimant | string | null
+  otherClaimantMonths?: number | null
+  otherClaimantAGI?: number | null
+}
+
+// A dependent as saved - the amounts come back as Prisma decimals or JSON strings
+export interface SavedDependent {
+  relationship: string
+  birthDate: Date | string
+  ssn?: string | null
+  monthsLivedWithTaxpayer?: number | null
+  fullTimeStudent?: boolean | null
+  permanentlyDisabled?: boolean | null
+  providedOwnSupport?: boolean | null
+  taxpayerProvidedSupport?: boolean | null
+  grossIncome?: MoneyInput
+  filedJointReturn?: boolean | null
+  citizenOrResident?: boolean | null
+  otherClaimant?: string | null
+  otherClaimantMonths?: number | null
+  otherClaimantAGI?: MoneyInput
+}
+
+export interface DependentQualificationContext {
+  taxYear: number
+  adjustedGrossIncome?: number // For the tie-breaker
+}
+
+export interface QualificationTest {
+  test: string
+  passed: boolean
+  explanation: string
+}
+
+export interface DependentQualificationResult {
+  age: number // At the end of the tax year
+  qualifyingChild: boolean
+  qualifyingRelative: boolean
+  isDependent: boolean
+  qualifiesForCTC: boolean
+  qualifiesForODC: boolean // Credit for other dependents
+  qualifiesForEITC: boolean
+  tests: QualificationTest[]
+  explanation: string
+}
+
+const CHILD_RELATIONSHIPS: DependentRelationship[] = [
+  'SON', 'DAUGHTER', 'STEPCHILD', 'FOSTER_CHILD',
+  'BROTHER', 'SISTER', 'HALF_BROTHER', 'HALF_SISTER', 'STEPBROTHER', 'STEPSISTER',
+  'GRANDCHILD', 'NIECE', 'NEPHEW',
+]
+// Tie-breaker "parent" means a birth or adoptive parent
+const PARENT_RELATIONSHIPS: DependentRelationship[] = ['SON', 'DAUGHTER']
+
+const CHILD_AGE_LIMIT = 19
+const STUDENT_AGE_LIMIT = 24
+const CHILD_TAX_CREDIT_AGE_LIMIT = 17
+const MONTHS_IN_YEAR = 12
+const HALF_YEAR_MONTHS = 6
+
+const RELATIONSHIP_ALIASES: Record<string, DependentRelationship> = {
+  CHILD: 'SON',
+  STEPSON: 'STEPCHILD',
+  STEPDAUGHTER: 'STEPCHILD',
+  GRANDSON: 'GRANDCHILD',
+  GRANDDAUGHTER: 'GRANDCHILD',
+  MOTHER: 'PARENT',
+  FATHER: 'PARENT',
+  GRANDMOTHER: 'GRANDPARENT',
+  GRANDFATHER: 'GRANDPARENT',
+  STEPMOTHER: 'STEPPARENT',
+  STEPFATHER: 'STEPPARENT',
+}
+
+/**
+ * Maps free-text relationships ("Daughter", "step son", "mother-in-law") to
+ * the values the tests use; anything unrecognized is OTHER.
+ */
+export function normalizeRelationship(relationship: string | null | undefined): DependentRelationship {
+  const key = (relationship || '').trim().toUpperCase().replace(/[\s-]+/g, '_')
+  if (key.endsWith('IN_LAW')) return 'IN_LAW'
+  const compact = key.replace(/_/g, '')
+  if (RELATIONSHIP_ALIASES[compact]) return RELATIONSHIP_ALIASES[compact]
+  const known = DEPENDENT_RELATIONSHIPS.find(item => item.value === key || item.value.replace(/_/g, '') === compact)
+  return known ? known.value : 'OTHER'
+}
+
+/**
+ * Age on December 31 of the tax year.
+ */
+export function ageAtYearEnd(birthDate: Date | string, taxYear: number): number {
+  return taxYear - new Date(birthDate).getUTCFullYear()
+}
+
+export function qualifyDependent(dependent: DependentQualificationInput, context: DependentQualificationContext): DependentQualificationResult {
+  const relationship = normalizeRelationship(dependent.relationship)
+  const age = ageAtYearEnd(dependent.birthDate, context.taxYear)
+  const months = Math.max(0, Math.min(MONTHS_IN_YEAR, dependent.monthsLivedWithTaxpayer ?? MONTHS_IN_YEAR))
+  const bornThisYear = new Date(dependent.birthDate).getUTCFullYear() === context.taxYear
+  const hasSSN = !!(dependent.ssn || '').replace(/\D/g, '')
+  const citizen = dependent.citizenOrResident !== false
+  const tests: QualificationTest[] = []
+
+  // Qualifying child
+  const childRelationship = CHILD_RELATIONSHIPS.includes(relationship)
+  tests.push({
+    test: 'Relationship',
+    passed: childRelationship,
+    explanation: childRelationship
+      ? 'A child, stepchild, foster child, sibling or a descendant of one can be a qualifying child.'
+      : 'Only a child, stepchild, foster child, sibling or a descendant of one can be a qualifying child.',
+  })
+
+  const ageLimit = dependent.fullTimeStudent ? STUDENT_AGE_LIMIT : CHILD_AGE_LIMIT
+  const agePassed = !!dependent.permanentlyDisabled || age < ageLimit
+  // A child born during the year counts as living with the taxpayer all year if they did so since birth
+  const residencyPassed = months > HALF_YEAR_MONTHS || (bornThisYear && months > 0)
+  const supportPassed = !dependent.providedOwnSupport
+  const jointPassed = !dependent.filedJointReturn
+
+  // The remaining qualifying child tests only matter for a child relationship
+  if (childRelationship) {
+    tests.push({
+      test: 'Age',
+      passed: agePassed,
+      explanation: dependent.permanentlyDisabled
+        ? 'Permanently and totally disabled, so there is no age limit.'
+        : `${age} at the end of ${context.taxYear}; must be under ${ageLimit}${dependent.fullTimeStudent ? ' as a full-time student' : ' (under 24 if a full-time student)'}.`,
+    })
+    tests.push({
+      test: 'Residency',
+      passed: residencyPassed,
+      explanation: bornThisYear && months > 0
+        ? `Born in ${context.taxYear}, so living with you since birth counts as the whole year.`
+        : `Lived with you ${months} month${months === 1 ? '' : 's'}; more than half the year is required.`,
+    })
+    tests.push({
+      test: 'Support',
+      passed: supportPassed,
+      explanation: supportPassed
+        ? 'Did not provide over half of their own support.'
+        : 'Provided over half of their own support.',
+    })
+  }
+  tests.push({
+    test: 'Joint return',
+    passed: jointPassed,
+    explanation: jointPassed
+      ? 'Did not file a joint return.'
+      : 'Filed a joint return other than only to claim a refund.',
+  })
+
+  // Tie-breaker
+  let tieBreakerPassed = true
+  if (childRelationship && (dependent.otherClaimant === 'PARENT' || dependent.otherClaimant === 'OTHER')) {
+    const taxpayerIsParent = PARENT_RELATIONSHIPS.includes(relationship)
+    const otherIsParent = dependent.otherClaimant === 'PARENT'
+    const otherMonths = dependent.otherClaimantMonths ?? 0
+    const higherAGI = (context.adjustedGrossIncome || 0) > (dependent.otherClaimantAGI || 0)
+    let reason: string
+    if (taxpayerIsParent !== otherIsParent) {
+      tieBreakerPassed = taxpayerIsParent
+      reason = taxpayerIsParent ? 'A parent wins over a non-parent.' : 'The other person is a parent, who wins over a non-parent.'
+    } else if (taxpayerIsParent && months !== otherMonths) {
+      tieBreakerPassed = months > otherMonths
+      reason = `Between parents, the one the child lived with longer (${months} vs. ${otherMonths} months) claims the child.`
+    } else {
+      tieBreakerPassed = higherAGI
+      reason = taxpayerIsParent
+        ? 'The child lived with both parents equally long, so the parent with the higher AGI claims the child.'
+        : 'Neither claimant is a parent, so the one with the higher AGI claims the child.'
+    }
+    tests.push({ test: 'Tie-breaker', passed: tieBreakerPassed, explanation: reason })
+  }
+
+  // EIC child: relationship, age, residency, joint return and tie-breaker - no support test
+  const eicChild = childRelationship && agePassed && residencyPassed && jointPassed && tieBreakerPassed
+  const qualifyingChild = eicChild && supportPassed && citizen
+
+  // Qualifying relative - anyone who isn't a qualifying child: related, or living with the taxpayer all year
+  let qualifyingRelative = false
+  if (!qualifyingChild && !(childRelationship && !tieBreakerPassed)) {
+    const householdMember = relationship !== 'OTHER' || months >= MONTHS_IN_YEAR
+    const incomeLimit = getTaxRules(context.taxYear).qualifyingRelativeIncomeLimit
+    const incomePassed = (dependent.grossIncome || 0) < incomeLimit
+    const relativeSupportPassed = dependent.taxpayerProvidedSupport !== false
+    tests.push({
+      test: 'Member of household or relationship',
+      passed: householdMember,
+      explanation: householdMember
+        ? relationship === 'OTHER' ? 'Lived with you all year as a member of your household.' : 'Related to you, so they don\'t have to live with you.'
+        : 'Someone who isn\'t related to you must live with you all year.',
+    })
+    tests.push({
+      test: 'Gross income',
+      passed: incomePassed,
+      explanation: `Gross income of $${(dependent.grossIncome || 0).toLocaleString()} must be less than $${incomeLimit.toLocaleString()}.`,
+    })
+    tests.push({
+      test: 'Support (qualifying relative)',
+      passed: relativeSupportPassed,
+      explanation: relativeSupportPassed
+        ? 'You provided over half of their total support.'
+        : 'You must provide over half of their total support.',
+    })
+    qualifyingRelative = householdMember && incomePassed && relativeSupportPassed && jointPassed && citizen
+  }
+
+  tests.push({
+    test: 'Citizenship',
+    passed: citizen,
+    explanation: citizen ? 'U.S. citizen, national or resident.' : 'Must be a U.S. citizen, national or resident (or of Canada or Mexico).',
+  })
+
+  const isDependent = qualifyingChild || qualifyingRelative
+  const underCreditAge = age < CHILD_TAX_CREDIT_AGE_LIMIT
+  const qualifiesForCTC = qualifyingChild && underCreditAge && hasSSN
+  const qualifiesForODC = isDependent && !qualifiesForCTC
+  const qualifiesForEITC = eicChild && hasSSN
+
+  let explanation: string
+  if (qualifiesForCTC) {
+    explanation = `Qualifying child under ${CHILD_TAX_CREDIT_AGE_LIMIT} - eligible for the child tax credit.`
+  } else if (qualifyingChild) {
+    explanation = !underCreditAge
+      ? `Qualifying child, but ${age} at the end of ${context.taxYear} - too old for the child tax credit, so the credit for other dependents applies.`
+      : 'Qualifying child without a social security number - the credit for other dependents applies instead of the child tax credit.'
+  } else if (qualifyingRelative) {
+    explanation = 'Qualifying relative - eligible for the credit for other dependents.'
+  } else {
+    const failed = tests.filter(test => !test.passed && test.test !== 'Relationship')
+    explanation = `Not a dependent: fails the ${failed.map(test => test.test.toLowerCase()).join(', ')} test${failed.length === 1 ? '' : 's'}.`
+  }
+  if (qualifiesForEITC) {
+    explanation += ' Counts as a qualifying child for the earned income credit.'
+  } else if (eicChild && !hasSSN) {
+    explanation += ' A social security number is required to count for the earned income credit.'
+  }
+
+  return {
+    age,
+    qualifyingChild,
+    qualifyingRelative,
+    isDependent,
+    qualifiesForCTC,
+    qualifiesForODC,
+    qualifiesForEITC,
+    tests,
+    explanation,
+  }
+}
+
+/**
+ * Refigures a saved dependent's credit flags against the return's AGI. The
+ * tie-breaker compares it with the other claimant's, and the AGI saved when
+ * the dependent was added is usually out of date by the time the return is
+ * calculated.
+ */
+export function requalifyDependent<T extends SavedDependent>(
+  dependent: T,
+  context: DependentQualificationContext
+): T & Pick<DependentQualificationResult, 'isDependent' | 'qualifiesForCTC' | 'qualifiesForEITC'> {
+  const qualification = qualifyDependent({
+    relationship: dependent.relationship,
+    birthDate: dependent.birthDate,
+    ssn: dependent.ssn,
+    monthsLivedWithTaxpayer: dependent.monthsLivedWithTaxpayer ?? undefined,
+    fullTimeStudent: !!dependent.fullTimeStudent,
+    permanentlyDisabled: !!dependent.permanentlyDisabled,
+    providedOwnSupport: !!dependent.providedOwnSupport,
+    taxpayerProvidedSupport: dependent.taxpayerProvidedSupport !== false,
+    grossIncome: money(dependent.grossIncome),
+    filedJointReturn: !!dependent.filedJointReturn,
+    citizenOrResident: dependent.citizenOrResident !== false,
+    otherClaimant: dependent.otherClaimant,
+    otherClaimantMonths: dependent.otherClaimantMonths,
+    otherClaimantAGI: dependent.otherClaimantAGI == null ? null : money(dependent.otherClaimantAGI),
+  }, context)
+  return {
+    ...dependent,
+    isDependent: qualification.isDependent,
+    qualifiesForCTC: qualification.qualifiesForCTC,
+    qualifiesForEITC: qualification.qualifiesForEITC,
+  }
+}
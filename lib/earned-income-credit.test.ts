@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateEarnedIncomeCredit } from './earned-income-credit'
+import { computeForm1040 } from './form-1040-engine'
+
+describe('calculateEarnedIncomeCredit', () => {
+  const input = {
+    earnedIncome: 10000,
+    adjustedGrossIncome: 10000,
+    qualifyingChildren: 0,
+    filingStatus: 'SINGLE',
+    taxYear: 2025,
+    taxpayerAge: 30
+  }
+
+  it('allows the credit to a filer who meets the tests', () => {
+    const result = calculateEarnedIncomeCredit(input)
+    assert.equal(result.eligible, true)
+    assert.ok(result.credit > 0)
+  })
+
+  it('denies the credit to a filer who can be claimed as a dependent', () => {
+    const result = calculateEarnedIncomeCredit({ ...input, canBeClaimedAsDependent: true })
+    assert.equal(result.eligible, false)
+    assert.equal(result.credit, 0)
+    assert.equal(result.tests.find(test => test.name === 'Not a dependent')?.passed, false)
+  })
+
+  it('denies the credit with qualifying children too', () => {
+    const result = calculateEarnedIncomeCredit({ ...input, qualifyingChildren: 1, canBeClaimedAsDependent: true })
+    assert.equal(result.credit, 0)
+  })
+})
+
+describe('computeForm1040 earned income credit', () => {
+  const input = {
+    taxYear: 2025,
+    filingStatus: 'SINGLE',
+    taxpayerBirthDate: '1995-06-15',
+    incomeEntries: [{ incomeType: 'W2_WAGES', amount: '10000.00' }]
+  }
+
+  it('claims the credit', () => {
+    assert.ok(computeForm1040(input).summary.earnedIncomeCredit > 0)
+  })
+
+  it('leaves it off when the filer can be claimed as a dependent', () => {
+    const { summary } = computeForm1040({ ...input, canBeClaimedAsDependent: true })
+    assert.equal(summary.earnedIncomeCredit, 0)
+    assert.equal(summary.earnedIncomeCreditDetails.eligible, false)
+  })
+})
@@ -0,0 +1,186 @@
+import { FilingStatus } from './form-1040-types'
+import { EarnedIncomeCreditParameters, getTaxRules, normalizeFilingStatus } from './tax-rules'
+
+/**
+ * Earned Income Credit (Form 1040, line 27 / line 25c on this form layout)
+ * Follows the EIC Worksheet A in the Form 1040 instructions: the credit is
+ * looked up for earned income and, when AGI differs and reaches the phase-out,
+ * for AGI as well - the smaller amount is allowed.
+ */
+
+export type EarnedIncomeCreditPhase = 'phase-in' | 'plateau' | 'phase-out' | 'none'
+
+export interface EarnedIncomeCreditTest {
+  name: string
+  passed: boolean
+  detail: string
+}
+
+export interface EarnedIncomeCreditInput {
+  earnedIncome: number
+  adjustedGrossIncome: number
+  investmentIncome?: number
+  qualifyingChildren: number
+  filingStatus: string
+  taxYear?: number
+  // Only used for the age test when there are no qualifying children
+  taxpayerAge?: number
+  spouseAge?: number
+  canBeClaimedAsDependent?: boolean // Someone who can be claimed as a dependent can't take the credit
+}
+
+export interface EarnedIncomeCreditResult {
+  eligible: boolean
+  credit: number
+  qualifyingChildren: number // Capped at 3, the largest column in the EIC table
+  creditForEarnedIncome: number
+  creditForAGI: number | null // Only looked up when AGI differs and reaches the phase-out
+  phase: EarnedIncomeCreditPhase
+  phaseOutThreshold: number
+  incomeLimit: number // Earned income / AGI at which the credit reaches zero
+  parameters: EarnedIncomeCreditParameters
+  tests: EarnedIncomeCreditTest[]
+  explanation: string
+}
+
+const EIC_TABLE_BAND = 50
+const MIN_AGE_WITHOUT_CHILDREN = 25
+const MAX_AGE_WITHOUT_CHILDREN = 64
+
+/**
+ * EIC Table amount for an income. The published table is built from $50
+ * bands using the credit at the middle of each band, rounded to whole dollars.
+ */
+export function lookupEarnedIncomeCredit(
+  income: number,
+  params: EarnedIncomeCreditParameters,
+  phaseOutThreshold: number
+): number {
+  if (income <= 0) {
+    return 0
+  }
+
+  const midpoint = Math.floor(income / EIC_TABLE_BAND) * EIC_TABLE_BAND + EIC_TABLE_BAND / 2
+  const phaseInCredit = Math.min(midpoint * params.phaseInRate, params.maxCredit)
+  const phaseOutReduction = Math.max(0, midpoint - phaseOutThreshold) * params.phaseOutRate
+
+  return Math.max(0, Math.round(phaseInCredit - phaseOutReduction))
+}
+
+function getPhase(income: number, params: EarnedIncomeCreditParameters, phaseOutThreshold: number): EarnedIncomeCreditPhase {
+  if (income <= 0) return 'none'
+  if (income < params.earnedIncomeAmount) return 'phase-in'
+  if (income < phaseOutThreshold) return 'plateau'
+  return 'phase-out'
+}
+
+export function calculateEarnedIncomeCredit(input: EarnedIncomeCreditInput): EarnedIncomeCreditResult {
+  const rules = getTaxRules(input.taxYear).earnedIncomeCredit
+  const status = normalizeFilingStatus(input.filingStatus)
+  const qualifyingChildren = Math.max(0, Math.min(input.qualifyingChildren || 0, 3))
+  const params = rules.byQualifyingChildren[qualifyingChildren]
+  const phaseOutThreshold = status === FilingStatus.MARRIED_FILING_JOINTLY
+    ? params.phaseOutThresholdJoint
+    : params.phaseOutThreshold
+  const incomeLimit = Math.ceil(phaseOutThreshold + params.maxCredit / params.phaseOutRate)
+
+  const earnedIncome = Math.max(0, input.earnedIncome || 0)
+  const adjustedGrossIncome = input.adjustedGrossIncome || 0
+  const investmentIncome = Math.max(0, input.investmentIncome || 0)
+  const tests: EarnedIncomeCreditTest[] = []
+
+  tests.push({
+    name: 'Filing status',
+    passed: status !== FilingStatus.MARRIED_FILING_SEPARATELY,
+    detail: status !== FilingStatus.MARRIED_FILING_SEPARATELY
+      ? 'Filing status allows the credit'
+      : 'Married filing separately can only claim the credit under the separated-spouse rules, which are not supported'
+  })
+
+  tests.push({
+    name: 'Not a dependent',
+    passed: !input.canBeClaimedAsDependent,
+    detail: input.canBeClaimedAsDependent
+      ? 'Someone who can be claimed as a dependent on another return cannot claim the credit'
+      : 'Cannot be claimed as a dependent'
+  })
+
+  tests.push({
+    name: 'Earned income',
+    passed: earnedIncome > 0,
+    detail: earnedIncome > 0
+      ? `Earned income of $${earnedIncome.toLocaleString()}`
+      : 'No earned income (wages or self-employment earnings)'
+  })
+
+  tests.push({
+    name: 'Investment income',
+    passed: investmentIncome <= rules.investmentIncomeLimit,
+    detail: `Investment income of $${investmentIncome.toLocaleString()} ${investmentIncome <= rules.investmentIncomeLimit ? 'is within' : 'exceeds'} the $${rules.investmentIncomeLimit.toLocaleString()} limit`
+  })
+
+  const incomeForLimit = Math.max(earnedIncome, adjustedGrossIncome)
+  tests.push({
+    name: 'Income limit',
+    passed: incomeForLimit < incomeLimit,
+    detail: `Earned income and AGI must both be less than $${incomeLimit.toLocaleString()} with ${qualifyingChildren} qualifying ${qualifyingChildren === 1 ? 'child' : 'children'}`
+  })
+
+  if (qualifyingChildren === 0) {
+    const ages = [input.taxpayerAge, status === FilingStatus.MARRIED_FILING_JOINTLY ? input.spouseAge : undefined]
+      .filter((age): age is number => typeof age === 'number')
+    const meetsAge = ages.length === 0 ||
+      ages.some(age => age >= MIN_AGE_WITHOUT_CHILDREN && age <= MAX_AGE_WITHOUT_CHILDREN)
+    tests.push({
+      name: 'Age (no qualifying children)',
+      passed: meetsAge,
+      detail: ages.length === 0
+        ? `Assumed at least ${MIN_AGE_WITHOUT_CHILDREN} and under ${MAX_AGE_WITHOUT_CHILDREN + 1} - no birth date on file`
+        : meetsAge
+          ? `Age is between ${MIN_AGE_WITHOUT_CHILDREN} and ${MAX_AGE_WITHOUT_CHILDREN}`
+          : `Taxpayer${ages.length > 1 ? ' or spouse' : ''} must be between ${MIN_AGE_WITHOUT_CHILDREN} and ${MAX_AGE_WITHOUT_CHILDREN}`
+    })
+  }
+
+  const eligible = tests.every(test => test.passed)
+  const creditForEarnedIncome = eligible ? lookupEarnedIncomeCredit(earnedIncome, params, phaseOutThreshold) : 0
+
+  // Worksheet A: AGI only matters when it differs from earned income and has
+  // reached the start of the phase-out range
+  let creditForAGI: number | null = null
+  if (eligible && adjustedGrossIncome !== earnedIncome && adjustedGrossIncome >= phaseOutThreshold) {
+    creditForAGI = lookupEarnedIncomeCredit(adjustedGrossIncome, params, phaseOutThreshold)
+  }
+
+  const credit = creditForAGI !== null ? Math.min(creditForEarnedIncome, creditForAGI) : creditForEarnedIncome
+  const phase = !eligible
+    ? 'none'
+    : getPhase(creditForAGI !== null && creditForAGI < creditForEarnedIncome ? adjustedGrossIncome : earnedIncome, params, phaseOutThreshold)
+
+  let explanation: string
+  if (!eligible) {
+    const failed = tests.filter(test => !test.passed).map(test => test.detail)
+    explanation = `Not eligible: ${failed.join('; ')}`
+  } else if (phase === 'phase-in') {
+    explanation = `Credit is phasing in at ${(params.phaseInRate * 100).toFixed(2)}% of earned income up to $${params.earnedIncomeAmount.toLocaleString()}`
+  } else if (phase === 'plateau') {
+    explanation = `Maximum credit of $${params.maxCredit.toLocaleString()} for income between $${params.earnedIncomeAmount.toLocaleString()} and $${phaseOutThreshold.toLocaleString()}`
+  } else {
+    const basis = creditForAGI !== null && creditForAGI < creditForEarnedIncome ? 'AGI' : 'earned income'
+    explanation = `Credit is phasing out at ${(params.phaseOutRate * 100).toFixed(2)}% of ${basis} above $${phaseOutThreshold.toLocaleString()}`
+  }
+
+  return {
+    eligible,
+    credit,
+    qualifyingChildren,
+    creditForEarnedIncome,
+    creditForAGI,
+    phase,
+    phaseOutThreshold,
+    incomeLimit,
+    parameters: params,
+    tests,
+    explanation,
+  }
+}
@@ -0,0 +1,175 @@
+import { normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Form 8863 - Education Credits
+ * Each student gets either the American Opportunity Credit (100% of the first
+ * $2,000 of adjusted qualified expenses plus 25% of the next $2,000) or the
+ * Lifetime Learning Credit (20% of up to $10,000 per return). Both phase out
+ * over the same MAGI range, which has been fixed by statute since 2021. 40% of
+ * the AOTC is refundable (Form 1040 line 29); the rest, together with the LLC,
+ * is limited by tax and goes to Schedule 3 line 3. Married filing separately
+ * can't claim either credit.
+ */
+
+export interface EducationStudent {
+  studentName: string
+  dependentId?: string | null
+  qualifiedExpenses: number // 1098-T box 1 plus required books and supplies paid
+  scholarships?: number // 1098-T box 5 - tax-free grants reduce qualified expenses
+  halfTimeStudent?: boolean // 1098-T box 8
+  graduateStudent?: boolean // 1098-T box 9
+  priorAotcYears?: number // Years the AOTC (or Hope credit) was already claimed for this student
+  felonyDrugConviction?: boolean
+  creditType?: string | null // EducationCreditType - AMERICAN_OPPORTUNITY unless the student doesn't qualify
+}
+
+export interface EducationCreditsInput {
+  students: EducationStudent[]
+  modifiedAGI: number // Form 1040 line 11 (no foreign income exclusions here)
+  filingStatus: string
+  // Credit Limit Worksheet: Form 1040 line 18 less Schedule 3 lines 1 and 2
+  taxLiabilityLimit: number
+}
+
+export interface EducationStudentResult {
+  studentName: string
+  dependentId: string | null
+  creditType: 'AMERICAN_OPPORTUNITY' | 'LIFETIME_LEARNING'
+  adjustedQualifiedExpenses: number // Part III line 27 / line 31
+  tentativeCredit: number // Part III line 30 for the AOTC; LLC expenses count toward Part II
+  note: string | null
+}
+
+export interface EducationCreditsResult {
+  students: EducationStudentResult[]
+  tentativeAmericanOpportunityCredit: number // Line 1
+  phaseOutPercentage: number // Line 6 / line 17 - share of the credit that survives
+  americanOpportunityCredit: number // Line 7
+  refundableCredit: number // Line 8 -> Form 1040 line 29
+  nonrefundableAmericanOpportunityCredit: number // Line 9
+  lifetimeLearningExpenses: number // Line 11
+  lifetimeLearningCredit: number // Line 18
+  creditLimit: number // Credit Limit Worksheet line 6
+  nonrefundableCredit: number // Line 19 -> Schedule 3 line 3
+  explanation: string
+}
+
+const AOTC_FULL_RATE_EXPENSES = 2000
+const AOTC_MAX_EXPENSES = 4000
+const AOTC_SECOND_TIER_RATE = 0.25
+const AOTC_MAX_YEARS = 4
+const AOTC_REFUNDABLE_RATE = 0.4
+const LLC_MAX_EXPENSES = 10000
+const LLC_RATE = 0.2
+const PHASE_OUT_END = 90000
+const PHASE_OUT_END_JOINT = 180000
+const PHASE_OUT_RANGE = 10000
+const PHASE_OUT_RANGE_JOINT = 20000
+
+/**
+ * Why a student can't take the AOTC, or null when they can.
+ */
+function americanOpportunityIneligibility(student: EducationStudent): string | null {
+  if (student.graduateStudent) return 'graduate students only qualify for the Lifetime Learning Credit'
+  if (student.halfTimeStudent === false) return 'the AOTC requires at least half-time enrollment'
+  if ((student.priorAotcYears || 0) >= AOTC_MAX_YEARS) return `the AOTC has already been claimed for ${AOTC_MAX_YEARS} years`
+  if (student.felonyDrugConviction) return 'a felony drug conviction rules out the AOTC'
+  return null
+}
+
+/**
+ * Lines 2-6 / 13-17: the fraction of the credit left after the MAGI phase-out,
+ * rounded to three places as the form requires.
+ */
+function phaseOutFraction(modifiedAGI: number, joint: boolean): number {
+  const line4 = (joint ? PHASE_OUT_END_JOINT : PHASE_OUT_END) - Math.max(0, modifiedAGI || 0)
+  if (line4 <= 0) return 0
+  const range = joint ? PHASE_OUT_RANGE_JOINT : PHASE_OUT_RANGE
+  return line4 >= range ? 1 : Math.round((line4 / range) * 1000) / 1000
+}
+
+export function calculateEducationCredits(input: EducationCreditsInput): EducationCreditsResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const joint = status === FilingStatus.MARRIED_FILING_JOINTLY
+
+  // Part III - one per student
+  const students: EducationStudentResult[] = (input.students || []).map(student => {
+    const adjustedQualifiedExpenses = Math.max(0, (student.qualifiedExpenses || 0) - Math.max(0, student.scholarships || 0))
+    const ineligible = americanOpportunityIneligibility(student)
+    if (student.creditType === 'LIFETIME_LEARNING' || ineligible) {
+      return {
+        studentName: student.studentName,
+        dependentId: student.dependentId || null,
+        creditType: 'LIFETIME_LEARNING',
+        adjustedQualifiedExpenses,
+        tentativeCredit: 0,
+        note: student.creditType !== 'LIFETIME_LEARNING' && ineligible ? `Lifetime Learning Credit instead: ${ineligible}.` : null,
+      }
+    }
+    const line27 = Math.min(adjustedQualifiedExpenses, AOTC_MAX_EXPENSES)
+    const line28 = Math.max(0, line27 - AOTC_FULL_RATE_EXPENSES)
+    const line29 = line28 * AOTC_SECOND_TIER_RATE
+    const line30 = line28 > 0 ? AOTC_FULL_RATE_EXPENSES + line29 : line27
+    return {
+      studentName: student.studentName,
+      dependentId: student.dependentId || null,
+      creditType: 'AMERICAN_OPPORTUNITY',
+      adjustedQualifiedExpenses,
+      tentativeCredit: line30,
+      note: null,
+    }
+  })
+
+  const separate = status === FilingStatus.MARRIED_FILING_SEPARATELY
+  const fraction = separate ? 0 : phaseOutFraction(input.modifiedAGI, joint)
+
+  // Part I - refundable American Opportunity Credit
+  const line1 = students.reduce((sum, student) => sum + student.tentativeCredit, 0)
+  const line7 = money(line1 * fraction)
+  const line8 = money(line7 * AOTC_REFUNDABLE_RATE)
+  const line9 = line7 - line8
+
+  // Part II - nonrefundable credits
+  const line10 = students
+    .filter(student => student.creditType === 'LIFETIME_LEARNING')
+    .reduce((sum, student) => sum + student.adjustedQualifiedExpenses, 0)
+  const line11 = Math.min(line10, LLC_MAX_EXPENSES)
+  const line12 = line11 * LLC_RATE
+  const line18 = money(line12 * fraction)
+
+  // Credit Limit Worksheet
+  const creditLimit = Math.max(0, input.taxLiabilityLimit || 0)
+  const line19 = money(Math.min(line18 + line9, creditLimit))
+
+  let explanation: string
+  if (students.length === 0) {
+    explanation = 'No education expenses entered.'
+  } else if (separate) {
+    explanation = 'Education credits cannot be claimed when married filing separately.'
+  } else if (fraction === 0) {
+    explanation = `Modified AGI of $${Math.round(input.modifiedAGI).toLocaleString()} is above the $${(joint ? PHASE_OUT_END_JOINT : PHASE_OUT_END).toLocaleString()} limit, so no education credit is allowed.`
+  } else if (fraction < 1) {
+    explanation = `Modified AGI is in the phase-out range, so ${(fraction * 100).toFixed(1)}% of the education credits are allowed.`
+  } else {
+    explanation = 'Education credits are allowed in full.'
+  }
+  if (line18 + line9 > line19) {
+    explanation += ` The nonrefundable part is limited to $${line19.toLocaleString()} of tax.`
+  }
+
+  return {
+    students,
+    tentativeAmericanOpportunityCredit: line1,
+    phaseOutPercentage: fraction,
+    americanOpportunityCredit: line7,
+    refundableCredit: line8,
+    nonrefundableAmericanOpportunityCredit: line9,
+    lifetimeLearningExpenses: line11,
+    lifetimeLearningCredit: line18,
+    creditLimit,
+    nonrefundableCredit: line19,
+    explanation,
+  }
+}
@@ -1,5 +1,7 @@
 
-import { calculateTaxLiability, getStandardDeduction, TaxCalculationResult, calculateTaxReturn } from './tax-calculations'
+import { calculateTaxLiability, getStandardDeduction } from './tax-calculations'
+import { getTaxRules } from './tax-rules'
+import { SaversCreditPerson, saversCreditTierSuggestion } from './savers-credit'
 
 export interface DeductionComparison {
   standardDeduction: number
@@ -12,18 +14,15 @@ export interface DeductionComparison {
   effectiveItemizedRate: number
 }
 
-export interface EnhancedTaxCalculationResult extends TaxCalculationResult {
-  deductionComparison: DeductionComparison
-  taxOptimizationSuggestions: string[]
-}
-
 export function calculateDeductionComparison(
   adjustedGrossIncome: number,
   filingStatus: string,
   itemizedDeductions: number,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear?: number,
+  // Pass the return's own amount when age, blindness or dependent status change it
+  standardDeduction: number = getStandardDeduction(filingStatus, taxYear)
 ): DeductionComparison {
-  const standardDeduction = getStandardDeduction(filingStatus)
   const itemizedDeduction = itemizedDeductions || 0
 
   // Calculate taxable income for both scenarios
@@ -31,8 +30,8 @@ export function calculateDeductionComparison(
   const itemizedTaxableIncome = Math.max(0, adjustedGrossIncome - itemizedDeduction)
 
   // Calculate tax liability for both scenarios
-  const standardTaxLiability = calculateTaxLiability(standardTaxableIncome, filingStatus)
-  const itemizedTaxLiability = calculateTaxLiability(itemizedTaxableIncome, filingStatus)
+  const standardTaxLiability = calculateTaxLiability(standardTaxableIncome, filingStatus, taxYear)
+  const itemizedTaxLiability = calculateTaxLiability(itemizedTaxableIncome, filingStatus, taxYear)
 
   // Determine which method is better
   const recommendedMethod = itemizedTaxLiability < standardTaxLiability ? 'itemized' : 'standard'
@@ -58,7 +57,9 @@ export function generateTaxOptimizationSuggestions(
   comparison: DeductionComparison,
   adjustedGrossIncome: number,
   filingStatus: string,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear?: number,
+  retirementSavings: SaversCreditPerson = {}
 ): string[] {
   const suggestions: string[] = []
 
@@ -91,7 +92,7 @@ export function generateTaxOptimizationSuggestions(
     const eicEligible = dependents.filter(dep => dep.qualifiesForEITC).length
     
     if (childTaxCreditEligible > 0) {
-      suggestions.push(`👶 You may qualify for up to $${(childTaxCreditEligible * 2000).toLocaleString()} in Child Tax Credits`)
+      suggestions.push(`👶 You may qualify for up to $${(childTaxCreditEligible * getTaxRules(taxYear).childTaxCredit.amountPerChild).toLocaleString()} in Child Tax Credits`)
     }
     
     if (eicEligible > 0) {
@@ -108,63 +109,27 @@ export function generateTaxOptimizationSuggestions(
     suggestions.push(`🎯 Look into the Earned Income Tax Credit and other low-income tax benefits`)
   }
 
-  return suggestions
-}
-
-export function calculateEnhancedTaxReturn(data: {
-  totalIncome: number
-  filingStatus: string
-  dependents: any[]
-  itemizedDeductions: number
-  totalWithholdings?: number
-}): EnhancedTaxCalculationResult {
-  const { totalIncome, filingStatus, dependents, itemizedDeductions, totalWithholdings } = data
-  
-  // Get basic tax calculation
-  const basicResult = calculateTaxReturn(data) as TaxCalculationResult
-  
-  // Calculate deduction comparison
-  const deductionComparison = calculateDeductionComparison(
-    basicResult.adjustedGrossIncome,
-    filingStatus,
-    itemizedDeductions,
-    dependents
-  )
-  
-  // Generate optimization suggestions
-  const taxOptimizationSuggestions = generateTaxOptimizationSuggestions(
-    deductionComparison,
-    basicResult.adjustedGrossIncome,
+  // Saver's Credit - a pre-tax contribution that drops AGI into a better Form 8880 tier
+  const saversTier = saversCreditTierSuggestion({
+    taxpayer: retirementSavings,
+    adjustedGrossIncome,
     filingStatus,
-    dependents
-  )
-  
-  // Update the basic result with optimized deduction method
-  const optimizedDeduction = deductionComparison.recommendedMethod === 'itemized' 
-    ? deductionComparison.itemizedDeduction 
-    : deductionComparison.standardDeduction
-  
-  const optimizedTaxableIncome = Math.max(0, basicResult.adjustedGrossIncome - optimizedDeduction)
-  const optimizedTaxLiability = calculateTaxLiability(optimizedTaxableIncome, filingStatus)
-  const optimizedFinalTax = Math.max(0, optimizedTaxLiability - basicResult.totalCredits)
-  
-  return {
-    ...basicResult,
-    taxableIncome: optimizedTaxableIncome,
-    taxLiability: optimizedTaxLiability,
-    finalTax: optimizedFinalTax,
-    standardDeduction: deductionComparison.standardDeduction,
-    itemizedDeduction: deductionComparison.itemizedDeduction,
-    deductionComparison,
-    taxOptimizationSuggestions
+    taxYear,
+    taxLiabilityLimit: comparison.recommendedMethod === 'itemized' ? comparison.itemizedTaxLiability : comparison.standardTaxLiability,
+  })
+  if (saversTier) {
+    suggestions.push(`🏦 Contributing $${saversTier.extraContribution.toLocaleString()} more to a 401(k) or deductible IRA would lower your AGI to $${saversTier.adjustedGrossIncome.toLocaleString()} and raise your Saver's Credit rate from ${Math.round(saversTier.currentRate * 100)}% to ${Math.round(saversTier.newRate * 100)}%, adding $${saversTier.creditIncrease.toLocaleString()} to the credit`)
   }
+
+  return suggestions
 }
 
 export function calculateTaxImpactScenarios(
   adjustedGrossIncome: number,
   filingStatus: string,
   currentItemizedDeductions: number,
-  dependents: any[] = []
+  dependents: any[] = [],
+  taxYear?: number
 ): Array<{
   scenario: string
   description: string
@@ -176,7 +141,8 @@ export function calculateTaxImpactScenarios(
     adjustedGrossIncome,
     filingStatus,
     currentItemizedDeductions,
-    dependents
+    dependents,
+    taxYear
   )
   
   const baseTaxLiability = baseComparison.recommendedMethod === 'itemized'
@@ -202,7 +168,8 @@ export function calculateTaxImpactScenarios(
       adjustedGrossIncome,
       filingStatus,
       newItemizedDeductions,
-      dependents
+      dependents,
+      taxYear
     )
     
     const newTaxLiability = newComparison.recommendedMethod === 'itemized'
@@ -0,0 +1,159 @@
+import { calculateTaxLiability, getStandardDeduction } from './tax-calculations'
+import { EstimatedPayment, MINIMUM_BALANCE_DUE, installmentDueDates, requiredAnnualPayment } from './underpayment-penalty'
+import { money } from './money'
+
+/**
+ * Form 1040-ES - Estimated Tax for Individuals
+ * The Estimated Tax Worksheet projects next year's tax from expected AGI,
+ * deductions, other taxes and credits, then picks the required annual payment
+ * with the same safe harbors Form 2210 tests: the smaller of 90% of the
+ * expected tax or 100% (110% above $150,000 of AGI) of this year's tax. What
+ * withholding doesn't cover is paid in four equal installments. Recorded
+ * payments are applied to the earliest installments first, and whatever is
+ * left on each installment is what its voucher asks for.
+ *
+ * Next year's brackets and standard deduction come from the tax rules
+ * registry, which falls back to the latest year it knows.
+ */
+
+export interface EstimatedTaxProjectionInput {
+  adjustedGrossIncome: number // Worksheet line 1
+  itemizedDeductions?: number // Line 2a uses the larger of these and the standard deduction
+  qualifiedBusinessIncomeDeduction?: number // Line 2b
+  otherTaxes?: number // Lines 5, 9 and 10 - AMT, self-employment tax and other Schedule 2 taxes
+  credits?: number // Lines 7 and 11b - nonrefundable and refundable credits
+  filingStatus: string
+  taxYear: number // The year being planned
+}
+
+export interface EstimatedTaxPlanInput extends EstimatedTaxProjectionInput {
+  withholding?: number // Line 13 - expected federal income tax withheld
+  priorYearTax?: number | null // Line 12b - this year's total tax
+  priorYearAGI?: number | null
+  payments?: EstimatedPayment[] // Payments already made toward the planned year
+}
+
+export interface EstimatedTaxInstallment {
+  voucher: number // 1040-ES voucher 1-4
+  dueDate: string
+  amount: number // Line 15
+  paid: number // Recorded payments applied to this installment
+  remaining: number // What the voucher asks for
+}
+
+export interface EstimatedTaxPlan {
+  taxYear: number
+  deduction: number // Line 2c
+  taxableIncome: number // Line 3
+  incomeTax: number // Line 4
+  expectedTax: number // Line 11c
+  currentYearSafeHarbor: number // Line 12a
+  priorYearSafeHarbor: number | null // Line 12b
+  priorYearPercentage: number
+  requiredAnnualPayment: number // Line 12c
+  withholding: number // Line 13
+  annualPaymentDue: number // Line 14a
+  balanceAfterWithholding: number // Line 14b
+  paymentsRequired: boolean
+  installments: EstimatedTaxInstallment[]
+  totalPaid: number
+  remaining: number
+  explanation: string
+}
+
+export interface EstimatedTaxVoucherData {
+  plan: EstimatedTaxPlan
+  firstName: string
+  lastName: string
+  ssn: string
+  spouseFirstName?: string
+  spouseLastName?: string
+  spouseSsn?: string
+  address: string
+  city: string
+  state: string
+  zipCode: string
+}
+
+/**
+ * Worksheet lines 1-11c: the tax expected for the planned year.
+ */
+export function projectEstimatedTax(input: EstimatedTaxProjectionInput) {
+  const standardDeduction = getStandardDeduction(input.filingStatus, input.taxYear)
+  const line2c = Math.max(standardDeduction, Math.max(0, input.itemizedDeductions || 0)) +
+                 Math.max(0, input.qualifiedBusinessIncomeDeduction || 0)
+  const line3 = Math.max(0, (input.adjustedGrossIncome || 0) - line2c)
+  const line4 = calculateTaxLiability(line3, input.filingStatus, input.taxYear)
+  const line11c = Math.max(0, money(line4 + Math.max(0, input.otherTaxes || 0) - Math.max(0, input.credits || 0)))
+  return {
+    deduction: line2c,
+    taxableIncome: line3,
+    incomeTax: line4,
+    expectedTax: line11c,
+  }
+}
+
+export function planEstimatedTax(input: EstimatedTaxPlanInput): EstimatedTaxPlan {
+  const projection = projectEstimatedTax(input)
+  const required = requiredAnnualPayment({
+    currentYearTax: projection.expectedTax,
+    priorYearTax: input.priorYearTax,
+    priorYearAGI: input.priorYearAGI,
+    filingStatus: input.filingStatus,
+  })
+  const line13 = Math.max(0, input.withholding || 0)
+  const line14a = Math.max(0, money(required.requiredAnnualPayment - line13))
+  const line14b = money(projection.expectedTax - line13)
+  const paymentsRequired = line14a > 0 && line14b >= MINIMUM_BALANCE_DUE
+
+  // Line 15 - a quarter of line 14a; the last voucher absorbs the rounding
+  const installment = money(line14a / 4)
+  const amounts = paymentsRequired
+    ? [installment, installment, installment, money(line14a - installment * 3)]
+    : [0, 0, 0, 0]
+
+  const payments = [...(input.payments || [])]
+    .filter(payment => payment.amount > 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0)
+  let unapplied = totalPaid
+  const installments = installmentDueDates(input.taxYear).installments.map((dueDate, index) => {
+    const paid = Math.min(amounts[index], unapplied)
+    unapplied -= paid
+    return {
+      voucher: index + 1,
+      dueDate,
+      amount: amounts[index],
+      paid: money(paid),
+      remaining: money(amounts[index] - paid),
+    }
+  })
+  const remaining = money(installments.reduce((sum, item) => sum + item.remaining, 0))
+
+  let explanation: string
+  if (line14a <= 0) {
+    explanation = `Expected withholding of $${line13.toLocaleString()} covers the required annual payment, so no estimated payments are needed.`
+  } else if (!paymentsRequired) {
+    explanation = `Expected tax after withholding is under $${MINIMUM_BALANCE_DUE.toLocaleString()}, so no estimated payments are required.`
+  } else {
+    const harbor = required.priorYearSafeHarbor !== null && required.priorYearSafeHarbor < required.currentYearSafeHarbor
+      ? `${Math.round(required.priorYearPercentage * 100)}% of ${input.taxYear - 1} tax`
+      : `90% of expected ${input.taxYear} tax`
+    explanation = `Pay $${line14a.toLocaleString()} in four installments of about $${installment.toLocaleString()} to meet the required annual payment (${harbor}).` +
+                  (totalPaid > 0 ? ` $${totalPaid.toLocaleString()} already paid leaves $${remaining.toLocaleString()}.` : '')
+  }
+
+  return {
+    taxYear: input.taxYear,
+    ...projection,
+    ...required,
+    withholding: line13,
+    annualPaymentDue: line14a,
+    balanceAfterWithholding: line14b,
+    paymentsRequired,
+    installments,
+    totalPaid,
+    remaining,
+    explanation,
+  }
+}
@@ -0,0 +1,123 @@
+import { isJointFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Foreign Tax Credit - Schedule 3 line 1
+ * Foreign tax withheld on interest and dividends (1099-INT box 6, 1099-DIV
+ * box 7) can be claimed without Form 1116 when all of it is passive income
+ * reported on a payee statement and the total is no more than $300 ($600
+ * married filing jointly). Nothing carries in or out under that election.
+ *
+ * Larger amounts go through a simplified passive category Form 1116: the
+ * credit is limited to the share of U.S. tax that foreign source taxable
+ * income bears to all taxable income. Deductions are apportioned to foreign
+ * income by its share of gross income. Foreign tax that isn't allowed carries
+ * forward, and last year's carryover is added to this year's taxes.
+ *
+ * Other income categories, the foreign qualified dividend and capital gain
+ * adjustments, and the carryback aren't supported.
+ */
+
+export type ForeignTaxCreditMethod = 'ELECTION' | 'FORM_1116' | 'NONE'
+
+export interface ForeignTaxCreditInput {
+  foreignTaxPaid: number // 1099-INT box 6 and 1099-DIV box 7
+  foreignSourceIncome: number // Form 1116 line 1a - gross passive income from foreign sources
+  carryover?: number // Unused foreign tax from prior years (Form 1116 line 10)
+  directCreditElection?: boolean // Claim without Form 1116 when eligible
+  taxableIncome: number // Form 1040 line 15
+  grossIncome: number // Form 1116 line 3e - gross income from all sources
+  deductions: number // Form 1116 line 3a - standard or itemized deduction
+  regularTax: number // Form 1040 line 16 plus Schedule 2 line 1z (Form 1116 line 20)
+  filingStatus: string
+}
+
+export interface ForeignTaxCreditResult {
+  method: ForeignTaxCreditMethod
+  foreignTaxPaid: number
+  carryoverUsed: number // Prior-year carryover included in line 14
+  taxesAvailable: number // Form 1116 line 14
+  foreignTaxableIncome: number // Form 1116 line 7
+  limitation: number // Form 1116 line 21
+  credit: number // Form 1116 line 22 / Schedule 3 line 1
+  carryoverToNextYear: number
+  explanation: string
+}
+
+const DIRECT_CREDIT_LIMIT = 300
+const DIRECT_CREDIT_LIMIT_JOINT = 600
+
+export function directCreditLimit(filingStatus: string): number {
+  return isJointFilingStatus(filingStatus) ? DIRECT_CREDIT_LIMIT_JOINT : DIRECT_CREDIT_LIMIT
+}
+
+export function calculateForeignTaxCredit(input: ForeignTaxCreditInput): ForeignTaxCreditResult {
+  const foreignTaxPaid = money(Math.max(0, input.foreignTaxPaid || 0))
+  const carryover = money(Math.max(0, input.carryover || 0))
+  const regularTax = Math.max(0, input.regularTax || 0)
+  const limit = directCreditLimit(input.filingStatus)
+
+  if (foreignTaxPaid <= 0 && carryover <= 0) {
+    return {
+      method: 'NONE',
+      foreignTaxPaid: 0,
+      carryoverUsed: 0,
+      taxesAvailable: 0,
+      foreignTaxableIncome: 0,
+      limitation: 0,
+      credit: 0,
+      carryoverToNextYear: 0,
+      explanation: 'No foreign tax paid.',
+    }
+  }
+
+  // Election - no limitation, but no carryover either; any unused prior-year carryover stays on the books
+  if (input.directCreditElection !== false && foreignTaxPaid > 0 && foreignTaxPaid <= limit) {
+    const credit = money(Math.min(foreignTaxPaid, regularTax))
+    return {
+      method: 'ELECTION',
+      foreignTaxPaid,
+      carryoverUsed: 0,
+      taxesAvailable: foreignTaxPaid,
+      foreignTaxableIncome: 0,
+      limitation: regularTax,
+      credit,
+      carryoverToNextYear: carryover,
+      explanation: `Foreign tax of $${foreignTaxPaid.toLocaleString()} is within the $${limit} limit, so it's claimed directly without Form 1116` +
+                   (credit < foreignTaxPaid ? `, limited to the $${credit.toLocaleString()} of tax.` : '.'),
+    }
+  }
+
+  // Form 1116 Part I - foreign source taxable income less an apportioned share of the deduction
+  const grossIncome = Math.max(0, input.grossIncome || 0)
+  const foreignGrossIncome = Math.min(grossIncome, Math.max(0, input.foreignSourceIncome || 0))
+  const apportionedDeductions = grossIncome > 0 ? Math.max(0, input.deductions || 0) * foreignGrossIncome / grossIncome : 0
+  const foreignTaxableIncome = money(Math.max(0, foreignGrossIncome - apportionedDeductions))
+
+  // Part II/III - taxes available for credit and the limitation
+  const taxesAvailable = money(foreignTaxPaid + carryover)
+  const taxableIncome = Math.max(0, input.taxableIncome || 0)
+  const ratio = taxableIncome > 0 ? Math.min(1, foreignTaxableIncome / taxableIncome) : 0
+  const limitation = money(regularTax * ratio)
+  const credit = money(Math.min(taxesAvailable, limitation))
+  const carryoverToNextYear = money(taxesAvailable - credit)
+
+  let explanation = `Foreign tax of $${taxesAvailable.toLocaleString()}` + (carryover > 0 ? ` (including a $${carryover.toLocaleString()} carryover)` : '') +
+                    ` is limited on Form 1116 to ${(ratio * 100).toFixed(2)}% of U.S. tax - the share of taxable income from foreign sources ` +
+                    `($${foreignTaxableIncome.toLocaleString()}).`
+  if (carryoverToNextYear > 0) {
+    explanation += ` $${carryoverToNextYear.toLocaleString()} carries forward to next year.`
+  }
+
+  return {
+    method: 'FORM_1116',
+    foreignTaxPaid,
+    carryoverUsed: carryover,
+    taxesAvailable,
+    foreignTaxableIncome,
+    limitation,
+    credit,
+    carryoverToNextYear,
+    explanation,
+  }
+}
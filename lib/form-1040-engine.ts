@@ -0,0 +1,1257 @@
+import { Dependent, FilingStatus, Form1040Data } from './form-1040-types'
+import { W2ToForm1040Mapper } from './w2-to-1040-mapping'
+import { Form1099ToForm1040Mapper } from './1099-to-1040-mapping'
+import { calculateCapitalGainTaxWorksheet, calculateTax, getMarginalRate, getStandardDeduction, TaxCalculationResult, TaxComputation } from './tax-calculations'
+import { calculateScheduleD, capitalLossCarryover, HoldingPeriod } from './schedule-d'
+import { calculateScheduleSE } from './schedule-se'
+import { calculateDependentCareBenefits, calculateDependentCareCredit } from './dependent-care-credit'
+import { calculateSchedule1Adjustments, SCHEDULE_1_DEDUCTION_TYPES } from './schedule-1-adjustments'
+import { calculateTaxableSocialSecurity } from './social-security-benefits'
+import { calculateScheduleA } from './schedule-a'
+import { calculateQualifiedBusinessIncome } from './qualified-business-income'
+import { calculateForeignTaxCredit } from './foreign-tax-credit'
+import { calculateAlternativeMinimumTax } from './alternative-minimum-tax'
+import { calculatePremiumTaxCredit } from './premium-tax-credit'
+import { calculateAdditionalMedicareTax } from './additional-medicare-tax'
+import { calculateNetInvestmentIncomeTax } from './net-investment-income-tax'
+import { calculateEarnedIncomeCredit } from './earned-income-credit'
+import { calculateEducationCredits } from './education-credits'
+import { calculateSaversCredit } from './savers-credit'
+import { calculateSchedule8812 } from './schedule-8812'
+import { calculateUnderpaymentPenalty, UnderpaymentPenaltyResult } from './underpayment-penalty'
+import { isJointFilingStatus } from './tax-rules'
+import { calculateStandardDeduction, isAge65OrOlder } from './standard-deduction'
+import { ageAtYearEnd, requalifyDependent } from './dependent-qualification'
+import { addMoney, money, MoneyInput, roundingMode, RoundingMode, roundMoney, subtractMoney, sumMoney } from './money'
+
+/**
+ * Form 1040 computation engine - the one place a return's numbers are figured.
+ * Completed W-2 and 1099 documents are mapped onto their lines, entries that
+ * didn't come from those documents are added, and every schedule and form
+ * runs in line order from there. The Form 1040 API, the calculation step, the
+ * form editor and the PDF all read what this produces.
+ *
+ * Pure and isomorphic: amounts can be Prisma decimals, JSON strings or numbers,
+ * so both a server-loaded tax return and the client's copy can be passed in.
+ * Lines are kept to exact cents, or to whole dollars when the return opts in.
+ */
+
+export const FORM_1040_DOCUMENT_TYPES = ['W2', 'FORM_1099_INT', 'FORM_1099_DIV', 'FORM_1099_MISC', 'FORM_1099_NEC'] as const
+
+export interface Form1040IncomeEntry {
+  id?: string
+  incomeType: string
+  amount: MoneyInput
+  federalTaxWithheld?: MoneyInput
+  documentId?: string | null
+  payerName?: string | null
+  description?: string | null
+  qualifiedDividends?: MoneyInput
+  socialSecurityWages?: MoneyInput
+  socialSecurityTaxWithheld?: MoneyInput
+  medicareWages?: MoneyInput
+  medicareTaxWithheld?: MoneyInput
+  dependentCareBenefits?: MoneyInput
+  electiveDeferrals?: MoneyInput
+  retirementPlan?: boolean | null
+  hsaEmployerContributions?: MoneyInput
+  spouseW2?: boolean | null
+  privateActivityBondInterest?: MoneyInput
+  foreignTaxPaid?: MoneyInput
+  businessW2Wages?: MoneyInput
+  businessPropertyBasis?: MoneyInput
+  specifiedServiceBusiness?: boolean | null
+}
+
+export interface Form1040DeductionEntry {
+  deductionType: string
+  amount: MoneyInput
+  giftType?: string | null
+}
+
+export interface Form1040Dependent {
+  id?: string
+  firstName: string
+  lastName: string
+  ssn?: string | null
+  relationship: string
+  birthDate: Date | string
+  // Qualifying child / qualifying relative tests - the credit flags are refigured from these
+  monthsLivedWithTaxpayer?: number | null
+  fullTimeStudent?: boolean | null
+  permanentlyDisabled?: boolean | null
+  providedOwnSupport?: boolean | null
+  taxpayerProvidedSupport?: boolean | null
+  grossIncome?: MoneyInput
+  filedJointReturn?: boolean | null
+  citizenOrResident?: boolean | null
+  otherClaimant?: string | null
+  otherClaimantMonths?: number | null
+  otherClaimantAGI?: MoneyInput
+  // Saved when the dependent was added - not used here
+  isDependent?: boolean | null
+  qualifiesForCTC?: boolean | null
+  qualifiesForEITC?: boolean | null
+}
+
+export interface Form1040EducationExpense {
+  studentName: string
+  dependentId?: string | null
+  qualifiedExpenses: MoneyInput
+  scholarships?: MoneyInput
+  halfTimeStudent?: boolean
+  graduateStudent?: boolean
+  priorAotcYears?: number
+  felonyDrugConviction?: boolean
+  creditType?: string | null
+}
+
+export interface Form1040DependentCareExpense {
+  qualifyingPersonName: string
+  dependentId?: string | null
+  amount: MoneyInput
+  providerName?: string | null
+  underThirteen?: boolean
+  disabled?: boolean
+  dependent?: { birthDate: Date | string } | null
+}
+
+export interface Form1040EstimatedPayment {
+  taxYear: number
+  paymentDate: Date | string
+  amount: MoneyInput
+}
+
+export interface Form1040CapitalAssetSale {
+  description: string
+  dateAcquired?: Date | string | null
+  dateSold?: Date | string | null
+  proceeds: MoneyInput
+  costBasis: MoneyInput
+  adjustmentCode?: string | null
+  adjustmentAmount?: MoneyInput
+  holdingPeriod?: HoldingPeriod | null
+  basisReported?: boolean
+}
+
+export interface Form1040MarketplacePolicy {
+  issuerName?: string | null
+  policyNumber?: string | null
+  monthlyPremiums: MoneyInput[]
+  monthlySlcspPremiums: MoneyInput[]
+  monthlyAdvancePayments: MoneyInput[]
+}
+
+export interface Form1040Document {
+  id: string
+  fileName: string
+  documentType: string
+  processingStatus?: string
+  extractedData?: unknown
+}
+
+// A tax return with the relations the engine reads - a Prisma record or its JSON
+export interface Form1040EngineInput {
+  taxYear: number
+  filingStatus: string
+  firstName?: string | null
+  lastName?: string | null
+  ssn?: string | null
+  spouseFirstName?: string | null
+  spouseLastName?: string | null
+  spouseSsn?: string | null
+  address?: string | null
+  city?: string | null
+  state?: string | null
+  zipCode?: string | null
+  taxpayerBirthDate?: Date | string | null
+  taxpayerBlind?: boolean | null
+  spouseBirthDate?: Date | string | null
+  spouseBlind?: boolean | null
+  canBeClaimedAsDependent?: boolean | null
+  shortTermLossCarryover?: MoneyInput
+  longTermLossCarryover?: MoneyInput
+  dependentsModifiedAGI?: MoneyInput
+  hsaFamilyCoverage?: boolean | null
+  foreignSourceIncome?: MoneyInput // Null falls back to the income of payers that withheld foreign tax
+  foreignTaxCreditCarryover?: MoneyInput
+  foreignTaxDirectCredit?: boolean | null
+  roundToWholeDollars?: boolean | null
+  priorYearTax?: MoneyInput
+  priorYearAdjustedGrossIncome?: MoneyInput
+  annualizedIncome?: MoneyInput[]
+  incomeEntries?: Form1040IncomeEntry[]
+  deductionEntries?: Form1040DeductionEntry[]
+  dependents?: Form1040Dependent[]
+  educationExpenses?: Form1040EducationExpense[]
+  dependentCareExpenses?: Form1040DependentCareExpense[]
+  estimatedTaxPayments?: Form1040EstimatedPayment[]
+  capitalAssetSales?: Form1040CapitalAssetSale[]
+  marketplacePolicies?: Form1040MarketplacePolicy[]
+  documents?: Form1040Document[]
+}
+
+// An IncomeEntry, Document or Dependent record that fed a line
+export interface Form1040TraceSource {
+  kind: 'incomeEntry' | 'document' | 'dependent'
+  id: string
+  description: string
+}
+
+export interface Form1040TraceInput {
+  label: string
+  amount: number
+  count?: boolean // A number of people rather than dollars
+  line?: Form1040TracedLine // Another Form 1040 line, traced on its own
+}
+
+export interface Form1040LineTrace {
+  line: Form1040TracedLine
+  label: string
+  amount: number
+  formula: string
+  inputs: Form1040TraceInput[]
+  table?: string // Tax table, rate schedule or worksheet used
+  note?: string
+  sources: Form1040TraceSource[] // Including the sources of the lines it's figured from
+}
+
+export const FORM_1040_LINE_LABELS = {
+  line1: 'Wages, salaries, tips',
+  line2a: 'Tax-exempt interest',
+  line2b: 'Taxable interest',
+  line3a: 'Qualified dividends',
+  line3b: 'Ordinary dividends',
+  line4b: 'IRA distributions, taxable amount',
+  line5b: 'Pensions and annuities, taxable amount',
+  line6a: 'Social security benefits',
+  line6b: 'Social security benefits, taxable amount',
+  line7: 'Capital gain or (loss)',
+  line8: 'Additional income from Schedule 1',
+  line9: 'Total income',
+  line10: 'Adjustments to income from Schedule 1',
+  line11: 'Adjusted gross income',
+  line12: 'Standard deduction or itemized deductions',
+  line13: 'Qualified business income deduction',
+  line14: 'Total deductions',
+  line15: 'Taxable income',
+  line16: 'Tax',
+  line17: 'Amount from Schedule 2, line 3',
+  line18: 'Tax before credits',
+  line19: 'Child tax credit or credit for other dependents',
+  line20: 'Amount from Schedule 3, line 8',
+  line21: 'Total credits',
+  line22: 'Tax after credits',
+  line23: 'Other taxes from Schedule 2, line 21',
+  line24: 'Total tax',
+  line25a: 'Federal income tax withheld',
+  line25b: 'Estimated tax payments',
+  line25c: 'Earned income credit',
+  line25d: 'Additional child tax credit',
+  line29: 'American opportunity credit',
+  line31: 'Amount from Schedule 3, line 15',
+  line32: 'Total payments',
+  line33: 'Overpaid',
+  line37: 'Amount you owe',
+  line38: 'Estimated tax penalty',
+} as const
+
+export type Form1040TracedLine = keyof typeof FORM_1040_LINE_LABELS
+
+export interface Form1040EngineResult {
+  form1040Data: Partial<Form1040Data>
+  trace: Partial<Record<Form1040TracedLine, Form1040LineTrace>>
+  // The same computation broken out by schedule for the calculation step
+  summary: TaxCalculationResult
+  underpaymentPenalty: UnderpaymentPenaltyResult
+  w2MappingData: Array<{
+    documentId: string
+    fileName: string
+    mappings: ReturnType<typeof W2ToForm1040Mapper.createMappingSummary>
+  }>
+  form1099MappingData: Array<{
+    documentId: string
+    fileName: string
+    documentType: string
+    mappings: ReturnType<typeof Form1099ToForm1040Mapper.createMappingSummary>
+  }>
+}
+
+/**
+ * Line 9 - total income.
+ */
+export function totalIncome(form: Partial<Form1040Data>): number {
+  return sumMoney(form.line1, form.line2b, form.line3b, form.line4b, form.line5b, form.line6b, form.line7, form.line8)
+}
+
+/**
+ * Line 16 - the Qualified Dividends and Capital Gain Tax Worksheet whenever there
+ * are qualified dividends or net capital gain, the Tax Table (under $100,000) or
+ * Tax Computation Worksheet otherwise.
+ */
+function incomeTax(taxableIncome: number, filingStatus: string, taxYear: number, qualifiedDividends: number, netCapitalGain: number) {
+  const worksheet = qualifiedDividends > 0 || netCapitalGain > 0
+    ? calculateCapitalGainTaxWorksheet({ taxableIncome, qualifiedDividends, netCapitalGain, filingStatus, taxYear })
+    : null
+  const computation: TaxComputation | null = worksheet ? null : calculateTax(taxableIncome, filingStatus, taxYear)
+  return { worksheet, computation, tax: worksheet ? worksheet.tax : computation!.tax }
+}
+
+// Line 12 checkboxes - age 65 or older, blindness and "someone can claim you"
+function standardDeductionBoxes(form: Partial<Form1040Data>) {
+  return {
+    taxpayer65OrOlder: !!form.taxpayer65OrOlder,
+    taxpayerBlind: !!form.taxpayerBlind,
+    spouse65OrOlder: !!form.spouse65OrOlder,
+    spouseBlind: !!form.spouseBlind,
+    canBeClaimedAsDependent: !!form.canBeClaimedAsDependent
+  }
+}
+
+/**
+ * Lines 18 through 37 from the tax (16, 17), credit (19, 20), other tax (23) and
+ * payment lines. The Form 2210 penalty on line 38 is added to the amount owed or
+ * taken out of the refund; the whole refund goes to line 34.
+ */
+export function applyForm1040Totals(form: Partial<Form1040Data>): void {
+  form.line18 = sumMoney(form.line16, form.line17)
+  form.line21 = sumMoney(form.line19, form.line20)
+  form.line22 = Math.max(0, sumMoney(form.line18, -form.line21))
+  form.line24 = sumMoney(form.line22, form.line23)
+  form.line32 = sumMoney(form.line25a, form.line25b, form.line25c, form.line25d, form.line29, form.line31)
+
+  const balanceDue = sumMoney(form.line24, form.line38, -form.line32)
+  form.line33 = Math.max(0, -balanceDue)
+  form.line34 = form.line33
+  form.line37 = Math.max(0, balanceDue)
+}
+
+/**
+ * Refigures the dependent lines of a Form 1040 edited line by line, where the
+ * entries behind it aren't available: taxable social security, total income,
+ * AGI, the standard deduction when line 12 is empty, taxable income, the tax
+ * and the totals, rounded the way the return rounds. Schedules and credits
+ * keep the amounts on their lines.
+ */
+export function recalculateForm1040(form: Form1040Data): Form1040Data {
+  const filingStatus = form.filingStatus || FilingStatus.SINGLE
+  const taxYear = form.taxYear || new Date().getFullYear() - 1
+  const next: Form1040Data = { ...form }
+
+  next.line6b = calculateTaxableSocialSecurity({
+    benefits: form.line6a || 0,
+    otherIncome: totalIncome({ ...form, line6b: 0 }),
+    taxExemptInterest: form.line2a || 0,
+    adjustments: (form.line10 || 0) - (form.schedule1?.studentLoanInterestDeduction || 0),
+    filingStatus
+  }).taxableBenefits
+  next.line9 = totalIncome(next)
+  next.line11 = next.line9 - (form.line10 || 0)
+  next.line12 = form.line12 || getStandardDeduction(filingStatus, taxYear, {
+    ...standardDeductionBoxes(form),
+    earnedIncome: (form.line1 || 0) + (form.schedule1?.businessIncome || 0) - (form.schedule1?.deductibleSelfEmploymentTax || 0)
+  })
+  next.line14 = next.line12 + (form.line13 || 0)
+  next.line15 = Math.max(0, next.line11 - next.line14)
+  next.line16 = incomeTax(next.line15, filingStatus, taxYear, form.line3a || 0,
+                          form.scheduleD ? form.scheduleD.netCapitalGain || 0 : Math.max(0, form.line7 || 0)).tax
+  roundForm1040Lines(next, roundingMode(form.roundToWholeDollars))
+  return next
+}
+
+// Lines carried from a document, schedule, worksheet or table - the others are figured from these
+const ENTERED_LINES = [
+  'line1', 'line2a', 'line2b', 'line3a', 'line3b', 'line4b', 'line5b', 'line6a', 'line6b', 'line7', 'line8',
+  'line10', 'line12', 'line13', 'line17', 'line19', 'line20', 'line23', 'line25a', 'line25b', 'line25c',
+  'line25d', 'line29', 'line31', 'line38'
+] as const
+
+/**
+ * Puts every line at exact cents, or at whole dollars for a return that rounds.
+ * The entered lines are rounded on their own and the totals are refigured from
+ * the rounded lines, as the form is filled in by hand. Line 16 is looked up
+ * again for the rounded line 15.
+ */
+export function roundForm1040Lines(form: Partial<Form1040Data>, mode: RoundingMode): void {
+  for (const line of ENTERED_LINES) {
+    if (form[line] !== undefined) form[line] = roundMoney(form[line], mode)
+  }
+  form.line9 = totalIncome(form)
+  form.line11 = sumMoney(form.line9, -(form.line10 || 0))
+  form.line14 = sumMoney(form.line12, form.line13)
+  form.line15 = roundMoney(Math.max(0, sumMoney(form.line11, -form.line14)), mode)
+  if (mode === 'WHOLE_DOLLARS' && form.filingStatus) {
+    form.line16 = roundMoney(incomeTax(form.line15, form.filingStatus, form.taxYear || new Date().getFullYear() - 1, form.line3a || 0,
+                                      form.scheduleD ? form.scheduleD.netCapitalGain || 0 : Math.max(0, form.line7 || 0)).tax, mode)
+  } else {
+    form.line16 = roundMoney(form.line16, mode)
+  }
+  applyForm1040Totals(form)
+}
+
+// Extracted fields as the document service saved them, keyed by form field name
+export type ExtractedDocumentData = Record<string, unknown>
+
+function isExtractedDocumentData(value: unknown): value is ExtractedDocumentData {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Some documents nest the fields one level down under their own extractedData key
+function documentData(document: Form1040Document): ExtractedDocumentData | null {
+  if (!isExtractedDocumentData(document.extractedData)) return null
+  const nested = document.extractedData.extractedData
+  return isExtractedDocumentData(nested) ? nested : document.extractedData
+}
+
+export function computeForm1040(input: Form1040EngineInput): Form1040EngineResult {
+  const incomeEntries = input.incomeEntries || []
+  const deductionEntries = input.deductionEntries || []
+  const dependentRecords = input.dependents || []
+  let form1040Data: Partial<Form1040Data> = {}
+
+  // W-2 and 1099 documents - each mapper only places its boxes on lines
+  const documents = (input.documents || []).filter(doc =>
+    (FORM_1040_DOCUMENT_TYPES as readonly string[]).includes(doc.documentType) && (!doc.processingStatus || doc.processingStatus === 'COMPLETED')
+  )
+  const w2Documents = documents.filter(doc => doc.documentType === 'W2')
+  const form1099Documents = documents.filter(doc => doc.documentType !== 'W2')
+  const w2MappingData: Form1040EngineResult['w2MappingData'] = []
+  const form1099MappingData: Form1040EngineResult['form1099MappingData'] = []
+
+  // Contributing records per line, for the trace
+  const lineSources = new Map<Form1040TracedLine, Map<string, Form1040TraceSource>>()
+  const addSource = (line: Form1040TracedLine, source: Form1040TraceSource) => {
+    if (!lineSources.has(line)) lineSources.set(line, new Map())
+    lineSources.get(line)!.set(source.id, source)
+  }
+  const addDocumentSources = (document: Form1040Document, before: Partial<Form1040Data>) => {
+    for (const line of Object.keys(FORM_1040_LINE_LABELS) as Form1040TracedLine[]) {
+      if ((form1040Data[line] || 0) !== (before[line] || 0)) {
+        addSource(line, { kind: 'document', id: document.id, description: document.fileName })
+      }
+    }
+  }
+
+  for (const w2Doc of w2Documents) {
+    const w2Data = documentData(w2Doc)
+    if (!w2Data) continue
+    const before = form1040Data
+    form1040Data = { ...form1040Data, ...W2ToForm1040Mapper.mapW2ToForm1040(w2Data, form1040Data) }
+    addDocumentSources(w2Doc, before)
+    w2MappingData.push({ documentId: w2Doc.id, fileName: w2Doc.fileName, mappings: W2ToForm1040Mapper.createMappingSummary(w2Data) })
+  }
+  for (const form1099Doc of form1099Documents) {
+    const form1099Data = documentData(form1099Doc)
+    if (!form1099Data) continue
+    const before = form1040Data
+    form1040Data = { ...form1040Data, ...Form1099ToForm1040Mapper.map1099ToForm1040(form1099Data, form1040Data) }
+    addDocumentSources(form1099Doc, before)
+    form1099MappingData.push({
+      documentId: form1099Doc.id,
+      fileName: form1099Doc.fileName,
+      documentType: form1099Doc.documentType,
+      mappings: Form1099ToForm1040Mapper.createMappingSummary(form1099Data)
+    })
+  }
+
+  // Entries - skip the ones already counted through a document. Accepted document data is
+  // also saved as entries, so wages, interest, dividends and other income entries are only
+  // used when no document of that kind was mapped
+  const processedDocumentIds = new Set(documents.map(doc => doc.id))
+  const hasW2Documents = w2Documents.length > 0
+  const has1099Documents = form1099Documents.length > 0
+  for (const entry of incomeEntries) {
+    if (entry.documentId && processedDocumentIds.has(entry.documentId)) continue
+    if (entry.incomeType === 'W2_WAGES' && hasW2Documents) continue
+    if (['OTHER_INCOME', 'INTEREST', 'DIVIDENDS'].includes(entry.incomeType) && has1099Documents) continue
+
+    const entryAmount = money(entry.amount)
+    const withheld = money(entry.federalTaxWithheld)
+    const entrySource: Form1040TraceSource = {
+      kind: 'incomeEntry',
+      id: entry.id || `${entry.incomeType}-${incomeEntries.indexOf(entry)}`,
+      description: entry.payerName || entry.description || entry.incomeType
+    }
+
+    // Private activity bond interest is tax-exempt but an AMT preference item (Form 6251 line 2g)
+    if (money(entry.privateActivityBondInterest) > 0) {
+      form1040Data.amtAdjustments = form1040Data.amtAdjustments || {}
+      form1040Data.amtAdjustments.privateActivityBondInterest = addMoney(form1040Data.amtAdjustments.privateActivityBondInterest,
+                                                                         entry.privateActivityBondInterest)
+    }
+
+    // 1099-INT box 6 / 1099-DIV box 7 - the payer's income is treated as foreign source passive income
+    if ((entry.incomeType === 'INTEREST' || entry.incomeType === 'DIVIDENDS') && money(entry.foreignTaxPaid) > 0) {
+      form1040Data.foreignTaxCredit = form1040Data.foreignTaxCredit || {}
+      form1040Data.foreignTaxCredit.foreignTaxPaid = addMoney(form1040Data.foreignTaxCredit.foreignTaxPaid, money(entry.foreignTaxPaid))
+      form1040Data.foreignTaxCredit.foreignIncome = addMoney(form1040Data.foreignTaxCredit.foreignIncome, entryAmount)
+      addSource('line20', entrySource)
+    }
+
+    // A W-2 entry from a document that wasn't mapped is left out rather than guessed at
+    if (entry.incomeType === 'W2_WAGES' && entry.documentId) continue
+
+    form1040Data.line25a = addMoney(form1040Data.line25a, withheld)
+    if (withheld > 0) addSource('line25a', entrySource)
+    const incomeLine: Form1040TracedLine = ({
+      W2_WAGES: 'line1',
+      INTEREST: 'line2b',
+      DIVIDENDS: 'line3b',
+      CAPITAL_GAINS: 'line7',
+      RETIREMENT_DISTRIBUTIONS: 'line4b',
+      SOCIAL_SECURITY: 'line6a'
+    } as Record<string, Form1040TracedLine>)[entry.incomeType] || 'line8'
+    addSource(incomeLine, entrySource)
+    switch (entry.incomeType) {
+      case 'W2_WAGES':
+        form1040Data.line1 = addMoney(form1040Data.line1, entryAmount)
+        form1040Data.w2Totals = form1040Data.w2Totals || {}
+        form1040Data.w2Totals.socialSecurityWages = addMoney(form1040Data.w2Totals.socialSecurityWages, money(entry.socialSecurityWages))
+        form1040Data.w2Totals.socialSecurityTaxWithheld = addMoney(form1040Data.w2Totals.socialSecurityTaxWithheld, money(entry.socialSecurityTaxWithheld))
+        form1040Data.w2Totals.medicareWages = addMoney(form1040Data.w2Totals.medicareWages, money(entry.medicareWages))
+        form1040Data.w2Totals.medicareTaxWithheld = addMoney(form1040Data.w2Totals.medicareTaxWithheld, money(entry.medicareTaxWithheld))
+        form1040Data.w2Totals.dependentCareBenefits = addMoney(form1040Data.w2Totals.dependentCareBenefits, money(entry.dependentCareBenefits))
+        form1040Data.w2Totals.electiveDeferrals = addMoney(form1040Data.w2Totals.electiveDeferrals, money(entry.electiveDeferrals))
+        break
+      case 'INTEREST':
+        form1040Data.line2b = addMoney(form1040Data.line2b, entryAmount)
+        break
+      case 'DIVIDENDS':
+        form1040Data.line3b = addMoney(form1040Data.line3b, entryAmount)
+        form1040Data.line3a = addMoney(form1040Data.line3a, money(entry.qualifiedDividends))
+        if (money(entry.qualifiedDividends) > 0) addSource('line3a', entrySource)
+        break
+      case 'CAPITAL_GAINS':
+        form1040Data.line7 = addMoney(form1040Data.line7, entryAmount)
+        break
+      case 'BUSINESS_INCOME':
+        form1040Data.line8 = addMoney(form1040Data.line8, entryAmount)
+        form1040Data.schedule1 = form1040Data.schedule1 || {}
+        form1040Data.schedule1.businessIncome = addMoney(form1040Data.schedule1.businessIncome, entryAmount)
+        break
+      case 'RETIREMENT_DISTRIBUTIONS':
+        form1040Data.line4b = addMoney(form1040Data.line4b, entryAmount)
+        break
+      case 'SOCIAL_SECURITY':
+        // Line 6b (taxable portion) is computed from the benefits worksheet once all income is known
+        form1040Data.line6a = addMoney(form1040Data.line6a, entryAmount)
+        break
+      default:
+        // Other income, unemployment and unknown types go to Line 8
+        form1040Data.line8 = addMoney(form1040Data.line8, entryAmount)
+        break
+    }
+  }
+
+  // Name, address and filing status - a W-2's employee block wins over the return's own fields
+  const personalInfo = form1040Data.personalInfo
+  form1040Data.firstName = form1040Data.firstName || personalInfo?.firstName || input.firstName || ''
+  form1040Data.lastName = form1040Data.lastName || personalInfo?.lastName || input.lastName || ''
+  form1040Data.ssn = form1040Data.ssn || personalInfo?.ssn || input.ssn || ''
+  form1040Data.spouseFirstName = form1040Data.spouseFirstName || input.spouseFirstName || undefined
+  form1040Data.spouseLastName = form1040Data.spouseLastName || input.spouseLastName || undefined
+  form1040Data.spouseSSN = form1040Data.spouseSSN || input.spouseSsn || undefined
+  form1040Data.address = form1040Data.address || personalInfo?.address || input.address || ''
+  form1040Data.city = form1040Data.city || personalInfo?.city || input.city || ''
+  form1040Data.state = form1040Data.state || personalInfo?.state || input.state || ''
+  form1040Data.zipCode = form1040Data.zipCode || personalInfo?.zipCode || input.zipCode || ''
+  form1040Data.filingStatus = form1040Data.filingStatus || input.filingStatus as FilingStatus
+  form1040Data.taxYear = form1040Data.taxYear || input.taxYear
+  // Age, blindness and "someone can claim" boxes above line 12
+  form1040Data.taxpayer65OrOlder = isAge65OrOlder(input.taxpayerBirthDate, form1040Data.taxYear)
+  form1040Data.taxpayerBlind = !!input.taxpayerBlind
+  form1040Data.spouse65OrOlder = isAge65OrOlder(input.spouseBirthDate, form1040Data.taxYear)
+  form1040Data.spouseBlind = !!input.spouseBlind
+  form1040Data.canBeClaimedAsDependent = !!input.canBeClaimedAsDependent
+  const filingStatus: string = form1040Data.filingStatus
+  const taxYear = form1040Data.taxYear
+
+  const deductionTotal = (deductionType: string) => deductionEntries
+    .filter(entry => entry.deductionType === deductionType)
+    .reduce((sum, entry) => addMoney(sum, entry.amount), 0)
+
+  // Business expenses reduce Schedule C profit rather than being itemized
+  const businessExpenses = deductionTotal('BUSINESS_EXPENSES')
+  const scheduleCExpenses = businessExpenses > 0 && form1040Data.schedule1?.businessIncome ? businessExpenses : 0
+  if (scheduleCExpenses > 0 && form1040Data.schedule1?.businessIncome) {
+    form1040Data.schedule1.businessIncome = subtractMoney(form1040Data.schedule1.businessIncome, scheduleCExpenses)
+    form1040Data.line8 = subtractMoney(form1040Data.line8, scheduleCExpenses)
+  }
+
+  // Form 8949 / Schedule D - sales net with capital gain distributions (line 13) and last
+  // year's carryovers; a net loss is limited before it reaches Line 7
+  let scheduleD = calculateScheduleD({
+    sales: (input.capitalAssetSales || []).map(sale => ({
+      description: sale.description,
+      dateAcquired: sale.dateAcquired,
+      dateSold: sale.dateSold,
+      proceeds: money(sale.proceeds),
+      costBasis: money(sale.costBasis),
+      adjustmentCode: sale.adjustmentCode,
+      adjustmentAmount: money(sale.adjustmentAmount),
+      holdingPeriod: sale.holdingPeriod,
+      basisReported: sale.basisReported
+    })),
+    capitalGainDistributions: form1040Data.line7 || 0,
+    shortTermLossCarryover: money(input.shortTermLossCarryover),
+    longTermLossCarryover: money(input.longTermLossCarryover),
+    filingStatus
+  })
+  if (scheduleD.form8949.length > 0 || scheduleD.netGainOrLoss !== 0) {
+    form1040Data.line7 = scheduleD.capitalGainOrLoss
+  }
+
+  // Schedule SE - self-employment tax to Schedule 2, deductible half to Schedule 1
+  const scheduleSE = calculateScheduleSE({
+    netProfit: form1040Data.schedule1?.businessIncome || 0,
+    socialSecurityWages: form1040Data.w2Totals?.socialSecurityWages || 0,
+    taxYear
+  })
+  if (scheduleSE.selfEmploymentTax > 0) {
+    form1040Data.schedule1 = form1040Data.schedule1 || {}
+    form1040Data.schedule1.deductibleSelfEmploymentTax = scheduleSE.deductiblePart
+    form1040Data.schedule2 = form1040Data.schedule2 || {}
+    form1040Data.schedule2.selfEmploymentTax = scheduleSE.selfEmploymentTax
+    form1040Data.line23 = addMoney(form1040Data.line23, scheduleSE.selfEmploymentTax)
+  }
+
+  // Form 2441 Part III - dependent care benefits over the exclusion are taxable wages (Line 1e)
+  const dependentCarePersons = (input.dependentCareExpenses || []).map(expense => ({
+    name: expense.qualifyingPersonName,
+    dependentId: expense.dependentId,
+    amount: money(expense.amount),
+    providerName: expense.providerName || undefined,
+    underThirteen: expense.underThirteen,
+    birthDate: expense.dependent?.birthDate ?? dependentRecords.find(dep => dep.id && dep.id === expense.dependentId)?.birthDate,
+    disabled: expense.disabled
+  }))
+  const dependentCareEarnedIncome = (form1040Data.line1 || 0) + (form1040Data.schedule1?.businessIncome || 0) - scheduleSE.deductiblePart
+  let taxableDependentCareBenefits = 0
+  if (form1040Data.w2Totals?.dependentCareBenefits) {
+    taxableDependentCareBenefits = calculateDependentCareBenefits({
+      employerBenefits: form1040Data.w2Totals.dependentCareBenefits,
+      qualifiedExpenses: sumMoney(...dependentCarePersons.map(person => person.amount)),
+      earnedIncome: dependentCareEarnedIncome,
+      filingStatus
+    }).taxableBenefits
+    form1040Data.line1 = addMoney(form1040Data.line1, taxableDependentCareBenefits)
+  }
+
+  // Schedule 1 Part II - adjustments to income. The IRA phase-out depends on taxable social
+  // security and taxable social security on the adjustments, so benefits are first figured
+  // without the IRA and student loan interest deductions (Pub 590-A Appendix B)
+  const otherIncome = totalIncome({ ...form1040Data, line6b: 0 })
+  const w2Entries = incomeEntries.filter(entry => entry.incomeType === 'W2_WAGES')
+  const adjustmentsInput = {
+    grossIncome: otherIncome,
+    filingStatus,
+    taxYear,
+    educatorExpenses: deductionTotal('EDUCATOR_EXPENSES'),
+    hsaContributions: deductionTotal('HSA_CONTRIBUTIONS'),
+    hsaFamilyCoverage: !!input.hsaFamilyCoverage,
+    hsaEmployerContributions: sumMoney(...w2Entries.map(entry => entry.hsaEmployerContributions)),
+    deductibleSelfEmploymentTax: scheduleSE.deductiblePart,
+    earlyWithdrawalPenalty: deductionTotal('EARLY_WITHDRAWAL_PENALTY') + (form1040Data.schedule1?.earlyWithdrawalPenalty || 0),
+    iraContributions: deductionTotal('IRA_CONTRIBUTIONS'),
+    studentLoanInterest: deductionTotal('STUDENT_LOAN_INTEREST'),
+    compensation: (form1040Data.line1 || 0) + (form1040Data.schedule1?.businessIncome || 0) - scheduleSE.deductiblePart,
+    // Box 13 limits the IRA deduction of whichever spouse the W-2 belongs to
+    coveredByWorkplacePlan: w2Entries.some(entry => entry.retirementPlan && !entry.spouseW2),
+    spouseCoveredByWorkplacePlan: w2Entries.some(entry => entry.retirementPlan && entry.spouseW2),
+    taxpayerAge: input.taxpayerBirthDate ? ageAtYearEnd(input.taxpayerBirthDate, taxYear) : undefined,
+    spouseAge: input.spouseBirthDate ? ageAtYearEnd(input.spouseBirthDate, taxYear) : undefined
+  }
+  const socialSecurityInput = {
+    benefits: form1040Data.line6a || 0,
+    otherIncome,
+    taxExemptInterest: form1040Data.line2a || 0,
+    filingStatus
+  }
+  let taxableSocialSecurity = 0
+  if (form1040Data.line6a) {
+    const beforeIRA = calculateSchedule1Adjustments({ ...adjustmentsInput, iraContributions: 0, studentLoanInterest: 0 })
+    taxableSocialSecurity = calculateTaxableSocialSecurity({ ...socialSecurityInput, adjustments: beforeIRA.totalAdjustments }).taxableBenefits
+  }
+  const schedule1Adjustments = calculateSchedule1Adjustments({ ...adjustmentsInput, grossIncome: otherIncome + taxableSocialSecurity })
+  form1040Data.schedule1 = {
+    ...form1040Data.schedule1,
+    educatorExpenses: schedule1Adjustments.educatorExpenses,
+    healthSavingsAccountDeduction: schedule1Adjustments.hsaDeduction,
+    deductibleSelfEmploymentTax: schedule1Adjustments.deductibleSelfEmploymentTax,
+    earlyWithdrawalPenalty: schedule1Adjustments.earlyWithdrawalPenalty,
+    iraDeduction: schedule1Adjustments.iraDeduction,
+    studentLoanInterestDeduction: schedule1Adjustments.studentLoanInterestDeduction,
+    adjustments: schedule1Adjustments.totalAdjustments
+  }
+  form1040Data.line10 = schedule1Adjustments.totalAdjustments
+
+  // Social Security Benefits Worksheet - taxable portion of line 6a
+  const socialSecurityBenefits = calculateTaxableSocialSecurity({
+    ...socialSecurityInput,
+    adjustments: schedule1Adjustments.totalAdjustments - schedule1Adjustments.studentLoanInterestDeduction
+  })
+  if (form1040Data.line6a) {
+    form1040Data.line6b = socialSecurityBenefits.taxableBenefits
+  }
+
+  form1040Data.line9 = totalIncome(form1040Data)
+  form1040Data.line11 = form1040Data.line9 - (form1040Data.line10 || 0)
+  const adjustedGrossIncome = form1040Data.line11
+
+  // Dependents - credit eligibility against this return's AGI
+  const dependents = dependentRecords.map(dependent => requalifyDependent(dependent, { taxYear, adjustedGrossIncome }))
+  form1040Data.dependents = dependents.map((dependent): Dependent => ({
+    firstName: dependent.firstName,
+    lastName: dependent.lastName,
+    ssn: dependent.ssn || '',
+    relationship: dependent.relationship,
+    birthDate: new Date(dependent.birthDate),
+    isDependent: dependent.isDependent,
+    qualifiesForCTC: dependent.qualifiesForCTC,
+    qualifiesForEITC: dependent.qualifiesForEITC
+  }))
+
+  // Earned income - wages plus net self-employment earnings less the deductible part of SE tax
+  const earnedIncome = (form1040Data.line1 || 0) + (form1040Data.schedule1?.businessIncome || 0) - scheduleSE.deductiblePart
+
+  // Line 12 - the larger of the standard deduction and Schedule A
+  const standardDeductionDetails = calculateStandardDeduction({
+    ...standardDeductionBoxes(form1040Data),
+    filingStatus,
+    taxYear,
+    earnedIncome
+  })
+  const standardDeduction = standardDeductionDetails.standardDeduction
+  const scheduleA = calculateScheduleA({
+    entries: deductionEntries
+      .filter(entry => entry.deductionType !== 'BUSINESS_EXPENSES' || !form1040Data.schedule1?.businessIncome)
+      .filter(entry => !SCHEDULE_1_DEDUCTION_TYPES.includes(entry.deductionType))
+      .map(entry => ({ deductionType: entry.deductionType, amount: money(entry.amount), giftType: entry.giftType })),
+    adjustedGrossIncome,
+    filingStatus,
+    taxYear
+  })
+  const itemizing = scheduleA.totalItemizedDeductions > standardDeduction
+  const deduction = itemizing ? scheduleA.totalItemizedDeductions : standardDeduction
+  form1040Data.line12 = deduction
+  if (itemizing) {
+    form1040Data.scheduleA = {
+      ...form1040Data.scheduleA,
+      medicalExpenses: scheduleA.medicalDeduction,
+      stateAndLocalTaxes: scheduleA.saltDeduction,
+      mortgageInterest: scheduleA.mortgageInterest,
+      charitableDeductions: scheduleA.charitableDeduction,
+      otherDeductions: scheduleA.otherDeductions,
+      totalItemizedDeductions: scheduleA.totalItemizedDeductions
+    }
+    form1040Data.amtAdjustments = { ...form1040Data.amtAdjustments, stateLocalTaxDeduction: scheduleA.saltDeduction }
+  }
+
+  // Line 13 - qualified business income deduction (Form 8995 / 8995-A)
+  const businessEntries = incomeEntries.filter(entry => entry.incomeType === 'BUSINESS_INCOME')
+  const qualifiedBusinesses = businessEntries.length > 0
+    ? businessEntries.map(entry => ({
+        name: entry.payerName || entry.description || 'Business',
+        netProfit: money(entry.amount),
+        w2Wages: money(entry.businessW2Wages),
+        ubia: money(entry.businessPropertyBasis),
+        specifiedService: !!entry.specifiedServiceBusiness
+      }))
+    : form1040Data.schedule1?.businessIncome
+      ? [{ name: 'Schedule C', netProfit: form1040Data.schedule1.businessIncome }]
+      : []
+  const qualifiedBusinessIncome = qualifiedBusinesses.length > 0
+    ? calculateQualifiedBusinessIncome({
+        businesses: qualifiedBusinesses,
+        taxableIncomeBeforeQBI: adjustedGrossIncome - deduction,
+        netCapitalGain: (form1040Data.line3a || 0) + scheduleD.netCapitalGain,
+        filingStatus,
+        taxYear,
+        deductibleSelfEmploymentTax: scheduleSE.deductiblePart,
+        businessExpenses: businessEntries.length > 0 ? scheduleCExpenses : 0
+      })
+    : null
+  const qualifiedBusinessIncomeDeduction = qualifiedBusinessIncome?.deduction || 0
+  form1040Data.line13 = qualifiedBusinessIncomeDeduction
+  form1040Data.line14 = deduction + qualifiedBusinessIncomeDeduction
+
+  // Line 15 - taxable income
+  const taxableIncome = Math.max(0, adjustedGrossIncome - deduction - qualifiedBusinessIncomeDeduction)
+  form1040Data.line15 = taxableIncome
+
+  // Capital Loss Carryover Worksheet - uses Line 15 before it was floored at zero
+  if (scheduleD.capitalGainOrLoss < 0) {
+    scheduleD = { ...scheduleD, carryover: capitalLossCarryover(scheduleD, adjustedGrossIncome - deduction - qualifiedBusinessIncomeDeduction) }
+  }
+  if (scheduleD.form8949.length > 0 || scheduleD.netGainOrLoss !== 0) {
+    form1040Data.scheduleD = {
+      shortTermGainOrLoss: scheduleD.shortTermGainOrLoss,
+      longTermGainOrLoss: scheduleD.longTermGainOrLoss,
+      netGainOrLoss: scheduleD.netGainOrLoss,
+      capitalGainOrLoss: scheduleD.capitalGainOrLoss,
+      netCapitalGain: scheduleD.netCapitalGain,
+      shortTermLossCarryover: scheduleD.carryover.shortTerm,
+      longTermLossCarryover: scheduleD.carryover.longTerm
+    }
+  }
+
+  // Line 16 - qualified dividends (3a) and net capital gain go through the
+  // Qualified Dividends and Capital Gain Tax Worksheet
+  const { worksheet: capitalGainWorksheet, tax: taxLiability } = incomeTax(
+    taxableIncome, filingStatus, taxYear, form1040Data.line3a || 0, scheduleD.netCapitalGain
+  )
+  form1040Data.line16 = taxLiability
+
+  // Foreign tax credit (Schedule 3 line 1 → Line 20) - the direct-credit election up to $300/$600,
+  // otherwise the Form 1116 limitation with carryover of the unused foreign tax
+  const foreignTaxCredit = calculateForeignTaxCredit({
+    foreignTaxPaid: form1040Data.foreignTaxCredit?.foreignTaxPaid || 0,
+    foreignSourceIncome: input.foreignSourceIncome != null
+      ? money(input.foreignSourceIncome)
+      : form1040Data.foreignTaxCredit?.foreignIncome || 0,
+    carryover: money(input.foreignTaxCreditCarryover),
+    directCreditElection: input.foreignTaxDirectCredit ?? true,
+    taxableIncome,
+    grossIncome: form1040Data.line9,
+    deductions: deduction,
+    regularTax: taxLiability,
+    filingStatus
+  })
+  if (foreignTaxCredit.method !== 'NONE') {
+    form1040Data.foreignTaxCredit = {
+      ...form1040Data.foreignTaxCredit,
+      carryover: foreignTaxCredit.carryoverUsed,
+      credit: foreignTaxCredit.credit,
+      carryoverToNextYear: foreignTaxCredit.carryoverToNextYear
+    }
+    form1040Data.schedule3 = form1040Data.schedule3 || {}
+    form1040Data.schedule3.foreignTaxCredit = foreignTaxCredit.credit
+    form1040Data.amtAdjustments = { foreignTaxCredit: foreignTaxCredit.credit, ...form1040Data.amtAdjustments }
+  }
+
+  // Form 6251 - Alternative Minimum Tax (Schedule 2 line 1 → Line 17)
+  const alternativeMinimumTax = calculateAlternativeMinimumTax({
+    taxableIncome: adjustedGrossIncome - deduction - qualifiedBusinessIncomeDeduction,
+    filingStatus,
+    taxYear,
+    itemizing,
+    standardDeduction,
+    amtAdjustments: form1040Data.amtAdjustments,
+    qualifiedDividends: form1040Data.line3a || 0,
+    netCapitalGain: scheduleD.netCapitalGain,
+    regularTax: taxLiability - foreignTaxCredit.credit
+  })
+  form1040Data.schedule2 = form1040Data.schedule2 || {}
+  form1040Data.schedule2.alternativeMinimumTax = alternativeMinimumTax.alternativeMinimumTax
+  form1040Data.line17 = alternativeMinimumTax.alternativeMinimumTax
+
+  // Form 8962 - premium tax credit reconciliation. Excess advance payments are repaid on
+  // Schedule 2 line 2 (Line 17); a net credit goes to Schedule 3 line 9 (Line 31)
+  const marketplacePolicies = input.marketplacePolicies || []
+  const premiumTaxCredit = marketplacePolicies.length > 0
+    ? calculatePremiumTaxCredit({
+        policies: marketplacePolicies.map(policy => ({
+          issuerName: policy.issuerName,
+          policyNumber: policy.policyNumber,
+          monthlyPremiums: policy.monthlyPremiums.map(money),
+          monthlySlcspPremiums: policy.monthlySlcspPremiums.map(money),
+          monthlyAdvancePayments: policy.monthlyAdvancePayments.map(money)
+        })),
+        familySize: 1 + (isJointFilingStatus(filingStatus) ? 1 : 0) + dependents.filter(dep => dep.isDependent !== false).length,
+        modifiedAGI: adjustedGrossIncome + (form1040Data.line2a || 0) + (form1040Data.line6a || 0) - (form1040Data.line6b || 0),
+        dependentsModifiedAGI: money(input.dependentsModifiedAGI),
+        filingStatus,
+        taxYear,
+        state: input.state
+      })
+    : null
+  if (premiumTaxCredit) {
+    form1040Data.schedule2.excessAdvancePremiumTaxCredit = premiumTaxCredit.excessAdvanceRepayment
+    form1040Data.line17 = addMoney(form1040Data.line17, premiumTaxCredit.excessAdvanceRepayment)
+    form1040Data.schedule3 = form1040Data.schedule3 || {}
+    form1040Data.schedule3.netPremiumTaxCredit = premiumTaxCredit.netPremiumTaxCredit
+    form1040Data.line31 = premiumTaxCredit.netPremiumTaxCredit
+  }
+  form1040Data.line18 = taxLiability + form1040Data.line17
+
+  // Form 8959 - Additional Medicare Tax on wages and SE income over the threshold
+  const additionalMedicareTax = calculateAdditionalMedicareTax({
+    medicareWages: form1040Data.w2Totals?.medicareWages || 0,
+    medicareTaxWithheld: form1040Data.w2Totals?.medicareTaxWithheld || 0,
+    selfEmploymentIncome: scheduleSE.netEarnings,
+    filingStatus,
+    taxYear
+  })
+
+  // Form 8960 - Net Investment Income Tax (MAGI equals AGI without foreign earned income exclusion)
+  const netInvestmentIncomeTax = calculateNetInvestmentIncomeTax({
+    taxableInterest: form1040Data.line2b || 0,
+    ordinaryDividends: form1040Data.line3b || 0,
+    capitalGains: form1040Data.line7 || 0,
+    modifiedAGI: adjustedGrossIncome,
+    filingStatus,
+    taxYear
+  })
+  if (additionalMedicareTax.additionalMedicareTax > 0 || netInvestmentIncomeTax.netInvestmentIncomeTax > 0) {
+    form1040Data.schedule2.additionalMedicareTax = additionalMedicareTax.additionalMedicareTax
+    form1040Data.schedule2.netInvestmentIncomeTax = netInvestmentIncomeTax.netInvestmentIncomeTax
+    form1040Data.line23 = sumMoney(form1040Data.line23, additionalMedicareTax.additionalMedicareTax, netInvestmentIncomeTax.netInvestmentIncomeTax)
+  }
+
+  // Additional Medicare Tax withheld by employers counts as federal withholding
+  if (additionalMedicareTax.additionalMedicareTaxWithheld > 0) {
+    form1040Data.line25a = addMoney(form1040Data.line25a, additionalMedicareTax.additionalMedicareTaxWithheld)
+  }
+
+  // Earned income credit (Line 25c)
+  const earnedIncomeCredit = calculateEarnedIncomeCredit({
+    earnedIncome,
+    adjustedGrossIncome,
+    investmentIncome: (form1040Data.line2a || 0) + (form1040Data.line2b || 0) +
+                      (form1040Data.line3b || 0) + Math.max(0, form1040Data.line7 || 0),
+    qualifyingChildren: dependents.filter(dep => dep.qualifiesForEITC).length,
+    taxpayerAge: input.taxpayerBirthDate ? ageAtYearEnd(input.taxpayerBirthDate, taxYear) : undefined,
+    spouseAge: input.spouseBirthDate ? ageAtYearEnd(input.spouseBirthDate, taxYear) : undefined,
+    canBeClaimedAsDependent: !!input.canBeClaimedAsDependent,
+    filingStatus,
+    taxYear
+  })
+  form1040Data.line25c = earnedIncomeCredit.credit
+
+  // Form 2441 - child and dependent care credit (Schedule 3 line 2 → Line 20)
+  const dependentCareCredit = calculateDependentCareCredit({
+    persons: dependentCarePersons,
+    employerBenefits: form1040Data.w2Totals?.dependentCareBenefits || 0,
+    earnedIncome: dependentCareEarnedIncome,
+    adjustedGrossIncome,
+    filingStatus,
+    taxYear,
+    taxLiabilityLimit: form1040Data.line18 - foreignTaxCredit.credit
+  })
+  if (dependentCarePersons.length > 0) {
+    form1040Data.schedule3 = form1040Data.schedule3 || {}
+    form1040Data.schedule3.childCareCredit = dependentCareCredit.credit
+  }
+
+  // Form 8863 - education credits (Schedule 3 line 3 → Line 20) and refundable AOTC (Line 29)
+  const educationExpenses = input.educationExpenses || []
+  const educationCredits = calculateEducationCredits({
+    students: educationExpenses.map(expense => ({
+      studentName: expense.studentName,
+      dependentId: expense.dependentId,
+      qualifiedExpenses: money(expense.qualifiedExpenses),
+      scholarships: money(expense.scholarships),
+      halfTimeStudent: expense.halfTimeStudent,
+      graduateStudent: expense.graduateStudent,
+      priorAotcYears: expense.priorAotcYears,
+      felonyDrugConviction: expense.felonyDrugConviction,
+      creditType: expense.creditType
+    })),
+    modifiedAGI: adjustedGrossIncome,
+    filingStatus,
+    taxLiabilityLimit: form1040Data.line18 - foreignTaxCredit.credit - dependentCareCredit.credit
+  })
+  if (educationExpenses.length > 0) {
+    form1040Data.schedule3 = form1040Data.schedule3 || {}
+    form1040Data.schedule3.educationCredits = educationCredits.nonrefundableCredit
+    form1040Data.line29 = educationCredits.refundableCredit
+  }
+
+  // Form 8880 - saver's credit (Schedule 3 line 4 → Line 20). Distributions are the
+  // current year's retirement distributions; earlier years in the testing period aren't tracked
+  const saversCredit = calculateSaversCredit({
+    taxpayer: {
+      iraContributions: deductionTotal('IRA_CONTRIBUTIONS'),
+      electiveDeferrals: form1040Data.w2Totals?.electiveDeferrals || 0,
+      distributions: incomeEntries
+        .filter(entry => entry.incomeType === 'RETIREMENT_DISTRIBUTIONS')
+        .reduce((sum, entry) => addMoney(sum, entry.amount), 0)
+    },
+    adjustedGrossIncome,
+    filingStatus,
+    taxYear,
+    taxLiabilityLimit: form1040Data.line18 - foreignTaxCredit.credit - dependentCareCredit.credit - educationCredits.nonrefundableCredit
+  })
+  if (saversCredit.contributions > 0) {
+    form1040Data.schedule3 = form1040Data.schedule3 || {}
+    form1040Data.schedule3.retirementSavingsCredit = saversCredit.credit
+  }
+  if (form1040Data.schedule3) {
+    form1040Data.schedule3.nonrefundableCredits = sumMoney(form1040Data.schedule3.foreignTaxCredit, form1040Data.schedule3.childCareCredit,
+                                                           form1040Data.schedule3.educationCredits, form1040Data.schedule3.retirementSavingsCredit)
+    form1040Data.line20 = form1040Data.schedule3.nonrefundableCredits
+  }
+
+  // Schedule 8812 - child tax credit / credit for other dependents (Line 19) and ACTC (Line 25d)
+  const schedule8812 = calculateSchedule8812({
+    dependents,
+    filingStatus,
+    modifiedAGI: adjustedGrossIncome,
+    taxLiabilityLimit: Math.max(0, form1040Data.line18 - (form1040Data.line20 || 0)),
+    earnedIncome,
+    // Line 21: W-2 boxes 4 and 6 - box 6 already includes the Additional Medicare Tax withheld
+    // (Form 8959 line 24). Line 22: the deductible part of SE tax and the Additional Medicare Tax
+    socialSecurityAndMedicareTaxes: sumMoney(form1040Data.w2Totals?.socialSecurityTaxWithheld, form1040Data.w2Totals?.medicareTaxWithheld,
+                                             scheduleSE.deductiblePart, additionalMedicareTax.additionalMedicareTax),
+    earnedIncomeCredit: earnedIncomeCredit.credit,
+    taxYear
+  })
+  form1040Data.line19 = schedule8812.nonrefundableCredit
+  form1040Data.line25d = schedule8812.additionalChildTaxCredit
+
+  // Estimated tax payments (Line 26, carried to 25b here) - payments toward next year's vouchers don't count
+  const estimatedTaxPayments = (input.estimatedTaxPayments || []).filter(payment => payment.taxYear === taxYear)
+  form1040Data.line25b = sumMoney(...estimatedTaxPayments.map(payment => payment.amount))
+
+  // Lines 21-24 and 32 before the penalty, which needs the total tax
+  applyForm1040Totals(form1040Data)
+  const totalTax = form1040Data.line24 || 0
+  const refundableCredits = sumMoney(form1040Data.line25c, form1040Data.line25d, form1040Data.line29, form1040Data.line31)
+
+  // Form 2210 underpayment penalty (Line 38) - line 4 of the form is total tax less refundable credits
+  const annualizedIncome = input.annualizedIncome || []
+  const underpaymentPenalty = calculateUnderpaymentPenalty({
+    currentYearTax: Math.max(0, totalTax - refundableCredits),
+    withholding: form1040Data.line25a || 0,
+    estimatedPayments: estimatedTaxPayments.map(payment => ({ date: payment.paymentDate, amount: money(payment.amount) })),
+    priorYearTax: input.priorYearTax != null ? money(input.priorYearTax) : null,
+    priorYearAGI: input.priorYearAdjustedGrossIncome != null ? money(input.priorYearAdjustedGrossIncome) : null,
+    filingStatus,
+    taxYear,
+    annualized: annualizedIncome.length === 4 ? {
+      cumulativeIncome: annualizedIncome.map(money),
+      deduction,
+      itemizing,
+      otherTaxes: form1040Data.line23 || 0,
+      credits: (form1040Data.line21 || 0) + refundableCredits
+    } : null
+  })
+  form1040Data.line38 = underpaymentPenalty.penalty
+
+  // Every line to exact cents or whole dollars, and the totals from the rounded lines
+  form1040Data.roundToWholeDollars = !!input.roundToWholeDollars
+  roundForm1040Lines(form1040Data, roundingMode(input.roundToWholeDollars))
+
+  // Form 1040 lines regrouped the way the calculation step presents them
+  const otherTaxes = sumMoney(form1040Data.line17, form1040Data.line23)
+  const totalCredits = sumMoney(form1040Data.line19, form1040Data.line20, form1040Data.line25c, form1040Data.line25d,
+                                form1040Data.line29, form1040Data.line31)
+  const finalTax = sumMoney(form1040Data.line24, -(form1040Data.line32 || 0))
+  const summary: TaxCalculationResult = {
+    grossIncome: form1040Data.line9,
+    socialSecurityBenefits,
+    adjustmentsToIncome: form1040Data.line10 || 0,
+    schedule1Adjustments,
+    adjustedGrossIncome: form1040Data.line11 || 0,
+    standardDeduction,
+    itemizedDeduction: scheduleA.totalItemizedDeductions,
+    scheduleA,
+    qualifiedBusinessIncomeDeduction,
+    qualifiedBusinessIncome,
+    taxableIncome: form1040Data.line15 || 0,
+    taxLiability: form1040Data.line16 || 0,
+    capitalGainWorksheet,
+    scheduleD,
+    alternativeMinimumTax,
+    selfEmploymentTax: scheduleSE.selfEmploymentTax,
+    scheduleSE,
+    additionalMedicareTax,
+    netInvestmentIncomeTax,
+    otherTaxes,
+    premiumTaxCredit,
+    foreignTaxCredit,
+    dependentCareCredit,
+    educationCredits,
+    saversCredit,
+    childTaxCredit: form1040Data.line19 || 0,
+    additionalChildTaxCredit: form1040Data.line25d || 0,
+    schedule8812,
+    earnedIncomeCredit: form1040Data.line25c || 0,
+    earnedIncomeCreditDetails: earnedIncomeCredit,
+    totalCredits,
+    totalWithholdings: form1040Data.line25a || 0,
+    estimatedTaxPayments: form1040Data.line25b,
+    finalTax,
+    refundAmount: Math.max(0, -finalTax),
+    amountOwed: Math.max(0, finalTax),
+    effectiveRate: form1040Data.line9 > 0 ? Math.max(0, (form1040Data.line16 || 0) + otherTaxes - totalCredits) / form1040Data.line9 * 100 : 0,
+    marginalRate: getMarginalRate(taxableIncome, filingStatus, taxYear)
+  }
+
+  // Per-line trace - each line's formula, what went into it, and the records behind it
+  const dependentSource = (dependent: Form1040Dependent): Form1040TraceSource => ({
+    kind: 'dependent',
+    id: dependent.id || `${dependent.firstName} ${dependent.lastName}`,
+    description: `${dependent.firstName} ${dependent.lastName} (${dependent.relationship})`
+  })
+  dependents.filter(dep => dep.qualifiesForEITC).forEach(dep => addSource('line25c', dependentSource(dep)))
+  dependents.filter(dep => dep.isDependent !== false).forEach(dep => {
+    addSource('line19', dependentSource(dep))
+    if (dep.qualifiesForCTC) addSource('line25d', dependentSource(dep))
+  })
+
+  const trace: Form1040EngineResult['trace'] = {}
+  const line = (name: Form1040TracedLine): Form1040TraceInput => ({
+    label: `Line ${name.slice(4)} - ${FORM_1040_LINE_LABELS[name]}`,
+    amount: form1040Data[name] || 0,
+    line: name
+  })
+  const amount = (label: string, value: number): Form1040TraceInput => ({ label, amount: value })
+  const count = (label: string, value: number): Form1040TraceInput => ({ label, amount: value, count: true })
+  const traceLine = (name: Form1040TracedLine, formula: string, inputs: Form1040TraceInput[], details: { table?: string, note?: string } = {}) => {
+    const sources = new Map(lineSources.get(name))
+    for (const input of inputs) {
+      const inputTrace = input.line && trace[input.line]
+      inputTrace?.sources.forEach(source => sources.set(source.id, source))
+    }
+    trace[name] = {
+      line: name,
+      label: FORM_1040_LINE_LABELS[name],
+      amount: form1040Data[name] || 0,
+      formula,
+      inputs,
+      ...details,
+      sources: Array.from(sources.values())
+    }
+  }
+
+  traceLine('line1', 'W-2 box 1 wages + taxable dependent care benefits (Form 2441 Part III)', [
+    amount('W-2 wages', (form1040Data.line1 || 0) - taxableDependentCareBenefits),
+    amount('Taxable dependent care benefits', taxableDependentCareBenefits)
+  ])
+  traceLine('line2a', '1099-INT box 8', [])
+  traceLine('line2b', '1099-INT box 1 + box 3', [])
+  traceLine('line3a', '1099-DIV box 1b', [])
+  traceLine('line3b', '1099-DIV box 1a', [])
+  traceLine('line4b', 'Taxable IRA and retirement distributions', [])
+  traceLine('line5b', 'Taxable pensions and annuities', [])
+  traceLine('line6a', 'SSA-1099 box 5', [])
+  traceLine('line6b', 'Social Security Benefits Worksheet', [
+    line('line6a'),
+    amount('Other income', otherIncome),
+    line('line2a'),
+    amount('Adjustments other than student loan interest', schedule1Adjustments.totalAdjustments - schedule1Adjustments.studentLoanInterestDeduction)
+  ], { table: 'Social Security Benefits Worksheet', note: form1040Data.line6a ? socialSecurityBenefits.explanation : undefined })
+  traceLine('line7', scheduleD.form8949.length > 0 || scheduleD.netGainOrLoss !== 0
+    ? 'Schedule D line 16, or the capital loss limit when a loss'
+    : 'Capital gain distributions (1099-DIV box 2a)', [
+    amount('Short-term gain or (loss)', scheduleD.shortTermGainOrLoss),
+    amount('Long-term gain or (loss)', scheduleD.longTermGainOrLoss)
+  ], { table: scheduleD.form8949.length > 0 ? 'Form 8949 and Schedule D' : undefined, note: scheduleD.explanation })
+  traceLine('line8', 'Schedule 1 line 10 - business income less Schedule C expenses + other income', [
+    amount('Schedule C net profit', form1040Data.schedule1?.businessIncome || 0),
+    amount('Schedule C expenses', scheduleCExpenses)
+  ])
+  traceLine('line9', 'Lines 1 + 2b + 3b + 4b + 5b + 6b + 7 + 8', [
+    line('line1'), line('line2b'), line('line3b'), line('line4b'), line('line5b'), line('line6b'), line('line7'), line('line8')
+  ])
+  traceLine('line10', 'Schedule 1 line 26 - total adjustments to income', [
+    amount('Educator expenses', schedule1Adjustments.educatorExpenses),
+    amount('HSA deduction', schedule1Adjustments.hsaDeduction),
+    amount('Deductible part of self-employment tax', schedule1Adjustments.deductibleSelfEmploymentTax),
+    amount('Early withdrawal penalty', schedule1Adjustments.earlyWithdrawalPenalty),
+    amount('IRA deduction', schedule1Adjustments.iraDeduction),
+    amount('Student loan interest deduction', schedule1Adjustments.studentLoanInterestDeduction)
+  ], { note: schedule1Adjustments.notes.join(' ') || undefined })
+  traceLine('line11', 'Line 9 - line 10', [line('line9'), line('line10')])
+  traceLine('line12', itemizing ? 'Schedule A line 17 (larger than the standard deduction)' : 'Standard deduction (larger than itemized deductions)', [
+    amount(standardDeductionDetails.limitedAsDependent ? 'Standard deduction for dependents' : 'Basic standard deduction', standardDeductionDetails.basicAmount),
+    ...(standardDeductionDetails.limitedAsDependent ? [amount('Earned income', earnedIncome)] : []),
+    count('Boxes checked for age 65 or older or blind', standardDeductionDetails.additionalBoxes),
+    amount('Additional standard deduction', standardDeductionDetails.additionalAmount),
+    amount('Standard deduction', standardDeduction),
+    amount('Itemized deductions (Schedule A)', scheduleA.totalItemizedDeductions)
+  ], {
+    table: itemizing ? 'Schedule A' : `${taxYear} standard deduction for ${filingStatus}`,
+    note: standardDeductionDetails.explanation
+  })
+  traceLine('line13', 'Form 8995 / 8995-A', [line('line11'), line('line12')], {
+    table: qualifiedBusinessIncome ? 'Form 8995 / 8995-A' : undefined,
+    note: qualifiedBusinessIncome?.explanation
+  })
+  traceLine('line14', 'Line 12 + line 13', [line('line12'), line('line13')])
+  traceLine('line15', 'Line 11 - line 14, not less than zero', [line('line11'), line('line14')])
+  if (capitalGainWorksheet) {
+    traceLine('line16', 'Qualified Dividends and Capital Gain Tax Worksheet line 25', [
+      line('line15'),
+      line('line3a'),
+      amount('Net capital gain', capitalGainWorksheet.netCapitalGain),
+      amount('Taxed at 0%', capitalGainWorksheet.taxedAtZero),
+      amount('Taxed at 15%', capitalGainWorksheet.taxedAtFifteen),
+      amount('Taxed at 20%', capitalGainWorksheet.taxedAtTwenty),
+      amount('Tax on ordinary income', capitalGainWorksheet.taxOnOrdinaryIncome)
+    ], { table: 'Qualified Dividends and Capital Gain Tax Worksheet' })
+  } else {
+    // Looked up again for the final line 15, which whole-dollar rounding may have moved to another row
+    const { row, rate = 0, subtraction = 0 } = calculateTax(form1040Data.line15 || 0, filingStatus, taxYear)
+    if (row) {
+      traceLine('line16', `Tax Table row $${row.atLeast.toLocaleString()} to $${row.lessThan.toLocaleString()} - tax on the midpoint, rounded to the dollar`,
+                [line('line15')], { table: `${taxYear} Tax Table for ${filingStatus}` })
+    } else {
+      traceLine('line16', `Line 15 × ${Math.round(rate * 100)}% - subtraction amount`, [line('line15'), amount('Subtraction amount', subtraction)],
+                { table: `${taxYear} Tax Computation Worksheet for ${filingStatus}` })
+    }
+  }
+  traceLine('line17', 'Schedule 2 line 3 - alternative minimum tax + excess advance premium tax credit repayment', [
+    amount('Alternative minimum tax (Form 6251)', alternativeMinimumTax.alternativeMinimumTax),
+    amount('Tentative minimum tax', alternativeMinimumTax.tentativeMinimumTax),
+    amount('Excess advance premium tax credit repayment (Form 8962)', premiumTaxCredit?.excessAdvanceRepayment || 0)
+  ], { table: 'Form 6251', note: premiumTaxCredit?.explanation })
+  traceLine('line18', 'Line 16 + line 17', [line('line16'), line('line17')])
+  traceLine('line19', 'Schedule 8812 line 14', [
+    count('Qualifying children', schedule8812.qualifyingChildren),
+    count('Other dependents', schedule8812.otherDependents),
+    amount('Credit before phase-out', schedule8812.totalBeforePhaseOut),
+    amount('Phase-out reduction', schedule8812.phaseOutReduction),
+    amount('Limited to tax', schedule8812.creditLimit)
+  ], { table: 'Schedule 8812' })
+  traceLine('line20', 'Schedule 3 line 8 - nonrefundable credits', [
+    amount('Foreign tax credit', form1040Data.schedule3?.foreignTaxCredit || 0),
+    amount('Child and dependent care credit (Form 2441)', form1040Data.schedule3?.childCareCredit || 0),
+    amount('Education credits (Form 8863)', form1040Data.schedule3?.educationCredits || 0),
+    amount("Saver's credit (Form 8880)", form1040Data.schedule3?.retirementSavingsCredit || 0)
+  ], { table: 'Schedule 3', note: foreignTaxCredit.method !== 'NONE' ? foreignTaxCredit.explanation : undefined })
+  traceLine('line21', 'Line 19 + line 20', [line('line19'), line('line20')])
+  traceLine('line22', 'Line 18 - line 21, not less than zero', [line('line18'), line('line21')])
+  traceLine('line23', 'Schedule 2 line 21 - other taxes', [
+    amount('Self-employment tax (Schedule SE)', scheduleSE.selfEmploymentTax),
+    amount('Additional Medicare Tax (Form 8959)', additionalMedicareTax.additionalMedicareTax),
+    amount('Net investment income tax (Form 8960)', netInvestmentIncomeTax.netInvestmentIncomeTax)
+  ], { table: 'Schedule 2' })
+  traceLine('line24', 'Line 22 + line 23', [line('line22'), line('line23')])
+  traceLine('line25a', 'W-2 box 2 + 1099 box 4 + Additional Medicare Tax withheld', [
+    amount('Additional Medicare Tax withheld (Form 8959)', additionalMedicareTax.additionalMedicareTaxWithheld)
+  ])
+  traceLine('line25b', `Estimated tax payments made for ${taxYear}`, estimatedTaxPayments.map(payment =>
+    amount(`Payment on ${new Date(payment.paymentDate).toLocaleDateString()}`, money(payment.amount))
+  ))
+  traceLine('line25c', 'Earned income credit', [
+    amount('Earned income', earnedIncome),
+    line('line11'),
+    count('Qualifying children', dependents.filter(dep => dep.qualifiesForEITC).length)
+  ], { table: 'EIC Worksheet', note: earnedIncomeCredit.explanation })
+  traceLine('line25d', 'Schedule 8812 line 27', [
+    amount('Unused child tax credit', schedule8812.unusedCredit),
+    amount('Refundable cap', schedule8812.refundableCap),
+    amount('15% of earned income over $2,500', schedule8812.earnedIncomePortion)
+  ], { table: 'Schedule 8812' })
+  traceLine('line29', 'Form 8863 line 8 - refundable American opportunity credit', [], {
+    table: educationExpenses.length > 0 ? 'Form 8863' : undefined,
+    note: educationExpenses.length > 0 ? educationCredits.explanation : undefined
+  })
+  traceLine('line31', 'Schedule 3 line 15 - net premium tax credit', [], {
+    table: premiumTaxCredit ? 'Form 8962' : undefined
+  })
+  traceLine('line32', 'Lines 25a + 25b + 25c + 25d + 29 + 31', [
+    line('line25a'), line('line25b'), line('line25c'), line('line25d'), line('line29'), line('line31')
+  ])
+  traceLine('line38', 'Form 2210 penalty', [
+    amount('Required annual payment', underpaymentPenalty.requiredAnnualPayment),
+    line('line25a'),
+    line('line25b')
+  ], { table: 'Form 2210', note: underpaymentPenalty.explanation })
+  traceLine('line33', 'Line 32 - line 24 - line 38, when more than zero', [line('line32'), line('line24'), line('line38')])
+  traceLine('line37', 'Line 24 + line 38 - line 32, when more than zero', [line('line24'), line('line38'), line('line32')])
+
+  return { form1040Data, trace, summary, underpaymentPenalty, w2MappingData, form1099MappingData }
+}
@@ -16,6 +16,13 @@ export interface Form1040Data {
   state: string;
   zipCode: string;
   filingStatus: FilingStatus;
+  roundToWholeDollars?: boolean; // Amounts entered to whole dollars (IRS rounding) rather than cents
+  // Standard deduction boxes - 65 or older at the end of the year, blind, can be claimed as a dependent
+  taxpayer65OrOlder?: boolean;
+  taxpayerBlind?: boolean;
+  spouse65OrOlder?: boolean;
+  spouseBlind?: boolean;
+  canBeClaimedAsDependent?: boolean;
   
   // Personal Info from W2 (new field for tracking source)
   personalInfo?: {
@@ -57,9 +64,59 @@ export interface Form1040Data {
 
   // Schedule 1 - Additional Income and Adjustments
   schedule1?: {
-    earlyWithdrawalPenalty?: number;
+    earlyWithdrawalPenalty?: number; // Line 18
     additionalIncome?: number;
-    adjustments?: number;
+    adjustments?: number; // Line 26 - total adjustments to income
+    businessIncome?: number; // Line 3 - Schedule C net profit
+    educatorExpenses?: number; // Line 11
+    healthSavingsAccountDeduction?: number; // Line 13 - from Form 8889
+    deductibleSelfEmploymentTax?: number; // Line 15
+    iraDeduction?: number; // Line 20
+    studentLoanInterestDeduction?: number; // Line 21
+    [key: string]: number | undefined;
+  };
+
+  // Schedule 2 - Additional Taxes
+  schedule2?: {
+    alternativeMinimumTax?: number; // Line 1 - from Form 6251
+    excessAdvancePremiumTaxCredit?: number; // Line 2 - from Form 8962, line 29
+    selfEmploymentTax?: number; // Line 4 - from Schedule SE
+    additionalMedicareTax?: number; // Line 11 - from Form 8959
+    netInvestmentIncomeTax?: number; // Line 12 - from Form 8960
+    [key: string]: number | undefined;
+  };
+
+  // Schedule 3 - Additional Credits and Payments
+  schedule3?: {
+    foreignTaxCredit?: number; // Line 1 - direct credit or Form 1116, line 35
+    childCareCredit?: number; // Line 2 - from Form 2441, line 11
+    educationCredits?: number; // Line 3 - from Form 8863, line 19
+    retirementSavingsCredit?: number; // Line 4 - from Form 8880, line 12
+    nonrefundableCredits?: number; // Line 8
+    netPremiumTaxCredit?: number; // Line 9 - from Form 8962, line 26
+    [key: string]: number | undefined;
+  };
+
+  // Schedule D - Capital Gains and Losses
+  scheduleD?: {
+    shortTermGainOrLoss?: number; // Line 7
+    longTermGainOrLoss?: number; // Line 15
+    netGainOrLoss?: number; // Line 16
+    capitalGainOrLoss?: number; // Line 16 gain or line 21 loss - Form 1040 line 7
+    netCapitalGain?: number; // Taxed at capital gain rates
+    shortTermLossCarryover?: number; // To next year's line 6
+    longTermLossCarryover?: number; // To next year's line 14
+    [key: string]: number | undefined;
+  };
+
+  // W-2 payroll boxes that aren't reported on Form 1040 itself
+  w2Totals?: {
+    socialSecurityWages?: number; // Boxes 3 and 7
+    socialSecurityTaxWithheld?: number; // Box 4
+    medicareWages?: number; // Box 5
+    medicareTaxWithheld?: number; // Box 6
+    dependentCareBenefits?: number; // Box 10 - Form 2441 Part III
+    electiveDeferrals?: number; // Box 12 codes D, E and G - Form 8880 line 2
     [key: string]: number | undefined;
   };
 
@@ -75,7 +132,10 @@ export interface Form1040Data {
   foreignTaxCredit?: {
     foreignTaxPaid?: number;
     foreignCountry?: string;
-    foreignIncome?: number;
+    foreignIncome?: number; // Form 1116 line 1a
+    carryover?: number; // Unused foreign tax from prior years
+    credit?: number; // Schedule 3 line 1
+    carryoverToNextYear?: number;
     [key: string]: number | string | undefined;
   };
   
@@ -128,6 +188,8 @@ export interface Form1040Data {
   line25b: number; // 2023 estimated tax payments and amount applied from 2022 return
   line25c: number; // Earned income credit (EIC)
   line25d: number; // Additional child tax credit from Schedule 8812
+  line29: number; // American opportunity credit from Form 8863, line 8
+  line31?: number; // Amount from Schedule 3, line 15 - net premium tax credit
   
   // Refund or Amount Owed Section (Lines 32-37)
   line32: number; // Add lines 25a through 31 (total payments)
@@ -138,6 +200,7 @@ export interface Form1040Data {
   line35c: number; // Account number
   line36: number; // Amount of line 33 you want applied to your 2024 estimated tax
   line37: number; // Subtract line 33 from line 24. This is the amount you owe
+  line38?: number; // Estimated tax penalty from Form 2210 (included in line 37)
   
   // Third Party Designee and Sign Here sections
   thirdPartyDesignee: boolean;
@@ -159,6 +222,7 @@ export interface Dependent {
   ssn: string;
   relationship: string;
   birthDate: Date;
+  isDependent?: boolean; // Qualifying child or qualifying relative
   qualifiesForCTC: boolean; // Child Tax Credit
   qualifiesForEITC: boolean; // Earned Income Tax Credit
 }
@@ -186,48 +250,3 @@ export interface W2ToForm1040Mapping {
   employeeSSN_to_personalInfo: (w2Data: any) => string;
   employeeAddress_to_personalInfo: (w2Data: any) => { address: string; city: string; state: string; zipCode: string };
 }
-
-// Standard deduction amounts for 2023 tax year
-export const STANDARD_DEDUCTION_2023 = {
-  [FilingStatus.SINGLE]: 13850,
-  [FilingStatus.MARRIED_FILING_JOINTLY]: 27700,
-  [FilingStatus.MARRIED_FILING_SEPARATELY]: 13850,
-  [FilingStatus.HEAD_OF_HOUSEHOLD]: 20800,
-  [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 27700
-};
-
-// Tax brackets for 2023 (simplified)
-export const TAX_BRACKETS_2023 = {
-  [FilingStatus.SINGLE]: [
-    { min: 0, max: 11000, rate: 0.10 },
-    { min: 11000, max: 44725, rate: 0.12 },
-    { min: 44725, max: 95375, rate: 0.22 },
-    { min: 95375, max: 182050, rate: 0.24 },
-    { min: 182050, max: 231250, rate: 0.32 },
-    { min: 231250, max: 578125, rate: 0.35 },
-    { min: 578125, max: Infinity, rate: 0.37 }
-  ],
-  [FilingStatus.MARRIED_FILING_JOINTLY]: [
-    { min: 0, max: 22000, rate: 0.10 },
-    { min: 22000, max: 89450, rate: 0.12 },
-    { min: 89450, max: 190750, rate: 0.22 },
-    { min: 190750, max: 364200, rate: 0.24 },
-    { min: 364200, max: 462500, rate: 0.32 },
-    { min: 462500, max: 693750, rate: 0.35 },
-    { min: 693750, max: Infinity, rate: 0.37 }
-  ],
-  // ... other filing statuses can be added
-};
-
-// Child Tax Credit amounts
-export const CHILD_TAX_CREDIT_2023 = {
-  maxCredit: 2000,
-  phaseoutThreshold: {
-    [FilingStatus.SINGLE]: 200000,
-    [FilingStatus.MARRIED_FILING_JOINTLY]: 400000,
-    [FilingStatus.MARRIED_FILING_SEPARATELY]: 200000,
-    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
-    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 400000
-  }
-};
-
@@ -0,0 +1,105 @@
+/**
+ * Money - dollar amounts kept to exact cents.
+ * Amounts are stored as Decimal(12,2) and arrive as Prisma decimals, JSON
+ * strings, OCR text or numbers. They're parsed digit by digit into integer
+ * cents, added and multiplied as cents, and handed back as dollar numbers
+ * that always hold a whole number of cents - so 0.1 + 0.2 is 0.3 and the
+ * screen, the database and the PDF agree to the penny.
+ *
+ * Whole-dollar rounding follows the Form 1040 instructions: amounts under
+ * 50 cents are dropped and 50 to 99 cents go up to the next dollar. When
+ * two or more amounts are added for a line, cents are kept while adding and
+ * only the total is rounded.
+ */
+
+// Dollars - always a whole number of cents
+export type Money = number
+
+// Anything an amount can arrive as: a number, "1,234.56", "$(12.50)" or a Prisma Decimal
+export type MoneyInput = Money | string | { toString(): string } | null | undefined
+
+export type RoundingMode = 'CENTS' | 'WHOLE_DOLLARS'
+
+const MONEY_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/
+
+function centsFromString(value: string): number {
+  let cleaned = value.replace(/[$,\s]/g, '')
+  // Accounting negatives - (1,234.56)
+  if (/^\(.*\)$/.test(cleaned)) cleaned = `-${cleaned.slice(1, -1)}`
+  const match = cleaned.match(MONEY_PATTERN)
+  if (!match || (!match[2] && !match[3])) {
+    const parsed = Number(cleaned)
+    return Number.isFinite(parsed) ? centsFromNumber(parsed) : 0
+  }
+  const [, sign, whole, fraction = ''] = match
+  // Half a cent and up rounds away from zero
+  const cents = Number(whole || '0') * 100 + Number(fraction.padEnd(2, '0').slice(0, 2)) + (Number(fraction[2] || '0') >= 5 ? 1 : 0)
+  return sign && cents !== 0 ? -cents : cents
+}
+
+function centsFromNumber(value: number): number {
+  if (!Number.isFinite(value)) return 0
+  // toPrecision drops the binary noise, so 1.005 is 100.5 cents rather than 100.49999
+  const cents = Math.round(Math.abs(Number((value * 100).toPrecision(15))))
+  return value < 0 && cents !== 0 ? -cents : cents
+}
+
+export function toCents(value: MoneyInput): number {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'number') return centsFromNumber(value)
+  return centsFromString(value.toString())
+}
+
+export function fromCents(cents: number): Money {
+  return cents / 100
+}
+
+/**
+ * Parses any amount to dollars at exact cents.
+ */
+export function money(value: MoneyInput): Money {
+  return fromCents(toCents(value))
+}
+
+export function sumMoney(...values: MoneyInput[]): Money {
+  return fromCents(values.reduce((sum: number, value) => sum + toCents(value), 0))
+}
+
+export function addMoney(a: MoneyInput, b: MoneyInput): Money {
+  return fromCents(toCents(a) + toCents(b))
+}
+
+export function subtractMoney(a: MoneyInput, b: MoneyInput): Money {
+  return fromCents(toCents(a) - toCents(b))
+}
+
+/**
+ * An amount times a rate or fraction, to the nearest cent.
+ */
+export function multiplyMoney(amount: MoneyInput, factor: number): Money {
+  return money(toCents(amount) * factor / 100)
+}
+
+export function roundToWholeDollars(value: MoneyInput): Money {
+  const cents = toCents(value)
+  const dollars = Math.floor((Math.abs(cents) + 50) / 100)
+  return cents < 0 && dollars !== 0 ? -dollars : dollars
+}
+
+export function roundMoney(value: MoneyInput, mode: RoundingMode = 'CENTS'): Money {
+  return mode === 'WHOLE_DOLLARS' ? roundToWholeDollars(value) : money(value)
+}
+
+export function roundingMode(roundToWholeDollars?: boolean | null): RoundingMode {
+  return roundToWholeDollars ? 'WHOLE_DOLLARS' : 'CENTS'
+}
+
+export function formatMoney(value: MoneyInput, mode: RoundingMode = 'CENTS'): string {
+  const digits = mode === 'WHOLE_DOLLARS' ? 0 : 2
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(roundMoney(value, mode))
+}
@@ -236,3 +236,24 @@ export function extractNamesFromDocument(extractedData: any): ExtractedNames {
   
   return names
 }
+
+export interface SpouseProfile {
+  filingStatus?: string | null
+  spouseFirstName?: string | null
+  spouseLastName?: string | null
+  spouseSsn?: string | null
+}
+
+/**
+ * Whether a W-2 belongs to the spouse on a joint return. W-2 SSNs are often
+ * masked, so only the last four digits are compared, falling back to the name
+ */
+export function isSpouseW2(w2Data: { employeeName?: unknown, employeeSSN?: unknown }, profile: SpouseProfile | null | undefined): boolean {
+  if (!profile || profile.filingStatus !== 'MARRIED_FILING_JOINTLY') return false
+  const lastFour = (value: unknown) => String(value || '').replace(/\D/g, '').slice(-4)
+  if (lastFour(w2Data.employeeSSN) && lastFour(profile.spouseSsn)) {
+    return lastFour(w2Data.employeeSSN) === lastFour(profile.spouseSsn)
+  }
+  const spouseName = `${profile.spouseFirstName || ''} ${profile.spouseLastName || ''}`.trim().toLowerCase()
+  return !!spouseName && String(w2Data.employeeName || '').trim().toLowerCase() === spouseName
+}
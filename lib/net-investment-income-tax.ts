@@ -0,0 +1,53 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Form 8960 - Net Investment Income Tax
+ * 3.8% on the smaller of net investment income or MAGI above the filing
+ * status threshold. Rental, royalty and passive business income are not
+ * tracked separately yet, so investment income is interest, dividends and
+ * capital gains.
+ */
+
+export interface NetInvestmentIncomeTaxInput {
+  taxableInterest?: number // Form 1040 line 2b
+  ordinaryDividends?: number // Form 1040 line 3b
+  capitalGains?: number // Form 1040 line 7
+  otherInvestmentIncome?: number // Line 7 - other modifications, or a pre-combined total
+  investmentExpenses?: number // Lines 9a-9c
+  modifiedAGI: number
+  filingStatus: string
+  taxYear?: number
+}
+
+export interface NetInvestmentIncomeTaxResult {
+  netInvestmentIncome: number // Line 12
+  modifiedAGI: number // Line 13
+  threshold: number // Line 14
+  excessMAGI: number // Line 15
+  taxableAmount: number // Line 16
+  netInvestmentIncomeTax: number // Line 17 -> Schedule 2 line 12
+}
+
+const NET_INVESTMENT_INCOME_RATE = 0.038
+
+export function calculateNetInvestmentIncomeTax(input: NetInvestmentIncomeTaxInput): NetInvestmentIncomeTaxResult {
+  const threshold = getTaxRules(input.taxYear).netInvestmentIncomeTaxThreshold[normalizeFilingStatus(input.filingStatus)]
+
+  const line8 = (input.taxableInterest || 0) + (input.ordinaryDividends || 0) +
+                (input.capitalGains || 0) + (input.otherInvestmentIncome || 0)
+  const line12 = Math.max(0, line8 - Math.max(0, input.investmentExpenses || 0))
+  const line13 = input.modifiedAGI || 0
+  const line15 = Math.max(0, line13 - threshold)
+  const line16 = Math.min(line12, line15)
+  const line17 = money(line16 * NET_INVESTMENT_INCOME_RATE)
+
+  return {
+    netInvestmentIncome: line12,
+    modifiedAGI: line13,
+    threshold,
+    excessMAGI: line15,
+    taxableAmount: line16,
+    netInvestmentIncomeTax: line17,
+  }
+}
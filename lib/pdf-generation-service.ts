@@ -1,5 +1,7 @@
 
 import { Form1040Data, FilingStatus } from './form-1040-types';
+import { EstimatedTaxVoucherData } from './estimated-tax-planner';
+import { formatMoney, roundingMode, RoundingMode } from './money';
 import puppeteer from 'puppeteer';
 
 export class PDFGenerationService {
@@ -44,6 +46,8 @@ export class PDFGenerationService {
    * Generates HTML content for Form 1040
    */
   private static generateForm1040HTML(formData: Form1040Data): string {
+    const mode = roundingMode(formData.roundToWholeDollars);
+
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -267,35 +271,35 @@ export class PDFGenerationService {
         <div class="section-content">
             <div class="field-row">
                 <span class="field-label"><span class="line-number">1.</span> Total amount from Form(s) W-2, box 1</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line1)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line1, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">2a.</span> Tax-exempt interest</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line2a)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line2a, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">2b.</span> Taxable interest</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line2b)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line2b, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">3a.</span> Qualified dividends</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line3a)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line3a, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">3b.</span> Ordinary dividends</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line3b)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line3b, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">7.</span> Capital gain or (loss)</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line7)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line7, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">8.</span> Additional income from Schedule 1, line 10</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line8)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line8, mode)}</span>
             </div>
             <div class="field-row total-line">
                 <span class="field-label"><span class="line-number">9.</span> Add lines 1, 2b, 3b, 4b, 5b, 6b, 7, and 8. This is your total income</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line9)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line9, mode)}</span>
             </div>
         </div>
     </div>
@@ -306,11 +310,11 @@ export class PDFGenerationService {
         <div class="section-content">
             <div class="field-row">
                 <span class="field-label"><span class="line-number">10.</span> Adjustments to income from Schedule 1, line 26</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line10)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line10, mode)}</span>
             </div>
             <div class="field-row total-line">
                 <span class="field-label"><span class="line-number">11.</span> Subtract line 10 from line 9. This is your adjusted gross income</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line11)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line11, mode)}</span>
             </div>
         </div>
     </div>
@@ -321,19 +325,19 @@ export class PDFGenerationService {
         <div class="section-content">
             <div class="field-row">
                 <span class="field-label"><span class="line-number">12.</span> Standard deduction or itemized deductions</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line12)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line12, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">13.</span> Qualified business income deduction</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line13)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line13, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">14.</span> Add lines 12 and 13</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line14)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line14, mode)}</span>
             </div>
             <div class="field-row total-line">
                 <span class="field-label"><span class="line-number">15.</span> Subtract line 14 from line 11. This is your taxable income</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line15)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line15, mode)}</span>
             </div>
         </div>
     </div>
@@ -344,39 +348,39 @@ export class PDFGenerationService {
         <div class="section-content">
             <div class="field-row">
                 <span class="field-label"><span class="line-number">16.</span> Tax</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line16)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line16, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">17.</span> Amount from Schedule 2, line 3</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line17)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line17, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">18.</span> Add lines 16 and 17</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line18)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line18, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">19.</span> Child tax credit and credit for other dependents</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line19)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line19, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">20.</span> Amount from Schedule 3, line 8</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line20)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line20, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">21.</span> Add lines 19 and 20</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line21)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line21, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">22.</span> Subtract line 21 from line 18</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line22)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line22, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">23.</span> Other taxes from Schedule 2, line 21</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line23)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line23, mode)}</span>
             </div>
             <div class="field-row total-line">
                 <span class="field-label"><span class="line-number">24.</span> Add lines 22 and 23. This is your total tax</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line24)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line24, mode)}</span>
             </div>
         </div>
     </div>
@@ -387,23 +391,31 @@ export class PDFGenerationService {
         <div class="section-content">
             <div class="field-row">
                 <span class="field-label"><span class="line-number">25a.</span> Federal income tax withheld from Forms W-2 and 1099</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line25a)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line25a, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">25b.</span> 2023 estimated tax payments</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line25b)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line25b, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">25c.</span> Earned income credit (EIC)</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line25c)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line25c, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">25d.</span> Additional child tax credit</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line25d)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line25d, mode)}</span>
+            </div>
+            <div class="field-row">
+                <span class="field-label"><span class="line-number">29.</span> American opportunity credit from Form 8863, line 8</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line29, mode)}</span>
+            </div>
+            <div class="field-row">
+                <span class="field-label"><span class="line-number">31.</span> Amount from Schedule 3, line 15</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line31 || 0, mode)}</span>
             </div>
             <div class="field-row total-line">
                 <span class="field-label"><span class="line-number">32.</span> Add lines 25a through 31. These are your total payments</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line32)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line32, mode)}</span>
             </div>
         </div>
     </div>
@@ -415,11 +427,11 @@ export class PDFGenerationService {
             ${formData.line33 > 0 ? `
             <div class="field-row total-line" style="background-color: #e8f5e8;">
                 <span class="field-label"><span class="line-number">33.</span> Overpaid amount (Refund)</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line33)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line33, mode)}</span>
             </div>
             <div class="field-row">
                 <span class="field-label"><span class="line-number">34.</span> Amount of line 33 to be refunded to you</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line34)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line34, mode)}</span>
             </div>
             ${formData.line35a ? `
             <div style="margin-top: 10px;">
@@ -432,7 +444,7 @@ export class PDFGenerationService {
             ` : formData.line37 > 0 ? `
             <div class="field-row total-line" style="background-color: #fde8e8;">
                 <span class="field-label"><span class="line-number">37.</span> Amount you owe</span>
-                <span class="field-value currency">${this.formatCurrency(formData.line37)}</span>
+                <span class="field-value currency">${this.formatCurrency(formData.line37, mode)}</span>
             </div>
             <div style="margin-top: 10px;">
                 <strong>Payment Due Date:</strong> April 15, ${formData.taxYear + 1}
@@ -529,15 +541,10 @@ export class PDFGenerationService {
   }
 
   /**
-   * Formats currency values for display
+   * Formats currency values for display - to the cent, or whole dollars when the return rounds
    */
-  private static formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount || 0);
+  private static formatCurrency(amount: number, mode: RoundingMode = 'CENTS'): string {
+    return formatMoney(amount || 0, mode);
   }
 
   /**
@@ -579,6 +586,7 @@ export class PDFGenerationService {
    * Generates HTML for tax summary
    */
   private static generateTaxSummaryHTML(formData: Form1040Data): string {
+    const mode = roundingMode(formData.roundToWholeDollars);
     const isRefund = formData.line33 > 0;
     const finalAmount = isRefund ? formData.line33 : formData.line37;
     
@@ -701,7 +709,7 @@ export class PDFGenerationService {
                 ${isRefund ? 'Expected Refund' : finalAmount > 0 ? 'Amount Owed' : 'Tax Balance'}
             </div>
             <div class="result-amount">
-                ${this.formatCurrency(finalAmount)}
+                ${this.formatCurrency(finalAmount, mode)}
             </div>
             <div>
                 ${isRefund ? 'You overpaid your taxes and are entitled to a refund' : 
@@ -720,43 +728,43 @@ export class PDFGenerationService {
             <tbody>
                 <tr>
                     <td>Total Income (Line 9)</td>
-                    <td class="amount">${this.formatCurrency(formData.line9)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line9, mode)}</td>
                 </tr>
                 <tr>
                     <td>Adjustments to Income (Line 10)</td>
-                    <td class="amount">${this.formatCurrency(formData.line10)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line10, mode)}</td>
                 </tr>
                 <tr>
                     <td>Adjusted Gross Income (Line 11)</td>
-                    <td class="amount">${this.formatCurrency(formData.line11)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line11, mode)}</td>
                 </tr>
                 <tr>
                     <td>Standard Deduction (Line 12)</td>
-                    <td class="amount">${this.formatCurrency(formData.line12)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line12, mode)}</td>
                 </tr>
                 <tr>
                     <td>Taxable Income (Line 15)</td>
-                    <td class="amount">${this.formatCurrency(formData.line15)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line15, mode)}</td>
                 </tr>
                 <tr>
                     <td>Tax Liability (Line 16)</td>
-                    <td class="amount">${this.formatCurrency(formData.line16)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line16, mode)}</td>
                 </tr>
                 <tr class="total-row">
                     <td>Total Tax (Line 24)</td>
-                    <td class="amount">${this.formatCurrency(formData.line24)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line24, mode)}</td>
                 </tr>
                 <tr>
                     <td>Federal Tax Withheld (Line 25a)</td>
-                    <td class="amount">${this.formatCurrency(formData.line25a)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line25a, mode)}</td>
                 </tr>
                 <tr>
                     <td>Estimated Tax Payments (Line 25b)</td>
-                    <td class="amount">${this.formatCurrency(formData.line25b)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line25b, mode)}</td>
                 </tr>
                 <tr class="total-row">
                     <td>Total Payments (Line 32)</td>
-                    <td class="amount">${this.formatCurrency(formData.line32)}</td>
+                    <td class="amount">${this.formatCurrency(formData.line32, mode)}</td>
                 </tr>
             </tbody>
         </table>
@@ -766,6 +774,229 @@ export class PDFGenerationService {
         </div>
     </div>
 </body>
+</html>
+    `;
+  }
+
+  /**
+   * Generates the 1040-ES worksheet summary and a payment voucher for each
+   * installment that still has an amount due
+   */
+  static async generateEstimatedTaxVouchersPDF(voucherData: EstimatedTaxVoucherData): Promise<Buffer> {
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox']
+    });
+
+    try {
+      const page = await browser.newPage();
+      
+      const htmlContent = this.generateEstimatedTaxVouchersHTML(voucherData);
+      
+      await page.setContent(htmlContent, {
+        waitUntil: 'networkidle0'
+      });
+      
+      const pdfBuffer = await page.pdf({
+        format: 'Letter',
+        margin: {
+          top: '0.5in',
+          right: '0.5in',
+          bottom: '0.5in',
+          left: '0.5in'
+        },
+        printBackground: true
+      });
+      
+      return Buffer.from(pdfBuffer);
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Generates HTML for the 1040-ES vouchers
+   */
+  private static generateEstimatedTaxVouchersHTML(voucherData: EstimatedTaxVoucherData): string {
+    const { plan } = voucherData;
+    const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC'
+    });
+    const jointNames = voucherData.spouseFirstName
+      ? `${voucherData.firstName} ${voucherData.lastName} &amp; ${voucherData.spouseFirstName} ${voucherData.spouseLastName || voucherData.lastName}`
+      : `${voucherData.firstName} ${voucherData.lastName}`;
+    const vouchers = plan.installments.filter(installment => installment.remaining > 0);
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Form 1040-ES ${plan.taxYear} - ${voucherData.firstName} ${voucherData.lastName}</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            font-size: 10pt;
+            margin: 0;
+            padding: 20px;
+            color: #000;
+        }
+        
+        .summary-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 20px 0;
+        }
+        
+        .summary-table td {
+            padding: 6px 8px;
+            border-bottom: 1px solid #ddd;
+        }
+        
+        .summary-table .amount {
+            text-align: right;
+            font-family: monospace;
+        }
+        
+        .total-row {
+            font-weight: bold;
+            border-top: 2px solid #000;
+        }
+        
+        .voucher {
+            page-break-inside: avoid;
+            border-top: 2px dashed #000;
+            margin-top: 30px;
+            padding-top: 20px;
+        }
+        
+        .voucher-header {
+            display: flex;
+            justify-content: space-between;
+            border-bottom: 2px solid #000;
+            padding-bottom: 8px;
+        }
+        
+        .voucher-title {
+            font-size: 14pt;
+            font-weight: bold;
+        }
+        
+        .voucher-body {
+            display: flex;
+            border: 1px solid #000;
+            margin-top: 10px;
+        }
+        
+        .voucher-instructions {
+            flex: 1;
+            padding: 10px;
+            border-right: 1px solid #000;
+            font-size: 9pt;
+        }
+        
+        .voucher-amount {
+            width: 35%;
+            padding: 10px;
+        }
+        
+        .voucher-amount .amount {
+            font-size: 16pt;
+            font-weight: bold;
+            font-family: monospace;
+            text-align: right;
+            margin-top: 10px;
+        }
+        
+        .voucher-field {
+            margin: 6px 0;
+        }
+        
+        .voucher-field span {
+            display: inline-block;
+            width: 160px;
+            color: #555;
+        }
+    </style>
+</head>
+<body>
+    <h2>${plan.taxYear} Estimated Tax Worksheet</h2>
+    <p>${plan.explanation}</p>
+
+    <table class="summary-table">
+        <tr>
+            <td>Expected total tax (line 11c)</td>
+            <td class="amount">${this.formatCurrency(plan.expectedTax)}</td>
+        </tr>
+        <tr>
+            <td>90% of expected tax (line 12a)</td>
+            <td class="amount">${this.formatCurrency(plan.currentYearSafeHarbor)}</td>
+        </tr>
+        ${plan.priorYearSafeHarbor !== null ? `
+        <tr>
+            <td>${Math.round(plan.priorYearPercentage * 100)}% of ${plan.taxYear - 1} tax (line 12b)</td>
+            <td class="amount">${this.formatCurrency(plan.priorYearSafeHarbor)}</td>
+        </tr>
+        ` : ''}
+        <tr class="total-row">
+            <td>Required annual payment (line 12c)</td>
+            <td class="amount">${this.formatCurrency(plan.requiredAnnualPayment)}</td>
+        </tr>
+        <tr>
+            <td>Expected withholding (line 13)</td>
+            <td class="amount">${this.formatCurrency(plan.withholding)}</td>
+        </tr>
+        <tr class="total-row">
+            <td>Estimated tax to pay (line 14a)</td>
+            <td class="amount">${this.formatCurrency(plan.annualPaymentDue)}</td>
+        </tr>
+        ${plan.installments.map(installment => `
+        <tr>
+            <td>Voucher ${installment.voucher} - due ${formatDate(installment.dueDate)}${installment.paid > 0 ? ` (${this.formatCurrency(installment.paid)} paid)` : ''}</td>
+            <td class="amount">${this.formatCurrency(installment.remaining)}</td>
+        </tr>
+        `).join('')}
+    </table>
+
+    ${vouchers.map(installment => `
+    <div class="voucher">
+        <div class="voucher-header">
+            <div>
+                <div class="voucher-title">Form 1040-ES</div>
+                <div>Department of the Treasury<br>Internal Revenue Service</div>
+            </div>
+            <div class="voucher-title">${plan.taxYear} Estimated Tax</div>
+            <div style="text-align: right;">
+                <div class="voucher-title">Payment Voucher ${installment.voucher}</div>
+                <div>Calendar year - Due ${formatDate(installment.dueDate)}</div>
+            </div>
+        </div>
+        <div class="voucher-body">
+            <div class="voucher-instructions">
+                File only if you are making a payment of estimated tax by check or money order. Mail this
+                voucher with your check or money order payable to "United States Treasury." Write your
+                social security number and "${plan.taxYear} Form 1040-ES" on your check or money order.
+                Do not send cash. Enclose, but do not staple or attach, your payment with this voucher.
+                <div style="margin-top: 12px;">
+                    <div class="voucher-field"><span>Your name</span>${jointNames}</div>
+                    <div class="voucher-field"><span>Your SSN</span>${voucherData.ssn}</div>
+                    ${voucherData.spouseSsn ? `<div class="voucher-field"><span>Spouse's SSN</span>${voucherData.spouseSsn}</div>` : ''}
+                    <div class="voucher-field"><span>Address</span>${voucherData.address}</div>
+                    <div class="voucher-field"><span>City, state, ZIP code</span>${voucherData.city}, ${voucherData.state} ${voucherData.zipCode}</div>
+                </div>
+            </div>
+            <div class="voucher-amount">
+                Amount of estimated tax you are paying by check or money order.
+                <div class="amount">${this.formatCurrency(installment.remaining)}</div>
+            </div>
+        </div>
+    </div>
+    `).join('')}
+</body>
 </html>
     `;
   }
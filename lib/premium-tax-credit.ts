@@ -0,0 +1,203 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Form 8962 - Premium Tax Credit
+ * Household income as a percentage of the prior year's poverty line sets the
+ * applicable figure, the share of income the family is expected to pay toward
+ * the benchmark (second lowest cost silver) plan. Each month's credit is the
+ * smaller of the enrollment premium or the benchmark premium less that
+ * contribution. The credit is reconciled against the advance payments the
+ * Marketplace sent to the insurer: a larger credit is refunded on Schedule 3
+ * line 9, and excess advance payments are repaid on Schedule 2 line 2, limited
+ * by household income below 400% of the poverty line.
+ *
+ * Shared policy allocations (Part IV) and the marriage alternative
+ * calculation (Part V) aren't supported.
+ */
+
+export interface MarketplacePolicy {
+  issuerName?: string | null
+  policyNumber?: string | null
+  // Form 1095-A lines 21-32, January through December; months without coverage are 0
+  monthlyPremiums: number[] // Column A - monthly enrollment premiums
+  monthlySlcspPremiums: number[] // Column B - second lowest cost silver plan premium
+  monthlyAdvancePayments: number[] // Column C - advance payment of the premium tax credit
+}
+
+export interface PremiumTaxCreditInput {
+  policies: MarketplacePolicy[]
+  familySize: number // Line 1 - the taxpayer, spouse and dependents claimed
+  modifiedAGI: number // Line 2a - AGI plus tax-exempt interest and nontaxable social security
+  dependentsModifiedAGI?: number // Line 2b - dependents who are required to file
+  filingStatus: string
+  taxYear?: number
+  state?: string | null // Alaska and Hawaii have their own poverty lines
+}
+
+export interface Form8962Month {
+  month: number // 1-12
+  premium: number // Column (a)
+  slcspPremium: number // Column (b)
+  contribution: number // Column (c)
+  maxPremiumAssistance: number // Column (d)
+  credit: number // Column (e)
+  advancePayment: number // Column (f)
+}
+
+export interface PremiumTaxCreditResult {
+  familySize: number // Line 1
+  householdIncome: number // Line 3
+  povertyLine: number // Line 4
+  povertyPercent: number // Line 5
+  applicableFigure: number // Line 7
+  annualContribution: number // Line 8a
+  monthlyContribution: number // Line 8b
+  annualCalculation: boolean // Line 11 instead of lines 12-23
+  months: Form8962Month[]
+  eligible: boolean
+  totalCredit: number // Line 24
+  advancePayments: number // Line 25
+  netPremiumTaxCredit: number // Line 26 - Schedule 3 line 9
+  excessAdvancePayment: number // Line 27
+  repaymentLimit: number | null // Line 28 - null when repayment isn't limited
+  excessAdvanceRepayment: number // Line 29 - Schedule 2 line 2
+  explanation: string
+}
+
+const MONTHS = 12
+
+function povertyLineFor(familySize: number, state: string | null | undefined, taxYear?: number): number {
+  const { povertyLine } = getTaxRules(taxYear).premiumTaxCredit
+  const region = (state || '').trim().toUpperCase()
+  const guideline = region === 'AK' || region === 'ALASKA'
+    ? povertyLine.alaska
+    : region === 'HI' || region === 'HAWAII' ? povertyLine.hawaii : povertyLine.contiguous
+  return guideline.base + guideline.additional * (Math.max(1, familySize) - 1)
+}
+
+/**
+ * Table 2: interpolated within the household income band, to four decimal places.
+ */
+export function applicableFigure(povertyPercent: number, taxYear?: number): number {
+  const bands = getTaxRules(taxYear).premiumTaxCredit.applicableFigures
+  const band = bands.find(item => povertyPercent >= item.from && povertyPercent < item.to) || bands[bands.length - 1]
+  const figure = band.to === Infinity || band.final === band.initial
+    ? band.initial
+    : band.initial + (povertyPercent - band.from) / (band.to - band.from) * (band.final - band.initial)
+  return Math.round(figure * 10000) / 10000
+}
+
+/**
+ * Table 5: repayment of excess advance payments is capped below 400% of the
+ * poverty line. Married filing separately uses the larger amount.
+ */
+export function repaymentLimit(povertyPercent: number, filingStatus: string, taxYear?: number): number | null {
+  const tier = getTaxRules(taxYear).premiumTaxCredit.repaymentLimits.find(item => povertyPercent < item.below)
+  if (!tier) return null
+  return normalizeFilingStatus(filingStatus) === FilingStatus.SINGLE ? tier.single : tier.other
+}
+
+export function calculatePremiumTaxCredit(input: PremiumTaxCreditInput): PremiumTaxCreditResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const familySize = Math.max(1, Math.floor(input.familySize || 1))
+
+  // Part I - annual and monthly contribution amount
+  const householdIncome = money(Math.max(0, input.modifiedAGI || 0) + Math.max(0, input.dependentsModifiedAGI || 0))
+  const povertyLine = povertyLineFor(familySize, input.state, input.taxYear)
+  // Whole percentage, dropping the decimals; 401 stands for anything above 400
+  const povertyPercent = Math.min(401, Math.floor(householdIncome / povertyLine * 100))
+  const figure = applicableFigure(povertyPercent, input.taxYear)
+  const annualContribution = Math.round(householdIncome * figure)
+  const monthlyContribution = Math.round(annualContribution / MONTHS)
+
+  // Multiple 1095-As covering the same family are combined month by month
+  const column = (pick: (policy: MarketplacePolicy) => number[]) => Array.from({ length: MONTHS }, (_, index) =>
+    money(input.policies.reduce((sum, policy) => sum + (Number(pick(policy)[index]) || 0), 0))
+  )
+  const premiums = column(policy => policy.monthlyPremiums)
+  const slcspPremiums = column(policy => policy.monthlySlcspPremiums)
+  const advancePayments = column(policy => policy.monthlyAdvancePayments)
+
+  // Not an applicable taxpayer: married filing separately, or below the poverty line without advance payments
+  const totalAdvance = money(advancePayments.reduce((sum, amount) => sum + amount, 0))
+  const eligible = status !== FilingStatus.MARRIED_FILING_SEPARATELY && (povertyPercent >= 100 || totalAdvance > 0)
+
+  // Part II - line 11 when the same coverage ran all year, otherwise lines 12-23
+  const annualCalculation = premiums.every(amount => amount > 0 && amount === premiums[0]) &&
+                            slcspPremiums.every(amount => amount === slcspPremiums[0]) &&
+                            advancePayments.every(amount => amount === advancePayments[0])
+  const months: Form8962Month[] = premiums.map((premium, index) => {
+    const covered = premium > 0
+    const contribution = covered ? monthlyContribution : 0
+    const maxPremiumAssistance = covered ? Math.max(0, slcspPremiums[index] - contribution) : 0
+    return {
+      month: index + 1,
+      premium,
+      slcspPremium: covered ? slcspPremiums[index] : 0,
+      contribution,
+      maxPremiumAssistance,
+      credit: eligible ? Math.min(premium, maxPremiumAssistance) : 0,
+      advancePayment: advancePayments[index],
+    }
+  })
+
+  let totalCredit: number
+  if (!eligible) {
+    totalCredit = 0
+  } else if (annualCalculation) {
+    const annualPremium = premiums.reduce((sum, amount) => sum + amount, 0)
+    const annualSlcsp = slcspPremiums.reduce((sum, amount) => sum + amount, 0)
+    totalCredit = money(Math.min(annualPremium, Math.max(0, annualSlcsp - annualContribution)))
+  } else {
+    totalCredit = money(months.reduce((sum, month) => sum + month.credit, 0))
+  }
+
+  // Part III - reconciliation
+  const netPremiumTaxCredit = Math.max(0, money(totalCredit - totalAdvance))
+  const excessAdvancePayment = Math.max(0, money(totalAdvance - totalCredit))
+  const limit = excessAdvancePayment > 0 ? repaymentLimit(povertyPercent, status, input.taxYear) : null
+  const excessAdvanceRepayment = limit === null ? excessAdvancePayment : Math.min(excessAdvancePayment, limit)
+
+  let explanation: string
+  if (input.policies.length === 0 || premiums.every(amount => amount <= 0)) {
+    explanation = 'No Marketplace coverage.'
+  } else if (status === FilingStatus.MARRIED_FILING_SEPARATELY) {
+    explanation = 'Married filing separately can\'t take the premium tax credit, so advance payments are repaid.'
+  } else if (!eligible) {
+    explanation = `Household income of ${povertyPercent}% of the poverty line is below 100%, so no premium tax credit is allowed.`
+  } else {
+    explanation = `Household income of $${householdIncome.toLocaleString()} is ${povertyPercent >= 401 ? 'over 400' : povertyPercent}% of the ` +
+                  `$${povertyLine.toLocaleString()} poverty line for ${familySize}, so the expected contribution is ` +
+                  `${(figure * 100).toFixed(2)}% ($${annualContribution.toLocaleString()}). `
+    if (netPremiumTaxCredit > 0) {
+      explanation += `The credit of $${totalCredit.toLocaleString()} exceeds advance payments by $${netPremiumTaxCredit.toLocaleString()}.`
+    } else if (excessAdvancePayment > 0) {
+      explanation += `Advance payments exceeded the $${totalCredit.toLocaleString()} credit by $${excessAdvancePayment.toLocaleString()}` +
+                     (limit !== null && limit < excessAdvancePayment ? `; repayment is limited to $${limit.toLocaleString()}.` : ', all of which is repaid.')
+    } else {
+      explanation += 'Advance payments match the credit.'
+    }
+  }
+
+  return {
+    familySize,
+    householdIncome,
+    povertyLine,
+    povertyPercent,
+    applicableFigure: figure,
+    annualContribution,
+    monthlyContribution,
+    annualCalculation,
+    months,
+    eligible,
+    totalCredit,
+    advancePayments: totalAdvance,
+    netPremiumTaxCredit,
+    excessAdvancePayment,
+    repaymentLimit: limit,
+    excessAdvanceRepayment,
+    explanation,
+  }
+}
@@ -0,0 +1,153 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Qualified Business Income Deduction - Form 8995 / Form 8995-A
+ * 20% of qualified business income, limited to 20% of taxable income less net
+ * capital gain. Below the threshold that's all there is (Form 8995). Above it
+ * (Form 8995-A) each business is also limited by its W-2 wages and UBIA, and a
+ * specified service trade or business (SSTB) is phased out entirely; both
+ * phase in across the range above the threshold.
+ *
+ * QBI is Schedule C profit less the deductions attributable to it - the
+ * deductible half of SE tax from Schedule SE and any business expenses that
+ * weren't entered against a specific business, both spread across businesses
+ * in proportion to their profit.
+ */
+
+export interface QualifiedBusiness {
+  name: string
+  netProfit: number // Schedule C line 31
+  w2Wages?: number // W-2 wages the business paid
+  ubia?: number // Unadjusted basis immediately after acquisition of qualified property
+  specifiedService?: boolean // SSTB - health, law, consulting, financial services, etc.
+}
+
+export interface QualifiedBusinessIncomeInput {
+  businesses: QualifiedBusiness[]
+  taxableIncomeBeforeQBI: number // Form 1040 line 11 minus line 12
+  netCapitalGain?: number // Qualified dividends plus net capital gain
+  filingStatus: string
+  taxYear?: number
+  deductibleSelfEmploymentTax?: number // Schedule 1 line 15
+  businessExpenses?: number // Expenses not already netted into a business's profit
+  priorYearLossCarryforward?: number // Qualified business loss carried in, as a positive amount
+}
+
+export interface QualifiedBusinessResult {
+  name: string
+  qualifiedBusinessIncome: number // After attributable deductions and loss netting
+  applicablePercentage: number // SSTB phase-out; 1 for other businesses
+  qbiComponent: number // 20% of QBI before the wage/UBIA limit
+  wageLimit: number | null // Greater of 50% of W-2 wages or 25% of wages plus 2.5% of UBIA
+  deductibleAmount: number
+}
+
+export interface QualifiedBusinessIncomeResult {
+  form: '8995' | '8995-A'
+  threshold: number
+  phaseInRange: number
+  phaseInPercentage: number // How far taxable income is through the phase-in range
+  businesses: QualifiedBusinessResult[]
+  totalQualifiedBusinessIncome: number
+  qbiComponent: number // Sum of each business's deductible amount
+  incomeLimitation: number // 20% of taxable income less net capital gain
+  deduction: number // Form 1040 line 13
+  lossCarryforward: number // Qualified business loss to carry to next year
+  explanation: string
+}
+
+const QBI_RATE = 0.2
+const WAGE_RATE = 0.5
+const WAGE_AND_PROPERTY_WAGE_RATE = 0.25
+const PROPERTY_RATE = 0.025
+
+export function calculateQualifiedBusinessIncome(input: QualifiedBusinessIncomeInput): QualifiedBusinessIncomeResult {
+  const rules = getTaxRules(input.taxYear).qualifiedBusinessIncome
+  const status = normalizeFilingStatus(input.filingStatus)
+  const threshold = rules.threshold[status]
+  const phaseInRange = rules.phaseInRange[status]
+  const taxableIncome = Math.max(0, input.taxableIncomeBeforeQBI || 0)
+  const excess = Math.max(0, taxableIncome - threshold)
+  const phaseInPercentage = Math.min(1, excess / phaseInRange)
+  const form = excess > 0 ? '8995-A' : '8995'
+
+  // Spread the unassigned deductions across profitable businesses
+  const businesses = (input.businesses || []).filter(business => business.netProfit)
+  const totalProfit = businesses.reduce((sum, business) => sum + Math.max(0, business.netProfit), 0)
+  const unassigned = Math.max(0, input.deductibleSelfEmploymentTax || 0) + Math.max(0, input.businessExpenses || 0)
+  const withDeductions = businesses.map(business => ({
+    ...business,
+    qbi: business.netProfit - (totalProfit > 0 ? unassigned * Math.max(0, business.netProfit) / totalProfit : 0),
+  }))
+
+  // Net losses (including a loss carried in) against the profitable businesses pro rata
+  const totalQualifiedBusinessIncome = withDeductions.reduce((sum, business) => sum + business.qbi, 0) -
+                                       Math.max(0, input.priorYearLossCarryforward || 0)
+  const totalGains = withDeductions.reduce((sum, business) => sum + Math.max(0, business.qbi), 0)
+  const totalLoss = totalGains - totalQualifiedBusinessIncome
+  const netted = withDeductions.map(business => ({
+    ...business,
+    qbi: business.qbi > 0 && totalGains > 0 ? Math.max(0, business.qbi - totalLoss * business.qbi / totalGains) : 0,
+  }))
+
+  const results: QualifiedBusinessResult[] = netted.map(business => {
+    const applicablePercentage = business.specifiedService ? 1 - phaseInPercentage : 1
+    const qbi = business.qbi * applicablePercentage
+    const qbiComponent = money(qbi * QBI_RATE)
+    if (form === '8995') {
+      return { name: business.name, qualifiedBusinessIncome: business.qbi, applicablePercentage, qbiComponent, wageLimit: null, deductibleAmount: qbiComponent }
+    }
+
+    const wages = Math.max(0, business.w2Wages || 0) * applicablePercentage
+    const ubia = Math.max(0, business.ubia || 0) * applicablePercentage
+    const wageLimit = money(Math.max(wages * WAGE_RATE, wages * WAGE_AND_PROPERTY_WAGE_RATE + ubia * PROPERTY_RATE))
+    let deductibleAmount = qbiComponent
+    if (wageLimit < qbiComponent) {
+      // Part III phase-in: the reduction grows with taxable income through the range
+      deductibleAmount = phaseInPercentage >= 1
+        ? wageLimit
+        : qbiComponent - (qbiComponent - wageLimit) * phaseInPercentage
+    }
+    return {
+      name: business.name,
+      qualifiedBusinessIncome: business.qbi,
+      applicablePercentage,
+      qbiComponent,
+      wageLimit,
+      deductibleAmount: money(deductibleAmount),
+    }
+  })
+
+  const qbiComponent = results.reduce((sum, business) => sum + business.deductibleAmount, 0)
+  const incomeLimitation = money(Math.max(0, taxableIncome - Math.max(0, input.netCapitalGain || 0)) * QBI_RATE)
+  const deduction = money(Math.min(qbiComponent, incomeLimitation))
+  const lossCarryforward = Math.max(0, -totalQualifiedBusinessIncome)
+
+  let explanation: string
+  if (lossCarryforward > 0) {
+    explanation = `Businesses had a net qualified loss of $${lossCarryforward.toLocaleString()}, which carries forward to next year.`
+  } else if (deduction === 0) {
+    explanation = 'No qualified business income deduction.'
+  } else if (form === '8995') {
+    explanation = `Taxable income is at or below the $${threshold.toLocaleString()} threshold, so the deduction is 20% of qualified business income` +
+                  (deduction < qbiComponent ? ', limited to 20% of taxable income less net capital gain.' : '.')
+  } else {
+    explanation = `Taxable income is ${Math.round(phaseInPercentage * 100)}% of the way through the phase-in range above $${threshold.toLocaleString()}, ` +
+                  'so W-2 wage/UBIA limits and the SSTB exclusion apply to that extent.'
+  }
+
+  return {
+    form,
+    threshold,
+    phaseInRange,
+    phaseInPercentage,
+    businesses: results,
+    totalQualifiedBusinessIncome,
+    qbiComponent,
+    incomeLimitation,
+    deduction,
+    lossCarryforward,
+    explanation,
+  }
+}
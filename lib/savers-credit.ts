@@ -0,0 +1,170 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { addMoney, money } from './money'
+
+/**
+ * Form 8880 - Credit for Qualified Retirement Savings Contributions
+ * The Saver's Credit is 50%, 20% or 10% of up to $2,000 of retirement
+ * contributions per person, depending on which AGI tier the return falls in.
+ * Contributions are reduced by distributions taken in the testing period, and
+ * the credit is limited by tax left after the earlier Schedule 3 credits.
+ * Eligibility checks the form leaves to the filer (age 18, full-time student,
+ * claimed as a dependent) aren't tracked here.
+ */
+
+export interface SaversCreditPerson {
+  iraContributions?: number // Line 1 - traditional and Roth IRA contributions
+  electiveDeferrals?: number // Line 2 - W-2 box 12 codes D, E and G
+  distributions?: number // Line 4 - distributions received in the testing period
+}
+
+export interface SaversCreditInput {
+  taxpayer: SaversCreditPerson
+  spouse?: SaversCreditPerson // Joint returns only
+  adjustedGrossIncome: number // Form 1040 line 11
+  filingStatus: string
+  taxYear?: number
+  // Credit Limit Worksheet: Form 1040 line 18 less Schedule 3 lines 1-3
+  taxLiabilityLimit: number
+}
+
+export interface SaversCreditResult {
+  contributions: number // Line 3, both columns
+  distributions: number // Line 4, both columns
+  eligibleContributions: number // Line 7
+  creditRate: number // Line 9
+  tentativeCredit: number // Line 10
+  creditLimit: number // Line 11
+  credit: number // Line 12 -> Schedule 3 line 4
+  explanation: string
+}
+
+export interface SaversCreditTierSuggestion {
+  extraContribution: number // Pre-tax contribution that brings AGI down to the next tier
+  adjustedGrossIncome: number
+  currentRate: number
+  newRate: number
+  creditIncrease: number
+}
+
+const MAX_CONTRIBUTION_PER_PERSON = 2000
+// How much more someone would reasonably contribute to reach a better tier
+const NEAR_TIER_CONTRIBUTION = 1000
+
+// W-2 box 12 codes for elective deferrals that count on Form 8880 line 2
+export const ELECTIVE_DEFERRAL_CODES = ['D', 'E', 'G']
+
+/**
+ * Totals the W-2 box 12 entries, such as "D 5000.00" or "G5,000", whose code
+ * is one of the given codes.
+ */
+export function box12Total(entries: Array<string | null | undefined>, codes: string[]): number {
+  return entries.reduce<number>((sum, entry) => {
+    const match = (entry || '').trim().match(/^([A-Z]{1,2})\s*[-:]?\s*\$?([0-9,]+(?:\.\d+)?)$/i)
+    if (!match || !codes.includes(match[1].toUpperCase())) return sum
+    return addMoney(sum, match[2])
+  }, 0)
+}
+
+export function electiveDeferralsFromBox12(entries: Array<string | null | undefined>): number {
+  return box12Total(entries, ELECTIVE_DEFERRAL_CODES)
+}
+
+/**
+ * Line 9: the credit rate for an AGI. Married filing separately and qualifying
+ * surviving spouses use the single column.
+ */
+export function saversCreditRate(adjustedGrossIncome: number, filingStatus: string, taxYear?: number): number {
+  const rules = getTaxRules(taxYear).saversCredit
+  const status = normalizeFilingStatus(filingStatus)
+  const agi = Math.max(0, adjustedGrossIncome || 0)
+  if (agi <= rules.fiftyPercentMax[status]) return 0.5
+  if (agi <= rules.twentyPercentMax[status]) return 0.2
+  if (agi <= rules.tenPercentMax[status]) return 0.1
+  return 0
+}
+
+/**
+ * Lines 1-6 for one person: contributions less distributions, capped at $2,000.
+ */
+function eligibleContributionsFor(person: SaversCreditPerson | undefined) {
+  const contributions = Math.max(0, person?.iraContributions || 0) + Math.max(0, person?.electiveDeferrals || 0)
+  const distributions = Math.max(0, person?.distributions || 0)
+  return {
+    contributions,
+    distributions,
+    eligible: Math.min(Math.max(0, contributions - distributions), MAX_CONTRIBUTION_PER_PERSON),
+  }
+}
+
+export function calculateSaversCredit(input: SaversCreditInput): SaversCreditResult {
+  const joint = normalizeFilingStatus(input.filingStatus) === FilingStatus.MARRIED_FILING_JOINTLY
+  const taxpayer = eligibleContributionsFor(input.taxpayer)
+  const spouse = eligibleContributionsFor(joint ? input.spouse : undefined)
+
+  const line3 = taxpayer.contributions + spouse.contributions
+  const line4 = taxpayer.distributions + spouse.distributions
+  const line7 = taxpayer.eligible + spouse.eligible
+  const line9 = saversCreditRate(input.adjustedGrossIncome, input.filingStatus, input.taxYear)
+  const line10 = money(line7 * line9)
+  const line11 = Math.max(0, input.taxLiabilityLimit || 0)
+  const line12 = Math.min(line10, line11)
+
+  let explanation: string
+  if (line3 === 0) {
+    explanation = 'No retirement contributions entered.'
+  } else if (line7 === 0) {
+    explanation = `Distributions of $${line4.toLocaleString()} cancel out the $${line3.toLocaleString()} of retirement contributions.`
+  } else if (line9 === 0) {
+    explanation = `AGI of $${Math.round(input.adjustedGrossIncome).toLocaleString()} is above the Saver's Credit limit.`
+  } else {
+    explanation = `${Math.round(line9 * 100)}% of $${line7.toLocaleString()} in eligible contributions` +
+                  (line12 < line10 ? `, limited to $${line12.toLocaleString()} of tax.` : '.')
+  }
+
+  return {
+    contributions: line3,
+    distributions: line4,
+    eligibleContributions: line7,
+    creditRate: line9,
+    tentativeCredit: line10,
+    creditLimit: line11,
+    credit: line12,
+    explanation,
+  }
+}
+
+/**
+ * A pre-tax contribution (401(k) deferral or deductible IRA) lowers AGI and
+ * adds to line 1/2 at the same time. When AGI is just over a tier boundary,
+ * returns the contribution that reaches the better tier and what it adds to
+ * the credit; null when it would take more than a small contribution.
+ */
+export function saversCreditTierSuggestion(input: SaversCreditInput): SaversCreditTierSuggestion | null {
+  const rules = getTaxRules(input.taxYear).saversCredit
+  const status = normalizeFilingStatus(input.filingStatus)
+  const agi = Math.max(0, input.adjustedGrossIncome || 0)
+  const boundary = [rules.tenPercentMax[status], rules.twentyPercentMax[status], rules.fiftyPercentMax[status]]
+    .find(max => max < agi)
+  if (boundary === undefined) return null
+
+  const extraContribution = Math.ceil(agi - boundary)
+  if (extraContribution > NEAR_TIER_CONTRIBUTION) return null
+
+  const current = calculateSaversCredit(input)
+  const improved = calculateSaversCredit({
+    ...input,
+    taxpayer: { ...input.taxpayer, electiveDeferrals: (input.taxpayer.electiveDeferrals || 0) + extraContribution },
+    adjustedGrossIncome: agi - extraContribution,
+  })
+  const creditIncrease = money(improved.credit - current.credit)
+  if (creditIncrease <= 0) return null
+
+  return {
+    extraContribution,
+    adjustedGrossIncome: agi - extraContribution,
+    currentRate: current.creditRate,
+    newRate: improved.creditRate,
+    creditIncrease,
+  }
+}
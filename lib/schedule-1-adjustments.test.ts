@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { hsaEmployerContributionsFromBox12 } from './schedule-1-adjustments'
+import { computeForm1040 } from './form-1040-engine'
+
+describe('hsaEmployerContributionsFromBox12', () => {
+  it('totals the code W entries only', () => {
+    assert.equal(hsaEmployerContributionsFromBox12(['W 1,200.50', 'D 5000', null, 'w1800']), 3000.5)
+  })
+})
+
+describe('computeForm1040 HSA deduction', () => {
+  const input = {
+    taxYear: 2024,
+    filingStatus: 'SINGLE',
+    incomeEntries: [{ incomeType: 'W2_WAGES', amount: '60000.00', hsaEmployerContributions: '3000.00' }],
+    deductionEntries: [{ deductionType: 'HSA_CONTRIBUTIONS', amount: '4000.00' }]
+  }
+
+  it('takes employer contributions off the self-only limit', () => {
+    assert.equal(computeForm1040(input).form1040Data.schedule1?.healthSavingsAccountDeduction, 1150)
+  })
+
+  it('uses the family limit for family coverage', () => {
+    assert.equal(computeForm1040({ ...input, hsaFamilyCoverage: true }).form1040Data.schedule1?.healthSavingsAccountDeduction, 4000)
+  })
+
+  it('adds the catch-up contribution from age 55', () => {
+    assert.equal(computeForm1040({ ...input, taxpayerBirthDate: '1965-03-01' }).form1040Data.schedule1?.healthSavingsAccountDeduction, 2150)
+  })
+})
+
+describe('computeForm1040 IRA deduction', () => {
+  const input = {
+    taxYear: 2024,
+    filingStatus: 'MARRIED_FILING_JOINTLY',
+    incomeEntries: [
+      { incomeType: 'W2_WAGES', amount: '150000.00' },
+      { incomeType: 'W2_WAGES', amount: '50000.00', retirementPlan: true, spouseW2: true }
+    ],
+    deductionEntries: [{ deductionType: 'IRA_CONTRIBUTIONS', amount: '7000.00' }]
+  }
+
+  it('uses the spouse-covered phase-out when only the spouse\'s W-2 has box 13 checked', () => {
+    assert.equal(computeForm1040(input).form1040Data.schedule1?.iraDeduction, 7000)
+  })
+
+  it('phases out when the taxpayer\'s own W-2 has box 13 checked', () => {
+    const incomeEntries = input.incomeEntries.map(entry => ({ ...entry, spouseW2: !entry.spouseW2 }))
+    assert.equal(computeForm1040({ ...input, incomeEntries }).form1040Data.schedule1?.iraDeduction, 0)
+  })
+})
@@ -0,0 +1,179 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+import { box12Total } from './savers-credit'
+
+/**
+ * Schedule 1 Part II - Adjustments to Income
+ * Above-the-line deductions that take gross income (Form 1040 line 9) down to
+ * AGI. The traditional IRA and student loan interest deductions phase out on
+ * modified AGI, so they're worked last: IRA MAGI excludes both deductions,
+ * student loan MAGI excludes only its own.
+ */
+
+export interface Schedule1AdjustmentsInput {
+  grossIncome: number // Form 1040 line 9
+  filingStatus: string
+  taxYear?: number
+  educatorExpenses?: number
+  eligibleEducators?: number // 2 when both spouses on a joint return are educators
+  hsaContributions?: number // Contributions made outside payroll
+  hsaFamilyCoverage?: boolean
+  hsaEmployerContributions?: number // W-2 box 12 code W
+  deductibleSelfEmploymentTax?: number // Schedule SE line 13
+  earlyWithdrawalPenalty?: number // 1099-INT box 2
+  iraContributions?: number
+  spouseIraContributions?: number
+  compensation?: number // Wages plus net self-employment earnings - caps IRA contributions
+  coveredByWorkplacePlan?: boolean // W-2 box 13
+  spouseCoveredByWorkplacePlan?: boolean
+  taxpayerAge?: number
+  spouseAge?: number
+  studentLoanInterest?: number // 1098-E box 1
+}
+
+export interface Schedule1AdjustmentsResult {
+  educatorExpenses: number // Line 11
+  hsaDeduction: number // Line 13 (Form 8889 line 13)
+  deductibleSelfEmploymentTax: number // Line 15
+  earlyWithdrawalPenalty: number // Line 18
+  iraModifiedAGI: number
+  iraDeduction: number // Line 20
+  studentLoanModifiedAGI: number
+  studentLoanInterestDeduction: number // Line 21
+  totalAdjustments: number // Line 26 -> Form 1040 line 10
+  notes: string[]
+}
+
+// DeductionType values that are adjustments to income rather than itemized deductions
+export const SCHEDULE_1_DEDUCTION_TYPES = [
+  'STUDENT_LOAN_INTEREST',
+  'IRA_CONTRIBUTIONS',
+  'HSA_CONTRIBUTIONS',
+  'EDUCATOR_EXPENSES',
+  'EARLY_WITHDRAWAL_PENALTY',
+]
+
+// W-2 box 12 code for employer HSA contributions, pre-tax payroll contributions included
+export const HSA_EMPLOYER_CONTRIBUTION_CODE = 'W'
+
+const IRA_CATCH_UP_AGE = 50
+const HSA_CATCH_UP_AGE = 55
+const IRA_MINIMUM_DEDUCTION = 200
+const IRA_ROUNDING_STEP = 10
+
+export function hsaEmployerContributionsFromBox12(entries: Array<string | null | undefined>): number {
+  return box12Total(entries, [HSA_EMPLOYER_CONTRIBUTION_CODE])
+}
+
+/**
+ * Pub 590-A Worksheet 1-2: the contribution limit shrinks proportionally across
+ * the phase-out range, rounded up to the next $10, with a $200 floor until
+ * MAGI reaches the top of the range.
+ */
+function phasedIraLimit(limit: number, modifiedAGI: number, start: number, range: number): number {
+  if (modifiedAGI <= start) return limit
+  if (modifiedAGI >= start + range) return 0
+  const reduced = Math.ceil((limit * (start + range - modifiedAGI) / range) / IRA_ROUNDING_STEP) * IRA_ROUNDING_STEP
+  return Math.min(limit, Math.max(IRA_MINIMUM_DEDUCTION, reduced))
+}
+
+export function calculateSchedule1Adjustments(input: Schedule1AdjustmentsInput): Schedule1AdjustmentsResult {
+  const rules = getTaxRules(input.taxYear)
+  const status = normalizeFilingStatus(input.filingStatus)
+  const joint = status === FilingStatus.MARRIED_FILING_JOINTLY
+  const notes: string[] = []
+
+  // Line 11 - educator expenses
+  const educators = joint ? Math.min(2, Math.max(1, input.eligibleEducators || 1)) : 1
+  const line11 = Math.min(Math.max(0, input.educatorExpenses || 0), rules.educatorExpenseLimit * educators)
+  if ((input.educatorExpenses || 0) > line11) {
+    notes.push(`Educator expenses are limited to $${(rules.educatorExpenseLimit * educators).toLocaleString()}.`)
+  }
+
+  // Line 13 - HSA deduction (Form 8889 Part I)
+  const limits = rules.contributionLimits
+  const hsaLimit = (input.hsaFamilyCoverage ? limits.hsaFamily : limits.hsaSelfOnly) +
+                   ((input.taxpayerAge || 0) >= HSA_CATCH_UP_AGE ? limits.hsaCatchUp : 0)
+  const hsaRoom = Math.max(0, hsaLimit - Math.max(0, input.hsaEmployerContributions || 0))
+  const line13 = Math.min(Math.max(0, input.hsaContributions || 0), hsaRoom)
+  if ((input.hsaContributions || 0) > line13) {
+    notes.push(`HSA deduction is limited to $${hsaRoom.toLocaleString()} after employer contributions.`)
+  }
+
+  const line15 = Math.max(0, input.deductibleSelfEmploymentTax || 0)
+  const line18 = Math.max(0, input.earlyWithdrawalPenalty || 0)
+
+  // Line 20 - traditional IRA deduction
+  const iraModifiedAGI = (input.grossIncome || 0) - (line11 + line13 + line15 + line18)
+  const iraRules = rules.iraDeduction
+  const iraLimitFor = (age: number | undefined) => limits.ira + ((age || 0) >= IRA_CATCH_UP_AGE ? limits.iraCatchUp : 0)
+  const deductibleLimitFor = (limit: number, covered: boolean, otherCovered: boolean) => {
+    if (covered) {
+      return phasedIraLimit(limit, iraModifiedAGI, iraRules.coveredPhaseOutStart[status], iraRules.coveredPhaseOutRange[status])
+    }
+    if (otherCovered && joint) {
+      return phasedIraLimit(limit, iraModifiedAGI, iraRules.spouseCoveredPhaseOutStart, iraRules.spouseCoveredPhaseOutRange)
+    }
+    if (otherCovered && status === FilingStatus.MARRIED_FILING_SEPARATELY) {
+      return phasedIraLimit(limit, iraModifiedAGI, iraRules.coveredPhaseOutStart[status], iraRules.coveredPhaseOutRange[status])
+    }
+    return limit
+  }
+
+  const taxpayerContributions = Math.max(0, input.iraContributions || 0)
+  const spouseContributions = joint ? Math.max(0, input.spouseIraContributions || 0) : 0
+  // Contributions can't exceed taxable compensation (combined on a joint return)
+  const compensation = input.compensation ?? input.grossIncome ?? 0
+  let compensationLeft = Math.max(0, compensation)
+  const taxpayerAllowed = Math.min(
+    deductibleLimitFor(iraLimitFor(input.taxpayerAge), !!input.coveredByWorkplacePlan, !!input.spouseCoveredByWorkplacePlan),
+    compensationLeft
+  )
+  const taxpayerIra = Math.min(taxpayerContributions, taxpayerAllowed)
+  compensationLeft -= taxpayerIra
+  const spouseIra = Math.min(
+    spouseContributions,
+    deductibleLimitFor(iraLimitFor(input.spouseAge), !!input.spouseCoveredByWorkplacePlan, !!input.coveredByWorkplacePlan),
+    compensationLeft
+  )
+  const line20 = taxpayerIra + spouseIra
+  if (taxpayerContributions + spouseContributions > line20) {
+    notes.push(input.coveredByWorkplacePlan || input.spouseCoveredByWorkplacePlan
+      ? `IRA deduction is limited to $${line20.toLocaleString()} because of workplace retirement plan coverage at a modified AGI of $${iraModifiedAGI.toLocaleString()}; the rest is a nondeductible contribution (Form 8606).`
+      : `IRA deduction is limited to $${line20.toLocaleString()} by the contribution limit or taxable compensation.`)
+  }
+
+  // Line 21 - student loan interest deduction
+  const studentLoanModifiedAGI = iraModifiedAGI - line20
+  const interest = Math.min(Math.max(0, input.studentLoanInterest || 0), rules.studentLoanInterest.maxDeduction)
+  let line21 = 0
+  if (interest > 0) {
+    if (status === FilingStatus.MARRIED_FILING_SEPARATELY) {
+      notes.push('Student loan interest cannot be deducted when married filing separately.')
+    } else {
+      const start = rules.studentLoanInterest.phaseOutStart[status]
+      const range = rules.studentLoanInterest.phaseOutRange[status]
+      const ratio = Math.min(1, Math.max(0, studentLoanModifiedAGI - start) / range)
+      line21 = money(interest * (1 - ratio))
+      if (ratio > 0) {
+        notes.push(`Student loan interest deduction is reduced to $${line21.toLocaleString()} by the phase-out starting at $${start.toLocaleString()} of modified AGI.`)
+      }
+    }
+  }
+
+  const line26 = line11 + line13 + line15 + line18 + line20 + line21
+
+  return {
+    educatorExpenses: line11,
+    hsaDeduction: line13,
+    deductibleSelfEmploymentTax: line15,
+    earlyWithdrawalPenalty: line18,
+    iraModifiedAGI,
+    iraDeduction: line20,
+    studentLoanModifiedAGI,
+    studentLoanInterestDeduction: line21,
+    totalAdjustments: money(line26),
+    notes,
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateSchedule8812 } from './schedule-8812'
+import { computeForm1040 } from './form-1040-engine'
+
+describe('calculateSchedule8812 Part II-B', () => {
+  const input = {
+    dependents: [{ qualifiesForCTC: true }, { qualifiesForCTC: true }, { qualifiesForCTC: true }],
+    filingStatus: 'MARRIED_FILING_JOINTLY',
+    modifiedAGI: 16000,
+    taxLiabilityLimit: 0,
+    earnedIncome: 4000,
+    taxYear: 2024
+  }
+
+  it('uses social security and Medicare taxes when they are more than 15% of earned income', () => {
+    const result = calculateSchedule8812({ ...input, socialSecurityAndMedicareTaxes: 306 })
+    assert.equal(result.earnedIncomePortion, 225)
+    assert.equal(result.socialSecurityMethod, 306)
+    assert.equal(result.additionalChildTaxCredit, 306)
+  })
+
+  it('reduces the taxes by the earned income credit', () => {
+    assert.equal(calculateSchedule8812({ ...input, socialSecurityAndMedicareTaxes: 306, earnedIncomeCredit: 200 }).additionalChildTaxCredit, 225)
+  })
+})
+
+describe('computeForm1040 additional child tax credit', () => {
+  const child = (firstName: string) => ({
+    firstName,
+    lastName: 'Doe',
+    ssn: '123-45-6789',
+    relationship: 'SON',
+    birthDate: '2015-05-01',
+    monthsLivedWithTaxpayer: 12
+  })
+
+  it('counts W-2 boxes 4 and 6 on Schedule 8812 line 21', () => {
+    // Interest over the investment income limit rules out the earned income credit
+    const { form1040Data } = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      incomeEntries: [
+        { incomeType: 'W2_WAGES', amount: '4000.00', socialSecurityTaxWithheld: '248.00', medicareTaxWithheld: '58.00' },
+        { incomeType: 'INTEREST', amount: '12000.00' }
+      ],
+      dependents: [child('Al'), child('Bo'), child('Cy')]
+    })
+    assert.equal(form1040Data.line25d, 306)
+  })
+})
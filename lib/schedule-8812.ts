@@ -0,0 +1,117 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Schedule 8812 - Credits for Qualifying Children and Other Dependents
+ * Part I produces the nonrefundable credit on Form 1040 line 19; Part II
+ * produces the refundable Additional Child Tax Credit (line 25d here).
+ */
+
+// A dependent as requalified for the year - only the credit flags are read here
+export interface Schedule8812Dependent {
+  qualifiesForCTC?: boolean | null
+  isDependent?: boolean | null
+}
+
+export interface Schedule8812Input {
+  dependents: Schedule8812Dependent[]
+  filingStatus: string
+  modifiedAGI: number
+  // Credit Limit Worksheet A: tax (Form 1040 line 18) less Schedule 3 credits claimed before this one
+  taxLiabilityLimit: number
+  earnedIncome: number
+  // Part II-B (3+ children) lines 21-23: W-2 boxes 4 and 6, the deductible part of
+  // self-employment tax and the Additional Medicare Tax
+  socialSecurityAndMedicareTaxes?: number
+  // Part II-B line 24: earned income credit plus excess social security tax withheld
+  earnedIncomeCredit?: number
+  taxYear?: number
+}
+
+export interface Schedule8812Result {
+  qualifyingChildren: number // Line 4
+  otherDependents: number // Line 6
+  childTaxCreditAmount: number // Line 5
+  otherDependentCreditAmount: number // Line 7
+  totalBeforePhaseOut: number // Line 8
+  phaseOutThreshold: number // Line 9
+  phaseOutReduction: number // Line 11
+  creditAfterPhaseOut: number // Line 12
+  creditLimit: number // Line 13
+  nonrefundableCredit: number // Line 14 -> Form 1040 line 19
+  unusedCredit: number // Line 16a
+  refundableCap: number // Line 16b
+  earnedIncomePortion: number // Line 20 - 15% of earned income over $2,500
+  socialSecurityMethod: number | null // Line 25, only when Part II-B applies
+  additionalChildTaxCredit: number // Line 27 -> Form 1040 line 25d
+}
+
+const ACTC_EARNED_INCOME_FLOOR = 2500
+const ACTC_EARNED_INCOME_RATE = 0.15
+const PART_II_B_CHILDREN = 3
+
+export function countCreditDependents(dependents: Schedule8812Dependent[]): { qualifyingChildren: number; otherDependents: number } {
+  const all = dependents || []
+  const qualifyingChildren = all.filter(dep => dep.qualifiesForCTC).length
+  // EIC-only children who aren't dependents (isDependent false) bring no credit here
+  const otherDependents = all.filter(dep => !dep.qualifiesForCTC && dep.isDependent !== false).length
+  return { qualifyingChildren, otherDependents }
+}
+
+export function calculateSchedule8812(input: Schedule8812Input): Schedule8812Result {
+  const rules = getTaxRules(input.taxYear).childTaxCredit
+  const status = normalizeFilingStatus(input.filingStatus)
+  const { qualifyingChildren, otherDependents } = countCreditDependents(input.dependents)
+
+  // Part I
+  const line5 = qualifyingChildren * rules.amountPerChild
+  const line7 = otherDependents * rules.otherDependentAmount
+  const line8 = line5 + line7
+  const line9 = rules.phaseOutThreshold[status]
+  // Line 10: excess MAGI rounded up to the next multiple of $1,000
+  const line10 = Math.ceil(Math.max(0, (input.modifiedAGI || 0) - line9) / 1000) * 1000
+  const line11 = (line10 / 1000) * rules.phaseOutStep
+  const line12 = Math.max(0, line8 - line11)
+  const line13 = Math.max(0, input.taxLiabilityLimit || 0)
+  const line14 = Math.min(line12, line13)
+
+  // Part II-A - only the child portion of the unused credit is refundable
+  const line16a = Math.max(0, line12 - line14)
+  const line16b = qualifyingChildren * rules.refundableLimitPerChild
+  const line17 = Math.min(line16a, line16b)
+  const line19 = Math.max(0, (input.earnedIncome || 0) - ACTC_EARNED_INCOME_FLOOR)
+  const line20 = money(line19 * ACTC_EARNED_INCOME_RATE)
+
+  let line25: number | null = null
+  let line27 = 0
+  if (line17 > 0) {
+    if (qualifyingChildren < PART_II_B_CHILDREN || line20 >= line17) {
+      line27 = Math.min(line17, line20)
+    } else {
+      // Part II-B - families with three or more children may use social security taxes paid
+      const line23 = Math.max(0, input.socialSecurityAndMedicareTaxes || 0)
+      const line24 = Math.max(0, input.earnedIncomeCredit || 0)
+      line25 = Math.max(0, line23 - line24)
+      const line26 = Math.max(line20, line25)
+      line27 = Math.min(line17, line26)
+    }
+  }
+
+  return {
+    qualifyingChildren,
+    otherDependents,
+    childTaxCreditAmount: line5,
+    otherDependentCreditAmount: line7,
+    totalBeforePhaseOut: line8,
+    phaseOutThreshold: line9,
+    phaseOutReduction: line11,
+    creditAfterPhaseOut: line12,
+    creditLimit: line13,
+    nonrefundableCredit: line14,
+    unusedCredit: line16a,
+    refundableCap: line16b,
+    earnedIncomePortion: line20,
+    socialSecurityMethod: line25,
+    additionalChildTaxCredit: line27,
+  }
+}
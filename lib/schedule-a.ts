@@ -0,0 +1,163 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { formatMoney, money } from './money'
+
+/**
+ * Schedule A - Itemized Deductions
+ * Applies the limits that make raw deduction entries differ from what can be
+ * claimed: the 7.5%-of-AGI floor on medical expenses, the SALT cap, and the
+ * AGI percentage limits on charitable gifts by gift type. Anything over a
+ * charitable limit carries forward for up to five years.
+ */
+
+export interface ScheduleAEntry {
+  deductionType: string
+  amount: number
+  giftType?: string | null // CharitableGiftType, charitable contributions only
+}
+
+export interface ScheduleAInput {
+  entries: ScheduleAEntry[]
+  adjustedGrossIncome: number // Form 1040 line 11
+  filingStatus: string
+  taxYear?: number
+}
+
+// What was claimed for one DeductionType, what survived its limit, and why
+export interface ScheduleALine {
+  deductionType: string
+  label: string
+  line: string // Schedule A line
+  claimed: number
+  allowed: number
+  limit: string
+}
+
+export interface ScheduleAResult {
+  medicalExpenses: number // Line 1
+  medicalFloor: number // Line 3
+  medicalDeduction: number // Line 4
+  stateAndLocalTaxes: number // Line 5d
+  saltCap: number
+  saltDeduction: number // Line 5e
+  mortgageInterest: number // Line 10
+  charitableContributions: number
+  charitableDeduction: number // Line 14
+  charitableCarryover: number
+  otherDeductions: number // Line 16
+  totalItemizedDeductions: number // Line 17 -> Form 1040 line 12
+  lines: ScheduleALine[]
+}
+
+export const CHARITABLE_GIFT_TYPES = [
+  { value: 'CASH', label: 'Cash to public charities', agiLimit: 0.6 },
+  { value: 'PROPERTY', label: 'Property to public charities', agiLimit: 0.5 },
+  { value: 'CAPITAL_GAIN_PROPERTY', label: 'Appreciated capital gain property', agiLimit: 0.3 },
+  { value: 'PRIVATE_FOUNDATION', label: 'Cash to private foundations and other 30% organizations', agiLimit: 0.3 },
+]
+
+const MEDICAL_FLOOR_RATE = 0.075
+const SALT_PHASE_DOWN_RATE = 0.3
+const PUBLIC_CHARITY_CEILING = 0.5
+
+const SCHEDULE_A_LINES: Record<string, { line: string; label: string }> = {
+  MEDICAL_EXPENSES: { line: '4', label: 'Medical and dental expenses' },
+  STATE_LOCAL_TAXES: { line: '5e', label: 'State and local taxes' },
+  MORTGAGE_INTEREST: { line: '10', label: 'Home mortgage interest' },
+  CHARITABLE_CONTRIBUTIONS: { line: '14', label: 'Gifts to charity' },
+}
+
+function sumOf(entries: ScheduleAEntry[], predicate: (entry: ScheduleAEntry) => boolean): number {
+  return entries.filter(predicate).reduce((sum, entry) => sum + Math.max(0, entry.amount || 0), 0)
+}
+
+export function calculateScheduleA(input: ScheduleAInput): ScheduleAResult {
+  const rules = getTaxRules(input.taxYear)
+  const status = normalizeFilingStatus(input.filingStatus)
+  const agi = Math.max(0, input.adjustedGrossIncome || 0)
+  const entries = input.entries || []
+  const lines: ScheduleALine[] = []
+
+  // Lines 1-4 - medical and dental expenses over 7.5% of AGI
+  const line1 = sumOf(entries, entry => entry.deductionType === 'MEDICAL_EXPENSES')
+  const line3 = money(agi * MEDICAL_FLOOR_RATE)
+  const line4 = Math.max(0, line1 - line3)
+  if (line1 > 0) {
+    lines.push({ deductionType: 'MEDICAL_EXPENSES', ...SCHEDULE_A_LINES.MEDICAL_EXPENSES, claimed: line1, allowed: line4, limit: `Reduced by 7.5% of AGI (${formatMoney(line3, 'WHOLE_DOLLARS')})` })
+  }
+
+  // Lines 5a-5e - state and local taxes, capped
+  const saltRules = rules.stateAndLocalTaxCap
+  let saltCap = saltRules.limit[status]
+  if (saltRules.phaseDownThreshold && saltRules.floor) {
+    const reduction = Math.max(0, agi - saltRules.phaseDownThreshold[status]) * SALT_PHASE_DOWN_RATE
+    saltCap = Math.max(saltRules.floor[status], saltCap - reduction)
+  }
+  const line5d = sumOf(entries, entry => entry.deductionType === 'STATE_LOCAL_TAXES')
+  const line5e = Math.min(line5d, saltCap)
+  if (line5d > 0) {
+    lines.push({ deductionType: 'STATE_LOCAL_TAXES', ...SCHEDULE_A_LINES.STATE_LOCAL_TAXES, claimed: line5d, allowed: line5e, limit: `SALT cap of ${formatMoney(saltCap, 'WHOLE_DOLLARS')}` })
+  }
+
+  // Line 10 - home mortgage interest (acquisition debt limits aren't tracked)
+  const line10 = sumOf(entries, entry => entry.deductionType === 'MORTGAGE_INTEREST')
+  if (line10 > 0) {
+    lines.push({ deductionType: 'MORTGAGE_INTEREST', ...SCHEDULE_A_LINES.MORTGAGE_INTEREST, claimed: line10, allowed: line10, limit: 'No limit applied' })
+  }
+
+  // Lines 11-14 - gifts to charity, limited by gift type (Pub 526 ordering)
+  const isCharitable = (entry: ScheduleAEntry) => entry.deductionType === 'CHARITABLE_CONTRIBUTIONS'
+  const giftTotal = (giftType: string) => sumOf(entries, entry => isCharitable(entry) && (entry.giftType || 'CASH') === giftType)
+  const property = giftTotal('PROPERTY')
+  const cash = giftTotal('CASH')
+  const capitalGainProperty = giftTotal('CAPITAL_GAIN_PROPERTY')
+  const privateFoundation = giftTotal('PRIVATE_FOUNDATION')
+  const agiLimit = (giftType: string) => agi * (CHARITABLE_GIFT_TYPES.find(type => type.value === giftType)?.agiLimit || 0)
+  const allowedProperty = Math.min(property, agiLimit('PROPERTY'))
+  const allowedCash = Math.min(cash, Math.max(0, agiLimit('CASH') - allowedProperty))
+  // 30% gifts also can't push the total past 50% of AGI
+  const allowedCapitalGain = Math.min(capitalGainProperty, agiLimit('CAPITAL_GAIN_PROPERTY'), Math.max(0, agi * PUBLIC_CHARITY_CEILING - property - cash))
+  const allowedPrivateFoundation = Math.min(privateFoundation, agiLimit('PRIVATE_FOUNDATION'), Math.max(0, agi * PUBLIC_CHARITY_CEILING - property - cash - capitalGainProperty))
+  const charitableContributions = property + cash + capitalGainProperty + privateFoundation
+  const line14 = money(allowedProperty + allowedCash + allowedCapitalGain + allowedPrivateFoundation)
+  const charitableCarryover = money(charitableContributions - line14)
+  if (charitableContributions > 0) {
+    const limits = CHARITABLE_GIFT_TYPES
+      .filter(giftType => giftTotal(giftType.value) > 0)
+      .map(giftType => `${Math.round(giftType.agiLimit * 100)}% of AGI for ${giftType.label.toLowerCase()}`)
+    lines.push({
+      deductionType: 'CHARITABLE_CONTRIBUTIONS',
+      ...SCHEDULE_A_LINES.CHARITABLE_CONTRIBUTIONS,
+      claimed: charitableContributions,
+      allowed: line14,
+      limit: `Limited to ${limits.join(', ')}` + (charitableCarryover > 0 ? `; ${formatMoney(charitableCarryover, 'WHOLE_DOLLARS')} carries forward` : ''),
+    })
+  }
+
+  // Line 16 - other itemized deductions, taken as entered
+  const otherTypes = Array.from(new Set(entries.map(entry => entry.deductionType).filter(type => !SCHEDULE_A_LINES[type])))
+  for (const deductionType of otherTypes) {
+    const amount = sumOf(entries, entry => entry.deductionType === deductionType)
+    if (amount > 0) {
+      lines.push({ deductionType, label: 'Other itemized deductions', line: '16', claimed: amount, allowed: amount, limit: 'No limit applied' })
+    }
+  }
+  const line16 = sumOf(entries, entry => !SCHEDULE_A_LINES[entry.deductionType])
+
+  const line17 = money(line4 + line5e + line10 + line14 + line16)
+
+  return {
+    medicalExpenses: line1,
+    medicalFloor: line3,
+    medicalDeduction: line4,
+    stateAndLocalTaxes: line5d,
+    saltCap,
+    saltDeduction: line5e,
+    mortgageInterest: line10,
+    charitableContributions,
+    charitableDeduction: line14,
+    charitableCarryover,
+    otherDeductions: line16,
+    totalItemizedDeductions: line17,
+    lines,
+  }
+}
@@ -0,0 +1,203 @@
+import { normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Form 8949 - Sales and Other Dispositions of Capital Assets, and Schedule D
+ * Each sale is reported in the Form 8949 box for its holding period and
+ * whether the broker reported basis to the IRS (A/B short-term, D/E
+ * long-term). Adjustment code W adds back a wash-sale loss that isn't
+ * allowed; code D takes accrued market discount out of the gain because it's
+ * ordinary income. Schedule D nets the short- and long-term totals with last
+ * year's carryovers and capital gain distributions. A net loss is deductible
+ * only up to $3,000 ($1,500 married filing separately); the rest carries to
+ * next year under the Capital Loss Carryover Worksheet.
+ */
+
+export type HoldingPeriod = 'SHORT_TERM' | 'LONG_TERM'
+export type Form8949Box = 'A' | 'B' | 'D' | 'E'
+
+export interface CapitalAssetSale {
+  description: string // Column (a)
+  dateAcquired?: Date | string | null // Column (b)
+  dateSold?: Date | string | null // Column (c)
+  proceeds: number // Column (d)
+  costBasis: number // Column (e)
+  adjustmentCode?: string | null // Column (f) - W or D
+  adjustmentAmount?: number // Column (g), entered as a positive amount
+  holdingPeriod?: HoldingPeriod | null // Wins over the dates
+  basisReported?: boolean // Basis shown on Form 1099-B and reported to the IRS
+}
+
+export interface Form8949Line {
+  description: string
+  box: Form8949Box
+  holdingPeriod: HoldingPeriod
+  proceeds: number
+  costBasis: number
+  adjustmentCode: string | null
+  adjustment: number // Column (g), signed
+  gainOrLoss: number // Column (h)
+}
+
+export interface Form8949Totals {
+  proceeds: number
+  costBasis: number
+  adjustment: number
+  gainOrLoss: number
+}
+
+export interface ScheduleDInput {
+  sales: CapitalAssetSale[]
+  capitalGainDistributions?: number // Line 13 - 1099-DIV box 2a and other long-term gains entered as totals
+  shortTermLossCarryover?: number // Line 6, as a positive amount
+  longTermLossCarryover?: number // Line 14, as a positive amount
+  filingStatus: string
+  // Form 1040 line 15 figured without the zero floor, for the carryover worksheet
+  taxableIncome?: number
+}
+
+export interface CapitalLossCarryover {
+  shortTerm: number // Capital Loss Carryover Worksheet line 8
+  longTerm: number // Line 13
+}
+
+export interface ScheduleDResult {
+  form8949: Form8949Line[]
+  boxTotals: Record<Form8949Box, Form8949Totals> // Lines 1b-3 and 8b-10
+  shortTermGainOrLoss: number // Line 7
+  longTermGainOrLoss: number // Line 15
+  netGainOrLoss: number // Line 16
+  lossLimit: number
+  capitalGainOrLoss: number // Line 16 gain or line 21 loss -> Form 1040 line 7
+  netCapitalGain: number // Smaller of lines 15 and 16 - taxed at capital gain rates
+  carryover: CapitalLossCarryover
+  explanation: string
+}
+
+const LOSS_LIMIT = 3000
+const LOSS_LIMIT_SEPARATE = 1500
+const WASH_SALE = 'W'
+const MARKET_DISCOUNT = 'D'
+
+/**
+ * Long-term when the asset was held more than one year - sold after the
+ * anniversary of the day it was acquired. Without dates a sale is short-term.
+ */
+export function holdingPeriodFor(sale: Pick<CapitalAssetSale, 'holdingPeriod' | 'dateAcquired' | 'dateSold'>): HoldingPeriod {
+  if (sale.holdingPeriod) return sale.holdingPeriod
+  if (!sale.dateAcquired || !sale.dateSold) return 'SHORT_TERM'
+  const acquired = new Date(sale.dateAcquired)
+  const anniversary = Date.UTC(acquired.getUTCFullYear() + 1, acquired.getUTCMonth(), acquired.getUTCDate())
+  return new Date(sale.dateSold).getTime() > anniversary ? 'LONG_TERM' : 'SHORT_TERM'
+}
+
+/**
+ * Column (g): wash-sale losses are added back, accrued market discount is
+ * taken out. Other codes keep the sign they were entered with.
+ */
+export function form8949Adjustment(code: string | null | undefined, amount: number | undefined): number {
+  const value = amount || 0
+  switch ((code || '').trim().toUpperCase()) {
+    case WASH_SALE:
+      return Math.abs(value)
+    case MARKET_DISCOUNT:
+      return -Math.abs(value)
+    default:
+      return value
+  }
+}
+
+/**
+ * Capital Loss Carryover Worksheet: the part of the loss that wasn't
+ * deducted - or that didn't reduce taxable income below zero - carries to
+ * next year, short-term losses first.
+ */
+export function capitalLossCarryover(
+  result: Pick<ScheduleDResult, 'shortTermGainOrLoss' | 'longTermGainOrLoss' | 'capitalGainOrLoss'>,
+  taxableIncome?: number
+): CapitalLossCarryover {
+  const line2 = Math.max(0, -result.capitalGainOrLoss)
+  const line3 = taxableIncome === undefined ? line2 : Math.max(0, taxableIncome + line2)
+  const line4 = Math.min(line2, line3)
+  const line5 = Math.max(0, -result.shortTermGainOrLoss)
+  const line6 = Math.max(0, result.longTermGainOrLoss)
+  const line8 = Math.max(0, line5 - (line4 + line6))
+  const line9 = Math.max(0, -result.longTermGainOrLoss)
+  const line10 = Math.max(0, result.shortTermGainOrLoss)
+  const line11 = Math.max(0, line4 - line5)
+  const line13 = Math.max(0, line9 - (line10 + line11))
+  return { shortTerm: money(line8), longTerm: money(line13) }
+}
+
+export function calculateScheduleD(input: ScheduleDInput): ScheduleDResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+
+  const form8949: Form8949Line[] = (input.sales || []).map(sale => {
+    const holdingPeriod = holdingPeriodFor(sale)
+    const reported = sale.basisReported !== false
+    const box: Form8949Box = holdingPeriod === 'LONG_TERM' ? (reported ? 'D' : 'E') : (reported ? 'A' : 'B')
+    const adjustment = form8949Adjustment(sale.adjustmentCode, sale.adjustmentAmount)
+    const proceeds = sale.proceeds || 0
+    const costBasis = sale.costBasis || 0
+    return {
+      description: sale.description,
+      box,
+      holdingPeriod,
+      proceeds,
+      costBasis,
+      adjustmentCode: adjustment ? (sale.adjustmentCode || '').trim().toUpperCase() || null : null,
+      adjustment,
+      gainOrLoss: money(proceeds - costBasis + adjustment),
+    }
+  })
+
+  const boxTotals = (['A', 'B', 'D', 'E'] as Form8949Box[]).reduce((totals, box) => {
+    const lines = form8949.filter(line => line.box === box)
+    totals[box] = {
+      proceeds: money(lines.reduce((sum, line) => sum + line.proceeds, 0)),
+      costBasis: money(lines.reduce((sum, line) => sum + line.costBasis, 0)),
+      adjustment: money(lines.reduce((sum, line) => sum + line.adjustment, 0)),
+      gainOrLoss: money(lines.reduce((sum, line) => sum + line.gainOrLoss, 0)),
+    }
+    return totals
+  }, {} as Record<Form8949Box, Form8949Totals>)
+
+  // Part I - short-term (lines 1b-7), Part II - long-term (lines 8b-15)
+  const line7 = money(boxTotals.A.gainOrLoss + boxTotals.B.gainOrLoss - Math.max(0, input.shortTermLossCarryover || 0))
+  const line15 = money(boxTotals.D.gainOrLoss + boxTotals.E.gainOrLoss + (input.capitalGainDistributions || 0) -
+                            Math.max(0, input.longTermLossCarryover || 0))
+
+  // Part III
+  const line16 = money(line7 + line15)
+  const lossLimit = status === FilingStatus.MARRIED_FILING_SEPARATELY ? LOSS_LIMIT_SEPARATE : LOSS_LIMIT
+  const capitalGainOrLoss = line16 < 0 ? -Math.min(-line16, lossLimit) : line16
+  const netCapitalGain = line15 > 0 && line16 > 0 ? Math.min(line15, line16) : 0
+  const carryover = capitalLossCarryover({ shortTermGainOrLoss: line7, longTermGainOrLoss: line15, capitalGainOrLoss }, input.taxableIncome)
+
+  let explanation: string
+  if (form8949.length === 0 && line16 === 0) {
+    explanation = 'No capital gains or losses.'
+  } else if (line16 >= 0) {
+    explanation = `Net capital gain of $${line16.toLocaleString()}` +
+                  (netCapitalGain > 0 ? `, of which $${netCapitalGain.toLocaleString()} is long-term and taxed at capital gain rates.` : ', all short-term and taxed as ordinary income.')
+  } else if (-line16 > lossLimit) {
+    explanation = `Net capital loss of $${(-line16).toLocaleString()} is limited to a $${lossLimit.toLocaleString()} deduction; ` +
+                  `$${(carryover.shortTerm + carryover.longTerm).toLocaleString()} carries over to next year.`
+  } else {
+    explanation = `Net capital loss of $${(-line16).toLocaleString()} is deductible in full.`
+  }
+
+  return {
+    form8949,
+    boxTotals,
+    shortTermGainOrLoss: line7,
+    longTermGainOrLoss: line15,
+    netGainOrLoss: line16,
+    lossLimit,
+    capitalGainOrLoss,
+    netCapitalGain,
+    carryover,
+    explanation,
+  }
+}
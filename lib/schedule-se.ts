@@ -0,0 +1,62 @@
+import { getTaxRules } from './tax-rules'
+import { money } from './money'
+
+/**
+ * Schedule SE - Self-Employment Tax
+ * Social security tax applies only to the part of the wage base not already
+ * used by W-2 social security wages; the Medicare portion has no cap. The
+ * total flows to Schedule 2 line 4 and half of it is deductible on
+ * Schedule 1 line 15.
+ */
+
+export interface ScheduleSEInput {
+  netProfit: number // Schedule C net profit (Schedule 1 line 3)
+  socialSecurityWages?: number // W-2 boxes 3 and 7
+  taxYear?: number
+}
+
+export interface ScheduleSEResult {
+  netProfit: number // Line 3
+  netEarnings: number // Line 4a / line 6 - 92.35% of net profit
+  subjectToTax: boolean // False when net earnings are under $400
+  socialSecurityWageBase: number // Line 7
+  socialSecurityWages: number // Line 8d
+  remainingWageBase: number // Line 9
+  socialSecurityTax: number // Line 10
+  medicareTax: number // Line 11
+  selfEmploymentTax: number // Line 12 -> Schedule 2 line 4
+  deductiblePart: number // Line 13 -> Schedule 1 line 15
+}
+
+export const SE_NET_EARNINGS_FACTOR = 0.9235
+const SOCIAL_SECURITY_RATE = 0.124
+const MEDICARE_RATE = 0.029
+const MINIMUM_NET_EARNINGS = 400
+
+export function calculateScheduleSE(input: ScheduleSEInput): ScheduleSEResult {
+  const wageBase = getTaxRules(input.taxYear).socialSecurityWageBase
+  const line3 = input.netProfit || 0
+  const line4a = line3 > 0 ? money(line3 * SE_NET_EARNINGS_FACTOR) : 0
+  const subjectToTax = line4a >= MINIMUM_NET_EARNINGS
+  const line6 = subjectToTax ? line4a : 0
+
+  const line8d = Math.max(0, input.socialSecurityWages || 0)
+  const line9 = Math.max(0, wageBase - line8d)
+  const line10 = money(Math.min(line6, line9) * SOCIAL_SECURITY_RATE)
+  const line11 = money(line6 * MEDICARE_RATE)
+  const line12 = line10 + line11
+  const line13 = money(line12 * 0.5)
+
+  return {
+    netProfit: line3,
+    netEarnings: line6,
+    subjectToTax,
+    socialSecurityWageBase: wageBase,
+    socialSecurityWages: line8d,
+    remainingWageBase: line9,
+    socialSecurityTax: line10,
+    medicareTax: line11,
+    selfEmploymentTax: line12,
+    deductiblePart: line13,
+  }
+}
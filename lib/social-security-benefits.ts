@@ -0,0 +1,116 @@
+import { normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Social Security Benefits Worksheet - Form 1040 lines 6a and 6b
+ * Provisional income (other income plus tax-exempt interest plus half the
+ * benefits) above the base amount makes up to 50% of benefits taxable, and
+ * above the second threshold up to 85%. The thresholds are statutory and not
+ * indexed. A married couple filing separately who lived together at any time
+ * during the year has no base amount, so 85% applies from the first dollar.
+ */
+
+export interface SocialSecurityBenefitsInput {
+  benefits: number // SSA-1099 box 5 (Form 1040 line 6a)
+  // Form 1040 lines 1z, 2b, 3b, 4b, 5b, 7 and 8
+  otherIncome: number
+  taxExemptInterest?: number // Form 1040 line 2a
+  // Schedule 1 adjustments other than student loan interest
+  adjustments?: number
+  filingStatus: string
+  // Only used for married filing separately; the worksheet assumes the spouses lived together unless told otherwise
+  livedWithSpouse?: boolean
+}
+
+export interface SocialSecurityBenefitsResult {
+  benefits: number // Line 1
+  halfOfBenefits: number // Line 2
+  otherIncome: number // Line 3
+  taxExemptInterest: number // Line 4
+  provisionalIncome: number // Line 7
+  baseAmount: number // Line 8
+  excessOverBase: number // Line 9
+  additionalAmount: number // Line 10
+  excessOverAdditional: number // Line 11
+  fiftyPercentTier: number // Line 14
+  eightyFivePercentTier: number // Line 15
+  maximumTaxable: number // Line 17
+  taxableBenefits: number // Line 18 -> Form 1040 line 6b
+  taxablePercentage: number
+  explanation: string
+}
+
+const BASE_AMOUNT = 25000
+const BASE_AMOUNT_JOINT = 32000
+const ADDITIONAL_AMOUNT = 9000
+const ADDITIONAL_AMOUNT_JOINT = 12000
+const FIRST_TIER_RATE = 0.5
+const SECOND_TIER_RATE = 0.85
+
+export function calculateTaxableSocialSecurity(input: SocialSecurityBenefitsInput): SocialSecurityBenefitsResult {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const separateWithSpouse = status === FilingStatus.MARRIED_FILING_SEPARATELY && input.livedWithSpouse !== false
+
+  const line1 = Math.max(0, input.benefits || 0)
+  const line2 = money(line1 * FIRST_TIER_RATE)
+  const line3 = input.otherIncome || 0
+  const line4 = Math.max(0, input.taxExemptInterest || 0)
+  const line5 = line2 + line3 + line4
+  const line6 = Math.max(0, input.adjustments || 0)
+  const line7 = Math.max(0, line5 - line6)
+
+  let line8 = 0
+  let line10 = 0
+  if (!separateWithSpouse) {
+    line8 = status === FilingStatus.MARRIED_FILING_JOINTLY ? BASE_AMOUNT_JOINT : BASE_AMOUNT
+    line10 = status === FilingStatus.MARRIED_FILING_JOINTLY ? ADDITIONAL_AMOUNT_JOINT : ADDITIONAL_AMOUNT
+  }
+  const line9 = Math.max(0, line7 - line8)
+  const line11 = Math.max(0, line9 - line10)
+  const line17 = money(line1 * SECOND_TIER_RATE)
+
+  let line14 = 0
+  let line15 = 0
+  if (separateWithSpouse) {
+    // Skip lines 8 through 15 - 85% of line 7 goes straight to line 16
+    line15 = money(line7 * SECOND_TIER_RATE)
+  } else if (line9 > 0) {
+    const line12 = Math.min(line9, line10)
+    const line13 = line12 * FIRST_TIER_RATE
+    line14 = Math.min(line2, line13)
+    line15 = line11 * SECOND_TIER_RATE
+  }
+  const line16 = line14 + line15
+  const line18 = line1 > 0 ? money(Math.min(line16, line17)) : 0
+
+  const taxablePercentage = line1 > 0 ? line18 / line1 : 0
+  let explanation: string
+  if (line1 === 0) {
+    explanation = 'No social security benefits reported.'
+  } else if (line18 === 0) {
+    explanation = `Provisional income of $${line7.toLocaleString()} does not exceed the $${line8.toLocaleString()} base amount, so none of the benefits are taxable.`
+  } else if (separateWithSpouse) {
+    explanation = 'Married filing separately and lived with your spouse during the year: there is no base amount, so up to 85% of benefits are taxable.'
+  } else {
+    explanation = `Provisional income of $${line7.toLocaleString()} exceeds the $${line8.toLocaleString()} base amount, making ${(taxablePercentage * 100).toFixed(1)}% of benefits taxable.`
+  }
+
+  return {
+    benefits: line1,
+    halfOfBenefits: line2,
+    otherIncome: line3,
+    taxExemptInterest: line4,
+    provisionalIncome: line7,
+    baseAmount: line8,
+    excessOverBase: line9,
+    additionalAmount: line10,
+    excessOverAdditional: line11,
+    fiftyPercentTier: line14,
+    eightyFivePercentTier: line15,
+    maximumTaxable: line17,
+    taxableBenefits: line18,
+    taxablePercentage,
+    explanation,
+  }
+}
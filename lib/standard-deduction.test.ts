@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateStandardDeduction, isAge65OrOlder } from './standard-deduction'
+import { getStandardDeduction } from './tax-calculations'
+
+describe('calculateStandardDeduction', () => {
+  it('gives the basic amount for the filing status', () => {
+    const result = calculateStandardDeduction({ filingStatus: 'SINGLE', taxYear: 2025 })
+    assert.equal(result.standardDeduction, 15750)
+    assert.equal(result.limitedAsDependent, false)
+  })
+
+  it('adds the additional amount for each box checked', () => {
+    assert.equal(calculateStandardDeduction({ filingStatus: 'SINGLE', taxYear: 2025, taxpayer65OrOlder: true, taxpayerBlind: true }).standardDeduction, 19750)
+    assert.equal(calculateStandardDeduction({ filingStatus: 'MARRIED_FILING_JOINTLY', taxYear: 2025, taxpayer65OrOlder: true, spouse65OrOlder: true }).standardDeduction, 34700)
+  })
+
+  it('ignores the spouse boxes on a separate return', () => {
+    const result = calculateStandardDeduction({ filingStatus: 'MARRIED_FILING_SEPARATELY', taxYear: 2025, spouse65OrOlder: true, spouseBlind: true })
+    assert.equal(result.additionalBoxes, 0)
+    assert.equal(result.standardDeduction, 15750)
+  })
+})
+
+describe('calculateStandardDeduction for a dependent', () => {
+  const dependent = { filingStatus: 'SINGLE', taxYear: 2025, canBeClaimedAsDependent: true }
+
+  it('gives the minimum when there is no earned income', () => {
+    const result = calculateStandardDeduction({ ...dependent, earnedIncome: 0 })
+    assert.equal(result.standardDeduction, 1350)
+    assert.equal(result.limitedAsDependent, true)
+  })
+
+  it('keeps the minimum while earned income plus $450 is below it', () => {
+    assert.equal(calculateStandardDeduction({ ...dependent, earnedIncome: 850 }).standardDeduction, 1350)
+  })
+
+  it('gives earned income plus $450 once that is more than the minimum', () => {
+    assert.equal(calculateStandardDeduction({ ...dependent, earnedIncome: 3000 }).standardDeduction, 3450)
+    assert.equal(calculateStandardDeduction({ ...dependent, earnedIncome: 1234.56 }).standardDeduction, 1684.56)
+  })
+
+  it('is capped at the basic amount', () => {
+    const result = calculateStandardDeduction({ ...dependent, earnedIncome: 20000 })
+    assert.equal(result.standardDeduction, 15750)
+    assert.equal(result.limitedAsDependent, false)
+  })
+
+  it('adds the additional amounts on top of the limit', () => {
+    assert.equal(calculateStandardDeduction({ ...dependent, earnedIncome: 0, taxpayerBlind: true }).standardDeduction, 3350)
+    assert.equal(calculateStandardDeduction({ ...dependent, earnedIncome: 20000, taxpayerBlind: true }).standardDeduction, 17750)
+  })
+
+  it('uses the year\'s own amounts', () => {
+    assert.equal(calculateStandardDeduction({ ...dependent, taxYear: 2023, earnedIncome: 0 }).standardDeduction, 1250)
+    assert.equal(calculateStandardDeduction({ ...dependent, taxYear: 2023, earnedIncome: 3000 }).standardDeduction, 3400)
+  })
+
+  it('is what getStandardDeduction returns', () => {
+    assert.equal(getStandardDeduction('SINGLE', 2025, { canBeClaimedAsDependent: true, earnedIncome: 3000 }), 3450)
+  })
+})
+
+describe('isAge65OrOlder', () => {
+  it('counts someone born on January 1 as 65 the year before', () => {
+    assert.equal(isAge65OrOlder('1961-01-01', 2025), true)
+    assert.equal(isAge65OrOlder('1961-01-02', 2025), false)
+    assert.equal(isAge65OrOlder('1960-12-31', 2025), true)
+  })
+
+  it('is false without a date of birth', () => {
+    assert.equal(isAge65OrOlder(null, 2025), false)
+  })
+})
@@ -0,0 +1,90 @@
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { addMoney, money } from './money'
+
+/**
+ * Standard Deduction (Form 1040 line 12)
+ * The basic amount for the filing status, plus an additional amount for each
+ * box checked for being 65 or older or blind. Someone who can be claimed as a
+ * dependent is limited to the greater of a minimum or earned income plus a
+ * fixed addition, never more than the basic amount - the additional amounts
+ * still apply on top (Standard Deduction Worksheet for Dependents).
+ */
+
+export interface StandardDeductionInput {
+  filingStatus: string
+  taxYear?: number
+  taxpayer65OrOlder?: boolean
+  taxpayerBlind?: boolean
+  // Spouse boxes only count on a joint return
+  spouse65OrOlder?: boolean
+  spouseBlind?: boolean
+  canBeClaimedAsDependent?: boolean
+  earnedIncome?: number // Only used for the dependent limit
+}
+
+export interface StandardDeductionResult {
+  basicAmount: number // The filing status amount, or the dependent limit when smaller
+  additionalBoxes: number // 65-or-older and blind boxes checked
+  additionalAmount: number
+  standardDeduction: number
+  limitedAsDependent: boolean
+  explanation: string
+}
+
+/**
+ * Whether someone is 65 or older at the end of the tax year. The IRS treats a
+ * person as turning 65 the day before their birthday, so someone born on
+ * January 1 counts as 65 for the year before.
+ */
+export function isAge65OrOlder(birthDate: Date | string | null | undefined, taxYear: number): boolean {
+  if (!birthDate) return false
+  const born = new Date(birthDate).getTime()
+  return !Number.isNaN(born) && born < Date.UTC(taxYear - 64, 0, 2)
+}
+
+export function calculateStandardDeduction(input: StandardDeductionInput): StandardDeductionResult {
+  const rules = getTaxRules(input.taxYear)
+  const status = normalizeFilingStatus(input.filingStatus)
+  const fullAmount = rules.standardDeduction[status]
+
+  const joint = status === FilingStatus.MARRIED_FILING_JOINTLY
+  const additionalBoxes = [
+    input.taxpayer65OrOlder,
+    input.taxpayerBlind,
+    joint && input.spouse65OrOlder,
+    joint && input.spouseBlind
+  ].filter(Boolean).length
+  const perBox = status === FilingStatus.SINGLE || status === FilingStatus.HEAD_OF_HOUSEHOLD
+    ? rules.additionalStandardDeduction.unmarried
+    : rules.additionalStandardDeduction.married
+  const additionalAmount = additionalBoxes * perBox
+
+  let basicAmount = fullAmount
+  if (input.canBeClaimedAsDependent) {
+    const { minimum, earnedIncomeAddition } = rules.dependentStandardDeduction
+    const earnedIncome = Math.max(0, money(input.earnedIncome))
+    basicAmount = Math.min(fullAmount, Math.max(minimum, addMoney(earnedIncome, earnedIncomeAddition)))
+  }
+  const limitedAsDependent = basicAmount < fullAmount
+  const standardDeduction = addMoney(basicAmount, additionalAmount)
+
+  const notes: string[] = []
+  if (input.canBeClaimedAsDependent) {
+    notes.push(limitedAsDependent
+      ? `Can be claimed as a dependent, so limited to the greater of $${rules.dependentStandardDeduction.minimum.toLocaleString()} or earned income plus $${rules.dependentStandardDeduction.earnedIncomeAddition.toLocaleString()}.`
+      : 'Can be claimed as a dependent, but earned income is high enough for the full amount.')
+  }
+  if (additionalBoxes > 0) {
+    notes.push(`${additionalBoxes} box${additionalBoxes > 1 ? 'es' : ''} checked for age 65 or older or blindness at $${perBox.toLocaleString()} each.`)
+  }
+
+  return {
+    basicAmount,
+    additionalBoxes,
+    additionalAmount,
+    standardDeduction,
+    limitedAsDependent,
+    explanation: notes.join(' ') || 'Basic standard deduction for the filing status.'
+  }
+}
@@ -1,82 +1,32 @@
 
-export interface TaxBracket {
-  min: number
-  max: number
-  rate: number
-}
+import { EarnedIncomeCreditResult } from './earned-income-credit'
+import { Schedule8812Result } from './schedule-8812'
+import { ScheduleSEResult } from './schedule-se'
+import { AdditionalMedicareTaxResult } from './additional-medicare-tax'
+import { NetInvestmentIncomeTaxResult } from './net-investment-income-tax'
+import { AlternativeMinimumTaxResult } from './alternative-minimum-tax'
+import { SocialSecurityBenefitsResult } from './social-security-benefits'
+import { Schedule1AdjustmentsResult } from './schedule-1-adjustments'
+import { ScheduleAResult } from './schedule-a'
+import { QualifiedBusinessIncomeResult } from './qualified-business-income'
+import { EducationCreditsResult } from './education-credits'
+import { DependentCareCreditResult } from './dependent-care-credit'
+import { SaversCreditResult } from './savers-credit'
+import { ScheduleDResult } from './schedule-d'
+import { PremiumTaxCreditResult } from './premium-tax-credit'
+import { ForeignTaxCreditResult } from './foreign-tax-credit'
+import { getTaxRules, normalizeFilingStatus, TaxBracket } from './tax-rules'
+import { money, roundToWholeDollars } from './money'
+import { calculateStandardDeduction, StandardDeductionInput } from './standard-deduction'
 
-export interface StandardDeduction {
-  single: number
-  marriedFilingJointly: number
-  marriedFilingSeparately: number
-  headOfHousehold: number
-  qualifyingSurvivingSpouse: number
-}
+export type { TaxBracket } from './tax-rules'
 
-// 2024 Tax Year Brackets
-export const TAX_BRACKETS_2024: Record<string, TaxBracket[]> = {
-  single: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11601, max: 47150, rate: 0.12 },
-    { min: 47151, max: 100525, rate: 0.22 },
-    { min: 100526, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243725, rate: 0.32 },
-    { min: 243726, max: 609350, rate: 0.35 },
-    { min: 609351, max: Infinity, rate: 0.37 },
-  ],
-  marriedfilingjointly: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23201, max: 94300, rate: 0.12 },
-    { min: 94301, max: 201050, rate: 0.22 },
-    { min: 201051, max: 383900, rate: 0.24 },
-    { min: 383901, max: 487450, rate: 0.32 },
-    { min: 487451, max: 731200, rate: 0.35 },
-    { min: 731201, max: Infinity, rate: 0.37 },
-  ],
-  marriedfilingseparately: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11601, max: 47150, rate: 0.12 },
-    { min: 47151, max: 100525, rate: 0.22 },
-    { min: 100526, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243725, rate: 0.32 },
-    { min: 243726, max: 365600, rate: 0.35 },
-    { min: 365601, max: Infinity, rate: 0.37 },
-  ],
-  headofhousehold: [
-    { min: 0, max: 16550, rate: 0.10 },
-    { min: 16551, max: 63100, rate: 0.12 },
-    { min: 63101, max: 100500, rate: 0.22 },
-    { min: 100501, max: 191950, rate: 0.24 },
-    { min: 191951, max: 243700, rate: 0.32 },
-    { min: 243701, max: 609350, rate: 0.35 },
-    { min: 609351, max: Infinity, rate: 0.37 },
-  ],
-  qualifyingsurvivingspouse: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23201, max: 94300, rate: 0.12 },
-    { min: 94301, max: 201050, rate: 0.22 },
-    { min: 201051, max: 383900, rate: 0.24 },
-    { min: 383901, max: 487450, rate: 0.32 },
-    { min: 487451, max: 731200, rate: 0.35 },
-    { min: 731201, max: Infinity, rate: 0.37 },
-  ],
+export function getTaxBrackets(filingStatus: string, taxYear?: number): TaxBracket[] {
+  return getTaxRules(taxYear).brackets[normalizeFilingStatus(filingStatus)]
 }
 
-// 2024 Standard Deduction Amounts
-export const STANDARD_DEDUCTION_2024: StandardDeduction = {
-  single: 14600,
-  marriedFilingJointly: 29200,
-  marriedFilingSeparately: 14600,
-  headOfHousehold: 21900,
-  qualifyingSurvivingSpouse: 29200,
-}
-
-export function calculateTaxLiability(taxableIncome: number, filingStatus: string): number {
-  const brackets = TAX_BRACKETS_2024[filingStatus.toLowerCase().replace(/_/g, '')]
-  
-  if (!brackets) {
-    throw new Error(`Invalid filing status: ${filingStatus}`)
-  }
+export function calculateTaxLiability(taxableIncome: number, filingStatus: string, taxYear?: number): number {
+  const brackets = getTaxBrackets(filingStatus, taxYear)
 
   let tax = 0
   
@@ -89,146 +39,196 @@ export function calculateTaxLiability(taxableIncome: number, filingStatus: strin
     tax += taxableInThisBracket * bracket.rate
   }
   
-  return Math.round(tax * 100) / 100
+  return money(tax)
 }
 
-export function getStandardDeduction(filingStatus: string): number {
-  const status = filingStatus.toLowerCase().replace(/_/g, '')
-  
-  switch (status) {
-    case 'single':
-      return STANDARD_DEDUCTION_2024.single
-    case 'marriedfilingjointly':
-      return STANDARD_DEDUCTION_2024.marriedFilingJointly
-    case 'marriedfilingseparately':
-      return STANDARD_DEDUCTION_2024.marriedFilingSeparately
-    case 'headofhousehold':
-      return STANDARD_DEDUCTION_2024.headOfHousehold
-    case 'qualifyingsurvivingspouse':
-      return STANDARD_DEDUCTION_2024.qualifyingSurvivingSpouse
-    default:
-      return STANDARD_DEDUCTION_2024.single
-  }
+// Taxable income from here up goes through the Tax Computation Worksheet
+export const TAX_TABLE_LIMIT = 100000
+
+export interface TaxComputation {
+  method: 'TAX_TABLE' | 'TAX_COMPUTATION_WORKSHEET'
+  taxableIncome: number
+  tax: number
+  row?: { atLeast: number; lessThan: number } // Tax Table
+  rate?: number // Tax Computation Worksheet column (b)
+  subtraction?: number // Tax Computation Worksheet column (d)
 }
 
-export function calculateChildTaxCredit(dependents: any[]): number {
-  const qualifyingChildren = dependents?.filter(dep => dep.qualifiesForCTC) || []
-  return qualifyingChildren.length * 2000
+export function taxTableRow(taxableIncome: number): { atLeast: number; lessThan: number } {
+  const income = Math.max(0, taxableIncome)
+  if (income < 5) return { atLeast: 0, lessThan: 5 }
+  if (income < 15) return { atLeast: 5, lessThan: 15 }
+  if (income < 25) return { atLeast: 15, lessThan: 25 }
+  const width = income < 3000 ? 25 : 50
+  const atLeast = Math.floor(income / width) * width
+  return { atLeast, lessThan: atLeast + width }
 }
 
-export function calculateEITC(income: number, dependents: any[]): number {
-  const childCount = dependents?.filter(dep => dep.qualifiesForEITC)?.length || 0
-  
-  // 2024 EITC maximum amounts (simplified)
-  const maxEITC = {
-    0: 632,
-    1: 4213,
-    2: 6960,
-    3: 7830,
+/**
+ * Tax on Form 1040 line 16 the way the IRS figures it. Taxable income under
+ * $100,000 is looked up in the Tax Table, whose rows are $50 wide ($25 under
+ * $3,000, and narrower still below $25) and give the tax at the row's midpoint
+ * rounded to the dollar. From $100,000 up the Tax Computation Worksheet
+ * multiplies by the rate of the income's bracket and subtracts a fixed amount,
+ * which matches the brackets to the cent.
+ *
+ * calculateTaxLiability stays on the Tax Rate Schedules, which projections such
+ * as Form 1040-ES and Form 2210 use.
+ */
+export function calculateTax(taxableIncome: number, filingStatus: string, taxYear?: number): TaxComputation {
+  const income = Math.max(0, taxableIncome || 0)
+
+  if (income < TAX_TABLE_LIMIT) {
+    const row = taxTableRow(income)
+    const midpoint = (row.atLeast + row.lessThan) / 2
+    return {
+      method: 'TAX_TABLE',
+      taxableIncome: income,
+      tax: roundToWholeDollars(calculateTaxLiability(midpoint, filingStatus, taxYear)),
+      row,
+    }
   }
-  
-  const maxForChildren = maxEITC[Math.min(childCount, 3) as keyof typeof maxEITC]
-  
-  // Income limits (simplified - single filer)
-  const incomeLimits = {
-    0: 18591,
-    1: 49084,
-    2: 55768,
-    3: 59899,
+
+  // The bracket the income falls in; its subtraction amount is what the flat rate overstates
+  const brackets = getTaxBrackets(filingStatus, taxYear)
+  const bracket = [...brackets].reverse().find(b => income > b.min) || brackets[0]
+  const subtraction = money(bracket.min * bracket.rate - calculateTaxLiability(bracket.min, filingStatus, taxYear))
+  return {
+    method: 'TAX_COMPUTATION_WORKSHEET',
+    taxableIncome: income,
+    tax: money(income * bracket.rate - subtraction),
+    rate: bracket.rate,
+    subtraction,
   }
-  
-  const limitForChildren = incomeLimits[Math.min(childCount, 3) as keyof typeof incomeLimits]
-  
-  if (income > limitForChildren) {
-    return 0
+}
+
+export interface CapitalGainTaxWorksheet {
+  taxableIncome: number // Line 1
+  qualifiedDividends: number // Line 2
+  netCapitalGain: number // Line 3
+  ordinaryIncome: number // Line 5
+  taxedAtZero: number // Line 9
+  taxedAtFifteen: number // Line 17
+  taxedAtTwenty: number // Line 20
+  taxOnOrdinaryIncome: number // Line 22
+  worksheetTax: number // Line 23
+  regularTax: number // Line 24
+  tax: number // Line 25 (Form 1040, line 16)
+}
+
+/**
+ * Qualified Dividends and Capital Gain Tax Worksheet (Form 1040 instructions, line 16).
+ * `netCapitalGain` is the smaller of Schedule D lines 15 and 16, or the capital
+ * gain distributions on line 7 when Schedule D isn't required. Unrecaptured
+ * section 1250 and 28% rate gain (Schedule D Tax Worksheet) are not modeled.
+ */
+export function calculateCapitalGainTaxWorksheet(data: {
+  taxableIncome: number
+  qualifiedDividends: number
+  netCapitalGain: number
+  filingStatus: string
+  taxYear?: number
+}): CapitalGainTaxWorksheet {
+  const { filingStatus, taxYear } = data
+  const status = normalizeFilingStatus(filingStatus)
+  const { zeroRateMax, fifteenRateMax } = getTaxRules(taxYear).capitalGainRates
+
+  const line1 = Math.max(0, data.taxableIncome || 0)
+  const line2 = Math.max(0, data.qualifiedDividends || 0)
+  const line3 = Math.max(0, data.netCapitalGain || 0)
+  const line4 = line2 + line3
+  const line5 = Math.max(0, line1 - line4)
+  const line7 = Math.min(line1, zeroRateMax[status])
+  const line8 = Math.min(line5, line7)
+  const line9 = line7 - line8
+  const line10 = Math.min(line1, line4)
+  const line12 = line10 - line9
+  const line14 = Math.min(line1, fifteenRateMax[status])
+  const line15 = line5 + line9
+  const line16 = Math.max(0, line14 - line15)
+  const line17 = Math.min(line12, line16)
+  const line18 = line17 * 0.15
+  const line19 = line9 + line17
+  const line20 = line10 - line19
+  const line21 = line20 * 0.20
+  const line22 = calculateTax(line5, filingStatus, taxYear).tax
+  const line23 = money(line18 + line21 + line22)
+  const line24 = calculateTax(line1, filingStatus, taxYear).tax
+
+  return {
+    taxableIncome: line1,
+    qualifiedDividends: line2,
+    netCapitalGain: line3,
+    ordinaryIncome: line5,
+    taxedAtZero: line9,
+    taxedAtFifteen: line17,
+    taxedAtTwenty: line20,
+    taxOnOrdinaryIncome: line22,
+    worksheetTax: line23,
+    regularTax: line24,
+    tax: Math.min(line23, line24),
   }
-  
-  // Simplified calculation - in reality, EITC has phase-in and phase-out ranges
-  const phaseInRate = childCount === 0 ? 0.0765 : childCount === 1 ? 0.34 : 0.40
-  const earnedCredit = Math.min(income * phaseInRate, maxForChildren)
-  
-  return Math.round(earnedCredit)
+}
+
+export function getMarginalRate(taxableIncome: number, filingStatus: string, taxYear?: number): number {
+  let marginalRate = 0
+  for (const bracket of getTaxBrackets(filingStatus, taxYear)) {
+    if (taxableIncome > bracket.min) {
+      marginalRate = bracket.rate * 100
+    }
+  }
+  return marginalRate
+}
+
+/**
+ * Form 1040 line 12 standard deduction. Without the age, blindness and
+ * dependent boxes this is the basic amount for the filing status.
+ */
+export function getStandardDeduction(
+  filingStatus: string,
+  taxYear?: number,
+  boxes: Omit<StandardDeductionInput, 'filingStatus' | 'taxYear'> = {}
+): number {
+  return calculateStandardDeduction({ ...boxes, filingStatus, taxYear }).standardDeduction
 }
 
 export interface TaxCalculationResult {
   grossIncome: number
+  socialSecurityBenefits: SocialSecurityBenefitsResult
+  adjustmentsToIncome: number
+  schedule1Adjustments: Schedule1AdjustmentsResult
   adjustedGrossIncome: number
   standardDeduction: number
   itemizedDeduction: number
+  scheduleA: ScheduleAResult | null
+  qualifiedBusinessIncomeDeduction: number
+  qualifiedBusinessIncome: QualifiedBusinessIncomeResult | null
   taxableIncome: number
   taxLiability: number
+  capitalGainWorksheet: CapitalGainTaxWorksheet | null
+  scheduleD: ScheduleDResult
+  alternativeMinimumTax: AlternativeMinimumTaxResult
+  selfEmploymentTax: number
+  scheduleSE: ScheduleSEResult
+  additionalMedicareTax: AdditionalMedicareTaxResult
+  netInvestmentIncomeTax: NetInvestmentIncomeTaxResult
+  otherTaxes: number // Schedule 2 - AMT, excess advance PTC, SE tax, Additional Medicare Tax and NIIT
+  premiumTaxCredit: PremiumTaxCreditResult | null
+  foreignTaxCredit: ForeignTaxCreditResult
+  dependentCareCredit: DependentCareCreditResult
+  educationCredits: EducationCreditsResult
+  saversCredit: SaversCreditResult
   childTaxCredit: number
+  additionalChildTaxCredit: number
+  schedule8812: Schedule8812Result
   earnedIncomeCredit: number
+  earnedIncomeCreditDetails: EarnedIncomeCreditResult
   totalCredits: number
   totalWithholdings: number
+  estimatedTaxPayments: number
   finalTax: number
   refundAmount: number
   amountOwed: number
   effectiveRate: number
   marginalRate: number
 }
-
-export function calculateTaxReturn(data: {
-  totalIncome: number
-  filingStatus: string
-  dependents: any[]
-  itemizedDeductions: number
-  totalWithholdings?: number
-}): TaxCalculationResult {
-  const { totalIncome, filingStatus, dependents, itemizedDeductions, totalWithholdings = 0 } = data
-  
-  const grossIncome = totalIncome
-  const adjustedGrossIncome = grossIncome // No adjustments for Stage 1
-  
-  const standardDeduction = getStandardDeduction(filingStatus)
-  const itemizedDeduction = itemizedDeductions || 0
-  
-  const deduction = Math.max(standardDeduction, itemizedDeduction)
-  const taxableIncome = Math.max(0, adjustedGrossIncome - deduction)
-  
-  const taxLiability = calculateTaxLiability(taxableIncome, filingStatus)
-  
-  const childTaxCredit = calculateChildTaxCredit(dependents)
-  const earnedIncomeCredit = calculateEITC(grossIncome, dependents)
-  const totalCredits = childTaxCredit + earnedIncomeCredit
-  
-  // Calculate final tax after credits and withholdings
-  const finalTax = taxLiability - totalCredits - totalWithholdings
-  
-  // Determine refund vs amount owed
-  const refundAmount = finalTax < 0 ? Math.abs(finalTax) : 0
-  const amountOwed = finalTax > 0 ? finalTax : 0
-  
-  // Effective rate should be based on actual tax paid after withholdings
-  const actualTaxPaid = Math.max(0, taxLiability - totalCredits)
-  const effectiveRate = grossIncome > 0 ? (actualTaxPaid / grossIncome) * 100 : 0
-  
-  // Calculate marginal rate
-  const brackets = TAX_BRACKETS_2024[filingStatus.toLowerCase().replace(/_/g, '')]
-  let marginalRate = 0
-  if (brackets) {
-    for (const bracket of brackets) {
-      if (taxableIncome > bracket.min) {
-        marginalRate = bracket.rate * 100
-      }
-    }
-  }
-  
-  return {
-    grossIncome,
-    adjustedGrossIncome,
-    standardDeduction,
-    itemizedDeduction,
-    taxableIncome,
-    taxLiability,
-    childTaxCredit,
-    earnedIncomeCredit,
-    totalCredits,
-    totalWithholdings,
-    finalTax,
-    refundAmount,
-    amountOwed,
-    effectiveRate,
-    marginalRate,
-  }
-}
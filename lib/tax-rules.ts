@@ -0,0 +1,961 @@
+import { FilingStatus } from './form-1040-types'
+
+/**
+ * Tax Rules Registry
+ * Year-keyed tables of brackets, deductions, credit amounts, phase-out
+ * thresholds and contribution limits used by every tax calculation.
+ */
+
+export interface TaxBracket {
+  min: number
+  max: number
+  rate: number
+}
+
+export type FilingStatusTable<T> = Record<FilingStatus, T>
+
+export interface EarnedIncomeCreditParameters {
+  maxCredit: number
+  earnedIncomeAmount: number // Earned income at which the maximum credit is reached
+  phaseInRate: number
+  phaseOutRate: number
+  phaseOutThreshold: number // Single, HOH, QSS
+  phaseOutThresholdJoint: number // Married filing jointly
+}
+
+export interface TaxYearRules {
+  taxYear: number
+  brackets: FilingStatusTable<TaxBracket[]>
+  standardDeduction: FilingStatusTable<number>
+  additionalStandardDeduction: {
+    married: number // Each 65-or-older or blind box - MFJ, MFS, QSS
+    unmarried: number // Single, HOH
+  }
+  dependentStandardDeduction: {
+    minimum: number // Someone who can be claimed as a dependent gets the greater of this
+    earnedIncomeAddition: number // ...or earned income plus this, up to the basic amount
+  }
+  capitalGainRates: {
+    zeroRateMax: FilingStatusTable<number> // Top of the 0% qualified dividend / LTCG band
+    fifteenRateMax: FilingStatusTable<number> // Top of the 15% band; 20% above
+  }
+  childTaxCredit: {
+    amountPerChild: number
+    refundableLimitPerChild: number // Additional Child Tax Credit cap
+    otherDependentAmount: number
+    phaseOutThreshold: FilingStatusTable<number>
+    phaseOutStep: number // Credit reduction per $1,000 (or part) of MAGI over the threshold
+  }
+  earnedIncomeCredit: {
+    byQualifyingChildren: [
+      EarnedIncomeCreditParameters,
+      EarnedIncomeCreditParameters,
+      EarnedIncomeCreditParameters,
+      EarnedIncomeCreditParameters
+    ]
+    investmentIncomeLimit: number
+  }
+  socialSecurityWageBase: number // Maximum earnings subject to the 12.4% social security tax
+  qualifyingRelativeIncomeLimit: number // A qualifying relative's gross income must be less than this
+  additionalMedicareTaxThreshold: FilingStatusTable<number> // Form 8959 - not indexed for inflation
+  netInvestmentIncomeTaxThreshold: FilingStatusTable<number> // Form 8960 - not indexed for inflation
+  alternativeMinimumTax: {
+    exemption: FilingStatusTable<number>
+    exemptionPhaseOutThreshold: FilingStatusTable<number> // Exemption drops 25 cents per dollar of AMTI above this
+    rate28Threshold: FilingStatusTable<number> // AMTI taxed at 26% up to this amount, 28% above
+  }
+  studentLoanInterest: {
+    maxDeduction: number
+    phaseOutStart: FilingStatusTable<number> // Not available when married filing separately
+    phaseOutRange: FilingStatusTable<number>
+  }
+  iraDeduction: {
+    // Traditional IRA deduction phase-out when covered by a workplace retirement plan (W-2 box 13)
+    coveredPhaseOutStart: FilingStatusTable<number>
+    coveredPhaseOutRange: FilingStatusTable<number>
+    // Not covered yourself, but your spouse on a joint return is
+    spouseCoveredPhaseOutStart: number
+    spouseCoveredPhaseOutRange: number
+  }
+  educatorExpenseLimit: number // Per eligible educator
+  qualifiedBusinessIncome: {
+    threshold: FilingStatusTable<number> // Taxable income where Form 8995-A limits start
+    phaseInRange: FilingStatusTable<number> // W-2 wage/UBIA limit and SSTB exclusion are fully in above threshold + range
+  }
+  stateAndLocalTaxCap: {
+    limit: FilingStatusTable<number> // Schedule A line 5e
+    // P.L. 119-21: the cap shrinks by 30% of MAGI over this threshold, but not below the floor
+    phaseDownThreshold?: FilingStatusTable<number>
+    floor?: FilingStatusTable<number>
+  }
+  contributionLimits: {
+    electiveDeferral: number // 401(k), 403(b), most 457(b) plans
+    electiveDeferralCatchUp: number // Age 50+
+    simpleIra: number
+    ira: number
+    iraCatchUp: number // Age 50+
+    hsaSelfOnly: number
+    hsaFamily: number
+    hsaCatchUp: number // Age 55+
+  }
+  saversCredit: {
+    // Form 8880 line 9 AGI tiers: 50% up to the first, 20% up to the second, 10% up to the third
+    fiftyPercentMax: FilingStatusTable<number>
+    twentyPercentMax: FilingStatusTable<number>
+    tenPercentMax: FilingStatusTable<number>
+  }
+  // Form 2210 - IRS underpayment rate in effect from each date until the next one, covering
+  // the first installment due date through the return's due date
+  underpaymentInterestRates: Array<{ from: string; rate: number }>
+  premiumTaxCredit: {
+    // Form 8962 line 4 - the prior year's poverty guidelines: the first person plus each additional person
+    povertyLine: Record<'contiguous' | 'alaska' | 'hawaii', { base: number; additional: number }>
+    // Table 2 - the applicable figure rises from `initial` to `final` across each band of household
+    // income as a percentage of the poverty line
+    applicableFigures: Array<{ from: number; to: number; initial: number; final: number }>
+    // Table 5 - excess advance payment repayment limits below each percentage; unlimited above the last
+    repaymentLimits: Array<{ below: number; single: number; other: number }>
+  }
+}
+
+// American Rescue Plan / Inflation Reduction Act applicable figures for 2021-2025
+const ENHANCED_APPLICABLE_FIGURES = [
+  { from: 0, to: 150, initial: 0, final: 0 },
+  { from: 150, to: 200, initial: 0, final: 0.02 },
+  { from: 200, to: 250, initial: 0.02, final: 0.04 },
+  { from: 250, to: 300, initial: 0.04, final: 0.06 },
+  { from: 300, to: 400, initial: 0.06, final: 0.085 },
+  { from: 400, to: Infinity, initial: 0.085, final: 0.085 },
+]
+
+export const DEFAULT_TAX_YEAR = 2024
+
+const TAX_RULES_2023: TaxYearRules = {
+  taxYear: 2023,
+  brackets: {
+    [FilingStatus.SINGLE]: [
+      { min: 0, max: 11000, rate: 0.10 },
+      { min: 11000, max: 44725, rate: 0.12 },
+      { min: 44725, max: 95375, rate: 0.22 },
+      { min: 95375, max: 182100, rate: 0.24 },
+      { min: 182100, max: 231250, rate: 0.32 },
+      { min: 231250, max: 578125, rate: 0.35 },
+      { min: 578125, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_JOINTLY]: [
+      { min: 0, max: 22000, rate: 0.10 },
+      { min: 22000, max: 89450, rate: 0.12 },
+      { min: 89450, max: 190750, rate: 0.22 },
+      { min: 190750, max: 364200, rate: 0.24 },
+      { min: 364200, max: 462500, rate: 0.32 },
+      { min: 462500, max: 693750, rate: 0.35 },
+      { min: 693750, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: [
+      { min: 0, max: 11000, rate: 0.10 },
+      { min: 11000, max: 44725, rate: 0.12 },
+      { min: 44725, max: 95375, rate: 0.22 },
+      { min: 95375, max: 182100, rate: 0.24 },
+      { min: 182100, max: 231250, rate: 0.32 },
+      { min: 231250, max: 346875, rate: 0.35 },
+      { min: 346875, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+      { min: 0, max: 15700, rate: 0.10 },
+      { min: 15700, max: 59850, rate: 0.12 },
+      { min: 59850, max: 95350, rate: 0.22 },
+      { min: 95350, max: 182100, rate: 0.24 },
+      { min: 182100, max: 231250, rate: 0.32 },
+      { min: 231250, max: 578100, rate: 0.35 },
+      { min: 578100, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: [
+      { min: 0, max: 22000, rate: 0.10 },
+      { min: 22000, max: 89450, rate: 0.12 },
+      { min: 89450, max: 190750, rate: 0.22 },
+      { min: 190750, max: 364200, rate: 0.24 },
+      { min: 364200, max: 462500, rate: 0.32 },
+      { min: 462500, max: 693750, rate: 0.35 },
+      { min: 693750, max: Infinity, rate: 0.37 },
+    ],
+  },
+  standardDeduction: {
+    [FilingStatus.SINGLE]: 13850,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 27700,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 13850,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 20800,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 27700,
+  },
+  additionalStandardDeduction: {
+    married: 1500,
+    unmarried: 1850,
+  },
+  dependentStandardDeduction: {
+    minimum: 1250,
+    earnedIncomeAddition: 400,
+  },
+  capitalGainRates: {
+    zeroRateMax: {
+      [FilingStatus.SINGLE]: 44625,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 89250,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 44625,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 59750,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 89250,
+    },
+    fifteenRateMax: {
+      [FilingStatus.SINGLE]: 492300,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 553850,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 276900,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 523050,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 553850,
+    },
+  },
+  childTaxCredit: {
+    amountPerChild: 2000,
+    refundableLimitPerChild: 1600,
+    otherDependentAmount: 500,
+    phaseOutThreshold: {
+      [FilingStatus.SINGLE]: 200000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 400000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 200000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+    },
+    phaseOutStep: 50,
+  },
+  earnedIncomeCredit: {
+    byQualifyingChildren: [
+      { maxCredit: 600, earnedIncomeAmount: 7840, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutThreshold: 9800, phaseOutThresholdJoint: 16370 },
+      { maxCredit: 3995, earnedIncomeAmount: 11750, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutThreshold: 21560, phaseOutThresholdJoint: 28120 },
+      { maxCredit: 6604, earnedIncomeAmount: 16510, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutThreshold: 21560, phaseOutThresholdJoint: 28120 },
+      { maxCredit: 7430, earnedIncomeAmount: 16510, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutThreshold: 21560, phaseOutThresholdJoint: 28120 },
+    ],
+    investmentIncomeLimit: 11000,
+  },
+  socialSecurityWageBase: 160200,
+  qualifyingRelativeIncomeLimit: 4700,
+  additionalMedicareTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+  },
+  netInvestmentIncomeTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 250000,
+  },
+  alternativeMinimumTax: {
+    exemption: {
+      [FilingStatus.SINGLE]: 81300,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 126500,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 63250,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 81300,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 126500,
+    },
+    exemptionPhaseOutThreshold: {
+      [FilingStatus.SINGLE]: 578150,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 1156300,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 578150,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 578150,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 1156300,
+    },
+    rate28Threshold: {
+      [FilingStatus.SINGLE]: 220700,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 220700,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 110350,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 220700,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 220700,
+    },
+  },
+  studentLoanInterest: {
+    maxDeduction: 2500,
+    phaseOutStart: {
+      [FilingStatus.SINGLE]: 75000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 155000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 75000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 75000,
+    },
+    phaseOutRange: {
+      [FilingStatus.SINGLE]: 15000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 30000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 15000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 15000,
+    },
+  },
+  iraDeduction: {
+    coveredPhaseOutStart: {
+      [FilingStatus.SINGLE]: 73000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 116000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 73000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 116000,
+    },
+    coveredPhaseOutRange: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 20000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 10000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 20000,
+    },
+    spouseCoveredPhaseOutStart: 218000,
+    spouseCoveredPhaseOutRange: 10000,
+  },
+  educatorExpenseLimit: 300,
+  qualifiedBusinessIncome: {
+    threshold: {
+      [FilingStatus.SINGLE]: 182100,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 364200,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 182100,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 182100,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 182100,
+    },
+    phaseInRange: {
+      [FilingStatus.SINGLE]: 50000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 100000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 50000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 50000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 50000,
+    },
+  },
+  stateAndLocalTaxCap: {
+    limit: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 10000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 5000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 10000,
+    },
+  },
+  contributionLimits: {
+    electiveDeferral: 22500,
+    electiveDeferralCatchUp: 7500,
+    simpleIra: 15500,
+    ira: 6500,
+    iraCatchUp: 1000,
+    hsaSelfOnly: 3850,
+    hsaFamily: 7750,
+    hsaCatchUp: 1000,
+  },
+  saversCredit: {
+    fiftyPercentMax: {
+      [FilingStatus.SINGLE]: 21750,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 43500,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 21750,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 32625,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 21750,
+    },
+    twentyPercentMax: {
+      [FilingStatus.SINGLE]: 23750,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 47500,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 23750,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 35625,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 23750,
+    },
+    tenPercentMax: {
+      [FilingStatus.SINGLE]: 36500,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 73000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 36500,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 54750,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 36500,
+    },
+  },
+  underpaymentInterestRates: [
+    { from: '2023-04-15', rate: 0.07 },
+    { from: '2023-10-01', rate: 0.08 },
+  ],
+  premiumTaxCredit: {
+    povertyLine: {
+      contiguous: { base: 13590, additional: 4720 },
+      alaska: { base: 16990, additional: 5900 },
+      hawaii: { base: 15630, additional: 5430 },
+    },
+    applicableFigures: ENHANCED_APPLICABLE_FIGURES,
+    repaymentLimits: [
+      { below: 200, single: 350, other: 700 },
+      { below: 300, single: 900, other: 1800 },
+      { below: 400, single: 1500, other: 3000 },
+    ],
+  },
+}
+
+const TAX_RULES_2024: TaxYearRules = {
+  taxYear: 2024,
+  brackets: {
+    [FilingStatus.SINGLE]: [
+      { min: 0, max: 11600, rate: 0.10 },
+      { min: 11600, max: 47150, rate: 0.12 },
+      { min: 47150, max: 100525, rate: 0.22 },
+      { min: 100525, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243725, rate: 0.32 },
+      { min: 243725, max: 609350, rate: 0.35 },
+      { min: 609350, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_JOINTLY]: [
+      { min: 0, max: 23200, rate: 0.10 },
+      { min: 23200, max: 94300, rate: 0.12 },
+      { min: 94300, max: 201050, rate: 0.22 },
+      { min: 201050, max: 383900, rate: 0.24 },
+      { min: 383900, max: 487450, rate: 0.32 },
+      { min: 487450, max: 731200, rate: 0.35 },
+      { min: 731200, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: [
+      { min: 0, max: 11600, rate: 0.10 },
+      { min: 11600, max: 47150, rate: 0.12 },
+      { min: 47150, max: 100525, rate: 0.22 },
+      { min: 100525, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243725, rate: 0.32 },
+      { min: 243725, max: 365600, rate: 0.35 },
+      { min: 365600, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+      { min: 0, max: 16550, rate: 0.10 },
+      { min: 16550, max: 63100, rate: 0.12 },
+      { min: 63100, max: 100500, rate: 0.22 },
+      { min: 100500, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243700, rate: 0.32 },
+      { min: 243700, max: 609350, rate: 0.35 },
+      { min: 609350, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: [
+      { min: 0, max: 23200, rate: 0.10 },
+      { min: 23200, max: 94300, rate: 0.12 },
+      { min: 94300, max: 201050, rate: 0.22 },
+      { min: 201050, max: 383900, rate: 0.24 },
+      { min: 383900, max: 487450, rate: 0.32 },
+      { min: 487450, max: 731200, rate: 0.35 },
+      { min: 731200, max: Infinity, rate: 0.37 },
+    ],
+  },
+  standardDeduction: {
+    [FilingStatus.SINGLE]: 14600,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 29200,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 14600,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 21900,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 29200,
+  },
+  additionalStandardDeduction: {
+    married: 1550,
+    unmarried: 1950,
+  },
+  dependentStandardDeduction: {
+    minimum: 1300,
+    earnedIncomeAddition: 450,
+  },
+  capitalGainRates: {
+    zeroRateMax: {
+      [FilingStatus.SINGLE]: 47025,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 94050,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 47025,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 63000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 94050,
+    },
+    fifteenRateMax: {
+      [FilingStatus.SINGLE]: 518900,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 583750,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 291850,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 551350,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 583750,
+    },
+  },
+  childTaxCredit: {
+    amountPerChild: 2000,
+    refundableLimitPerChild: 1700,
+    otherDependentAmount: 500,
+    phaseOutThreshold: {
+      [FilingStatus.SINGLE]: 200000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 400000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 200000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+    },
+    phaseOutStep: 50,
+  },
+  earnedIncomeCredit: {
+    byQualifyingChildren: [
+      { maxCredit: 632, earnedIncomeAmount: 8260, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutThreshold: 10330, phaseOutThresholdJoint: 17250 },
+      { maxCredit: 4213, earnedIncomeAmount: 12390, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutThreshold: 22720, phaseOutThresholdJoint: 29640 },
+      { maxCredit: 6960, earnedIncomeAmount: 17400, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutThreshold: 22720, phaseOutThresholdJoint: 29640 },
+      { maxCredit: 7830, earnedIncomeAmount: 17400, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutThreshold: 22720, phaseOutThresholdJoint: 29640 },
+    ],
+    investmentIncomeLimit: 11600,
+  },
+  socialSecurityWageBase: 168600,
+  qualifyingRelativeIncomeLimit: 5050,
+  additionalMedicareTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+  },
+  netInvestmentIncomeTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 250000,
+  },
+  alternativeMinimumTax: {
+    exemption: {
+      [FilingStatus.SINGLE]: 85700,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 133300,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 66650,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 85700,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 133300,
+    },
+    exemptionPhaseOutThreshold: {
+      [FilingStatus.SINGLE]: 609350,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 1218700,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 609350,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 609350,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 1218700,
+    },
+    rate28Threshold: {
+      [FilingStatus.SINGLE]: 232600,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 232600,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 116300,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 232600,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 232600,
+    },
+  },
+  studentLoanInterest: {
+    maxDeduction: 2500,
+    phaseOutStart: {
+      [FilingStatus.SINGLE]: 80000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 165000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 80000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 80000,
+    },
+    phaseOutRange: {
+      [FilingStatus.SINGLE]: 15000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 30000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 15000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 15000,
+    },
+  },
+  iraDeduction: {
+    coveredPhaseOutStart: {
+      [FilingStatus.SINGLE]: 77000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 123000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 77000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 123000,
+    },
+    coveredPhaseOutRange: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 20000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 10000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 20000,
+    },
+    spouseCoveredPhaseOutStart: 230000,
+    spouseCoveredPhaseOutRange: 10000,
+  },
+  educatorExpenseLimit: 300,
+  qualifiedBusinessIncome: {
+    threshold: {
+      [FilingStatus.SINGLE]: 191950,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 383900,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 191950,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 191950,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 191950,
+    },
+    phaseInRange: {
+      [FilingStatus.SINGLE]: 50000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 100000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 50000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 50000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 50000,
+    },
+  },
+  stateAndLocalTaxCap: {
+    limit: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 10000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 5000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 10000,
+    },
+  },
+  contributionLimits: {
+    electiveDeferral: 23000,
+    electiveDeferralCatchUp: 7500,
+    simpleIra: 16000,
+    ira: 7000,
+    iraCatchUp: 1000,
+    hsaSelfOnly: 4150,
+    hsaFamily: 8300,
+    hsaCatchUp: 1000,
+  },
+  saversCredit: {
+    fiftyPercentMax: {
+      [FilingStatus.SINGLE]: 23000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 46000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 23000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 34500,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 23000,
+    },
+    twentyPercentMax: {
+      [FilingStatus.SINGLE]: 25000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 50000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 25000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 37500,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 25000,
+    },
+    tenPercentMax: {
+      [FilingStatus.SINGLE]: 38250,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 76500,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 38250,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 57375,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 38250,
+    },
+  },
+  underpaymentInterestRates: [
+    { from: '2024-04-15', rate: 0.08 },
+    { from: '2025-01-01', rate: 0.07 },
+  ],
+  premiumTaxCredit: {
+    povertyLine: {
+      contiguous: { base: 14580, additional: 5140 },
+      alaska: { base: 18210, additional: 6430 },
+      hawaii: { base: 16770, additional: 5910 },
+    },
+    applicableFigures: ENHANCED_APPLICABLE_FIGURES,
+    repaymentLimits: [
+      { below: 200, single: 375, other: 750 },
+      { below: 300, single: 950, other: 1900 },
+      { below: 400, single: 1575, other: 3150 },
+    ],
+  },
+}
+
+// 2025 amounts reflect Rev. Proc. 2024-40 as amended by P.L. 119-21
+// (standard deduction and child tax credit increases)
+const TAX_RULES_2025: TaxYearRules = {
+  taxYear: 2025,
+  brackets: {
+    [FilingStatus.SINGLE]: [
+      { min: 0, max: 11925, rate: 0.10 },
+      { min: 11925, max: 48475, rate: 0.12 },
+      { min: 48475, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250525, rate: 0.32 },
+      { min: 250525, max: 626350, rate: 0.35 },
+      { min: 626350, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_JOINTLY]: [
+      { min: 0, max: 23850, rate: 0.10 },
+      { min: 23850, max: 96950, rate: 0.12 },
+      { min: 96950, max: 206700, rate: 0.22 },
+      { min: 206700, max: 394600, rate: 0.24 },
+      { min: 394600, max: 501050, rate: 0.32 },
+      { min: 501050, max: 751600, rate: 0.35 },
+      { min: 751600, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: [
+      { min: 0, max: 11925, rate: 0.10 },
+      { min: 11925, max: 48475, rate: 0.12 },
+      { min: 48475, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250525, rate: 0.32 },
+      { min: 250525, max: 375800, rate: 0.35 },
+      { min: 375800, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+      { min: 0, max: 17000, rate: 0.10 },
+      { min: 17000, max: 64850, rate: 0.12 },
+      { min: 64850, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250500, rate: 0.32 },
+      { min: 250500, max: 626350, rate: 0.35 },
+      { min: 626350, max: Infinity, rate: 0.37 },
+    ],
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: [
+      { min: 0, max: 23850, rate: 0.10 },
+      { min: 23850, max: 96950, rate: 0.12 },
+      { min: 96950, max: 206700, rate: 0.22 },
+      { min: 206700, max: 394600, rate: 0.24 },
+      { min: 394600, max: 501050, rate: 0.32 },
+      { min: 501050, max: 751600, rate: 0.35 },
+      { min: 751600, max: Infinity, rate: 0.37 },
+    ],
+  },
+  standardDeduction: {
+    [FilingStatus.SINGLE]: 15750,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 31500,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 15750,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 23625,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 31500,
+  },
+  additionalStandardDeduction: {
+    married: 1600,
+    unmarried: 2000,
+  },
+  dependentStandardDeduction: {
+    minimum: 1350,
+    earnedIncomeAddition: 450,
+  },
+  capitalGainRates: {
+    zeroRateMax: {
+      [FilingStatus.SINGLE]: 48350,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 96700,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 48350,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 64750,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 96700,
+    },
+    fifteenRateMax: {
+      [FilingStatus.SINGLE]: 533400,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 600050,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 300000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 566700,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 600050,
+    },
+  },
+  childTaxCredit: {
+    amountPerChild: 2200,
+    refundableLimitPerChild: 1700,
+    otherDependentAmount: 500,
+    phaseOutThreshold: {
+      [FilingStatus.SINGLE]: 200000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 400000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 200000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+    },
+    phaseOutStep: 50,
+  },
+  earnedIncomeCredit: {
+    byQualifyingChildren: [
+      { maxCredit: 649, earnedIncomeAmount: 8490, phaseInRate: 0.0765, phaseOutRate: 0.0765, phaseOutThreshold: 10620, phaseOutThresholdJoint: 17730 },
+      { maxCredit: 4328, earnedIncomeAmount: 12730, phaseInRate: 0.34, phaseOutRate: 0.1598, phaseOutThreshold: 23350, phaseOutThresholdJoint: 30470 },
+      { maxCredit: 7152, earnedIncomeAmount: 17880, phaseInRate: 0.40, phaseOutRate: 0.2106, phaseOutThreshold: 23350, phaseOutThresholdJoint: 30470 },
+      { maxCredit: 8046, earnedIncomeAmount: 17880, phaseInRate: 0.45, phaseOutRate: 0.2106, phaseOutThreshold: 23350, phaseOutThresholdJoint: 30470 },
+    ],
+    investmentIncomeLimit: 11950,
+  },
+  socialSecurityWageBase: 176100,
+  qualifyingRelativeIncomeLimit: 5200,
+  additionalMedicareTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 200000,
+  },
+  netInvestmentIncomeTaxThreshold: {
+    [FilingStatus.SINGLE]: 200000,
+    [FilingStatus.MARRIED_FILING_JOINTLY]: 250000,
+    [FilingStatus.MARRIED_FILING_SEPARATELY]: 125000,
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: 200000,
+    [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 250000,
+  },
+  alternativeMinimumTax: {
+    exemption: {
+      [FilingStatus.SINGLE]: 88100,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 137000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 68500,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 88100,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 137000,
+    },
+    exemptionPhaseOutThreshold: {
+      [FilingStatus.SINGLE]: 626350,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 1252700,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 626350,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 626350,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 1252700,
+    },
+    rate28Threshold: {
+      [FilingStatus.SINGLE]: 239100,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 239100,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 119550,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 239100,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 239100,
+    },
+  },
+  studentLoanInterest: {
+    maxDeduction: 2500,
+    phaseOutStart: {
+      [FilingStatus.SINGLE]: 85000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 170000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 85000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 85000,
+    },
+    phaseOutRange: {
+      [FilingStatus.SINGLE]: 15000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 30000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 15000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 15000,
+    },
+  },
+  iraDeduction: {
+    coveredPhaseOutStart: {
+      [FilingStatus.SINGLE]: 79000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 126000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 0,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 79000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 126000,
+    },
+    coveredPhaseOutRange: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 20000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 10000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 20000,
+    },
+    spouseCoveredPhaseOutStart: 236000,
+    spouseCoveredPhaseOutRange: 10000,
+  },
+  educatorExpenseLimit: 300,
+  qualifiedBusinessIncome: {
+    threshold: {
+      [FilingStatus.SINGLE]: 197300,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 394600,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 197300,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 197300,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 197300,
+    },
+    phaseInRange: {
+      [FilingStatus.SINGLE]: 50000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 100000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 50000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 50000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 50000,
+    },
+  },
+  stateAndLocalTaxCap: {
+    limit: {
+      [FilingStatus.SINGLE]: 40000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 40000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 20000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 40000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 40000,
+    },
+    phaseDownThreshold: {
+      [FilingStatus.SINGLE]: 500000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 500000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 250000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 500000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 500000,
+    },
+    floor: {
+      [FilingStatus.SINGLE]: 10000,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 10000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 5000,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 10000,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 10000,
+    },
+  },
+  contributionLimits: {
+    electiveDeferral: 23500,
+    electiveDeferralCatchUp: 7500,
+    simpleIra: 16500,
+    ira: 7000,
+    iraCatchUp: 1000,
+    hsaSelfOnly: 4300,
+    hsaFamily: 8550,
+    hsaCatchUp: 1000,
+  },
+  saversCredit: {
+    fiftyPercentMax: {
+      [FilingStatus.SINGLE]: 23750,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 47500,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 23750,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 35625,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 23750,
+    },
+    twentyPercentMax: {
+      [FilingStatus.SINGLE]: 25500,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 51000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 25500,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 38250,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 25500,
+    },
+    tenPercentMax: {
+      [FilingStatus.SINGLE]: 39500,
+      [FilingStatus.MARRIED_FILING_JOINTLY]: 79000,
+      [FilingStatus.MARRIED_FILING_SEPARATELY]: 39500,
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: 59250,
+      [FilingStatus.QUALIFYING_SURVIVING_SPOUSE]: 39500,
+    },
+  },
+  underpaymentInterestRates: [
+    { from: '2025-04-15', rate: 0.07 },
+  ],
+  premiumTaxCredit: {
+    povertyLine: {
+      contiguous: { base: 15060, additional: 5380 },
+      alaska: { base: 18810, additional: 6730 },
+      hawaii: { base: 17310, additional: 6190 },
+    },
+    applicableFigures: ENHANCED_APPLICABLE_FIGURES,
+    repaymentLimits: [
+      { below: 200, single: 375, other: 750 },
+      { below: 300, single: 975, other: 1950 },
+      { below: 400, single: 1625, other: 3250 },
+    ],
+  },
+}
+
+export const TAX_RULES: Record<number, TaxYearRules> = {
+  2023: TAX_RULES_2023,
+  2024: TAX_RULES_2024,
+  2025: TAX_RULES_2025,
+}
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_RULES).map(Number).sort((a, b) => a - b)
+
+export function isSupportedTaxYear(taxYear: number): boolean {
+  return taxYear in TAX_RULES
+}
+
+/**
+ * Returns the rules for a tax year. Years outside the registry fall back to
+ * the closest supported year so older or future returns still compute.
+ */
+export function getTaxRules(taxYear?: number | null): TaxYearRules {
+  const year = Number(taxYear) || DEFAULT_TAX_YEAR
+  if (TAX_RULES[year]) {
+    return TAX_RULES[year]
+  }
+
+  const first = SUPPORTED_TAX_YEARS[0]
+  const last = SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1]
+  return TAX_RULES[year < first ? first : last]
+}
+
+/**
+ * Accepts Prisma enum values ('MARRIED_FILING_JOINTLY') as well as the
+ * lowercase/underscore-free variants used by older callers.
+ */
+export function normalizeFilingStatus(filingStatus: string | null | undefined): FilingStatus {
+  const status = (filingStatus || '').toLowerCase().replace(/[_\s-]/g, '')
+
+  switch (status) {
+    case 'marriedfilingjointly':
+      return FilingStatus.MARRIED_FILING_JOINTLY
+    case 'marriedfilingseparately':
+      return FilingStatus.MARRIED_FILING_SEPARATELY
+    case 'headofhousehold':
+      return FilingStatus.HEAD_OF_HOUSEHOLD
+    case 'qualifyingsurvivingspouse':
+    case 'qualifyingwidower':
+      return FilingStatus.QUALIFYING_SURVIVING_SPOUSE
+    default:
+      return FilingStatus.SINGLE
+  }
+}
+
+export function isJointFilingStatus(filingStatus: string | null | undefined): boolean {
+  return normalizeFilingStatus(filingStatus) === FilingStatus.MARRIED_FILING_JOINTLY
+}
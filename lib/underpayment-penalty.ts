@@ -0,0 +1,312 @@
+import { calculateTaxLiability } from './tax-calculations'
+import { getTaxRules, normalizeFilingStatus } from './tax-rules'
+import { FilingStatus } from './form-1040-types'
+import { money } from './money'
+
+/**
+ * Form 2210 - Underpayment of Estimated Tax by Individuals
+ * Part I works out the required annual payment: the smaller of 90% of this
+ * year's tax or 100% of last year's (110% when last year's AGI was over
+ * $150,000). There's no penalty when tax after withholding is under $1,000,
+ * when withholding alone covers the required payment, or when last year's
+ * tax was zero.
+ *
+ * The short method (Part III) treats every payment as made evenly across the
+ * four installments, so the penalty is the underpayment times the interest a
+ * quarter of it would accrue from each due date to the return's due date.
+ * The annualized income installment method (Schedule AI with Part IV) sizes
+ * each installment by the income actually earned so far and charges interest
+ * from each due date until the recorded payments catch up. Withholding is
+ * treated as paid in equal amounts on the due dates under both methods.
+ */
+
+export interface EstimatedPayment {
+  date: Date | string
+  amount: number
+}
+
+export interface AnnualizedIncomeInput {
+  cumulativeIncome: number[] // Schedule AI line 1 - AGI through Mar 31, May 31, Aug 31 and Dec 31
+  deduction: number // Full-year standard or itemized deduction
+  itemizing: boolean // Itemized deductions are annualized; the standard deduction isn't
+  otherTaxes: number // Schedule 2 taxes, spread in proportion to income
+  credits: number // Credits aren't annualized
+}
+
+export interface UnderpaymentPenaltyInput {
+  currentYearTax: number // Line 4 - total tax less refundable credits
+  withholding: number // Line 6
+  estimatedPayments: EstimatedPayment[]
+  priorYearTax?: number | null // Prior year's total tax; leave empty when unknown
+  priorYearAGI?: number | null
+  filingStatus: string
+  taxYear: number
+  annualized?: AnnualizedIncomeInput | null
+}
+
+export interface InstallmentResult {
+  dueDate: string
+  requiredInstallment: number // Line 18 (Schedule AI line 27 under the annualized method)
+  paidByDueDate: number
+  underpayment: number // Line 25
+  penalty: number
+}
+
+export interface RequiredAnnualPayment {
+  currentYearSafeHarbor: number // Line 5 - 90% of this year's tax
+  priorYearSafeHarbor: number | null // Line 8
+  priorYearPercentage: number // 100% or 110%
+  requiredAnnualPayment: number // Line 9
+}
+
+export interface UnderpaymentPenaltyResult {
+  currentYearTax: number // Line 4
+  currentYearSafeHarbor: number // Line 5 - 90% of line 4
+  priorYearSafeHarbor: number | null // Line 8
+  priorYearPercentage: number // 100% or 110%
+  requiredAnnualPayment: number // Line 9
+  withholding: number // Line 6
+  estimatedPayments: number // Line 12
+  underpayment: number // Line 14
+  exception: string | null // Why no penalty is due
+  shortMethodPenalty: number // Line 17
+  annualizedPenalty: number | null // Part IV line 27 with Schedule AI installments
+  installments: InstallmentResult[]
+  method: 'none' | 'short' | 'annualized'
+  penalty: number // Form 1040 line 38
+  explanation: string
+}
+
+const CURRENT_YEAR_PERCENTAGE = 0.9
+const PRIOR_YEAR_HIGH_INCOME_PERCENTAGE = 1.1
+const HIGH_INCOME_AGI = 150000
+const HIGH_INCOME_AGI_SEPARATE = 75000
+export const MINIMUM_BALANCE_DUE = 1000
+const ANNUALIZATION_FACTORS = [4, 2.4, 1.5, 1]
+const APPLICABLE_PERCENTAGES = [0.225, 0.45, 0.675, 0.9]
+const DAY = 24 * 60 * 60 * 1000
+
+function toDay(date: Date | string): number {
+  const value = typeof date === 'string' ? new Date(date.length === 10 ? `${date}T00:00:00Z` : date) : date
+  return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+}
+
+function isoDate(day: number): string {
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+/**
+ * Installment due dates (April 15, June 15, September 15 and January 15) and
+ * the return's due date; weekend and holiday extensions aren't applied.
+ */
+export function installmentDueDates(taxYear: number): { installments: string[]; returnDueDate: string } {
+  return {
+    installments: [`${taxYear}-04-15`, `${taxYear}-06-15`, `${taxYear}-09-15`, `${taxYear + 1}-01-15`],
+    returnDueDate: `${taxYear + 1}-04-15`,
+  }
+}
+
+/**
+ * Interest on an underpaid amount between two dates at the underpayment rate
+ * for each day, over a 365- or 366-day year.
+ */
+export function underpaymentInterest(amount: number, from: Date | string, to: Date | string, taxYear: number): number {
+  const rates = getTaxRules(taxYear).underpaymentInterestRates.map(period => ({ from: toDay(period.from), rate: period.rate }))
+  const end = toDay(to)
+  let interest = 0
+  for (let day = toDay(from); day < end; day += DAY) {
+    const year = new Date(day).getUTCFullYear()
+    const daysInYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0) ? 366 : 365
+    const rate = rates.filter(period => period.from <= day).pop()?.rate ?? rates[0].rate
+    interest += amount * rate / daysInYear
+  }
+  return interest
+}
+
+/**
+ * Schedule AI: each installment is the applicable percentage of tax on income
+ * annualized through that period, less earlier installments, but never more
+ * than the regular installment plus whatever earlier installments saved.
+ */
+function annualizedInstallments(input: AnnualizedIncomeInput, requiredAnnualPayment: number, filingStatus: string, taxYear: number): number[] {
+  const annualIncome = input.cumulativeIncome[3] || 0
+  const regularInstallment = requiredAnnualPayment / 4
+  const installments: number[] = []
+  let requiredSoFar = 0
+  let regularSoFar = 0
+  ANNUALIZATION_FACTORS.forEach((factor, index) => {
+    const annualizedIncome = Math.max(0, input.cumulativeIncome[index] || 0) * factor
+    const deduction = input.itemizing ? input.deduction * factor : input.deduction
+    const incomeTax = calculateTaxLiability(Math.max(0, annualizedIncome - deduction), filingStatus, taxYear)
+    const otherTaxes = annualIncome > 0 ? input.otherTaxes * annualizedIncome / annualIncome : 0
+    const annualizedTax = Math.max(0, incomeTax + otherTaxes - input.credits)
+    const line25 = Math.max(0, annualizedTax * APPLICABLE_PERCENTAGES[index] - requiredSoFar)
+    regularSoFar += regularInstallment
+    const line27 = money(Math.min(line25, regularSoFar - requiredSoFar))
+    installments.push(line27)
+    requiredSoFar += line27
+  })
+  return installments
+}
+
+/**
+ * Part IV: payments are applied to the earliest underpaid installment, and each
+ * underpaid amount accrues interest until it's paid or the return is due.
+ */
+function penaltyByInstallment(required: number[], withholding: number, payments: EstimatedPayment[], taxYear: number): InstallmentResult[] {
+  const { installments: dueDates, returnDueDate } = installmentDueDates(taxYear)
+  const results: InstallmentResult[] = dueDates.map((dueDate, index) => ({
+    dueDate,
+    requiredInstallment: required[index],
+    paidByDueDate: 0,
+    underpayment: 0,
+    penalty: 0,
+  }))
+  const outstanding: Array<{ index: number; amount: number; from: string }> = []
+  const sortedPayments = payments
+    .filter(payment => payment.amount > 0)
+    .map(payment => ({ day: toDay(payment.date), amount: payment.amount }))
+    .sort((a, b) => a.day - b.day)
+  let credit = 0
+  let next = 0
+
+  const applyPayment = (amount: number, day: number) => {
+    let remaining = amount
+    while (remaining > 0 && outstanding.length > 0) {
+      const underpaid = outstanding[0]
+      const paid = Math.min(remaining, underpaid.amount)
+      results[underpaid.index].penalty += underpaymentInterest(paid, underpaid.from, isoDate(day), taxYear)
+      underpaid.amount -= paid
+      remaining -= paid
+      if (underpaid.amount <= 0) outstanding.shift()
+    }
+    credit += remaining
+  }
+
+  dueDates.forEach((dueDate, index) => {
+    const dueDay = toDay(dueDate)
+    while (next < sortedPayments.length && sortedPayments[next].day <= dueDay) {
+      applyPayment(sortedPayments[next].amount, sortedPayments[next].day)
+      next++
+    }
+    const available = credit + withholding / 4
+    results[index].paidByDueDate = money(Math.min(available, required[index]))
+    if (available >= required[index]) {
+      credit = available - required[index]
+    } else {
+      results[index].underpayment = money(required[index] - available)
+      outstanding.push({ index, amount: required[index] - available, from: dueDate })
+      credit = 0
+    }
+  })
+  while (next < sortedPayments.length && sortedPayments[next].day < toDay(returnDueDate)) {
+    applyPayment(sortedPayments[next].amount, sortedPayments[next].day)
+    next++
+  }
+  for (const underpaid of outstanding) {
+    results[underpaid.index].penalty += underpaymentInterest(underpaid.amount, underpaid.from, returnDueDate, taxYear)
+  }
+
+  return results.map(result => ({ ...result, penalty: money(result.penalty) }))
+}
+
+/**
+ * Lines 5-9 (1040-ES worksheet lines 12a-12c): the smaller of 90% of this
+ * year's tax and 100% or 110% of last year's. Without a prior-year tax only
+ * the current-year safe harbor applies.
+ */
+export function requiredAnnualPayment(
+  input: Pick<UnderpaymentPenaltyInput, 'currentYearTax' | 'priorYearTax' | 'priorYearAGI' | 'filingStatus'>
+): RequiredAnnualPayment {
+  const status = normalizeFilingStatus(input.filingStatus)
+  const currentYearSafeHarbor = money(Math.max(0, input.currentYearTax || 0) * CURRENT_YEAR_PERCENTAGE)
+  const hasPriorYear = input.priorYearTax !== null && input.priorYearTax !== undefined
+  const highIncomeAGI = status === FilingStatus.MARRIED_FILING_SEPARATELY ? HIGH_INCOME_AGI_SEPARATE : HIGH_INCOME_AGI
+  const priorYearPercentage = (input.priorYearAGI || 0) > highIncomeAGI ? PRIOR_YEAR_HIGH_INCOME_PERCENTAGE : 1
+  const priorYearSafeHarbor = hasPriorYear ? money(Math.max(0, input.priorYearTax || 0) * priorYearPercentage) : null
+  return {
+    currentYearSafeHarbor,
+    priorYearSafeHarbor,
+    priorYearPercentage,
+    requiredAnnualPayment: priorYearSafeHarbor === null ? currentYearSafeHarbor : Math.min(currentYearSafeHarbor, priorYearSafeHarbor),
+  }
+}
+
+export function calculateUnderpaymentPenalty(input: UnderpaymentPenaltyInput): UnderpaymentPenaltyResult {
+  const line4 = Math.max(0, input.currentYearTax || 0)
+  const line6 = Math.max(0, input.withholding || 0)
+  const line7 = line4 - line6
+  const hasPriorYear = input.priorYearTax !== null && input.priorYearTax !== undefined
+  const {
+    currentYearSafeHarbor: line5,
+    priorYearSafeHarbor: line8,
+    priorYearPercentage,
+    requiredAnnualPayment: line9,
+  } = requiredAnnualPayment(input)
+  const payments = (input.estimatedPayments || []).filter(payment => payment.amount > 0)
+  const line12 = payments.reduce((sum, payment) => sum + payment.amount, 0)
+  const line14 = Math.max(0, money(line9 - line6 - line12))
+
+  let exception: string | null = null
+  if (line7 < MINIMUM_BALANCE_DUE) {
+    exception = `Tax after withholding is under $${MINIMUM_BALANCE_DUE.toLocaleString()}.`
+  } else if (hasPriorYear && (input.priorYearTax || 0) <= 0) {
+    exception = 'There was no tax liability last year.'
+  } else if (line6 >= line9) {
+    exception = 'Withholding covers the required annual payment.'
+  }
+
+  // Short method: a quarter of the underpayment accrues from each due date to the return's due date
+  const { installments: dueDates, returnDueDate } = installmentDueDates(input.taxYear)
+  const shortMethodPenalty = exception || line14 === 0
+    ? 0
+    : money(dueDates.reduce((sum, dueDate) => sum + underpaymentInterest(line14 / 4, dueDate, returnDueDate, input.taxYear), 0))
+
+  let installments: InstallmentResult[] = []
+  let annualizedPenalty: number | null = null
+  if (!exception && input.annualized && input.annualized.cumulativeIncome.length === ANNUALIZATION_FACTORS.length) {
+    const required = annualizedInstallments(input.annualized, line9, input.filingStatus, input.taxYear)
+    installments = penaltyByInstallment(required, line6, payments, input.taxYear)
+    annualizedPenalty = money(installments.reduce((sum, installment) => sum + installment.penalty, 0))
+  }
+
+  const method = exception || (shortMethodPenalty === 0 && !annualizedPenalty)
+    ? 'none'
+    : annualizedPenalty !== null && annualizedPenalty < shortMethodPenalty ? 'annualized' : 'short'
+  const penalty = method === 'annualized' ? annualizedPenalty || 0 : method === 'short' ? shortMethodPenalty : 0
+
+  let explanation: string
+  if (exception) {
+    explanation = `No underpayment penalty: ${exception.charAt(0).toLowerCase()}${exception.slice(1)}`
+  } else if (penalty === 0 && method === 'annualized') {
+    explanation = 'Under the annualized income installment method every installment was paid on time, so there\'s no penalty.'
+  } else if (penalty === 0) {
+    explanation = `Withholding and estimated payments of $${(line6 + line12).toLocaleString()} meet the required annual payment of $${line9.toLocaleString()}.`
+  } else {
+    const harbor = line8 !== null && line8 < line5
+      ? `${Math.round(priorYearPercentage * 100)}% of last year's tax`
+      : '90% of this year\'s tax'
+    explanation = `Payments fell $${line14.toLocaleString()} short of the required annual payment of $${line9.toLocaleString()} (${harbor}). ` +
+                  (method === 'annualized'
+                    ? `The annualized income installment method lowers the penalty to $${penalty.toLocaleString()}.`
+                    : `Projected penalty under the short method: $${penalty.toLocaleString()}.`)
+  }
+
+  return {
+    currentYearTax: line4,
+    currentYearSafeHarbor: line5,
+    priorYearSafeHarbor: line8,
+    priorYearPercentage,
+    requiredAnnualPayment: line9,
+    withholding: line6,
+    estimatedPayments: line12,
+    underpayment: line14,
+    exception,
+    shortMethodPenalty,
+    annualizedPenalty,
+    installments,
+    method,
+    penalty,
+    explanation,
+  }
+}
@@ -1,4 +1,6 @@
 import { Form1040Data, W2ToForm1040Mapping } from './form-1040-types';
+import { electiveDeferralsFromBox12 } from './savers-credit';
+import { addMoney, money } from './money';
 
 export class W2ToForm1040Mapper {
   /**
@@ -181,7 +183,7 @@ export class W2ToForm1040Mapper {
     }
     
     if (wages > 0) {
-      form1040Data.line1 = (form1040Data.line1 || 0) + wages;
+      form1040Data.line1 = addMoney(form1040Data.line1, wages);
       console.log('✅ [W2 MAPPER] Successfully mapped wages to Line 1:', form1040Data.line1);
     } else {
       console.log('⚠️ [W2 MAPPER] No valid wages found to map to Line 1');
@@ -197,49 +199,49 @@ export class W2ToForm1040Mapper {
     console.log('🔍 [W2 MAPPER] Parsed federal tax withheld amount:', federalTaxWithheld);
     
     if (federalTaxWithheld > 0) {
-      form1040Data.line25a = (form1040Data.line25a || 0) + federalTaxWithheld;
+      form1040Data.line25a = addMoney(form1040Data.line25a, federalTaxWithheld);
       console.log('✅ [W2 MAPPER] Successfully mapped federal tax withheld to Line 25a:', form1040Data.line25a);
     } else {
       console.log('⚠️ [W2 MAPPER] No valid federal tax withheld found to map to Line 25a');
     }
 
-    // Calculate total income (Line 9) - simplified calculation
-    form1040Data.line9 = this.calculateTotalIncome(form1040Data);
-
-    // Calculate AGI (Line 11) - simplified (no adjustments for now)
-    form1040Data.line11 = form1040Data.line9;
-
-    // Apply standard deduction (Line 12) if not itemizing
-    if (!form1040Data.line12 && form1040Data.filingStatus) {
-      form1040Data.line12 = this.getStandardDeduction(form1040Data.filingStatus);
+    // W-2 boxes 3 and 7: Social security wages and tips → Schedule SE wage base coordination
+    const socialSecurityWages = this.parseAmount(actualW2Data.socialSecurityWages) + this.parseAmount(actualW2Data.socialSecurityTips);
+    if (socialSecurityWages > 0) {
+      if (!form1040Data.w2Totals) form1040Data.w2Totals = {};
+      form1040Data.w2Totals.socialSecurityWages = addMoney(form1040Data.w2Totals.socialSecurityWages, socialSecurityWages);
     }
 
-    // Calculate taxable income (Line 15)
-    form1040Data.line15 = Math.max(0, (form1040Data.line11 || 0) - (form1040Data.line12 || 0) - (form1040Data.line13 || 0));
-
-    // Calculate tax liability (Line 16) - simplified
-    form1040Data.line16 = this.calculateTaxLiability(form1040Data.line15 || 0, form1040Data.filingStatus);
-
-    // Calculate total tax (Line 24) - simplified
-    form1040Data.line24 = (form1040Data.line16 || 0) + (form1040Data.line17 || 0) + (form1040Data.line23 || 0);
+    // W-2 box 4: Social security tax withheld → Schedule 8812 Part II-B
+    const socialSecurityTaxWithheld = this.parseAmount(actualW2Data.socialSecurityTaxWithheld);
+    if (socialSecurityTaxWithheld > 0) {
+      if (!form1040Data.w2Totals) form1040Data.w2Totals = {};
+      form1040Data.w2Totals.socialSecurityTaxWithheld = addMoney(form1040Data.w2Totals.socialSecurityTaxWithheld, socialSecurityTaxWithheld);
+    }
 
-    // Calculate total payments (Line 32)
-    form1040Data.line32 = (form1040Data.line25a || 0) + (form1040Data.line25b || 0) + (form1040Data.line25c || 0) + (form1040Data.line25d || 0);
+    // W-2 boxes 5 and 6: Medicare wages and tax withheld → Form 8959
+    const medicareWages = this.parseAmount(actualW2Data.medicareWages);
+    const medicareTaxWithheld = this.parseAmount(actualW2Data.medicareTaxWithheld);
+    if (medicareWages > 0 || medicareTaxWithheld > 0) {
+      if (!form1040Data.w2Totals) form1040Data.w2Totals = {};
+      form1040Data.w2Totals.medicareWages = addMoney(form1040Data.w2Totals.medicareWages, medicareWages);
+      form1040Data.w2Totals.medicareTaxWithheld = addMoney(form1040Data.w2Totals.medicareTaxWithheld, medicareTaxWithheld);
+    }
 
-    // Calculate refund or amount owed
-    const totalTax = form1040Data.line24 || 0;
-    const totalPayments = form1040Data.line32 || 0;
+    // W-2 box 10: Dependent care benefits → Form 2441 Part III exclusion
+    const dependentCareBenefits = this.parseAmount(actualW2Data.dependentCareBenefits);
+    if (dependentCareBenefits > 0) {
+      if (!form1040Data.w2Totals) form1040Data.w2Totals = {};
+      form1040Data.w2Totals.dependentCareBenefits = addMoney(form1040Data.w2Totals.dependentCareBenefits, dependentCareBenefits);
+    }
 
-    if (totalPayments > totalTax) {
-      // Refund
-      form1040Data.line33 = totalPayments - totalTax;
-      form1040Data.line34 = form1040Data.line33; // Default to full refund
-      form1040Data.line37 = 0;
-    } else {
-      // Amount owed
-      form1040Data.line33 = 0;
-      form1040Data.line34 = 0;
-      form1040Data.line37 = totalTax - totalPayments;
+    // W-2 box 12 codes D, E and G: Elective deferrals → Form 8880 line 2
+    const electiveDeferrals = actualW2Data.electiveDeferrals !== undefined
+      ? this.parseAmount(actualW2Data.electiveDeferrals)
+      : electiveDeferralsFromBox12([actualW2Data.box12a, actualW2Data.box12b, actualW2Data.box12c, actualW2Data.box12d]);
+    if (electiveDeferrals > 0) {
+      if (!form1040Data.w2Totals) form1040Data.w2Totals = {};
+      form1040Data.w2Totals.electiveDeferrals = addMoney(form1040Data.w2Totals.electiveDeferrals, electiveDeferrals);
     }
 
     console.log('✅ [W2 MAPPER] Mapping completed successfully');
@@ -515,15 +517,14 @@ export class W2ToForm1040Mapper {
     
     if (typeof value === 'number') {
       console.log('🔍 [PARSE AMOUNT] Value is already a number:', value);
-      return isNaN(value) ? 0 : value;
+      return money(value);
     }
     
     if (typeof value === 'string') {
-      // Remove currency symbols, commas, and whitespace
+      // Remove currency symbols, commas, and whitespace, then read it to the cent
       const cleaned = value.replace(/[$,\s]/g, '');
       console.log('🔍 [PARSE AMOUNT] Cleaned string:', cleaned);
-      const parsed = parseFloat(cleaned);
-      const result = isNaN(parsed) ? 0 : parsed;
+      const result = money(cleaned);
       console.log('🔍 [PARSE AMOUNT] Parsed result:', result);
       return result;
     }
@@ -574,7 +575,7 @@ export class W2ToForm1040Mapper {
         
         // Parse the amount
         const cleanedAmount = wageString.replace(/[,$\s]/g, '');
-        const parsedAmount = parseFloat(cleanedAmount);
+        const parsedAmount = money(cleanedAmount);
         
         // Enhanced validation - allow amounts up to $100M (was limited to $10K before)
         if (!isNaN(parsedAmount) && parsedAmount > 0 && parsedAmount < 100000000) {
@@ -698,66 +699,6 @@ export class W2ToForm1040Mapper {
     return result;
   }
 
-  private static calculateTotalIncome(form1040Data: Partial<Form1040Data>): number {
-    return (
-      (form1040Data.line1 || 0) +
-      (form1040Data.line2b || 0) +
-      (form1040Data.line3b || 0) +
-      (form1040Data.line4b || 0) +
-      (form1040Data.line5b || 0) +
-      (form1040Data.line6b || 0) +
-      (form1040Data.line7 || 0) +
-      (form1040Data.line8 || 0)
-    );
-  }
-
-  private static getStandardDeduction(filingStatus: any): number {
-    const STANDARD_DEDUCTION_2023: Record<string, number> = {
-      'SINGLE': 13850,
-      'MARRIED_FILING_JOINTLY': 27700,
-      'MARRIED_FILING_SEPARATELY': 13850,
-      'HEAD_OF_HOUSEHOLD': 20800,
-      'QUALIFYING_SURVIVING_SPOUSE': 27700
-    };
-    
-    return STANDARD_DEDUCTION_2023[filingStatus] || STANDARD_DEDUCTION_2023['SINGLE'];
-  }
-
-  private static calculateTaxLiability(taxableIncome: number, filingStatus: any): number {
-    // Simplified tax calculation using 2023 tax brackets
-    const brackets: Array<{ min: number; max: number; rate: number }> = 
-      filingStatus === 'MARRIED_FILING_JOINTLY' ? [
-        { min: 0, max: 22000, rate: 0.10 },
-        { min: 22000, max: 89450, rate: 0.12 },
-        { min: 89450, max: 190750, rate: 0.22 },
-        { min: 190750, max: 364200, rate: 0.24 },
-        { min: 364200, max: 462500, rate: 0.32 },
-        { min: 462500, max: 693750, rate: 0.35 },
-        { min: 693750, max: Infinity, rate: 0.37 }
-      ] : [
-        { min: 0, max: 11000, rate: 0.10 },
-        { min: 11000, max: 44725, rate: 0.12 },
-        { min: 44725, max: 95375, rate: 0.22 },
-        { min: 95375, max: 182050, rate: 0.24 },
-        { min: 182050, max: 231250, rate: 0.32 },
-        { min: 231250, max: 578125, rate: 0.35 },
-        { min: 578125, max: Infinity, rate: 0.37 }
-      ];
-
-    let tax = 0;
-    let remainingIncome = taxableIncome;
-
-    for (const bracket of brackets) {
-      if (remainingIncome <= 0) break;
-      
-      const taxableAtThisBracket = Math.min(remainingIncome, bracket.max - bracket.min);
-      tax += taxableAtThisBracket * bracket.rate;
-      remainingIncome -= taxableAtThisBracket;
-    }
-
-    return Math.round(tax * 100) / 100; // Round to 2 decimal places
-  }
-
   /**
    * Validates that W2 data can be properly mapped to 1040
    */
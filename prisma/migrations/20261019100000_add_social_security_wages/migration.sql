@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "socialSecurityWages" DECIMAL(12,2);
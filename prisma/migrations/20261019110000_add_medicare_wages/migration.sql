@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "medicareWages" DECIMAL(12,2),
+ADD COLUMN "medicareTaxWithheld" DECIMAL(12,2);
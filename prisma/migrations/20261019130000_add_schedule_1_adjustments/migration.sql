@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "DeductionType" ADD VALUE 'HSA_CONTRIBUTIONS';
+ALTER TYPE "DeductionType" ADD VALUE 'EDUCATOR_EXPENSES';
+ALTER TYPE "DeductionType" ADD VALUE 'EARLY_WITHDRAWAL_PENALTY';
+
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "retirementPlan" BOOLEAN;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "CharitableGiftType" AS ENUM ('CASH', 'PROPERTY', 'CAPITAL_GAIN_PROPERTY', 'PRIVATE_FOUNDATION');
+
+-- AlterTable
+ALTER TABLE "DeductionEntry" ADD COLUMN "giftType" "CharitableGiftType";
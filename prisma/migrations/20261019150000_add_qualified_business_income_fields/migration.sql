@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "businessW2Wages" DECIMAL(12,2),
+ADD COLUMN "businessPropertyBasis" DECIMAL(12,2),
+ADD COLUMN "specifiedServiceBusiness" BOOLEAN;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "EducationCreditType" AS ENUM ('AMERICAN_OPPORTUNITY', 'LIFETIME_LEARNING');
+
+-- CreateTable
+CREATE TABLE "EducationExpense" (
+    "id" TEXT NOT NULL,
+    "taxReturnId" TEXT NOT NULL,
+    "dependentId" TEXT,
+    "documentId" TEXT,
+    "studentName" TEXT NOT NULL,
+    "institutionName" TEXT,
+    "institutionEIN" TEXT,
+    "qualifiedExpenses" DECIMAL(12,2) NOT NULL,
+    "scholarships" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "halfTimeStudent" BOOLEAN NOT NULL DEFAULT true,
+    "graduateStudent" BOOLEAN NOT NULL DEFAULT false,
+    "priorAotcYears" INTEGER NOT NULL DEFAULT 0,
+    "felonyDrugConviction" BOOLEAN NOT NULL DEFAULT false,
+    "creditType" "EducationCreditType" NOT NULL DEFAULT 'AMERICAN_OPPORTUNITY',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EducationExpense_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "EducationExpense" ADD CONSTRAINT "EducationExpense_taxReturnId_fkey" FOREIGN KEY ("taxReturnId") REFERENCES "TaxReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EducationExpense" ADD CONSTRAINT "EducationExpense_dependentId_fkey" FOREIGN KEY ("dependentId") REFERENCES "Dependent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EducationExpense" ADD CONSTRAINT "EducationExpense_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "dependentCareBenefits" DECIMAL(12,2);
+
+-- CreateTable
+CREATE TABLE "DependentCareExpense" (
+    "id" TEXT NOT NULL,
+    "taxReturnId" TEXT NOT NULL,
+    "dependentId" TEXT,
+    "qualifyingPersonName" TEXT NOT NULL,
+    "underThirteen" BOOLEAN NOT NULL DEFAULT true,
+    "disabled" BOOLEAN NOT NULL DEFAULT false,
+    "providerName" TEXT NOT NULL,
+    "providerEIN" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DependentCareExpense_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "DependentCareExpense" ADD CONSTRAINT "DependentCareExpense_taxReturnId_fkey" FOREIGN KEY ("taxReturnId") REFERENCES "TaxReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DependentCareExpense" ADD CONSTRAINT "DependentCareExpense_dependentId_fkey" FOREIGN KEY ("dependentId") REFERENCES "Dependent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "electiveDeferrals" DECIMAL(12,2);
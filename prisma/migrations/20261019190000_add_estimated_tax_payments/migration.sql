@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "estimatedTaxPenalty" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "priorYearTax" DECIMAL(12,2),
+ADD COLUMN "priorYearAdjustedGrossIncome" DECIMAL(12,2),
+ADD COLUMN "annualizedIncome" DECIMAL(12,2)[] DEFAULT ARRAY[]::DECIMAL(12,2)[];
+
+-- CreateTable
+CREATE TABLE "EstimatedTaxPayment" (
+    "id" TEXT NOT NULL,
+    "taxReturnId" TEXT NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EstimatedTaxPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "EstimatedTaxPayment" ADD CONSTRAINT "EstimatedTaxPayment_taxReturnId_fkey" FOREIGN KEY ("taxReturnId") REFERENCES "TaxReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
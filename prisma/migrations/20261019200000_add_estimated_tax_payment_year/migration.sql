@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EstimatedTaxPayment" ADD COLUMN "taxYear" INTEGER;
+
+-- Existing payments were recorded against the return's own year
+UPDATE "EstimatedTaxPayment" SET "taxYear" = "TaxReturn"."taxYear"
+FROM "TaxReturn" WHERE "EstimatedTaxPayment"."taxReturnId" = "TaxReturn"."id";
+
+ALTER TABLE "EstimatedTaxPayment" ALTER COLUMN "taxYear" SET NOT NULL;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "HoldingPeriod" AS ENUM ('SHORT_TERM', 'LONG_TERM');
+
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "shortTermLossCarryover" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "longTermLossCarryover" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CapitalAssetSale" (
+    "id" TEXT NOT NULL,
+    "taxReturnId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "dateAcquired" TIMESTAMP(3),
+    "dateSold" TIMESTAMP(3) NOT NULL,
+    "proceeds" DECIMAL(12,2) NOT NULL,
+    "costBasis" DECIMAL(12,2) NOT NULL,
+    "holdingPeriod" "HoldingPeriod" NOT NULL,
+    "basisReported" BOOLEAN NOT NULL DEFAULT true,
+    "adjustmentCode" TEXT,
+    "adjustmentAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CapitalAssetSale_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "CapitalAssetSale" ADD CONSTRAINT "CapitalAssetSale_taxReturnId_fkey" FOREIGN KEY ("taxReturnId") REFERENCES "TaxReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
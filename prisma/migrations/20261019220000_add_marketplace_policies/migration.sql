@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'FORM_1095_A';
+
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "dependentsModifiedAGI" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "MarketplacePolicy" (
+    "id" TEXT NOT NULL,
+    "taxReturnId" TEXT NOT NULL,
+    "documentId" TEXT,
+    "marketplaceIdentifier" TEXT,
+    "policyNumber" TEXT,
+    "issuerName" TEXT,
+    "monthlyPremiums" DECIMAL(12,2)[] DEFAULT ARRAY[]::DECIMAL(12,2)[],
+    "monthlySlcspPremiums" DECIMAL(12,2)[] DEFAULT ARRAY[]::DECIMAL(12,2)[],
+    "monthlyAdvancePayments" DECIMAL(12,2)[] DEFAULT ARRAY[]::DECIMAL(12,2)[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplacePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "MarketplacePolicy" ADD CONSTRAINT "MarketplacePolicy_taxReturnId_fkey" FOREIGN KEY ("taxReturnId") REFERENCES "TaxReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplacePolicy" ADD CONSTRAINT "MarketplacePolicy_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "foreignTaxPaid" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "foreignSourceIncome" DECIMAL(12,2),
+ADD COLUMN "foreignTaxCreditCarryover" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "foreignTaxDirectCredit" BOOLEAN NOT NULL DEFAULT true;
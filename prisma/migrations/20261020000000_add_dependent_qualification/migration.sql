@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Dependent" ADD COLUMN "monthsLivedWithTaxpayer" INTEGER NOT NULL DEFAULT 12,
+ADD COLUMN "fullTimeStudent" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "permanentlyDisabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "providedOwnSupport" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "taxpayerProvidedSupport" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "grossIncome" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "filedJointReturn" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "citizenOrResident" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "otherClaimant" TEXT,
+ADD COLUMN "otherClaimantMonths" INTEGER,
+ADD COLUMN "otherClaimantAGI" DECIMAL(12,2),
+ADD COLUMN "isDependent" BOOLEAN NOT NULL DEFAULT true;
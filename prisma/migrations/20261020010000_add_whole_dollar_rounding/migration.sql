@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "roundToWholeDollars" BOOLEAN NOT NULL DEFAULT false;
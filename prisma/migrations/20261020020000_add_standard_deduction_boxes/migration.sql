@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "taxpayerBirthDate" TIMESTAMP(3),
+ADD COLUMN "taxpayerBlind" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "spouseBirthDate" TIMESTAMP(3),
+ADD COLUMN "spouseBlind" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "canBeClaimedAsDependent" BOOLEAN NOT NULL DEFAULT false;
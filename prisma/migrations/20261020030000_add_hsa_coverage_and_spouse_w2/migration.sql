@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "TaxReturn" ADD COLUMN "hsaFamilyCoverage" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "hsaEmployerContributions" DECIMAL(12,2),
+ADD COLUMN "spouseW2" BOOLEAN NOT NULL DEFAULT false;
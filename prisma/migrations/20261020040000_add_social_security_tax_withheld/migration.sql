@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IncomeEntry" ADD COLUMN "socialSecurityTaxWithheld" DECIMAL(12,2);